@@ -0,0 +1,62 @@
+import { DurableObject } from 'cloudflare:workers'
+
+import { fetchIntrospection, SCHEMA_CACHE_TTL_MS } from '../graphql.schema'
+
+import type { Env } from '../graphql.context'
+import type { CachedSchema } from '../graphql.schema'
+
+// Storage values are limited to 2MB, so the schema is stored in chunks
+const CHUNK_LENGTH = 500_000
+
+// Durable Object caching the introspected GraphQL schema, which is the same for every user
+export class GraphQLSchemaCache extends DurableObject<Env> {
+	private cached: CachedSchema | undefined
+	private refreshing: Promise<CachedSchema> | undefined
+
+	/**
+	 * Returns the cached schema, introspecting it again with the given token if it is older than
+	 * SCHEMA_CACHE_TTL_MS. Concurrent calls share a single introspection request.
+	 */
+	async getSchema(apiToken: string): Promise<CachedSchema> {
+		this.cached ??= await this.load()
+		if (this.cached && Date.now() - this.cached.fetchedAt < SCHEMA_CACHE_TTL_MS) {
+			return this.cached
+		}
+
+		this.refreshing ??= this.refresh(apiToken).finally(() => {
+			this.refreshing = undefined
+		})
+		return await this.refreshing
+	}
+
+	private async refresh(apiToken: string): Promise<CachedSchema> {
+		const cached = { schema: await fetchIntrospection(apiToken), fetchedAt: Date.now() }
+		const json = JSON.stringify(cached.schema)
+		const chunks: Record<string, string> = {}
+		for (let i = 0; i * CHUNK_LENGTH < json.length; i++) {
+			chunks[`chunk:${i}`] = json.slice(i * CHUNK_LENGTH, (i + 1) * CHUNK_LENGTH)
+		}
+		await this.ctx.storage.deleteAll()
+		await this.ctx.storage.put(chunks)
+		await this.ctx.storage.put('meta', {
+			fetchedAt: cached.fetchedAt,
+			chunks: Object.keys(chunks).length,
+		})
+
+		this.cached = cached
+		return cached
+	}
+
+	private async load(): Promise<CachedSchema | undefined> {
+		const meta = await this.ctx.storage.get<{ fetchedAt: number; chunks: number }>('meta')
+		if (!meta) {
+			return
+		}
+		const keys = Array.from({ length: meta.chunks }, (_, i) => `chunk:${i}`)
+		const chunks = await this.ctx.storage.get<string>(keys)
+		return {
+			schema: JSON.parse(keys.map((key) => chunks.get(key) ?? '').join('')),
+			fetchedAt: meta.fetchedAt,
+		}
+	}
+}
@@ -15,12 +15,14 @@ import { registerAccountTools } from '@repo/mcp-common/src/tools/account.tools'
 import { registerZoneTools } from '@repo/mcp-common/src/tools/zone.tools'
 import { MetricsTracker } from '@repo/mcp-observability'
 
+import { GraphQLSchemaCache } from './durable-objects/graphql_schema_cache.do'
+import { registerGraphQLPrompts } from './prompts/graphql.prompts'
 import { registerGraphQLTools } from './tools/graphql.tools'
 
 import type { AuthProps } from '@repo/mcp-common/src/cloudflare-oauth-handler'
 import type { Env } from './graphql.context'
 
-export { UserDetails }
+export { GraphQLSchemaCache, UserDetails }
 
 const env = getEnv<Env>()
 
@@ -48,7 +50,10 @@ export class GraphQLMCP extends McpAgent<Env, State, Props> {
 		return this._server
 	}
 
-	constructor(ctx: DurableObjectState, env: Env) {
+	constructor(
+		public ctx: DurableObjectState,
+		public env: Env
+	) {
 		super(ctx, env)
 	}
 
@@ -78,6 +83,9 @@ export class GraphQLMCP extends McpAgent<Env, State, Props> {
 
 		// Register GraphQL tools
 		registerGraphQLTools(this)
+
+		// Register a prompt for each query template
+		registerGraphQLPrompts(this)
 	}
 
 	async getActiveAccountId() {
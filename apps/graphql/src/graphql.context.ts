@@ -1,4 +1,4 @@
-import type { GraphQLMCP, UserDetails } from './graphql.app'
+import type { GraphQLMCP, GraphQLSchemaCache, UserDetails } from './graphql.app'
 
 export interface Env {
 	OAUTH_KV: KVNamespace
@@ -9,6 +9,7 @@ export interface Env {
 	CLOUDFLARE_CLIENT_SECRET: string
 	MCP_OBJECT: DurableObjectNamespace<GraphQLMCP>
 	USER_DETAILS: DurableObjectNamespace<UserDetails>
+	GRAPHQL_SCHEMA_CACHE: DurableObjectNamespace<GraphQLSchemaCache>
 	MCP_METRICS: AnalyticsEngineDataset
 	SENTRY_ACCESS_CLIENT_ID: string
 	SENTRY_ACCESS_CLIENT_SECRET: string
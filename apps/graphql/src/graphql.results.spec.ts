@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { fetchDatasets, findDatasets, formatDatasets, getTimeWindows } from './graphql.results'
+
+import type { GraphQLResult } from './graphql.results'
+
+const response = (rows: Array<Record<string, unknown>>): GraphQLResult => ({
+	data: { viewer: { zones: [{ zoneTag: 'abc', groups: rows }] } },
+	errors: null,
+})
+
+describe('findDatasets', () => {
+	it('flattens nested objects and adds the fields of accounts and zones', () => {
+		const datasets = findDatasets({
+			viewer: {
+				zones: [
+					{
+						zoneTag: 'abc',
+						httpRequestsAdaptiveGroups: [
+							{ count: 3, dimensions: { clientCountryName: 'PT' }, sum: { edgeResponseBytes: 10 } },
+						],
+					},
+					{
+						zoneTag: 'def',
+						httpRequestsAdaptiveGroups: [{ count: 1, dimensions: null, sum: null }],
+					},
+				],
+			},
+		})
+
+		expect(datasets).toEqual([
+			{
+				path: 'viewer.zones.httpRequestsAdaptiveGroups',
+				rows: [
+					{ zoneTag: 'abc', count: 3, clientCountryName: 'PT', 'sum.edgeResponseBytes': 10 },
+					{ zoneTag: 'def', count: 1, dimensions: null, sum: null },
+				],
+			},
+		])
+	})
+})
+
+describe('formatDatasets', () => {
+	it('formats datasets as TSV with the columns of all rows', async () => {
+		const tables = await formatDatasets([
+			{ path: 'viewer.zones.groups', rows: [{ count: 1 }, { count: 2, country: 'PT' }] },
+		])
+
+		expect(tables).toBe('viewer.zones.groups (2 rows)\ncount\tcountry\n1\t\n2\tPT')
+	})
+})
+
+describe('getTimeWindows', () => {
+	it('splits the time range into windows', () => {
+		const windows = getTimeWindows(
+			{ start: '2025-01-01T00:00:00Z', end: '2025-01-01T02:30:00Z', zoneTag: 'abc' },
+			{ mode: 'time', start_variable: 'start', end_variable: 'end', window_minutes: 60 }
+		)
+
+		expect(windows).toEqual([
+			{ start: '2025-01-01T00:00:00Z', end: '2025-01-01T01:00:00Z', zoneTag: 'abc' },
+			{ start: '2025-01-01T01:00:00Z', end: '2025-01-01T02:00:00Z', zoneTag: 'abc' },
+			{ start: '2025-01-01T02:00:00Z', end: '2025-01-01T02:30:00Z', zoneTag: 'abc' },
+		])
+	})
+
+	it('rejects ranges that need too many requests', () => {
+		expect(() =>
+			getTimeWindows(
+				{ start: '2025-01-01T00:00:00Z', end: '2025-02-01T00:00:00Z' },
+				{ mode: 'time', start_variable: 'start', end_variable: 'end', window_minutes: 60 }
+			)
+		).toThrow('would take 744 requests')
+	})
+})
+
+describe('fetchDatasets', () => {
+	it('merges time windows until the row budget is reached', async () => {
+		const execute = vi.fn(async (variables: Record<string, unknown>) =>
+			response([{ count: 1, dimensions: { datetimeHour: variables.start } }])
+		)
+
+		const result = await fetchDatasets(
+			execute,
+			{ start: '2025-01-01T00:00:00Z', end: '2025-01-01T03:00:00Z' },
+			{ mode: 'time', start_variable: 'start', end_variable: 'end', window_minutes: 60 },
+			2
+		)
+
+		expect(execute).toHaveBeenCalledTimes(2)
+		expect(result).toMatchObject({ pages: 2, totalRows: 2, truncated: true })
+		expect(result.datasets[0].rows.map((row) => row.datetimeHour)).toEqual([
+			'2025-01-01T00:00:00Z',
+			'2025-01-01T01:00:00Z',
+		])
+	})
+
+	it('follows the cursor until a page is not full', async () => {
+		const pages = [
+			[{ dimensions: { datetime: 't1' } }, { dimensions: { datetime: 't2' } }],
+			[{ dimensions: { datetime: 't3' } }],
+		]
+		const execute = vi.fn(async () => response(pages.shift() ?? []))
+
+		const result = await fetchDatasets(
+			execute,
+			{ cursor: 't0' },
+			{ mode: 'cursor', cursor_variable: 'cursor', cursor_field: 'datetime' },
+			100
+		)
+
+		expect(execute.mock.calls).toEqual([[{ cursor: 't0' }], [{ cursor: 't2' }]])
+		expect(result).toMatchObject({ pages: 2, totalRows: 3, truncated: false })
+	})
+
+	it('reports GraphQL errors', async () => {
+		const execute = async (): Promise<GraphQLResult> => ({
+			data: null,
+			errors: [
+				{
+					message: 'limit is too high',
+					path: [],
+					extensions: { code: '', timestamp: '', ray_id: '' },
+				},
+			],
+		})
+
+		await expect(fetchDatasets(execute, {}, undefined, 10)).rejects.toThrow(
+			'GraphQL errors on page 1: limit is too high'
+		)
+	})
+})
@@ -0,0 +1,276 @@
+import { z } from 'zod'
+
+import { fmt } from '@repo/mcp-common/src/format'
+
+import type { graphQLResponseSchema } from './graphql.schema'
+
+// Upper bound on the requests made for one paginated query
+export const MAX_PAGES = 50
+
+export class PaginationError extends Error {}
+
+export const Pagination = z.discriminatedUnion('mode', [
+	z.object({
+		mode: z.literal('time'),
+		start_variable: z
+			.string()
+			.default('start')
+			.describe('Variable holding the start of the time range, e.g. used in datetime_geq: $start'),
+		end_variable: z
+			.string()
+			.default('end')
+			.describe('Variable holding the end of the time range, e.g. used in datetime_lt: $end'),
+		window_minutes: z
+			.number()
+			.int()
+			.min(1)
+			.default(60)
+			.describe('Length of the time window fetched by each request'),
+	}),
+	z.object({
+		mode: z.literal('cursor'),
+		cursor_variable: z
+			.string()
+			.default('cursor')
+			.describe(
+				'Variable the query filters on to start after the previous page, e.g. used in datetime_gt: $cursor. Set it to the first value in variables.'
+			),
+		cursor_field: z
+			.string()
+			.describe(
+				'Column the query is ordered by (orderBy), whose value in the last row of a page is the cursor for the next page, e.g. datetime'
+			),
+	}),
+])
+export type Pagination = z.infer<typeof Pagination>
+
+export type GraphQLResult = z.infer<typeof graphQLResponseSchema>
+export type Row = Record<string, unknown>
+
+export interface Dataset {
+	// Path of the dataset in the response, without list indices, e.g. viewer.zones.httpRequests1hGroups
+	path: string
+	rows: Row[]
+}
+
+export interface PagedDatasets {
+	datasets: Dataset[]
+	pages: number
+	totalRows: number
+	truncated: boolean
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Flattens the nested objects of a row into columns. Fields of `dimensions` keep their name, and
+ * fields of other objects such as `sum` and `avg` are prefixed with it, e.g. `sum.bytes`.
+ */
+export function flattenRow(row: Record<string, unknown>, prefix = ''): Row {
+	const flat: Row = {}
+	for (const [key, value] of Object.entries(row)) {
+		if (isObject(value)) {
+			Object.assign(flat, flattenRow(value, key === 'dimensions' ? prefix : `${prefix}${key}.`))
+		} else {
+			flat[`${prefix}${key}`] = Array.isArray(value) ? JSON.stringify(value) : value
+		}
+	}
+	return flat
+}
+
+/**
+ * Finds the dataset arrays in the data of a response, e.g. `viewer.accounts[].workersInvocationsAdaptive[]`.
+ * Arrays of objects that contain other arrays, like `accounts` and `zones`, are not datasets, but
+ * their scalar fields such as `zoneTag` are added to the rows of the datasets they contain.
+ * Rows of the same dataset under different accounts or zones are merged.
+ */
+export function findDatasets(data: unknown): Dataset[] {
+	const datasets = new Map<string, Row[]>()
+
+	const walk = (value: unknown, path: string, context: Row) => {
+		if (Array.isArray(value)) {
+			const isContainer = value.some(
+				(item) => isObject(item) && Object.values(item).some((child) => Array.isArray(child))
+			)
+			if (!isContainer) {
+				const rows = datasets.get(path) ?? []
+				for (const item of value) {
+					rows.push({ ...context, ...(isObject(item) ? flattenRow(item) : { value: item }) })
+				}
+				datasets.set(path, rows)
+				return
+			}
+			for (const item of value) {
+				if (!isObject(item)) {
+					continue
+				}
+				const scalars = Object.fromEntries(
+					Object.entries(item).filter(([, child]) => typeof child !== 'object' || child === null)
+				)
+				walk(item, path, { ...context, ...scalars })
+			}
+		} else if (isObject(value)) {
+			for (const [key, child] of Object.entries(value)) {
+				if (typeof child === 'object' && child !== null) {
+					walk(child, path ? `${path}.${key}` : key, context)
+				}
+			}
+		}
+	}
+
+	walk(data, '', {})
+	return [...datasets].map(([path, rows]) => ({ path, rows }))
+}
+
+function toDateTime(value: unknown, variable: string): Date {
+	const date = typeof value === 'string' && value.includes('T') ? new Date(value) : undefined
+	if (!date || Number.isNaN(date.getTime())) {
+		throw new PaginationError(
+			`Variable "$${variable}" must be an ISO 8601 datetime such as "2025-01-01T00:00:00Z", got ${JSON.stringify(value)}`
+		)
+	}
+	return date
+}
+
+function formatDateTime(date: Date): string {
+	return date.toISOString().replace('.000Z', 'Z')
+}
+
+/**
+ * Splits the time range in the pagination variables into windows, each as the variables for one request
+ */
+export function getTimeWindows(
+	variables: Record<string, unknown>,
+	pagination: Extract<Pagination, { mode: 'time' }>
+): Array<Record<string, unknown>> {
+	const start = toDateTime(variables[pagination.start_variable], pagination.start_variable)
+	const end = toDateTime(variables[pagination.end_variable], pagination.end_variable)
+	const windowMs = pagination.window_minutes * 60 * 1000
+	const count = Math.ceil((end.getTime() - start.getTime()) / windowMs)
+	if (count > MAX_PAGES) {
+		throw new PaginationError(
+			`The time range would take ${count} requests of ${pagination.window_minutes} minutes, but at most ${MAX_PAGES} are made. Use a larger window_minutes or a shorter time range.`
+		)
+	}
+
+	const windows: Array<Record<string, unknown>> = []
+	for (let from = start.getTime(); from < end.getTime(); from += windowMs) {
+		windows.push({
+			...variables,
+			[pagination.start_variable]: formatDateTime(new Date(from)),
+			[pagination.end_variable]: formatDateTime(new Date(Math.min(from + windowMs, end.getTime()))),
+		})
+	}
+	return windows
+}
+
+function getData(result: GraphQLResult, page: number): unknown {
+	if (result.errors?.length) {
+		throw new Error(
+			`GraphQL errors on page ${page}: ${result.errors.map((e) => e.message).join(', ')}`
+		)
+	}
+	return result.data
+}
+
+function countRows(datasets: Map<string, Row[]>): number {
+	return [...datasets.values()].reduce((total, rows) => total + rows.length, 0)
+}
+
+/**
+ * Runs a query, paging through time windows or an orderBy cursor when pagination is given, and
+ * merges the datasets of all pages. Stops requesting pages once maxRows rows were fetched.
+ * @param execute Executes the query with the given variables
+ */
+export async function fetchDatasets(
+	execute: (variables: Record<string, unknown>) => Promise<GraphQLResult>,
+	variables: Record<string, unknown>,
+	pagination: Pagination | undefined,
+	maxRows: number
+): Promise<PagedDatasets> {
+	const merged = new Map<string, Row[]>()
+	let pages = 0
+	let morePages = false
+
+	const addPage = (datasets: Dataset[]) => {
+		pages++
+		for (const { path, rows } of datasets) {
+			merged.set(path, [...(merged.get(path) ?? []), ...rows])
+		}
+	}
+
+	if (pagination?.mode === 'time') {
+		const windows = getTimeWindows(variables, pagination)
+		for (const [i, window] of windows.entries()) {
+			if (countRows(merged) >= maxRows) {
+				morePages = true
+				break
+			}
+			addPage(findDatasets(getData(await execute(window), i + 1)))
+		}
+	} else if (pagination?.mode === 'cursor') {
+		let pageVariables = variables
+		let pageSize: number | undefined
+		while (pages < MAX_PAGES) {
+			const datasets = findDatasets(getData(await execute(pageVariables), pages + 1))
+			const nonEmpty = datasets.filter((dataset) => dataset.rows.length > 0)
+			if (nonEmpty.length > 1) {
+				throw new PaginationError(
+					`Cursor pagination needs a query with a single dataset, but the response has ${nonEmpty.map((d) => d.path).join(', ')}`
+				)
+			}
+			addPage(datasets)
+
+			const rows = nonEmpty[0]?.rows ?? []
+			// A page with fewer rows than the first is the last page
+			pageSize ??= rows.length
+			if (rows.length === 0 || rows.length < pageSize) {
+				break
+			}
+			const cursor = rows[rows.length - 1][pagination.cursor_field]
+			if (cursor === undefined) {
+				throw new PaginationError(
+					`The rows have no "${pagination.cursor_field}" column to use as cursor. Columns: ${Object.keys(rows[0]).join(', ')}`
+				)
+			}
+			if (cursor === pageVariables[pagination.cursor_variable]) {
+				break
+			}
+			if (countRows(merged) >= maxRows || pages === MAX_PAGES) {
+				morePages = true
+				break
+			}
+			pageVariables = { ...variables, [pagination.cursor_variable]: cursor }
+		}
+	} else {
+		addPage(findDatasets(getData(await execute(variables), 1)))
+	}
+
+	const totalRows = countRows(merged)
+	let budget = maxRows
+	const datasets = [...merged].map(([path, rows]) => {
+		const kept = rows.slice(0, budget)
+		budget -= kept.length
+		return { path, rows: kept }
+	})
+	return { datasets, pages, totalRows, truncated: morePages || totalRows > maxRows }
+}
+
+/**
+ * Formats datasets as TSV tables, each headed by its path and number of rows
+ */
+export async function formatDatasets(datasets: Dataset[]): Promise<string> {
+	const tables = await Promise.all(
+		datasets.map(async ({ path, rows }) => {
+			// Rows can have different columns, e.g. when a nested object is null
+			const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))]
+			const table = await fmt.asTSV(
+				rows.map((row) => Object.fromEntries(columns.map((column) => [column, row[column] ?? ''])))
+			)
+			return `${path} (${rows.length} rows)\n${table}`
+		})
+	)
+	return tables.join('\n\n')
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+	describeType,
+	findPathsToType,
+	formatTypeRef,
+	searchGraphQLSchema,
+	unwrapType,
+} from './graphql.schema'
+
+import type { GraphQLTypeRef, IntrospectionSchema } from './graphql.schema'
+
+const named = (name: string, kind = 'OBJECT'): GraphQLTypeRef => ({ kind, name, ofType: null })
+const nonNull = (ofType: GraphQLTypeRef): GraphQLTypeRef => ({
+	kind: 'NON_NULL',
+	name: null,
+	ofType,
+})
+const list = (ofType: GraphQLTypeRef): GraphQLTypeRef => ({ kind: 'LIST', name: null, ofType })
+
+const field = (name: string, type: GraphQLTypeRef, args: Array<[string, GraphQLTypeRef]> = []) => ({
+	name,
+	description: null,
+	type,
+	args: args.map(([argName, argType]) => ({ name: argName, description: null, type: argType })),
+})
+
+const schema: IntrospectionSchema = {
+	queryType: { name: 'Query' },
+	mutationType: null,
+	subscriptionType: null,
+	types: [
+		{
+			name: 'Query',
+			kind: 'OBJECT',
+			description: null,
+			fields: [field('viewer', named('Viewer'))],
+		},
+		{
+			name: 'Viewer',
+			kind: 'OBJECT',
+			description: null,
+			fields: [
+				field('zones', nonNull(list(nonNull(named('Zone')))), [
+					['filter', nonNull(named('ZoneFilter', 'INPUT_OBJECT'))],
+				]),
+				field('accounts', nonNull(list(nonNull(named('Account'))))),
+			],
+		},
+		{
+			name: 'Zone',
+			kind: 'OBJECT',
+			description: 'A zone',
+			fields: [field('httpRequestsAdaptiveGroups', list(named('HttpRequestsGroup')))],
+		},
+		{
+			name: 'Account',
+			kind: 'OBJECT',
+			description: null,
+			fields: [field('httpRequestsAdaptiveGroups', list(named('HttpRequestsGroup')))],
+		},
+		{
+			name: 'HttpRequestsGroup',
+			kind: 'OBJECT',
+			description: 'HTTP requests grouped by dimensions',
+			fields: [field('count', nonNull(named('Int', 'SCALAR')))],
+		},
+		{ name: 'ZoneFilter', kind: 'INPUT_OBJECT', description: null, inputFields: [] },
+	],
+}
+
+describe('type references', () => {
+	it('unwraps any number of wrappers', () => {
+		const ref = nonNull(list(nonNull(list(nonNull(named('Zone'))))))
+
+		expect(unwrapType(ref)).toEqual({ name: 'Zone', kind: 'OBJECT', isList: true, isNonNull: true })
+		expect(formatTypeRef(ref)).toBe('[[Zone!]!]!')
+	})
+
+	it('describes fields with formatted types', () => {
+		expect(describeType(schema.types[1]).fields?.[0]).toMatchObject({
+			name: 'zones',
+			type: '[Zone!]!',
+			typeKind: 'OBJECT',
+			args: [{ name: 'filter', type: 'ZoneFilter!' }],
+		})
+	})
+})
+
+describe('searchGraphQLSchema', () => {
+	it('finds types by description and fields by name', () => {
+		const results = searchGraphQLSchema(schema, 'http')
+
+		expect(results.types.map((t) => t.name)).toEqual(['HttpRequestsGroup'])
+		expect(results.fields.map((f) => `${f.typeName}.${f.fieldName}`)).toEqual([
+			'Zone.httpRequestsAdaptiveGroups',
+			'Account.httpRequestsAdaptiveGroups',
+		])
+	})
+})
+
+describe('findPathsToType', () => {
+	it('finds every shortest path with the required arguments', () => {
+		const paths = findPathsToType(schema, 'HttpRequestsGroup')
+
+		expect(paths.map((steps) => steps.map((s) => s.field).join('.'))).toEqual([
+			'viewer.zones.httpRequestsAdaptiveGroups',
+			'viewer.accounts.httpRequestsAdaptiveGroups',
+		])
+		expect(paths[0][1].requiredArgs).toEqual(['filter: ZoneFilter!'])
+	})
+
+	it('returns no paths to types that cannot be reached', () => {
+		expect(findPathsToType(schema, 'ZoneFilter')).toEqual([])
+	})
+})
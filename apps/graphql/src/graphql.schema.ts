@@ -0,0 +1,485 @@
+import { z } from 'zod'
+
+import type { Env } from './graphql.context'
+
+// GraphQL API endpoint
+export const CLOUDFLARE_GRAPHQL_ENDPOINT = 'https://api.cloudflare.com/client/v4/graphql'
+
+// The schema rarely changes, so introspection results are reused for this long
+export const SCHEMA_CACHE_TTL_MS = 6 * 60 * 60 * 1000
+
+// Type definitions for GraphQL schema responses
+export interface GraphQLTypeRef {
+	kind: string
+	name: string | null
+	ofType?: GraphQLTypeRef | null
+}
+
+export interface GraphQLInputValue {
+	name: string
+	description: string | null
+	type: GraphQLTypeRef
+	defaultValue?: string | null
+}
+
+export interface GraphQLField {
+	name: string
+	description: string | null
+	args: GraphQLInputValue[]
+	type: GraphQLTypeRef
+}
+
+export interface GraphQLType {
+	name: string
+	kind: string
+	description: string | null
+	fields?: GraphQLField[] | null
+	inputFields?: GraphQLInputValue[] | null
+	interfaces?: Array<{ name: string }> | null
+	enumValues?: Array<{
+		name: string
+		description: string | null
+	}> | null
+	possibleTypes?: Array<{ name: string }> | null
+}
+
+export interface IntrospectionSchema {
+	queryType: { name: string } | null
+	mutationType: { name: string } | null
+	subscriptionType: { name: string } | null
+	types: GraphQLType[]
+}
+
+export interface CachedSchema {
+	schema: IntrospectionSchema
+	fetchedAt: number
+}
+
+// Define the structure of a single error
+const graphQLErrorSchema = z.object({
+	message: z.string(),
+	path: z.array(z.union([z.string(), z.number()])),
+	extensions: z.object({
+		code: z.string(),
+		timestamp: z.string(),
+		ray_id: z.string(),
+	}),
+})
+
+// Define the overall GraphQL response schema
+export const graphQLResponseSchema = z.object({
+	data: z.union([z.record(z.unknown()), z.null()]),
+	errors: z.union([z.array(graphQLErrorSchema), z.null()]),
+})
+
+// Type references are nested once per list or non-null wrapper. Introspection can't recurse,
+// so this asks for more levels than any type in the schema uses, like graphql-js does.
+const TYPE_REF_FRAGMENT = `
+	fragment TypeRef on __Type {
+		kind
+		name
+		ofType {
+			kind
+			name
+			ofType {
+				kind
+				name
+				ofType {
+					kind
+					name
+					ofType {
+						kind
+						name
+						ofType {
+							kind
+							name
+							ofType {
+								kind
+								name
+								ofType {
+									kind
+									name
+								}
+							}
+						}
+					}
+				}
+			}
+		}
+	}
+`
+
+const INTROSPECTION_QUERY = `
+	query Introspection {
+		__schema {
+			queryType { name }
+			mutationType { name }
+			subscriptionType { name }
+			types {
+				name
+				kind
+				description
+				fields(includeDeprecated: false) {
+					name
+					description
+					args {
+						...InputValue
+					}
+					type {
+						...TypeRef
+					}
+				}
+				inputFields {
+					...InputValue
+				}
+				interfaces {
+					name
+				}
+				enumValues(includeDeprecated: false) {
+					name
+					description
+				}
+				possibleTypes {
+					name
+				}
+			}
+		}
+	}
+
+	fragment InputValue on __InputValue {
+		name
+		description
+		defaultValue
+		type {
+			...TypeRef
+		}
+	}
+
+	${TYPE_REF_FRAGMENT}
+`
+
+/**
+ * Helper function to execute GraphQL requests
+ * @param query GraphQL query to execute
+ * @param apiToken Cloudflare API token
+ * @returns Response data
+ */
+export async function executeGraphQLRequest<T>(query: string, apiToken: string): Promise<T> {
+	const response = await fetch(CLOUDFLARE_GRAPHQL_ENDPOINT, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+			Authorization: `Bearer ${apiToken}`,
+		},
+		body: JSON.stringify({ query }),
+	})
+
+	if (!response.ok) {
+		throw new Error(`Failed to execute GraphQL request: ${response.statusText}`)
+	}
+
+	const data = graphQLResponseSchema.parse(await response.json())
+
+	// Check for GraphQL errors in the response
+	if (data && data.errors && Array.isArray(data.errors) && data.errors.length > 0) {
+		const errorMessages = data.errors.map((e: { message: string }) => e.message).join(', ')
+		console.warn(`GraphQL errors: ${errorMessages}`)
+
+		// If the error is about mutations not being supported, we can handle it gracefully
+		if (errorMessages.includes('Mutations are not supported')) {
+			console.info('Mutations are not supported by the Cloudflare GraphQL API')
+		}
+	}
+
+	return data as T
+}
+
+/**
+ * Fetches the whole schema with a single introspection query
+ * @param apiToken Cloudflare API token
+ * @returns The introspected schema
+ */
+export async function fetchIntrospection(apiToken: string): Promise<IntrospectionSchema> {
+	const response = await executeGraphQLRequest<{
+		data: { __schema?: IntrospectionSchema } | null
+	}>(INTROSPECTION_QUERY, apiToken)
+	if (!response.data?.__schema) {
+		throw new Error('Failed to introspect the GraphQL schema')
+	}
+	return response.data.__schema
+}
+
+// The last schema served by the cache, so that tool calls in the same isolate don't have to
+// transfer it from the Durable Object again
+let schemaInMemory: CachedSchema | undefined
+
+/**
+ * Gets the introspected schema from the schema cache, which only runs introspection
+ * when the cached schema is older than SCHEMA_CACHE_TTL_MS
+ * @param env Worker bindings
+ * @param apiToken Cloudflare API token, used if the schema has to be fetched
+ * @returns The introspected schema
+ */
+export async function getCachedSchema(
+	env: Pick<Env, 'GRAPHQL_SCHEMA_CACHE'>,
+	apiToken: string
+): Promise<IntrospectionSchema> {
+	if (schemaInMemory && Date.now() - schemaInMemory.fetchedAt < SCHEMA_CACHE_TTL_MS) {
+		return schemaInMemory.schema
+	}
+	const id = env.GRAPHQL_SCHEMA_CACHE.idFromName('schema')
+	schemaInMemory = await env.GRAPHQL_SCHEMA_CACHE.get(id).getSchema(apiToken)
+	return schemaInMemory.schema
+}
+
+/**
+ * Finds a type by name
+ */
+export function getSchemaType(schema: IntrospectionSchema, name: string): GraphQLType | undefined {
+	return schema.types.find((type) => type.name === name)
+}
+
+/**
+ * Unwraps any number of list and non-null wrappers
+ * @returns The named type, and whether it is wrapped in a list at any level
+ */
+export function unwrapType(typeRef: GraphQLTypeRef): {
+	name: string
+	kind: string
+	isList: boolean
+	isNonNull: boolean
+} {
+	let current: GraphQLTypeRef = typeRef
+	let isList = false
+	while (current.ofType && (current.kind === 'LIST' || current.kind === 'NON_NULL')) {
+		isList ||= current.kind === 'LIST'
+		current = current.ofType
+	}
+	return {
+		name: current.name ?? '',
+		kind: current.kind,
+		isList,
+		isNonNull: typeRef.kind === 'NON_NULL',
+	}
+}
+
+/**
+ * Formats a type reference the way it is written in GraphQL, e.g. `[String!]!`
+ */
+export function formatTypeRef(typeRef: GraphQLTypeRef): string {
+	if (typeRef.kind === 'NON_NULL' && typeRef.ofType) {
+		return `${formatTypeRef(typeRef.ofType)}!`
+	}
+	if (typeRef.kind === 'LIST' && typeRef.ofType) {
+		return `[${formatTypeRef(typeRef.ofType)}]`
+	}
+	return typeRef.name ?? ''
+}
+
+export type TypeDescription = ReturnType<typeof describeType>
+
+/**
+ * Describes a type with its field and argument types written the way they are in GraphQL,
+ * e.g. `[String!]!`, and the kind of the named type, so that it's clear which fields
+ * need a selection of subfields
+ */
+export function describeType(type: GraphQLType) {
+	const describeInputValue = (value: GraphQLInputValue) => ({
+		name: value.name,
+		description: value.description,
+		type: formatTypeRef(value.type),
+		defaultValue: value.defaultValue ?? null,
+	})
+
+	return {
+		name: type.name,
+		kind: type.kind,
+		description: type.description,
+		fields:
+			type.fields?.map((field) => ({
+				name: field.name,
+				description: field.description,
+				type: formatTypeRef(field.type),
+				typeKind: unwrapType(field.type).kind,
+				args: field.args.map(describeInputValue),
+			})) ?? null,
+		inputFields: type.inputFields?.map(describeInputValue) ?? null,
+		interfaces: type.interfaces ?? null,
+		enumValues: type.enumValues ?? null,
+		possibleTypes: type.possibleTypes ?? null,
+	}
+}
+
+/**
+ * Searches for matching types and fields in a GraphQL schema
+ * @param schema The GraphQL schema to search
+ * @param keyword The keyword to search for
+ * @param onlyObjectTypes Only search the fields of OBJECT types, and not of INTERFACE types
+ * @returns Matching types and fields
+ */
+export function searchGraphQLSchema(
+	schema: IntrospectionSchema,
+	keyword: string,
+	onlyObjectTypes: boolean = true
+) {
+	const normalizedKeyword = keyword.toLowerCase()
+	const matches = (text: string | null | undefined) =>
+		text?.toLowerCase().includes(normalizedKeyword) ?? false
+	const results = {
+		types: [] as Array<{
+			name: string
+			kind: string
+			description: string | null
+			matchReason: string
+		}>,
+		fields: [] as Array<{
+			typeName: string
+			fieldName: string
+			fieldType: string
+			description: string | null
+			matchReason: string
+		}>,
+		enumValues: [] as Array<{
+			typeName: string
+			enumValue: string
+			description: string | null
+			matchReason: string
+		}>,
+		args: [] as Array<{
+			typeName: string
+			fieldName: string
+			argName: string
+			argType: string
+			description: string | null
+			matchReason: string
+		}>,
+	}
+
+	for (const type of schema.types) {
+		// Check if type name or description matches
+		if (matches(type.name)) {
+			results.types.push({
+				name: type.name,
+				kind: type.kind,
+				description: type.description,
+				matchReason: `Type name contains "${keyword}"`,
+			})
+		} else if (matches(type.description)) {
+			results.types.push({
+				name: type.name,
+				kind: type.kind,
+				description: type.description,
+				matchReason: `Type description contains "${keyword}"`,
+			})
+		}
+
+		// Search through fields and their arguments
+		const searchFields = type.kind === 'OBJECT' || (!onlyObjectTypes && type.kind === 'INTERFACE')
+		for (const field of searchFields ? (type.fields ?? []) : []) {
+			if (matches(field.name) || matches(field.description)) {
+				results.fields.push({
+					typeName: type.name,
+					fieldName: field.name,
+					fieldType: formatTypeRef(field.type),
+					description: field.description,
+					matchReason: matches(field.name)
+						? `Field name contains "${keyword}"`
+						: `Field description contains "${keyword}"`,
+				})
+			}
+
+			for (const arg of field.args ?? []) {
+				if (matches(arg.name) || matches(arg.description)) {
+					results.args.push({
+						typeName: type.name,
+						fieldName: field.name,
+						argName: arg.name,
+						argType: formatTypeRef(arg.type),
+						description: arg.description,
+						matchReason: matches(arg.name)
+							? `Argument name contains "${keyword}"`
+							: `Argument description contains "${keyword}"`,
+					})
+				}
+			}
+		}
+
+		// Search through enum values
+		for (const enumValue of type.enumValues ?? []) {
+			if (matches(enumValue.name) || matches(enumValue.description)) {
+				results.enumValues.push({
+					typeName: type.name,
+					enumValue: enumValue.name,
+					description: enumValue.description,
+					matchReason: matches(enumValue.name)
+						? `Enum value contains "${keyword}"`
+						: `Enum value description contains "${keyword}"`,
+				})
+			}
+		}
+	}
+
+	return results
+}
+
+export interface TypePathStep {
+	field: string
+	type: string
+	requiredArgs: string[]
+}
+
+/**
+ * Finds the shortest field paths from the query root to a type, e.g.
+ * `viewer.zones.httpRequestsAdaptiveGroups`, including the arguments each field requires
+ * @param schema The GraphQL schema
+ * @param typeName The type to find paths to
+ * @param maxPaths Maximum number of paths to return
+ * @param maxDepth Maximum number of fields in a path
+ * @returns The paths, shortest first
+ */
+export function findPathsToType(
+	schema: IntrospectionSchema,
+	typeName: string,
+	maxPaths: number = 5,
+	maxDepth: number = 8
+): TypePathStep[][] {
+	const rootName = schema.queryType?.name
+	if (!rootName || rootName === typeName) {
+		return []
+	}
+
+	const typesByName = new Map(schema.types.map((type) => [type.name, type]))
+	const paths: TypePathStep[][] = []
+	// Each type is only expanded once, from its shortest path. Paths to the target type itself are
+	// collected from every parent, so alternative routes such as accounts and zones are all found.
+	const visited = new Set<string>([rootName])
+	let layer: Array<{ typeName: string; path: TypePathStep[] }> = [{ typeName: rootName, path: [] }]
+
+	for (let depth = 0; depth < maxDepth && layer.length > 0; depth++) {
+		const next: typeof layer = []
+		for (const { typeName: parentName, path } of layer) {
+			for (const field of typesByName.get(parentName)?.fields ?? []) {
+				const fieldType = unwrapType(field.type)
+				const step = {
+					field: field.name,
+					type: formatTypeRef(field.type),
+					requiredArgs: field.args
+						.filter((arg) => arg.type.kind === 'NON_NULL' && arg.defaultValue == null)
+						.map((arg) => `${arg.name}: ${formatTypeRef(arg.type)}`),
+				}
+				if (fieldType.name === typeName) {
+					paths.push([...path, step])
+					if (paths.length >= maxPaths) {
+						return paths
+					}
+				} else if (fieldType.kind === 'OBJECT' && !visited.has(fieldType.name)) {
+					visited.add(fieldType.name)
+					next.push({ typeName: fieldType.name, path: [...path, step] })
+				}
+			}
+		}
+		layer = next
+	}
+
+	return paths
+}
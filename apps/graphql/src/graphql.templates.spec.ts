@@ -0,0 +1,114 @@
+import { parse } from 'graphql'
+import { describe, expect, it } from 'vitest'
+
+import {
+	fillQueryTemplate,
+	getQueryTemplate,
+	QUERY_TEMPLATES,
+	toGraphQLValue,
+} from './graphql.templates'
+
+const now = new Date('2025-01-02T12:34:56.789Z')
+
+describe('toGraphQLValue', () => {
+	it('serializes objects without quoting keys', () => {
+		expect(toGraphQLValue({ a: ['x', 1], b: { c: true } })).toBe('{ a: ["x", 1], b: { c: true } }')
+	})
+
+	it('rejects keys that are not GraphQL names', () => {
+		expect(() => toGraphQLValue({ 'a: 1 } evil { b': 1 })).toThrow('Invalid filter key')
+	})
+})
+
+describe('fillQueryTemplate', () => {
+	it('fills every template into a valid query', () => {
+		for (const template of QUERY_TEMPLATES) {
+			const { query } = fillQueryTemplate(template, { tag: 'abc' }, now)
+			expect(() => parse(query), template.name).not.toThrow()
+		}
+	})
+
+	it('fills dimensions, filters and the time range', () => {
+		const { query, variables } = fillQueryTemplate(
+			getQueryTemplate('http-requests'),
+			{
+				tag: 'abc',
+				dimensions: ['clientCountryName'],
+				filters: { edgeResponseStatus_geq: 500, cacheStatus_in: ['miss', 'expired'] },
+				limit: 10,
+			},
+			now
+		)
+
+		expect(query).toContain('zones(filter: { zoneTag: $tag })')
+		expect(query).toContain(
+			'filter: { datetime_geq: $start, datetime_lt: $end, edgeResponseStatus_geq: 500, cacheStatus_in: ["miss", "expired"] }'
+		)
+		expect(query).toContain(
+			'count sum { edgeResponseBytes visits } dimensions { clientCountryName }'
+		)
+		expect(variables).toEqual({
+			tag: 'abc',
+			start: '2025-01-01T12:34:56.789Z',
+			end: '2025-01-02T12:34:56.789Z',
+			limit: 10,
+		})
+	})
+
+	it('uses dates for datasets filtered by date', () => {
+		const { query, variables } = fillQueryTemplate(
+			getQueryTemplate('d1-queries'),
+			{ tag: 'abc', start: '2025-01-01T00:00:00Z' },
+			now
+		)
+
+		expect(query).toContain('$start: Date!')
+		expect(query).toContain('date_geq: $start, date_leq: $end')
+		expect(variables).toMatchObject({ start: '2025-01-01', end: '2025-01-02' })
+	})
+
+	it('rejects dimensions the template does not have', () => {
+		expect(() =>
+			fillQueryTemplate(getQueryTemplate('kv-operations'), {
+				tag: 'abc',
+				filters: { scriptName_in: ['a'] },
+			})
+		).toThrow('Unknown dimensions scriptName')
+	})
+
+	it('orders by the metrics and dimensions of the template', () => {
+		const template = getQueryTemplate('workers-invocations')
+
+		expect(fillQueryTemplate(template, { tag: 'abc' }).query).toContain(
+			'orderBy: [sum_requests_DESC]'
+		)
+		for (const orderBy of ['quantiles_cpuTimeP99_DESC', 'scriptName_ASC']) {
+			expect(fillQueryTemplate(template, { tag: 'abc', orderBy }).query).toContain(
+				`orderBy: [${orderBy}]`
+			)
+		}
+	})
+
+	it('rejects orders that are not fields of the template', () => {
+		const template = getQueryTemplate('workers-invocations')
+
+		for (const orderBy of ['sum_bytes_DESC', 'count', 'count_DESC] evil { x', 'scriptName_DOWN']) {
+			expect(() => fillQueryTemplate(template, { tag: 'abc', orderBy }), orderBy).toThrow(
+				`Invalid order "${orderBy}"`
+			)
+		}
+	})
+
+	it('rejects filters with keys that are not GraphQL names', () => {
+		expect(() =>
+			fillQueryTemplate(getQueryTemplate('http-requests'), {
+				tag: 'abc',
+				filters: { edgeResponseStatus_in: [500], cacheStatus: { 'x } evil { y': 1 } },
+			})
+		).toThrow('Invalid filter key "x } evil { y"')
+	})
+
+	it('rejects unknown templates', () => {
+		expect(() => getQueryTemplate('http')).toThrow('Unknown template "http"')
+	})
+})
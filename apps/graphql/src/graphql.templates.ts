@@ -0,0 +1,278 @@
+// Suffixes of the filter operators of analytics datasets, e.g. clientCountryName_in
+const FILTER_OPERATOR = /_(in|notin|neq|gt|geq|lt|leq|like|notlike|has|hasall|hasany)$/
+// Names of GraphQL fields and input object keys
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/
+// Orders of analytics datasets, e.g. sum_requests_DESC
+const ORDER_BY = /^([A-Za-z_][A-Za-z0-9_]*)_(ASC|DESC)$/
+
+export const DEFAULT_TEMPLATE_LIMIT = 100
+export const DEFAULT_TEMPLATE_RANGE_HOURS = 24
+
+export class TemplateError extends Error {}
+
+export interface QueryTemplate {
+	name: string
+	description: string
+	scope: 'zone' | 'account'
+	dataset: string
+	// Selection of the metrics, e.g. `count sum { edgeResponseBytes }`
+	metrics: string
+	// Dimensions that can be grouped and filtered by
+	dimensions: string[]
+	defaultDimensions: string[]
+	orderBy: string
+	// Datasets with `datetime` filters take times, and those with only `date` filters take days
+	timeFilter: 'datetime' | 'date'
+}
+
+export const QUERY_TEMPLATES: QueryTemplate[] = [
+	{
+		name: 'http-requests',
+		description: 'HTTP requests, bytes and visits of a zone',
+		scope: 'zone',
+		dataset: 'httpRequestsAdaptiveGroups',
+		metrics: 'count sum { edgeResponseBytes visits }',
+		dimensions: [
+			'datetimeHour',
+			'datetimeFifteenMinutes',
+			'datetimeMinute',
+			'clientCountryName',
+			'clientRequestHTTPHost',
+			'clientRequestPath',
+			'clientRequestHTTPMethodName',
+			'edgeResponseStatus',
+			'cacheStatus',
+			'userAgentBrowser',
+		],
+		defaultDimensions: ['datetimeHour'],
+		orderBy: 'count_DESC',
+		timeFilter: 'datetime',
+	},
+	{
+		name: 'firewall-events',
+		description:
+			'Firewall events of a zone, by the action taken and the rule or product that matched',
+		scope: 'zone',
+		dataset: 'firewallEventsAdaptiveGroups',
+		metrics: 'count',
+		dimensions: [
+			'datetimeHour',
+			'datetimeMinute',
+			'action',
+			'source',
+			'ruleId',
+			'clientIP',
+			'clientCountryName',
+			'clientRequestHTTPHost',
+			'clientRequestPath',
+			'userAgent',
+		],
+		defaultDimensions: ['action', 'source'],
+		orderBy: 'count_DESC',
+		timeFilter: 'datetime',
+	},
+	{
+		name: 'workers-invocations',
+		description: 'Requests, errors and CPU time of the Workers in an account',
+		scope: 'account',
+		dataset: 'workersInvocationsAdaptive',
+		metrics: 'sum { requests errors subrequests } quantiles { cpuTimeP50 cpuTimeP99 }',
+		dimensions: ['datetimeHour', 'datetimeFifteenMinutes', 'scriptName', 'status'],
+		defaultDimensions: ['scriptName', 'status'],
+		orderBy: 'sum_requests_DESC',
+		timeFilter: 'datetime',
+	},
+	{
+		name: 'r2-operations',
+		description: 'Requests to the R2 buckets of an account, by operation',
+		scope: 'account',
+		dataset: 'r2OperationsAdaptiveGroups',
+		metrics: 'sum { requests responseObjectSize }',
+		dimensions: ['datetimeHour', 'bucketName', 'actionType', 'actionStatus'],
+		defaultDimensions: ['bucketName', 'actionType'],
+		orderBy: 'sum_requests_DESC',
+		timeFilter: 'datetime',
+	},
+	{
+		name: 'r2-storage',
+		description: 'Number of objects and bytes stored in the R2 buckets of an account',
+		scope: 'account',
+		dataset: 'r2StorageAdaptiveGroups',
+		metrics: 'max { objectCount payloadSize metadataSize }',
+		dimensions: ['datetimeHour', 'bucketName'],
+		defaultDimensions: ['bucketName'],
+		orderBy: 'max_payloadSize_DESC',
+		timeFilter: 'datetime',
+	},
+	{
+		name: 'd1-queries',
+		description: 'Queries, rows read and written, and query time of the D1 databases of an account',
+		scope: 'account',
+		dataset: 'd1AnalyticsAdaptiveGroups',
+		metrics: 'sum { readQueries writeQueries rowsRead rowsWritten } avg { queryBatchTimeMs }',
+		dimensions: ['date', 'databaseId'],
+		defaultDimensions: ['databaseId'],
+		orderBy: 'sum_readQueries_DESC',
+		timeFilter: 'date',
+	},
+	{
+		name: 'kv-operations',
+		description: 'Operations on the KV namespaces of an account, by type and result',
+		scope: 'account',
+		dataset: 'kvOperationsAdaptiveGroups',
+		metrics: 'sum { requests }',
+		dimensions: ['datetimeHour', 'date', 'namespaceId', 'actionType', 'result'],
+		defaultDimensions: ['namespaceId', 'actionType'],
+		orderBy: 'sum_requests_DESC',
+		timeFilter: 'datetime',
+	},
+]
+
+export function getQueryTemplate(name: string): QueryTemplate {
+	const template = QUERY_TEMPLATES.find((t) => t.name === name)
+	if (!template) {
+		throw new TemplateError(
+			`Unknown template "${name}". Templates: ${QUERY_TEMPLATES.map((t) => t.name).join(', ')}`
+		)
+	}
+	return template
+}
+
+export interface TemplateParams {
+	// Zone tag for zone templates, account tag for account templates
+	tag: string
+	start?: string
+	end?: string
+	dimensions?: string[]
+	filters?: Record<string, unknown>
+	limit?: number
+	orderBy?: string
+}
+
+export interface FilledTemplate {
+	query: string
+	variables: Record<string, unknown>
+}
+
+/**
+ * Serializes a JSON value as a GraphQL input value
+ */
+export function toGraphQLValue(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(toGraphQLValue).join(', ')}]`
+	}
+	if (typeof value === 'object' && value !== null) {
+		return `{ ${Object.entries(value)
+			.map(([key, child]) => {
+				// Keys aren't quoted, so anything but a name would change the query
+				if (!IDENTIFIER.test(key)) {
+					throw new TemplateError(`Invalid filter key "${key}", keys must be GraphQL names`)
+				}
+				return `${key}: ${toGraphQLValue(child)}`
+			})
+			.join(', ')} }`
+	}
+	return JSON.stringify(value ?? null)
+}
+
+/**
+ * Lists the fields of a selection of metrics as they are named in orders, e.g.
+ * `count sum { requests }` has count and sum_requests
+ */
+function getMetricFields(metrics: string): string[] {
+	return [...metrics.matchAll(/(\w+)(?:\s*\{([^}]*)\})?/g)].flatMap(([, name, children]) =>
+		children === undefined
+			? [name]
+			: children
+					.trim()
+					.split(/\s+/)
+					.map((child) => `${name}_${child}`)
+	)
+}
+
+function toOrderBy(template: QueryTemplate, orderBy: string) {
+	const field = ORDER_BY.exec(orderBy)?.[1]
+	const fields = [...getMetricFields(template.metrics), ...template.dimensions]
+	if (field === undefined || !fields.includes(field)) {
+		throw new TemplateError(
+			`Invalid order "${orderBy}" for template "${template.name}", use one of ${fields.join(', ')} followed by _ASC or _DESC`
+		)
+	}
+	return orderBy
+}
+
+function toTimeValue(value: string | undefined, fallback: Date, timeFilter: 'datetime' | 'date') {
+	const date = value ? new Date(value) : fallback
+	if (Number.isNaN(date.getTime())) {
+		throw new TemplateError(`Invalid time "${value}", use an ISO 8601 datetime or date`)
+	}
+	const iso = date.toISOString()
+	return timeFilter === 'date' ? iso.slice(0, 10) : iso.replace('.000Z', 'Z')
+}
+
+/**
+ * Fills a template into a query and its variables. The time range defaults to the last
+ * DEFAULT_TEMPLATE_RANGE_HOURS hours, and only the dimensions of the template can be grouped and
+ * filtered by, and the metrics and dimensions ordered by.
+ */
+export function fillQueryTemplate(
+	template: QueryTemplate,
+	params: TemplateParams,
+	now = new Date()
+): FilledTemplate {
+	const dimensions = params.dimensions ?? template.defaultDimensions
+	const filters = params.filters ?? {}
+	const unknown = [
+		...dimensions,
+		...Object.keys(filters).map((key) => key.replace(FILTER_OPERATOR, '')),
+	].filter((dimension) => !template.dimensions.includes(dimension))
+	if (unknown.length > 0) {
+		throw new TemplateError(
+			`Unknown dimensions ${unknown.join(', ')} for template "${template.name}". Dimensions: ${template.dimensions.join(', ')}`
+		)
+	}
+
+	const orderBy = toOrderBy(template, params.orderBy ?? template.orderBy)
+	const end = toTimeValue(params.end, now, template.timeFilter)
+	const start = toTimeValue(
+		params.start,
+		new Date(now.getTime() - DEFAULT_TEMPLATE_RANGE_HOURS * 60 * 60 * 1000),
+		template.timeFilter
+	)
+	const [timeType, endOperator] = template.timeFilter === 'date' ? ['Date', 'leq'] : ['Time', 'lt']
+	const filter = [
+		`${template.timeFilter}_geq: $start`,
+		`${template.timeFilter}_${endOperator}: $end`,
+		...Object.entries(filters).map(([key, value]) => `${key}: ${toGraphQLValue(value)}`),
+	].join(', ')
+	const [scopeField, tagField] =
+		template.scope === 'zone' ? ['zones', 'zoneTag'] : ['accounts', 'accountTag']
+	const selection = [
+		template.metrics,
+		...(dimensions.length > 0 ? [`dimensions { ${dimensions.join(' ')} }`] : []),
+	].join(' ')
+
+	const query = `query ${template.dataset}($tag: string!, $start: ${timeType}!, $end: ${timeType}!, $limit: uint64!) {
+	viewer {
+		${scopeField}(filter: { ${tagField}: $tag }) {
+			${template.dataset}(
+				filter: { ${filter} }
+				limit: $limit
+				orderBy: [${orderBy}]
+			) {
+				${selection}
+			}
+		}
+	}
+}`
+
+	return {
+		query,
+		variables: {
+			tag: params.tag,
+			start,
+			end,
+			limit: params.limit ?? DEFAULT_TEMPLATE_LIMIT,
+		},
+	}
+}
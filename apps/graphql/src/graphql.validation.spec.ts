@@ -0,0 +1,229 @@
+import { describe, expect, it } from 'vitest'
+
+import { getTimeRangeSeconds, validateGraphQLQuery } from './graphql.validation'
+
+import type { GraphQLTypeRef, IntrospectionSchema } from './graphql.schema'
+
+const named = (name: string, kind = 'OBJECT'): GraphQLTypeRef => ({ kind, name, ofType: null })
+const nonNull = (ofType: GraphQLTypeRef): GraphQLTypeRef => ({
+	kind: 'NON_NULL',
+	name: null,
+	ofType,
+})
+const list = (ofType: GraphQLTypeRef): GraphQLTypeRef => ({ kind: 'LIST', name: null, ofType })
+const arg = (name: string, type: GraphQLTypeRef) => ({
+	name,
+	description: null,
+	type,
+	defaultValue: null,
+})
+const scalar = (name: string) => ({ name, kind: 'SCALAR', description: null })
+const field = (name: string, type: GraphQLTypeRef, args: Array<ReturnType<typeof arg>> = []) => ({
+	name,
+	description: null,
+	type,
+	args,
+})
+
+const schema: IntrospectionSchema = {
+	queryType: { name: 'Query' },
+	mutationType: null,
+	subscriptionType: null,
+	types: [
+		{
+			name: 'Query',
+			kind: 'OBJECT',
+			description: null,
+			fields: [field('viewer', named('Viewer'))],
+			interfaces: [],
+		},
+		{
+			name: 'Viewer',
+			kind: 'OBJECT',
+			description: null,
+			fields: [
+				field('zones', list(named('Zone')), [
+					arg('filter', nonNull(named('ZoneFilter', 'INPUT_OBJECT'))),
+				]),
+			],
+			interfaces: [],
+		},
+		{
+			name: 'Zone',
+			kind: 'OBJECT',
+			description: null,
+			fields: [
+				field('httpRequestsAdaptiveGroups', list(named('Group')), [
+					arg('limit', nonNull(named('Int', 'SCALAR'))),
+					arg('filter', named('GroupFilter', 'INPUT_OBJECT')),
+				]),
+				field('firewallEventsAdaptive', list(named('Group')), [
+					arg('first', named('Int', 'SCALAR')),
+					arg('filter', named('GroupFilter', 'INPUT_OBJECT')),
+				]),
+			],
+			interfaces: [],
+		},
+		{
+			name: 'Group',
+			kind: 'OBJECT',
+			description: null,
+			fields: [field('count', named('Int', 'SCALAR')), field('dimensions', named('Dimensions'))],
+			interfaces: [],
+		},
+		{
+			name: 'Dimensions',
+			kind: 'OBJECT',
+			description: null,
+			fields: [
+				field('datetimeHour', named('Time', 'SCALAR')),
+				field('clientCountryName', named('String', 'SCALAR')),
+			],
+			interfaces: [],
+		},
+		{
+			name: 'ZoneFilter',
+			kind: 'INPUT_OBJECT',
+			description: null,
+			inputFields: [arg('zoneTag', named('String', 'SCALAR'))],
+		},
+		{
+			name: 'GroupFilter',
+			kind: 'INPUT_OBJECT',
+			description: null,
+			inputFields: [
+				arg('datetime_geq', named('Time', 'SCALAR')),
+				arg('datetime_lt', named('Time', 'SCALAR')),
+			],
+		},
+		scalar('Int'),
+		scalar('String'),
+		scalar('Boolean'),
+		scalar('Time'),
+	],
+}
+
+describe('validateGraphQLQuery', () => {
+	it('reports unknown fields with suggestions and missing arguments', () => {
+		const report = validateGraphQLQuery(
+			schema,
+			'{ viewer { zones { httpRequestAdaptiveGroups(limit: 10) { count } } } }'
+		)
+
+		expect(report.valid).toBe(false)
+		expect(report.errors).toEqual([
+			{
+				message:
+					'Cannot query field "httpRequestAdaptiveGroups" on type "Zone". Did you mean "httpRequestsAdaptiveGroups"?',
+				path: 'viewer.zones.httpRequestAdaptiveGroups',
+			},
+			{
+				message:
+					'Field "zones" argument "filter" of type "ZoneFilter!" is required, but it was not provided.',
+				path: 'viewer.zones',
+			},
+		])
+	})
+
+	it('reports syntax errors', () => {
+		const report = validateGraphQLQuery(schema, '{ viewer { zones }')
+
+		expect(report.valid).toBe(false)
+		expect(report.errors).toEqual([
+			{ message: 'Syntax Error: Expected Name, found <EOF>.', path: '' },
+		])
+	})
+
+	it('reports missing selections, invalid arguments and required variables', () => {
+		const report = validateGraphQLQuery(
+			schema,
+			'query ($tag: String!) { viewer { zones(filter: { zoneTag: $tag, zoneName: "a" }) } }'
+		)
+
+		expect(report.errors).toEqual([
+			{
+				message: 'Variable "$tag" of required type "String!" was not provided.',
+				path: '',
+			},
+			{
+				message:
+					'Field "zones" of type "[Zone]" must have a selection of subfields. Did you mean "zones { ... }"?',
+				path: 'viewer.zones',
+			},
+			{
+				message: 'Field "zoneName" is not defined by type "ZoneFilter". Did you mean "zoneTag"?',
+				path: 'viewer.zones',
+			},
+		])
+	})
+
+	it('follows fragments and applies the defaults of variables', () => {
+		const report = validateGraphQLQuery(
+			schema,
+			`
+			# comment
+			query Traffic($zoneTag: String, $limit: Int = 10) {
+				viewer {
+					zones(filter: { zoneTag: $zoneTag }) {
+						groups: httpRequestsAdaptiveGroups(limit: $limit) @include(if: true) {
+							...Counts
+						}
+					}
+				}
+			}
+			fragment Counts on Group { count dimensions { clientCountryName } }
+		`
+		)
+
+		expect(report).toMatchObject({ valid: true, errors: [], warnings: [] })
+		expect(report.estimate?.rows).toBe(10)
+	})
+
+	it('estimates the result size from limits and time ranges', () => {
+		const query = `query ($limit: Int!) {
+			viewer {
+				zones(filter: { zoneTag: "abc" }) {
+					firewallEventsAdaptive(filter: { datetime_geq: "2025-01-01T00:00:00Z", datetime_lt: "2025-01-02T00:00:00Z" }) {
+						count
+						dimensions { datetimeHour }
+					}
+					httpRequestsAdaptiveGroups(limit: $limit) { count }
+				}
+			}
+		}`
+
+		const report = validateGraphQLQuery(schema, query, { limit: 5 })
+
+		expect(report.valid).toBe(true)
+		expect(report.estimate?.rows).toBe(24)
+		expect(report.warnings).toEqual([
+			{
+				message:
+					'List field "firewallEventsAdaptive" has no "first" argument, so the result may be very large. Add e.g. first: 100.',
+				path: 'viewer.zones.firewallEventsAdaptive',
+				suggestions: ['first: 100'],
+			},
+		])
+	})
+
+	it('warns when the estimated result is too large', () => {
+		const report = validateGraphQLQuery(
+			schema,
+			'{ viewer { zones(filter: {}) { httpRequestsAdaptiveGroups(limit: 100000) { count dimensions { clientCountryName } } } } }'
+		)
+
+		expect(report.estimate?.exceedsSizeLimit).toBe(true)
+		expect(report.warnings[0].message).toContain('more than the 800KB')
+	})
+})
+
+describe('getTimeRangeSeconds', () => {
+	it('reads bounds from nested filters', () => {
+		expect(
+			getTimeRangeSeconds({
+				AND: [{ datetime_geq: '2025-01-01T00:00:00Z' }, { datetime_leq: '2025-01-01T01:00:00Z' }],
+			})
+		).toBe(3600)
+		expect(getTimeRangeSeconds({ zoneTag: 'abc' })).toBeNull()
+	})
+})
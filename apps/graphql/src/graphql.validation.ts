@@ -0,0 +1,347 @@
+import {
+	BREAK,
+	buildClientSchema,
+	getNamedType,
+	getNullableType,
+	getVariableValues,
+	GraphQLError,
+	GraphQLSchema,
+	isCompositeType,
+	isInterfaceType,
+	isListType,
+	isObjectType,
+	Kind,
+	parse,
+	specifiedDirectives,
+	specifiedRules,
+	validate,
+	valueFromASTUntyped,
+	visit,
+} from 'graphql'
+
+import type {
+	ASTNode,
+	DocumentNode,
+	FieldNode,
+	GraphQLCompositeType,
+	GraphQLField,
+	IntrospectionQuery,
+	SelectionSetNode,
+	ValidationContext,
+	ValidationRule,
+} from 'graphql'
+import type { IntrospectionSchema } from './graphql.schema'
+
+// Results larger than this fail in the MCP server, so graphql_query refuses them (800KB keeps us under 1MB)
+export const SIZE_LIMIT = 800000
+
+// Rows assumed for list fields without a limit, when their size can't be derived from a time range
+const UNLIMITED_LIST_ROWS = 10000
+// Rough size of a leaf value in the JSON response, e.g. a number or a short string, with punctuation
+const LEAF_VALUE_BYTES = 16
+
+export interface ValidationIssue {
+	message: string
+	// Path of the field the issue is about, e.g. viewer.zones
+	path: string
+	suggestions?: string[]
+}
+
+export interface ValidationReport {
+	valid: boolean
+	errors: ValidationIssue[]
+	warnings: ValidationIssue[]
+	estimate: {
+		rows: number
+		bytes: number
+		exceedsSizeLimit: boolean
+	} | null
+}
+
+// Seconds per row of the time dimensions of analytics datasets
+const TIME_DIMENSION_SECONDS: Record<string, number> = {
+	datetimeMinute: 60,
+	datetimeFiveMinutes: 5 * 60,
+	datetimeFifteenMinutes: 15 * 60,
+	datetimeHour: 60 * 60,
+	date: 24 * 60 * 60,
+}
+
+// Schemas built from introspection results, which are reused for as long as they are cached
+const clientSchemas = new WeakMap<IntrospectionSchema, GraphQLSchema>()
+
+function getClientSchema(introspection: IntrospectionSchema): GraphQLSchema {
+	let schema = clientSchemas.get(introspection)
+	if (!schema) {
+		// The introspection query asks for everything buildClientSchema reads except directives, and
+		// the API supports the standard ones
+		const built = buildClientSchema({ __schema: introspection } as unknown as IntrospectionQuery)
+		schema = new GraphQLSchema({ ...built.toConfig(), directives: specifiedDirectives })
+		clientSchemas.set(introspection, schema)
+	}
+	return schema
+}
+
+/**
+ * The path of the fields a node is in, e.g. viewer.zones for an argument of zones
+ */
+function getFieldPath(document: DocumentNode, target: ASTNode): string {
+	let path = ''
+	visit(document, {
+		enter(node, _key, _parent, _path, ancestors) {
+			if (node !== target) {
+				return
+			}
+			path = [...ancestors, node]
+				.filter(
+					(ancestor): ancestor is FieldNode => 'kind' in ancestor && ancestor.kind === Kind.FIELD
+				)
+				.map((field) => field.alias?.value ?? field.name.value)
+				.join('.')
+			return BREAK
+		},
+	})
+	return path
+}
+
+/**
+ * Seconds per row of the finest time dimension selected for a dataset, e.g. 3600 for
+ * `dimensions { datetimeHour }`
+ */
+function getTimeDimensionSeconds(selectionSet: SelectionSetNode): number | null {
+	let seconds: number | null = null
+	for (const selection of selectionSet.selections) {
+		if (selection.kind === Kind.FRAGMENT_SPREAD) {
+			continue
+		}
+		const nested = selection.selectionSet
+			? getTimeDimensionSeconds(selection.selectionSet)
+			: selection.kind === Kind.FIELD
+				? (TIME_DIMENSION_SECONDS[selection.name.value] ?? null)
+				: null
+		if (nested !== null) {
+			seconds = Math.min(seconds ?? nested, nested)
+		}
+	}
+	return seconds
+}
+
+/**
+ * Checks the limits of list fields and estimates the size of the result of each operation. List
+ * fields without a limit are reported as warnings, and the estimate is added to the report.
+ */
+function estimateResultSize(
+	report: ValidationReport,
+	variables: Record<string, unknown>
+): ValidationRule {
+	return (context: ValidationContext) => {
+		let variableValues: Record<string, unknown> = variables
+
+		const estimateListRows = (
+			field: GraphQLField<unknown, unknown>,
+			node: FieldNode,
+			timeSeconds: number | null,
+			fieldPath: string
+		): number => {
+			const argValue = (name: string) => {
+				const arg = node.arguments?.find((a) => a.name.value === name)
+				return arg ? valueFromASTUntyped(arg.value, variableValues) : undefined
+			}
+			const limit = Number(argValue('limit') ?? argValue('first'))
+			if (Number.isFinite(limit) && limit > 0) {
+				return limit
+			}
+
+			const supportsLimit = field.args.find((arg) => arg.name === 'limit' || arg.name === 'first')
+			const timeRange = getTimeRangeSeconds(argValue('filter'))
+			const rowsFromTimeRange =
+				timeRange !== null && timeSeconds !== null ? Math.ceil(timeRange / timeSeconds) : null
+			if (supportsLimit) {
+				report.warnings.push({
+					message: `List field "${field.name}" has no "${supportsLimit.name}" argument, so the result may be very large. Add e.g. ${supportsLimit.name}: 100.`,
+					path: fieldPath,
+					suggestions: [`${supportsLimit.name}: 100`],
+				})
+			}
+			return rowsFromTimeRange ?? (supportsLimit ? UNLIMITED_LIST_ROWS : 1)
+		}
+
+		// Returns the estimated size of the selections, in bytes, and the rows of the largest list.
+		// Anything that isn't in the schema is skipped, as the other rules report it.
+		const estimate = (
+			parent: GraphQLCompositeType,
+			selectionSet: SelectionSetNode,
+			path: string,
+			visitedFragments: Set<string>
+		): { bytes: number; rows: number } => {
+			let bytes = 0
+			let rows = 0
+			for (const selection of selectionSet.selections) {
+				if (selection.kind !== Kind.FIELD) {
+					const spread = selection.kind === Kind.FRAGMENT_SPREAD ? selection.name.value : null
+					const fragment =
+						selection.kind === Kind.FRAGMENT_SPREAD
+							? context.getFragment(selection.name.value)
+							: selection
+					if (!fragment || (spread !== null && visitedFragments.has(spread))) {
+						continue
+					}
+					const fragmentType = fragment.typeCondition
+						? context.getSchema().getType(fragment.typeCondition.name.value)
+						: parent
+					if (!isCompositeType(fragmentType)) {
+						continue
+					}
+					const nested = estimate(
+						fragmentType,
+						fragment.selectionSet,
+						path,
+						spread !== null ? new Set([...visitedFragments, spread]) : visitedFragments
+					)
+					bytes += nested.bytes
+					rows = Math.max(rows, nested.rows)
+					continue
+				}
+
+				const name = selection.alias?.value ?? selection.name.value
+				const fieldPath = path ? `${path}.${name}` : name
+				const keyBytes = name.length + 4
+				const field =
+					isObjectType(parent) || isInterfaceType(parent)
+						? parent.getFields()[selection.name.value]
+						: undefined
+				const namedType = field ? getNamedType(field.type) : undefined
+				if (!field || !selection.selectionSet || !isCompositeType(namedType)) {
+					bytes += keyBytes + LEAF_VALUE_BYTES
+					continue
+				}
+
+				const nested = estimate(namedType, selection.selectionSet, fieldPath, visitedFragments)
+				if (!isListType(getNullableType(field.type))) {
+					bytes += keyBytes + nested.bytes
+					rows = Math.max(rows, nested.rows)
+					continue
+				}
+
+				const listRows = estimateListRows(
+					field,
+					selection,
+					getTimeDimensionSeconds(selection.selectionSet),
+					fieldPath
+				)
+				bytes += keyBytes + listRows * nested.bytes
+				rows = Math.max(rows, listRows * Math.max(1, nested.rows))
+			}
+			return { bytes, rows }
+		}
+
+		return {
+			OperationDefinition(operation) {
+				// Reports missing and invalid values of variables, and applies their defaults
+				const values = getVariableValues(
+					context.getSchema(),
+					operation.variableDefinitions ?? [],
+					variables
+				)
+				for (const error of values.errors ?? []) {
+					context.reportError(error)
+				}
+				variableValues = values.coerced ?? variables
+
+				const root = context.getSchema().getRootType(operation.operation)
+				if (!root) {
+					return
+				}
+				const { bytes, rows } = estimate(root, operation.selectionSet, '', new Set())
+				report.estimate = {
+					rows: (report.estimate?.rows ?? 0) + rows,
+					bytes: (report.estimate?.bytes ?? 0) + bytes,
+					exceedsSizeLimit: (report.estimate?.bytes ?? 0) + bytes > SIZE_LIMIT,
+				}
+			},
+		}
+	}
+}
+
+/**
+ * Validates a query against the schema before it is sent, with the rules of graphql-js, and
+ * estimates the size of its result. Also reports missing variables and list fields without a limit.
+ * @param schema The introspected schema
+ * @param query The GraphQL query
+ * @param variables The variables the query is sent with
+ * @returns The validation report
+ */
+export function validateGraphQLQuery(
+	schema: IntrospectionSchema,
+	query: string,
+	variables: Record<string, unknown> = {}
+): ValidationReport {
+	const report: ValidationReport = { valid: true, errors: [], warnings: [], estimate: null }
+
+	let document: DocumentNode
+	try {
+		document = parse(query)
+	} catch (e) {
+		if (!(e instanceof GraphQLError)) {
+			throw e
+		}
+		return { ...report, valid: false, errors: [{ message: e.message, path: '' }] }
+	}
+
+	const errors = validate(getClientSchema(schema), document, [
+		...specifiedRules,
+		estimateResultSize(report, variables),
+	])
+	for (const error of errors) {
+		report.valid = false
+		report.errors.push({
+			message: error.message,
+			path: error.nodes?.[0] ? getFieldPath(document, error.nodes[0]) : '',
+		})
+	}
+
+	if (report.estimate?.exceedsSizeLimit) {
+		report.warnings.push({
+			message: `The result is estimated at ${Math.round(report.estimate.bytes / 1024)}KB, more than the ${SIZE_LIMIT / 1000}KB that can be returned. Lower the limits, shorten the time range or request fewer fields.`,
+			path: '',
+		})
+	}
+
+	return report
+}
+
+/**
+ * The length of the time range of a dataset filter, from datetime or date bounds such as
+ * datetime_geq and datetime_lt, including bounds nested in AND filters
+ */
+export function getTimeRangeSeconds(filter: unknown): number | null {
+	let start: number | undefined
+	let end: number | undefined
+	const collect = (value: unknown) => {
+		if (Array.isArray(value)) {
+			value.forEach(collect)
+			return
+		}
+		if (!value || typeof value !== 'object') {
+			return
+		}
+		for (const [key, bound] of Object.entries(value)) {
+			const match = /^(datetime|date)[A-Za-z]*_(geq|gt|leq|lt)$/.exec(key)
+			const time = typeof bound === 'string' ? Date.parse(bound) : NaN
+			if (match && !isNaN(time)) {
+				if (match[2].startsWith('g')) {
+					start = Math.max(start ?? time, time)
+				} else {
+					end = Math.min(end ?? time, time)
+				}
+			} else if (key === 'AND' || key === 'OR') {
+				collect(bound)
+			}
+		}
+	}
+	collect(filter)
+	if (start === undefined) {
+		return null
+	}
+	return Math.max(0, ((end ?? Date.now()) - start) / 1000)
+}
@@ -0,0 +1,75 @@
+import { z } from 'zod'
+
+import { fillQueryTemplate, QUERY_TEMPLATES, TemplateError } from '../graphql.templates'
+
+import type { GraphQLMCP } from '../graphql.app'
+
+/**
+ * Registers a prompt for each query template, which asks to run the template with graphql_run_template
+ * @param agent The MCP agent instance
+ */
+export function registerGraphQLPrompts(agent: GraphQLMCP) {
+	for (const template of QUERY_TEMPLATES) {
+		agent.server.prompt(
+			template.name,
+			`${template.description}, from the ${template.dataset} dataset`,
+			{
+				tag: z
+					.string()
+					.optional()
+					.describe(template.scope === 'zone' ? 'Zone tag (zone ID)' : 'Account tag (account ID)'),
+				start: z.string().optional().describe('Start of the time range as an ISO 8601 datetime'),
+				end: z.string().optional().describe('End of the time range as an ISO 8601 datetime'),
+				dimensions: z
+					.string()
+					.optional()
+					.describe(`Comma-separated dimensions to group by: ${template.dimensions.join(', ')}`),
+			},
+			async ({ tag, start, end, dimensions }) => {
+				const args = {
+					template: template.name,
+					...(tag && { tag }),
+					...(start && { start }),
+					...(end && { end }),
+					...(dimensions && { dimensions: dimensions.split(',').map((d) => d.trim()) }),
+				}
+				let query: string
+				try {
+					query = fillQueryTemplate(template, {
+						tag: tag ?? '',
+						start,
+						end,
+						dimensions: args.dimensions,
+					}).query
+				} catch (error) {
+					if (!(error instanceof TemplateError)) {
+						throw error
+					}
+					return {
+						messages: [
+							{
+								role: 'user',
+								content: {
+									type: 'text',
+									text: `Show me the ${template.description.toLowerCase()}. The arguments I gave are invalid: ${error.message}. Ask me to correct them, then run the graphql_run_template tool with the "${template.name}" template.`,
+								},
+							},
+						],
+					}
+				}
+
+				return {
+					messages: [
+						{
+							role: 'user',
+							content: {
+								type: 'text',
+								text: `Show me the ${template.description.toLowerCase()}. Run the graphql_run_template tool with these arguments:\n\`\`\`json\n${JSON.stringify(args, null, 2)}\n\`\`\`\n\nIt runs this query:\n\`\`\`graphql\n${query}\n\`\`\``,
+							},
+						},
+					],
+				}
+			}
+		)
+	}
+}
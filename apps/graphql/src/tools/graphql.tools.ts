@@ -1,215 +1,36 @@
 import * as LZString from 'lz-string'
 import { z } from 'zod'
 
-import type { GraphQLMCP } from '../graphql.app'
-
-// GraphQL API endpoint
-const CLOUDFLARE_GRAPHQL_ENDPOINT = 'https://api.cloudflare.com/client/v4/graphql'
-
-// Type definitions for GraphQL schema responses
-interface GraphQLTypeRef {
-	kind: string
-	name: string | null
-	ofType?: GraphQLTypeRef | null
-}
-
-interface GraphQLField {
-	name: string
-	description: string | null
-	args: Array<{
-		name: string
-		description: string | null
-		type: GraphQLTypeRef
-	}>
-	type: GraphQLTypeRef
-}
-
-interface GraphQLType {
-	name: string
-	kind: string
-	description: string | null
-	fields?: GraphQLField[] | null
-	inputFields?: Array<{
-		name: string
-		description: string | null
-		type: GraphQLTypeRef
-	}> | null
-	interfaces?: Array<{ name: string }> | null
-	enumValues?: Array<{
-		name: string
-		description: string | null
-	}> | null
-	possibleTypes?: Array<{ name: string }> | null
-}
-
-interface SchemaOverviewResponse {
-	data: {
-		__schema: {
-			queryType: { name: string } | null
-			mutationType: { name: string } | null
-			subscriptionType: { name: string } | null
-			types: Array<{
-				name: string
-				kind: string
-				description: string | null
-			}>
-		}
-	}
-}
-
-interface TypeDetailsResponse {
-	data: {
-		__type: GraphQLType
-	}
-}
-
-// Define the structure of a single error
-const graphQLErrorSchema = z.object({
-	message: z.string(),
-	path: z.array(z.union([z.string(), z.number()])),
-	extensions: z.object({
-		code: z.string(),
-		timestamp: z.string(),
-		ray_id: z.string(),
-	}),
-})
-
-// Define the overall GraphQL response schema
-const graphQLResponseSchema = z.object({
-	data: z.union([z.record(z.unknown()), z.null()]),
-	errors: z.union([z.array(graphQLErrorSchema), z.null()]),
-})
-
-/**
- * Fetches the high-level overview of the GraphQL schema
- * @param apiToken Cloudflare API token
- * @returns Basic schema structure
- */
-async function fetchSchemaOverview(apiToken: string): Promise<SchemaOverviewResponse> {
-	const overviewQuery = `
-		query SchemaOverview {
-			__schema {
-				queryType { name }
-				mutationType { name }
-				subscriptionType { name }
-				types {
-					name
-					kind
-					description
-				}
-			}
-		}
-	`
-
-	const response = await executeGraphQLRequest<SchemaOverviewResponse>(overviewQuery, apiToken)
-	return response
-}
-
-/**
- * Fetches detailed information about a specific GraphQL type
- * @param typeName The name of the type to fetch details for
- * @param apiToken Cloudflare API token
- * @returns Detailed type information
- */
-async function fetchTypeDetails(typeName: string, apiToken: string): Promise<TypeDetailsResponse> {
-	const typeDetailsQuery = `
-		query TypeDetails {
-			__type(name: "${typeName}") {
-				name
-				kind
-				description
-				fields(includeDeprecated: false) {
-					name
-					description
-					args {
-						name
-						description
-						type {
-							kind
-							name
-							ofType {
-								kind
-								name
-							}
-						}
-					}
-					type {
-						kind
-						name
-						ofType {
-							kind
-							name
-							ofType {
-								kind
-								name
-							}
-						}
-					}
-				}
-				inputFields {
-					name
-					description
-					type {
-						kind
-						name
-						ofType {
-							kind
-							name
-						}
-					}
-				}
-				interfaces {
-					name
-				}
-				enumValues(includeDeprecated: false) {
-					name
-					description
-				}
-				possibleTypes {
-					name
-				}
-			}
-		}
-	`
+import { fetchDatasets, formatDatasets, Pagination } from '../graphql.results'
+import {
+	CLOUDFLARE_GRAPHQL_ENDPOINT,
+	describeType,
+	findPathsToType,
+	getCachedSchema,
+	getSchemaType,
+	graphQLResponseSchema,
+	searchGraphQLSchema,
+} from '../graphql.schema'
+import {
+	DEFAULT_TEMPLATE_LIMIT,
+	DEFAULT_TEMPLATE_RANGE_HOURS,
+	fillQueryTemplate,
+	getQueryTemplate,
+	QUERY_TEMPLATES,
+} from '../graphql.templates'
+import { SIZE_LIMIT, validateGraphQLQuery } from '../graphql.validation'
 
-	const response = await executeGraphQLRequest<TypeDetailsResponse>(typeDetailsQuery, apiToken)
-	return response
-}
+import type { GraphQLMCP } from '../graphql.app'
+import type { TypeDescription } from '../graphql.schema'
+import type { ValidationIssue, ValidationReport } from '../graphql.validation'
 
 /**
- * Helper function to execute GraphQL requests
- * @param query GraphQL query to execute
- * @param apiToken Cloudflare API token
- * @returns Response data
+ * Formats validation errors or warnings as a Markdown list
  */
-async function executeGraphQLRequest<T>(query: string, apiToken: string): Promise<T> {
-	const response = await fetch(CLOUDFLARE_GRAPHQL_ENDPOINT, {
-		method: 'POST',
-		headers: {
-			'Content-Type': 'application/json',
-			Authorization: `Bearer ${apiToken}`,
-		},
-		body: JSON.stringify({ query }),
-	})
-
-	if (!response.ok) {
-		throw new Error(`Failed to execute GraphQL request: ${response.statusText}`)
-	}
-
-	const data = graphQLResponseSchema.parse(await response.json())
-
-	// Check for GraphQL errors in the response
-	if (data && data.errors && Array.isArray(data.errors) && data.errors.length > 0) {
-		const errorMessages = data.errors.map((e: { message: string }) => e.message).join(', ')
-		console.warn(`GraphQL errors: ${errorMessages}`)
-
-		// If the error is about mutations not being supported, we can handle it gracefully
-		if (errorMessages.includes('Mutations are not supported')) {
-			console.info('Mutations are not supported by the Cloudflare GraphQL API')
-		}
-	}
-
-	return data as T
+function formatValidationIssues(issues: ValidationIssue[]): string {
+	return issues
+		.map((issue) => `- ${issue.path ? `${issue.path}: ` : ''}${issue.message}`)
+		.join('\n')
 }
 
 /**
@@ -250,186 +71,6 @@ async function executeGraphQLQuery(query: string, variables: any, apiToken: stri
 	return result
 }
 
-/**
- * Searches for matching types and fields in a GraphQL schema
- * @param schema The GraphQL schema to search
- * @param keyword The keyword to search for
- * @param typeDetails Optional map of type details for deeper searching
- * @returns Matching types and fields
- */
-async function searchGraphQLSchema(
-	schema: SchemaOverviewResponse,
-	keyword: string,
-	accountId: string,
-	apiToken: string,
-	maxDetailsToFetch: number = 10,
-	onlyObjectTypes: boolean = true
-) {
-	const normalizedKeyword = keyword.toLowerCase()
-	const results = {
-		types: [] as Array<{
-			name: string
-			kind: string
-			description: string | null
-			matchReason: string
-		}>,
-		fields: [] as Array<{
-			typeName: string
-			fieldName: string
-			description: string | null
-			matchReason: string
-		}>,
-		enumValues: [] as Array<{
-			typeName: string
-			enumValue: string
-			description: string | null
-			matchReason: string
-		}>,
-		args: [] as Array<{
-			typeName: string
-			fieldName: string
-			argName: string
-			description: string | null
-			matchReason: string
-		}>,
-	}
-
-	// First pass: Search through type names and descriptions
-	const matchingTypeNames: string[] = []
-
-	for (const type of schema.data.__schema.types || []) {
-		// Skip internal types (those starting with __)
-		if (type.name?.startsWith('__')) continue
-
-		// Check if type name or description matches
-		if (type.name?.toLowerCase().includes(normalizedKeyword)) {
-			results.types.push({
-				...type,
-				matchReason: `Type name contains "${keyword}"`,
-			})
-			matchingTypeNames.push(type.name)
-		} else if (type.description?.toLowerCase().includes(normalizedKeyword)) {
-			results.types.push({
-				...type,
-				matchReason: `Type description contains "${keyword}"`,
-			})
-			matchingTypeNames.push(type.name)
-		}
-	}
-
-	// Second pass: For potentially relevant types, fetch details and search deeper
-	// Start with matching types, then add important schema types if we have capacity
-	let typesToExamine = [...matchingTypeNames]
-
-	// Add root operation types if they're not already included
-	const rootTypes = [
-		schema.data.__schema.queryType?.name,
-		schema.data.__schema.mutationType?.name,
-		schema.data.__schema.subscriptionType?.name,
-	].filter(Boolean) as string[]
-
-	for (const rootType of rootTypes) {
-		if (!typesToExamine.includes(rootType)) {
-			typesToExamine.push(rootType)
-		}
-	}
-
-	// Add object types that might contain relevant fields
-	const objectTypes = schema.data.__schema.types
-		.filter((t) => {
-			// If onlyObjectTypes is true, only include OBJECT types
-			if (onlyObjectTypes) {
-				return t.kind === 'OBJECT' && !t.name.startsWith('__')
-			}
-			// Otherwise include both OBJECT and INTERFACE types
-			return (t.kind === 'OBJECT' || t.kind === 'INTERFACE') && !t.name.startsWith('__')
-		})
-		.map((t) => t.name)
-
-	// Combine all potential types to examine, but limit to a reasonable number
-	typesToExamine = [...new Set([...typesToExamine, ...objectTypes])].slice(0, maxDetailsToFetch)
-
-	// Fetch details for these types and search through their fields
-	for (const typeName of typesToExamine) {
-		try {
-			const typeDetails = await fetchTypeDetails(typeName, apiToken)
-			const type = typeDetails.data.__type
-
-			if (!type) continue
-
-			// Search through fields
-			if (type.fields) {
-				for (const field of type.fields) {
-					// Check if field name or description matches
-					if (field.name.toLowerCase().includes(normalizedKeyword)) {
-						results.fields.push({
-							typeName: type.name,
-							fieldName: field.name,
-							description: field.description,
-							matchReason: `Field name contains "${keyword}"`,
-						})
-					} else if (field.description?.toLowerCase().includes(normalizedKeyword)) {
-						results.fields.push({
-							typeName: type.name,
-							fieldName: field.name,
-							description: field.description,
-							matchReason: `Field description contains "${keyword}"`,
-						})
-					}
-
-					// Search through field arguments
-					if (field.args) {
-						for (const arg of field.args) {
-							if (arg.name.toLowerCase().includes(normalizedKeyword)) {
-								results.args.push({
-									typeName: type.name,
-									fieldName: field.name,
-									argName: arg.name,
-									description: arg.description,
-									matchReason: `Argument name contains "${keyword}"`,
-								})
-							} else if (arg.description?.toLowerCase().includes(normalizedKeyword)) {
-								results.args.push({
-									typeName: type.name,
-									fieldName: field.name,
-									argName: arg.name,
-									description: arg.description,
-									matchReason: `Argument description contains "${keyword}"`,
-								})
-							}
-						}
-					}
-				}
-			}
-
-			// Search through enum values
-			if (type.enumValues) {
-				for (const enumValue of type.enumValues) {
-					if (enumValue.name.toLowerCase().includes(normalizedKeyword)) {
-						results.enumValues.push({
-							typeName: type.name,
-							enumValue: enumValue.name,
-							description: enumValue.description,
-							matchReason: `Enum value contains "${keyword}"`,
-						})
-					} else if (enumValue.description?.toLowerCase().includes(normalizedKeyword)) {
-						results.enumValues.push({
-							typeName: type.name,
-							enumValue: enumValue.name,
-							description: enumValue.description,
-							matchReason: `Enum value description contains "${keyword}"`,
-						})
-					}
-				}
-			}
-		} catch (error) {
-			console.error(`Error fetching details for type ${typeName}:`, error)
-		}
-	}
-
-	return results
-}
-
 /**
  * Registers GraphQL tools with the MCP server
  * @param agent The MCP agent instance
@@ -453,6 +94,7 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 		Workflow:
 			1. Use this tool to search for dataset types by keyword.
 			2. When a relevant dataset type is found, immediately use graphql_schema_details to get the complete structure of that dataset.
+			   Use graphql_type_paths to find where the dataset is nested in a query, and which arguments are required along the way.
 			3. After understanding the schema structure, proceed directly to constructing and executing queries using the graphql_query tool.
 			4. Do not use graphql_schema_overview or graphql_complete_schema after finding the relevant dataset - these are redundant steps.
 
@@ -460,12 +102,14 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 		`,
 		{
 			keyword: z.string().describe('The keyword to search for in the schema'),
-			maxDetailsToFetch: z
+			maxResults: z
 				.number()
 				.min(1)
-				.max(50)
-				.default(10)
-				.describe('Maximum number of types to fetch details for'),
+				.max(200)
+				.default(50)
+				.describe(
+					'Maximum number of matching types, fields, enum values and arguments to return each'
+				),
 			includeInternalTypes: z
 				.boolean()
 				.default(false)
@@ -482,7 +126,7 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 		async (params) => {
 			const {
 				keyword,
-				maxDetailsToFetch = 10,
+				maxResults = 50,
 				includeInternalTypes = false,
 				onlyObjectTypes = true,
 			} = params
@@ -499,18 +143,10 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 			}
 
 			try {
-				// First fetch the schema overview
-				const schemaOverview = await fetchSchemaOverview(agent.props.accessToken)
+				const schema = await getCachedSchema(agent.env, agent.props.accessToken)
 
 				// Search the schema for the keyword
-				const searchResults = await searchGraphQLSchema(
-					schemaOverview,
-					keyword,
-					accountId,
-					agent.props.accessToken,
-					maxDetailsToFetch,
-					onlyObjectTypes
-				)
+				const searchResults = searchGraphQLSchema(schema, keyword, onlyObjectTypes)
 
 				// Filter out internal types if requested
 				if (!includeInternalTypes) {
@@ -552,7 +188,12 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 						enumValueMatches: searchResults.enumValues.length,
 						argumentMatches: searchResults.args.length,
 					},
-					results: searchResults,
+					results: {
+						types: searchResults.types.slice(0, maxResults),
+						fields: searchResults.fields.slice(0, maxResults),
+						enumValues: searchResults.enumValues.slice(0, maxResults),
+						args: searchResults.args.slice(0, maxResults),
+					},
 				}
 
 				return {
@@ -616,10 +257,14 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 			}
 
 			try {
-				const schemaOverview = await fetchSchemaOverview(agent.props.accessToken)
+				const schema = await getCachedSchema(agent.env, agent.props.accessToken)
 
 				// Apply pagination to the types array
-				const allTypes = schemaOverview.data.__schema.types || []
+				const allTypes = schema.types.map(({ name, kind, description }) => ({
+					name,
+					kind,
+					description,
+				}))
 				const totalTypes = allTypes.length
 				const totalPages = Math.ceil(totalTypes / pageSize)
 
@@ -631,9 +276,9 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 				const paginatedSchema = {
 					data: {
 						__schema: {
-							queryType: schemaOverview.data.__schema.queryType,
-							mutationType: schemaOverview.data.__schema.mutationType,
-							subscriptionType: schemaOverview.data.__schema.subscriptionType,
+							queryType: schema.queryType,
+							mutationType: schema.mutationType,
+							subscriptionType: schema.subscriptionType,
 							types: allTypes.slice(startIndex, endIndex),
 						},
 					},
@@ -730,7 +375,21 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 			}
 
 			try {
-				const typeDetails = await fetchTypeDetails(typeName, agent.props.accessToken)
+				const schema = await getCachedSchema(agent.env, agent.props.accessToken)
+				const type = getSchemaType(schema, typeName)
+				if (!type) {
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify({
+									error: `Type "${typeName}" does not exist in the schema. Use graphql_schema_search to find the type name.`,
+								}),
+							},
+						],
+					}
+				}
+				const typeDetails = { data: { __type: describeType(type) } }
 
 				// Apply pagination to fields if they exist
 				const allFields = typeDetails.data.__type.fields || []
@@ -805,6 +464,81 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 		}
 	)
 
+	// Tool to find how to reach a type from the query root
+	agent.server.tool(
+		'graphql_type_paths',
+		`Find the field paths from the root of the Cloudflare GraphQL API schema to a type (dataset)
+
+		Use this tool when:
+
+			- You found a dataset type with graphql_schema_search or graphql_type_details, and need to know where it is nested in a query, e.g. viewer.zones.httpRequestsAdaptiveGroups.
+			- You need to know which arguments, such as filters with zoneTag or accountTag, each field along the way requires.
+
+		The shortest paths are returned first, with the type and required arguments of each field.
+		`,
+		{
+			typeName: z.string().describe('The type name (dataset) to find paths to'),
+			maxPaths: z.number().min(1).max(20).default(5).describe('Maximum number of paths to return'),
+		},
+		async (params) => {
+			const { typeName, maxPaths = 5 } = params
+			const accountId = await agent.getActiveAccountId()
+			if (!accountId) {
+				return {
+					content: [
+						{
+							type: 'text',
+							text: 'No currently active accountId. Try listing your accounts (accounts_list) and then setting an active account (set_active_account)',
+						},
+					],
+				}
+			}
+
+			try {
+				const schema = await getCachedSchema(agent.env, agent.props.accessToken)
+				if (!getSchemaType(schema, typeName)) {
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify({
+									error: `Type "${typeName}" does not exist in the schema. Use graphql_schema_search to find the type name.`,
+								}),
+							},
+						],
+					}
+				}
+
+				const paths = findPathsToType(schema, typeName, maxPaths)
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify({
+								typeName,
+								paths: paths.map((steps) => ({
+									path: steps.map((step) => step.field).join('.'),
+									steps,
+								})),
+							}),
+						},
+					],
+				}
+			} catch (error) {
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify({
+								error: `Error finding paths to type: ${error instanceof Error ? error.message : String(error)}`,
+							}),
+						},
+					],
+				}
+			}
+		}
+	)
+
 	// Tool to fetch the complete GraphQL schema (combines overview and important type details)
 	agent.server.tool(
 		'graphql_complete_schema',
@@ -849,11 +583,14 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 			}
 
 			try {
-				// First fetch the schema overview
-				const schemaOverview = await fetchSchemaOverview(agent.props.accessToken)
+				const cachedSchema = await getCachedSchema(agent.env, agent.props.accessToken)
 
 				// Apply pagination to the types array
-				const allTypes = schemaOverview.data.__schema.types || []
+				const allTypes = cachedSchema.types.map(({ name, kind, description }) => ({
+					name,
+					kind,
+					description,
+				}))
 				const totalTypes = allTypes.length
 				const totalPages = Math.ceil(totalTypes / typesPageSize)
 
@@ -878,7 +615,7 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 							}>
 						}
 					}
-					typeDetails: Record<string, GraphQLType>
+					typeDetails: Record<string, TypeDescription>
 					pagination: {
 						types: {
 							page: number
@@ -892,13 +629,13 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 				} = {
 					data: {
 						__schema: {
-							queryType: schemaOverview.data.__schema.queryType,
-							mutationType: schemaOverview.data.__schema.mutationType,
-							subscriptionType: schemaOverview.data.__schema.subscriptionType,
+							queryType: cachedSchema.queryType,
+							mutationType: cachedSchema.mutationType,
+							subscriptionType: cachedSchema.subscriptionType,
 							types: paginatedTypes,
 						},
 					},
-					typeDetails: {} as Record<string, GraphQLType>,
+					typeDetails: {} as Record<string, TypeDescription>,
 					pagination: {
 						types: {
 							page: typesPage,
@@ -915,24 +652,15 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 				if (includeRootTypeDetails) {
 					// Identify important root types
 					const rootTypes = [
-						schemaOverview.data.__schema.queryType?.name,
-						...(schemaOverview.data.__schema.mutationType?.name
-							? [schemaOverview.data.__schema.mutationType.name]
-							: []),
+						cachedSchema.queryType?.name,
+						...(cachedSchema.mutationType?.name ? [cachedSchema.mutationType.name] : []),
 					].filter(Boolean) as string[]
 
-					// Limit the number of types to fetch details for
-					const typesToFetch = rootTypes.slice(0, maxTypeDetailsToFetch)
-
-					// Fetch details for each type
-					for (const typeName of typesToFetch) {
-						try {
-							const typeDetails = await fetchTypeDetails(typeName, agent.props.accessToken)
-							if (typeDetails.data.__type) {
-								schema.typeDetails[typeName] = typeDetails.data.__type
-							}
-						} catch (error) {
-							console.error(`Error fetching details for type ${typeName}:`, error)
+					// Limit the number of types to include details for
+					for (const typeName of rootTypes.slice(0, maxTypeDetailsToFetch)) {
+						const type = getSchemaType(cachedSchema, typeName)
+						if (type) {
+							schema.typeDetails[typeName] = describeType(type)
 						}
 					}
 				}
@@ -975,7 +703,14 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 			- You need to retrieve live information from Cloudflare, such as analytics, logs, account data, or configuration details.
 			- You want to validate the behavior of a GraphQL query or inspect its runtime results.
 
-		This tool sends a user-defined GraphQL query to the Cloudflare API and returns the raw response exactly as received. When filtering or querying by time, use ISO 8601 datetime format (e.g., "2020-08-03T02:07:05Z").
+		Before the query is sent, it is validated against the schema: syntax errors, unknown fields and arguments with suggestions, values of the wrong type, missing required arguments and variables, and list fields without a limit are reported, and the size of the result is estimated. Queries with errors are not sent, unless validation is set to warn or skip. Set dry_run to only get the validation report.
+
+		This tool sends a user-defined GraphQL query to the Cloudflare API and returns the raw response exactly as received.
+
+		Set format to "table" to get the dataset arrays in the response (e.g. viewer.zones[].httpRequestsAdaptiveGroups[]) as TSV tables instead, with the fields of dimensions, sum, avg and other nested objects as columns. Large results can be fetched in pages with pagination, which always returns tables:
+			- mode "time" splits the range between two variables, e.g. $start and $end used in datetime_geq: $start, datetime_lt: $end, into windows and fetches each.
+			- mode "cursor" fetches pages of a query ordered by a field (orderBy) and filtered on a variable, e.g. datetime_gt: $cursor, setting the variable to the field of the last row of each page.
+		Pages are fetched until max_rows rows are returned. When filtering or querying by time, use ISO 8601 datetime format (e.g., "2020-08-03T02:07:05Z").
 
 		For each query execution, a clickable GraphQL API Explorer link will be provided in the response. Users can click this link to open the query in Cloudflare's GraphQL Explorer interface where they can further modify and experiment with the query.
 
@@ -987,6 +722,32 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 		{
 			query: z.string().describe('The GraphQL query to execute'),
 			variables: z.record(z.any()).optional().describe('Variables for the query'),
+			dry_run: z
+				.boolean()
+				.default(false)
+				.describe(
+					'Only validate the query and estimate the size of its result, without executing it'
+				),
+			validation: z
+				.enum(['enforce', 'warn', 'skip'])
+				.default('enforce')
+				.describe(
+					'How validation errors are handled: enforce does not send queries with errors, warn sends them anyway and returns the errors with the result, and skip sends the query without validating it. Use warn or skip when a query that is known to work is reported as invalid.'
+				),
+			format: z
+				.enum(['json', 'table'])
+				.default('json')
+				.describe('Return the raw JSON response, or the datasets in it as TSV tables'),
+			pagination: Pagination.optional().describe(
+				'Fetch the result in pages of time windows or orderBy cursors, and merge them into tables'
+			),
+			max_rows: z
+				.number()
+				.int()
+				.min(1)
+				.max(10000)
+				.default(1000)
+				.describe('Maximum number of rows to return in tables'),
 		},
 		async (params) => {
 			const accountId = await agent.getActiveAccountId()
@@ -1002,10 +763,44 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 			}
 
 			try {
-				const { query, variables = {} } = params
+				const {
+					query,
+					variables = {},
+					dry_run = false,
+					validation = 'enforce',
+					format = 'json',
+					pagination,
+					max_rows = 1000,
+				} = params
+
+				// Validate the query before sending it. If the schema isn't available, the query is
+				// sent anyway, and the API reports any errors.
+				let report: ValidationReport | undefined
+				if (dry_run || validation !== 'skip') {
+					try {
+						const schema = await getCachedSchema(agent.env, agent.props.accessToken)
+						report = validateGraphQLQuery(schema, query, variables)
+					} catch (error) {
+						console.error('Error validating GraphQL query:', error)
+					}
+				}
+				if (dry_run || (validation === 'enforce' && report && !report.valid)) {
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(
+									report ?? { error: 'The schema is not available, so the query was not validated' }
+								),
+							},
+						],
+					}
+				}
 
-				// Execute the GraphQL query and get the raw result
-				const result = await executeGraphQLQuery(query, variables, agent.props.accessToken)
+				const validationErrors =
+					report && !report.valid
+						? `\n\nThe query was sent although validation reported errors:\n${formatValidationIssues(report.errors)}`
+						: ''
 
 				// Generate GraphQL API Explorer link for this query
 				const compressedQuery = LZString.compressToEncodedURIComponent(query)
@@ -1014,9 +809,44 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 				)
 				const explorerUrl = `https://graphql.cloudflare.com/explorer?query=${compressedQuery}&variables=${compressedVariables}`
 
+				if (format === 'table' || pagination) {
+					const { datasets, pages, totalRows, truncated } = await fetchDatasets(
+						(pageVariables) => executeGraphQLQuery(query, pageVariables, agent.props.accessToken),
+						variables,
+						pagination,
+						max_rows
+					)
+					const tables = await formatDatasets(datasets)
+					if (tables.length > SIZE_LIMIT) {
+						return {
+							content: [
+								{
+									type: 'text',
+									text: `ERROR: Query result exceeds size limit (${Math.round(tables.length / 1024)}KB). Please use a lower max_rows, or request fewer fields.`,
+								},
+							],
+						}
+					}
+
+					const shownRows = datasets.reduce((total, dataset) => total + dataset.rows.length, 0)
+					const summary = truncated
+						? `Showing the first ${shownRows} of ${totalRows} fetched rows from ${pages} page(s). More rows are available, increase max_rows to fetch them.`
+						: `Showing all ${shownRows} rows from ${pages} page(s).`
+					return {
+						content: [
+							{
+								type: 'text',
+								text: `${tables || 'The response does not contain any datasets.'}\n\n${summary}${validationErrors}\n\n**[Open in GraphQL Explorer](${explorerUrl})**\nClick the link above to view and modify this query in the Cloudflare GraphQL API Explorer.`,
+							},
+						],
+					}
+				}
+
+				// Execute the GraphQL query and get the raw result
+				const result = await executeGraphQLQuery(query, variables, agent.props.accessToken)
+
 				// Check if the response is too large (MCP server will fail if > 1MB)
 				const resultString = JSON.stringify(result)
-				const SIZE_LIMIT = 800000 // Set a safer limit (800KB) to ensure we stay under 1MB
 				if (resultString.length > SIZE_LIMIT) {
 					return {
 						content: [
@@ -1026,7 +856,7 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 
 - Add 'first: 10' or 'limit: 10' parameters to your query
 - Reduce the number of requested fields
-- Add more specific filters to narrow down results`,
+- Add more specific filters to narrow down results${report?.warnings.length ? `\n\nWarnings from validating the query:\n${formatValidationIssues(report.warnings)}` : ''}`,
 							},
 						],
 					}
@@ -1036,7 +866,7 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 					content: [
 						{
 							type: 'text',
-							text: `${resultString}\n\n**[Open in GraphQL Explorer](${explorerUrl})**\nClick the link above to view and modify this query in the Cloudflare GraphQL API Explorer.`,
+							text: `${resultString}${validationErrors}\n\n**[Open in GraphQL Explorer](${explorerUrl})**\nClick the link above to view and modify this query in the Cloudflare GraphQL API Explorer.`,
 						},
 					],
 				}
@@ -1055,6 +885,156 @@ export function registerGraphQLTools(agent: GraphQLMCP) {
 		}
 	)
 
+	// Tool to run one of the curated query templates
+	agent.server.tool(
+		'graphql_run_template',
+		`Run a curated query template for a common analytics dataset
+
+		Use this tool instead of writing a query when one of the templates fits the question. Templates group a dataset by dimensions over a time range, and return the result as a TSV table:
+			${QUERY_TEMPLATES.map((t) => `- ${t.name} (${t.scope}, ${t.dataset}): ${t.description}. Dimensions: ${t.dimensions.join(', ')}`).join('\n\t\t\t')}
+
+		The template is filled with the given parameters, validated against the schema and executed. The filled query is returned with the result, so it can be adapted and run with graphql_query.
+		`,
+		{
+			template: z
+				.enum(QUERY_TEMPLATES.map((t) => t.name) as [string, ...string[]])
+				.describe('Name of the template'),
+			tag: z
+				.string()
+				.optional()
+				.describe(
+					'Zone tag (zone ID) for zone templates, or account tag for account templates. Defaults to the active account for account templates.'
+				),
+			start: z
+				.string()
+				.optional()
+				.describe(
+					`Start of the time range as an ISO 8601 datetime. Defaults to ${DEFAULT_TEMPLATE_RANGE_HOURS} hours before the end.`
+				),
+			end: z
+				.string()
+				.optional()
+				.describe('End of the time range as an ISO 8601 datetime. Defaults to now.'),
+			dimensions: z
+				.array(z.string())
+				.optional()
+				.describe('Dimensions to group by, from the dimensions of the template'),
+			filters: z
+				.record(z.any())
+				.optional()
+				.describe(
+					'Filters on dimensions of the template, e.g. { "clientCountryName": "PT", "edgeResponseStatus_geq": 500 }'
+				),
+			limit: z
+				.number()
+				.int()
+				.min(1)
+				.max(10000)
+				.default(DEFAULT_TEMPLATE_LIMIT)
+				.describe('Maximum number of rows to return'),
+			order_by: z
+				.string()
+				.optional()
+				.describe(
+					'A metric or dimension of the template to order by, followed by _ASC or _DESC, e.g. count_DESC. Defaults to the main metric of the template.'
+				),
+		},
+		async (params) => {
+			const accountId = await agent.getActiveAccountId()
+			if (!accountId) {
+				return {
+					content: [
+						{
+							type: 'text',
+							text: 'No currently active accountId. Try listing your accounts (accounts_list) and then setting an active account (set_active_account)',
+						},
+					],
+				}
+			}
+
+			try {
+				const template = getQueryTemplate(params.template)
+				const tag = params.tag ?? (template.scope === 'account' ? accountId : undefined)
+				if (!tag) {
+					return {
+						content: [
+							{
+								type: 'text',
+								text: `The "${template.name}" template needs the tag of a zone. Try listing your zones (zones_list) first.`,
+							},
+						],
+					}
+				}
+				const { query, variables } = fillQueryTemplate(template, {
+					tag,
+					start: params.start,
+					end: params.end,
+					dimensions: params.dimensions,
+					filters: params.filters,
+					limit: params.limit,
+					orderBy: params.order_by,
+				})
+
+				const schema = await getCachedSchema(agent.env, agent.props.accessToken)
+				const report = validateGraphQLQuery(schema, query, variables)
+				if (!report.valid) {
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify({ query, variables, ...report }),
+							},
+						],
+					}
+				}
+
+				const { datasets } = await fetchDatasets(
+					(pageVariables) => executeGraphQLQuery(query, pageVariables, agent.props.accessToken),
+					variables,
+					undefined,
+					params.limit
+				)
+				const tables = await formatDatasets(datasets)
+				if (tables.length > SIZE_LIMIT) {
+					return {
+						content: [
+							{
+								type: 'text',
+								text: `ERROR: Query result exceeds size limit (${Math.round(tables.length / 1024)}KB). Please use a lower limit, or group by fewer dimensions.`,
+							},
+						],
+					}
+				}
+
+				const compressedQuery = LZString.compressToEncodedURIComponent(query)
+				const compressedVariables = LZString.compressToEncodedURIComponent(
+					JSON.stringify(variables)
+				)
+				const explorerUrl = `https://graphql.cloudflare.com/explorer?query=${compressedQuery}&variables=${compressedVariables}`
+
+				return {
+					content: [
+						{
+							type: 'text',
+							text: `${tables || 'The response does not contain any datasets.'}\n\n**Query:**\n\`\`\`graphql\n${query}\n\`\`\`\n\n**Variables:**\n\`\`\`json\n${JSON.stringify(variables, null, 2)}\n\`\`\`\n\n**[Open in GraphQL Explorer](${explorerUrl})**`,
+						},
+					],
+				}
+			} catch (error) {
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify({
+								error: `Error running query template: ${error instanceof Error ? error.message : String(error)}`,
+							}),
+						},
+					],
+				}
+			}
+		}
+	)
+
 	// Tool to generate a GraphQL API Explorer link
 	agent.server.tool(
 		'graphql_api_explorer',
@@ -0,0 +1,58 @@
+import { spawn } from 'node:child_process'
+import * as fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { Readable } from 'node:stream'
+
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web'
+import type { ArchiveFormat } from '../shared/schema.ts'
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+	'tar.gz': 'application/gzip',
+	zip: 'application/zip',
+}
+
+export class ArchiveError extends Error {}
+
+/**
+ * Runs a command, optionally piping a stream to its stdin
+ */
+export function runCommand(
+	command: string,
+	args: string[],
+	{ cwd, stdin }: { cwd: string; stdin?: ReadableStream }
+): Promise<{ code: number | null; stderr: string }> {
+	return new Promise((resolve, reject) => {
+		const proc = spawn(command, args, { cwd })
+		let stderr = ''
+		proc.stderr.on('data', (data) => {
+			stderr += data.toString()
+		})
+		proc.on('error', reject)
+		proc.on('close', (code) => resolve({ code, stderr }))
+
+		if (stdin) {
+			Readable.fromWeb(stdin as NodeReadableStream).pipe(proc.stdin)
+		} else {
+			proc.stdin.end()
+		}
+	})
+}
+
+/**
+ * Archives the contents of a directory to a temporary file, and returns its path.
+ * The archive is written to a file, so failures can be reported before anything is sent,
+ * and so it can be sent with a known length.
+ */
+export async function createArchive(dir: string, format: ArchiveFormat): Promise<string> {
+	const archivePath = path.join(os.tmpdir(), `archive-${Date.now()}.${format}`)
+	const { code, stderr } =
+		format === 'zip'
+			? await runCommand('zip', ['-r', '-q', archivePath, '.'], { cwd: dir })
+			: await runCommand('tar', ['-czf', archivePath, '.'], { cwd: dir })
+	if (code !== 0) {
+		await fs.rm(archivePath, { force: true })
+		throw new ArchiveError(stderr)
+	}
+	return archivePath
+}
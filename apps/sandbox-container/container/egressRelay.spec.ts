@@ -0,0 +1,96 @@
+import http from 'node:http'
+import net from 'node:net'
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { EgressRelay } from './egressRelay'
+
+import type { AddressInfo } from 'node:net'
+
+/**
+ * Relays the next connection to a local port, like the Durable Object does for remote hosts
+ */
+async function relayNextConnection(relay: EgressRelay, port: number) {
+	const connection = await relay.next(1000)
+	if (!connection) {
+		throw new Error('No connection to relay')
+	}
+	const upstream = net.connect(port, '127.0.0.1', () => {
+		relay.outgoing(connection.id)?.pipe(upstream)
+		upstream.pipe(relay.incoming(connection.id)!)
+	})
+	return connection
+}
+
+describe('EgressRelay', () => {
+	let server: http.Server | undefined
+
+	afterEach(() => {
+		server?.close()
+		server = undefined
+	})
+
+	it('queues connections until they are asked for', async () => {
+		const relay = new EgressRelay()
+		const waiting = relay.next(1000)
+		relay.connect('pypi.org', 443)
+		relay.connect('registry.npmjs.org', 443)
+
+		expect(await waiting).toEqual({ id: '1', hostname: 'pypi.org', port: 443 })
+		expect(await relay.next(1000)).toEqual({ id: '2', hostname: 'registry.npmjs.org', port: 443 })
+		expect(await relay.next(10)).toBeUndefined()
+	})
+
+	it('relays data in both directions', async () => {
+		const relay = new EgressRelay()
+		const socket = relay.connect('example.com', 80)
+		const connected = new Promise((resolve) => socket.once('connect', resolve))
+		const connection = await relay.next(1000)
+
+		relay.outgoing(connection!.id)?.once('data', (data) => {
+			relay.incoming(connection!.id)?.end(`echo: ${data}`)
+		})
+		await connected
+		socket.write('hello')
+
+		let received = ''
+		for await (const chunk of socket) {
+			received += chunk
+		}
+		expect(received).toBe('echo: hello')
+	})
+
+	it('sends HTTP requests through a relayed connection', async () => {
+		server = http.createServer((req, res) => res.end(`${req.method} ${req.url}`))
+		await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve))
+		const { port } = server.address() as AddressInfo
+		const relay = new EgressRelay()
+
+		const response = new Promise<string>((resolve, reject) => {
+			const req = http.request(
+				`http://example.com/simple/`,
+				{ createConnection: () => relay.connect('example.com', 80) as net.Socket },
+				(res) => {
+					let body = ''
+					res.on('data', (chunk) => (body += chunk))
+					res.on('end', () => resolve(body))
+				}
+			)
+			req.on('error', reject)
+			req.end()
+		})
+		await relayNextConnection(relay, port)
+
+		expect(await response).toBe('GET /simple/')
+	})
+
+	it('closes connections that could not be relayed', async () => {
+		const relay = new EgressRelay()
+		const socket = relay.connect('example.com', 443)
+		const error = new Promise<Error>((resolve) => socket.once('error', resolve))
+		const connection = await relay.next(1000)
+
+		expect(relay.fail(connection!.id, 'Connection refused')).toBe(true)
+		expect((await error).message).toBe('Connection refused')
+		expect(relay.fail(connection!.id, 'Connection refused')).toBe(false)
+	})
+})
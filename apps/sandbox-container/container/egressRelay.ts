@@ -0,0 +1,101 @@
+import { Duplex, PassThrough } from 'node:stream'
+
+import type { Readable, Writable } from 'node:stream'
+import type { EgressConnection } from '../shared/schema.ts'
+
+// How long the Durable Object waits for a connection to relay before asking again
+export const EGRESS_RELAY_POLL_TIMEOUT_MS = 30 * 1000
+
+interface RelayedConnection {
+	// Data written by the client, which the Durable Object reads and sends to the host
+	outgoing: PassThrough
+	// Data from the host, which the Durable Object writes and the client reads
+	incoming: PassThrough
+	socket: Duplex
+}
+
+/**
+ * Relays the connections of the egress proxy through the Durable Object of the container, for
+ * containers that are started without internet access of their own. Connections are queued until
+ * the Durable Object picks them up, connects to the host, then streams the data in both directions.
+ *
+ * Code running in the container can reach the relay too, so the Durable Object checks every host
+ * against the network policy again before connecting.
+ */
+export class EgressRelay {
+	private nextId = 1
+	private queue: EgressConnection[] = []
+	private waiting: Array<(connection: EgressConnection) => void> = []
+	private connections = new Map<string, RelayedConnection>()
+
+	/**
+	 * Opens a connection to a host through the Durable Object
+	 */
+	connect(hostname: string, port: number): Duplex {
+		const id = String(this.nextId++)
+		const outgoing = new PassThrough()
+		const incoming = new PassThrough()
+		const socket = Duplex.from({ readable: incoming, writable: outgoing })
+		this.connections.set(id, { outgoing, incoming, socket })
+		socket.on('close', () => {
+			this.connections.delete(id)
+			this.queue = this.queue.filter((connection) => connection.id !== id)
+		})
+
+		const connection = { id, hostname, port }
+		const waiter = this.waiting.shift()
+		if (waiter) {
+			waiter(connection)
+		} else {
+			this.queue.push(connection)
+		}
+		return socket
+	}
+
+	/**
+	 * Waits for the next connection to relay, or returns undefined if there is none within the timeout
+	 */
+	next(timeoutMs: number): Promise<EgressConnection | undefined> {
+		const queued = this.queue.shift()
+		if (queued) {
+			return Promise.resolve(queued)
+		}
+		return new Promise((resolve) => {
+			const waiter = (connection: EgressConnection) => {
+				clearTimeout(timeout)
+				resolve(connection)
+			}
+			const timeout = setTimeout(() => {
+				this.waiting = this.waiting.filter((w) => w !== waiter)
+				resolve(undefined)
+			}, timeoutMs)
+			this.waiting.push(waiter)
+		})
+	}
+
+	/**
+	 * The data the client sends to the host. The Durable Object only asks for it once it is connected
+	 * to the host, so the connection is established from then on.
+	 */
+	outgoing(id: string): Readable | undefined {
+		const connection = this.connections.get(id)
+		connection?.socket.emit('connect')
+		return connection?.outgoing
+	}
+
+	/**
+	 * Where the data the host sends to the client is written
+	 */
+	incoming(id: string): Writable | undefined {
+		return this.connections.get(id)?.incoming
+	}
+
+	/**
+	 * Closes a connection that could not be relayed
+	 */
+	fail(id: string, message: string): boolean {
+		const connection = this.connections.get(id)
+		connection?.socket.destroy(new Error(message))
+		return connection !== undefined
+	}
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+
+import { ExecJobs, OutputBuffer } from './execJobs'
+
+const outputParams = { stdoutOffset: 0, stderrOffset: 0, maxLength: 1000 }
+
+async function waitForJob(jobs: ExecJobs, id: string) {
+	for (let i = 0; i < 100; i++) {
+		if (jobs.status(id)?.status !== 'running') {
+			return
+		}
+		await new Promise((resolve) => setTimeout(resolve, 50))
+	}
+	throw new Error(`Job ${id} is still running`)
+}
+
+describe('OutputBuffer', () => {
+	it('reads from an offset', () => {
+		const buffer = new OutputBuffer()
+		buffer.append('hello ')
+		buffer.append('world')
+
+		expect(buffer.read(6, 100)).toEqual({ text: 'world', nextOffset: 11, dropped: false })
+		expect(buffer.read(0, 5)).toEqual({ text: 'hello', nextOffset: 5, dropped: false })
+		expect(buffer.read(11, 100)).toEqual({ text: '', nextOffset: 11, dropped: false })
+	})
+
+	it('drops the oldest output and keeps offsets stable', () => {
+		const buffer = new OutputBuffer(5)
+		buffer.append('abcdefgh')
+
+		expect(buffer.length).toBe(8)
+		expect(buffer.read(0, 100)).toEqual({ text: 'defgh', nextOffset: 8, dropped: true })
+		expect(buffer.read(6, 100)).toEqual({ text: 'gh', nextOffset: 8, dropped: false })
+	})
+})
+
+describe('ExecJobs', () => {
+	it('runs a command in the background and keeps its output', async () => {
+		const jobs = new ExecJobs()
+		const { id, status } = jobs.start({ args: 'echo out; echo err >&2; exit 3' })
+		expect(status).toBe('running')
+
+		await waitForJob(jobs, id)
+
+		expect(jobs.output(id, outputParams)).toMatchObject({
+			status: { status: 'exited', exitCode: 3 },
+			stdout: 'out\n',
+			stderr: 'err\n',
+			nextStdoutOffset: 4,
+			nextStderrOffset: 4,
+			droppedOutput: false,
+		})
+		expect(jobs.output(id, { ...outputParams, stdoutOffset: 4 })?.stdout).toBe('')
+	})
+
+	it('kills a job', async () => {
+		const jobs = new ExecJobs()
+		const { id } = jobs.start({ args: 'sleep 30' })
+
+		jobs.kill(id)
+		await waitForJob(jobs, id)
+
+		expect(jobs.status(id)).toMatchObject({ status: 'killed', signal: 'SIGTERM' })
+	})
+
+	it('kills a job after its timeout', async () => {
+		const jobs = new ExecJobs()
+		const { id } = jobs.start({ args: 'sleep 30', timeout: 100 })
+
+		await waitForJob(jobs, id)
+
+		expect(jobs.status(id)?.status).toBe('killed')
+	})
+
+	it('returns nothing for unknown jobs', () => {
+		const jobs = new ExecJobs()
+
+		expect(jobs.status('unknown')).toBeUndefined()
+		expect(jobs.output('unknown', outputParams)).toBeUndefined()
+		expect(jobs.kill('unknown')).toBeUndefined()
+	})
+})
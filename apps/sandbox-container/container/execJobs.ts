@@ -0,0 +1,173 @@
+import { spawn } from 'node:child_process'
+import { randomUUID } from 'node:crypto'
+
+import type { ChildProcess } from 'node:child_process'
+import type { ExecJobOutput, ExecJobOutputParams, ExecJobStatus } from '../shared/schema.ts'
+
+// Characters of output kept per stream for each job. Older output is dropped.
+export const MAX_JOB_OUTPUT_LENGTH = 1024 * 1024
+// Finished jobs are forgotten, oldest first, once there are more than this
+export const MAX_FINISHED_JOBS = 50
+
+/**
+ * Output of a stream, addressed by offsets into everything the stream ever wrote
+ */
+export class OutputBuffer {
+	private text = ''
+	// Offset of the first character that is still kept
+	private start = 0
+
+	constructor(private maxLength = MAX_JOB_OUTPUT_LENGTH) {}
+
+	get length(): number {
+		return this.start + this.text.length
+	}
+
+	append(chunk: string) {
+		this.text += chunk
+		if (this.text.length > this.maxLength) {
+			const dropped = this.text.length - this.maxLength
+			this.text = this.text.slice(dropped)
+			this.start += dropped
+		}
+	}
+
+	/**
+	 * Reads up to maxLength characters from offset. If the output at offset was already dropped,
+	 * reading starts at the oldest output that is kept.
+	 */
+	read(offset: number, maxLength: number): { text: string; nextOffset: number; dropped: boolean } {
+		const from = Math.max(offset, this.start)
+		const text = this.text.slice(from - this.start, from - this.start + maxLength)
+		return { text, nextOffset: from + text.length, dropped: offset < this.start }
+	}
+}
+
+type ExecJob = {
+	id: string
+	command: string
+	proc: ChildProcess
+	stdout: OutputBuffer
+	stderr: OutputBuffer
+	startedAt: Date
+	endedAt: Date | null
+	exitCode: number | null
+	signal: string | null
+	killed: boolean
+}
+
+/**
+ * Commands running in the background, with their output
+ */
+export class ExecJobs {
+	private jobs = new Map<string, ExecJob>()
+
+	start(
+		{ args, timeout }: { args: string; timeout?: number },
+		env: Record<string, string> = {}
+	): ExecJobStatus {
+		// Jobs get their own process group, so killing a job also kills the processes it started
+		const proc = spawn(args, {
+			shell: true,
+			cwd: process.cwd(),
+			detached: true,
+			env: { ...process.env, ...env },
+		})
+		const job: ExecJob = {
+			id: randomUUID(),
+			command: args,
+			proc,
+			stdout: new OutputBuffer(),
+			stderr: new OutputBuffer(),
+			startedAt: new Date(),
+			endedAt: null,
+			exitCode: null,
+			signal: null,
+			killed: false,
+		}
+
+		proc.stdout?.on('data', (data) => job.stdout.append(data.toString()))
+		proc.stderr?.on('data', (data) => job.stderr.append(data.toString()))
+		proc.on('error', (err) => {
+			job.stderr.append(`Error with process: ${err.message}\n`)
+			job.endedAt ??= new Date()
+		})
+		proc.on('close', (code, signal) => {
+			job.exitCode = code
+			job.signal = signal
+			job.endedAt = new Date()
+			clearTimeout(timer)
+			this.pruneFinishedJobs()
+		})
+		const timer = timeout ? setTimeout(() => this.kill(job.id), timeout) : undefined
+
+		this.jobs.set(job.id, job)
+		return this.toStatus(job)
+	}
+
+	list(): ExecJobStatus[] {
+		return [...this.jobs.values()].map((job) => this.toStatus(job))
+	}
+
+	status(id: string): ExecJobStatus | undefined {
+		const job = this.jobs.get(id)
+		return job && this.toStatus(job)
+	}
+
+	output(id: string, params: ExecJobOutputParams): ExecJobOutput | undefined {
+		const job = this.jobs.get(id)
+		if (!job) {
+			return
+		}
+		const stdout = job.stdout.read(params.stdoutOffset, params.maxLength)
+		const stderr = job.stderr.read(params.stderrOffset, params.maxLength)
+		return {
+			status: this.toStatus(job),
+			stdout: stdout.text,
+			stderr: stderr.text,
+			nextStdoutOffset: stdout.nextOffset,
+			nextStderrOffset: stderr.nextOffset,
+			droppedOutput: stdout.dropped || stderr.dropped,
+		}
+	}
+
+	kill(id: string, signal: NodeJS.Signals = 'SIGTERM'): ExecJobStatus | undefined {
+		const job = this.jobs.get(id)
+		if (!job) {
+			return
+		}
+		if (!job.endedAt && job.proc.pid !== undefined) {
+			job.killed = true
+			try {
+				process.kill(-job.proc.pid, signal)
+			} catch (e: any) {
+				// The process group already exited
+				if (e.code !== 'ESRCH') {
+					throw e
+				}
+			}
+		}
+		return this.toStatus(job)
+	}
+
+	private pruneFinishedJobs() {
+		const finished = [...this.jobs.values()].filter((job) => job.endedAt)
+		for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+			this.jobs.delete(job.id)
+		}
+	}
+
+	private toStatus(job: ExecJob): ExecJobStatus {
+		return {
+			id: job.id,
+			command: job.command,
+			status: !job.endedAt ? 'running' : job.killed ? 'killed' : 'exited',
+			exitCode: job.exitCode,
+			signal: job.signal,
+			startedAt: job.startedAt.toISOString(),
+			endedAt: job.endedAt?.toISOString() ?? null,
+			stdoutLength: job.stdout.length,
+			stderrLength: job.stderr.length,
+		}
+	}
+}
@@ -1,3 +1,4 @@
+import path from 'node:path'
 import mime from 'mime'
 import mock from 'mock-fs'
 import { afterEach, describe, expect, it, vi } from 'vitest'
@@ -62,7 +63,8 @@ describe('get_file_name_from_path', () => {
 				})
 
 				const listFiles = await list_files_in_directory('')
-				expect(listFiles).toEqual(['file:///../../../../../../testDir'])
+				// `/testDir` relative to the working directory, which depends on where the repo is checked out
+				expect(listFiles).toEqual([`file:///${path.relative(process.cwd(), '/testDir')}`])
 			})
 	}),
 	describe('get_mime_type', async () => {
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+
+import { isHostAllowed } from '../shared/networkPolicy'
+import { getProxyEnv, readNetworkPolicy } from './networkPolicy'
+
+describe('isHostAllowed', () => {
+	it('allows listed hosts and their subdomains', () => {
+		const policy = { mode: 'allowlist' as const, allowedHosts: ['pypi.org', 'registry.npmjs.org'] }
+
+		expect(isHostAllowed(policy, 'pypi.org')).toBe(true)
+		expect(isHostAllowed(policy, 'files.PyPI.org.')).toBe(true)
+		expect(isHostAllowed(policy, 'registry.npmjs.org')).toBe(true)
+		expect(isHostAllowed(policy, 'npmjs.org')).toBe(false)
+		expect(isHostAllowed(policy, 'evilpypi.org')).toBe(false)
+	})
+
+	it('allows everything or nothing for the other modes', () => {
+		expect(isHostAllowed({ mode: 'full', allowedHosts: [] }, 'example.com')).toBe(true)
+		expect(isHostAllowed({ mode: 'off', allowedHosts: ['example.com'] }, 'example.com')).toBe(false)
+	})
+})
+
+describe('getProxyEnv', () => {
+	it('only proxies commands when connections are restricted', () => {
+		expect(getProxyEnv({ mode: 'full', allowedHosts: [] })).toEqual({})
+		expect(getProxyEnv({ mode: 'off', allowedHosts: [] })).toMatchObject({
+			HTTPS_PROXY: 'http://127.0.0.1:8081',
+			NO_PROXY: 'localhost,127.0.0.1,::1',
+		})
+	})
+})
+
+describe('readNetworkPolicy', () => {
+	it('reads the policy the container was started with', () => {
+		expect(readNetworkPolicy('{"mode":"allowlist","allowedHosts":["pypi.org"]}')).toEqual({
+			mode: 'allowlist',
+			allowedHosts: ['pypi.org'],
+		})
+	})
+
+	it('allows all connections when the container was started without a policy', () => {
+		expect(readNetworkPolicy(undefined)).toEqual({ mode: 'full', allowedHosts: [] })
+	})
+})
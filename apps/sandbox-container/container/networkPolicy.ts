@@ -0,0 +1,135 @@
+import http from 'node:http'
+import net from 'node:net'
+
+import { isHostAllowed } from '../shared/networkPolicy.ts'
+import { NetworkPolicy } from '../shared/schema.ts'
+
+import type { Duplex } from 'node:stream'
+import type { EgressRelay } from './egressRelay.ts'
+
+// Port of the proxy that enforces the network policy, only reachable from inside the container
+export const EGRESS_PROXY_PORT = 8081
+
+/**
+ * Reads the network policy the container was started with. Containers that were started without
+ * one, such as the one run locally in development, allow all connections.
+ */
+export function readNetworkPolicy(json: string | undefined): NetworkPolicy {
+	return NetworkPolicy.parse(json ? JSON.parse(json) : {})
+}
+
+/**
+ * Environment variables that send the traffic of commands through the egress proxy,
+ * unless the policy allows all connections
+ */
+export function getProxyEnv(policy: NetworkPolicy): Record<string, string> {
+	if (policy.mode === 'full') {
+		return {}
+	}
+	const proxy = `http://127.0.0.1:${EGRESS_PROXY_PORT}`
+	const noProxy = 'localhost,127.0.0.1,::1'
+	return {
+		HTTP_PROXY: proxy,
+		HTTPS_PROXY: proxy,
+		http_proxy: proxy,
+		https_proxy: proxy,
+		NO_PROXY: noProxy,
+		no_proxy: noProxy,
+	}
+}
+
+/**
+ * HTTP proxy that only forwards requests and CONNECT tunnels to hosts the network policy allows.
+ * Commands are pointed at it with the standard proxy environment variables, which pip, npm,
+ * curl, wget and git respect.
+ *
+ * With the allowlist mode the container has no internet access of its own, so that commands that
+ * ignore the proxy can't connect anywhere, and the proxy connects through the egress relay instead.
+ */
+export class EgressProxy {
+	private server = http.createServer((req, res) => this.forward(req, res))
+
+	constructor(
+		readonly policy: NetworkPolicy,
+		private relay: EgressRelay
+	) {
+		this.server.on('connect', (req, socket: net.Socket, head) => this.tunnel(req, socket, head))
+	}
+
+	listen(port = EGRESS_PROXY_PORT) {
+		this.server.listen(port, '127.0.0.1')
+	}
+
+	close() {
+		this.server.close()
+	}
+
+	/**
+	 * Connects to a host directly, or through the egress relay with the allowlist mode.
+	 * The connection emits `connect` once it is established.
+	 */
+	private connect(hostname: string, port: number): Duplex {
+		return this.policy.mode === 'allowlist'
+			? this.relay.connect(hostname, port)
+			: net.connect(port, hostname)
+	}
+
+	private forward(req: http.IncomingMessage, res: http.ServerResponse) {
+		let url: URL
+		try {
+			url = new URL(req.url ?? '')
+		} catch {
+			res.writeHead(400).end('Only absolute URLs can be proxied\n')
+			return
+		}
+		if (!isHostAllowed(this.policy, url.hostname)) {
+			res.writeHead(403).end(blockedMessage(url.hostname))
+			return
+		}
+
+		const upstream = http.request(
+			url,
+			{
+				method: req.method,
+				headers: req.headers,
+				createConnection: () => this.connect(url.hostname, Number(url.port || 80)) as net.Socket,
+			},
+			(upRes) => {
+				res.writeHead(upRes.statusCode ?? 502, upRes.headers)
+				upRes.pipe(res)
+			}
+		)
+		upstream.on('error', (err) => {
+			if (!res.headersSent) {
+				res.writeHead(502)
+			}
+			res.end(`${err.message}\n`)
+		})
+		req.on('error', () => upstream.destroy())
+		req.pipe(upstream)
+	}
+
+	private tunnel(req: http.IncomingMessage, socket: net.Socket, head: Buffer) {
+		// Clients may reset the connection at any time, which must not crash the container app
+		socket.on('error', () => socket.destroy())
+		const { hostname, port } = new URL(`http://${req.url}`)
+		if (!isHostAllowed(this.policy, hostname)) {
+			socket.end(`HTTP/1.1 403 Forbidden\r\n\r\n${blockedMessage(hostname)}`)
+			return
+		}
+
+		const upstream = this.connect(hostname, Number(port || 443))
+		upstream.once('connect', () => {
+			socket.write('HTTP/1.1 200 Connection Established\r\n\r\n')
+			upstream.write(head)
+			upstream.pipe(socket)
+			socket.pipe(upstream)
+		})
+		upstream.on('error', () => socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n'))
+		socket.on('close', () => upstream.destroy())
+	}
+}
+
+function blockedMessage(hostname: string): string {
+	return `Connections to ${hostname} are blocked by the network policy of the container\n`
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+
+import { applySearchReplace, applyUnifiedDiff, parseUnifiedDiff, PatchError } from './patchUtils'
+
+const file = ['import os', '', 'def main():', '    print("hello")', '', 'main()', ''].join('\n')
+
+describe('applySearchReplace', () => {
+	it('applies edits in order', () => {
+		const patched = applySearchReplace(file, [
+			{ search: 'print("hello")', replace: 'print("hi")', replaceAll: false },
+			{ search: 'hi', replace: 'hey $&', replaceAll: false },
+		])
+		expect(patched).toContain('    print("hey $&")')
+	})
+
+	it('rejects search text that matches more than once', () => {
+		expect(() =>
+			applySearchReplace(file, [{ search: 'main', replace: 'run', replaceAll: false }])
+		).toThrow('matches 2 times')
+	})
+
+	it('replaces every match with replaceAll', () => {
+		const patched = applySearchReplace(file, [{ search: 'main', replace: 'run', replaceAll: true }])
+		expect(patched).toContain('def run():')
+		expect(patched).toContain('\nrun()\n')
+	})
+
+	it('rejects search text that is not found', () => {
+		expect(() =>
+			applySearchReplace(file, [{ search: 'missing', replace: '', replaceAll: false }])
+		).toThrow(PatchError)
+	})
+})
+
+describe('parseUnifiedDiff', () => {
+	it('skips file headers', () => {
+		const hunks = parseUnifiedDiff(
+			[
+				'diff --git a/main.py b/main.py',
+				'--- a/main.py',
+				'+++ b/main.py',
+				'@@ -1,2 +1,2 @@',
+				'-a',
+				'+b',
+				' c',
+			].join('\n')
+		)
+		expect(hunks).toEqual([{ oldStart: 1, oldLines: ['a', 'c'], newLines: ['b', 'c'] }])
+	})
+
+	it('rejects diffs of more than one file', () => {
+		const diff = [
+			'--- a/a.py',
+			'+++ b/a.py',
+			'@@ -1 +1 @@',
+			'-a',
+			'+b',
+			'--- a/b.py',
+			'+++ b/b.py',
+		].join('\n')
+		expect(() => parseUnifiedDiff(diff)).toThrow('more than one file')
+	})
+})
+
+describe('applyUnifiedDiff', () => {
+	it('applies hunks', () => {
+		const diff = [
+			'--- a/main.py',
+			'+++ b/main.py',
+			'@@ -1,4 +1,5 @@',
+			' import os',
+			'+import sys',
+			' ',
+			' def main():',
+			'-    print("hello")',
+			'+    print("hello", sys.argv)',
+		].join('\n')
+
+		expect(applyUnifiedDiff(file, diff)).toBe(
+			[
+				'import os',
+				'import sys',
+				'',
+				'def main():',
+				'    print("hello", sys.argv)',
+				'',
+				'main()',
+				'',
+			].join('\n')
+		)
+	})
+
+	it('finds hunks with miscounted line numbers', () => {
+		const diff = ['@@ -10,2 +10,2 @@', ' ', '-main()', '+main() # entrypoint'].join('\n')
+
+		expect(applyUnifiedDiff(file, diff)).toContain('\nmain() # entrypoint\n')
+	})
+
+	it('applies hunks that only add lines after the given line', () => {
+		const diff = ['@@ -1,0 +2,1 @@', '+import sys'].join('\n')
+
+		expect(applyUnifiedDiff(file, diff).split('\n').slice(0, 3)).toEqual([
+			'import os',
+			'import sys',
+			'',
+		])
+	})
+
+	it('rejects hunks whose context does not match', () => {
+		const diff = ['@@ -1,2 +1,2 @@', ' import re', '-', '+# comment'].join('\n')
+
+		expect(() => applyUnifiedDiff(file, diff)).toThrow('Hunk 1 does not apply')
+	})
+
+	it('rejects diffs without hunks', () => {
+		expect(() => applyUnifiedDiff(file, 'not a diff')).toThrow('does not contain any hunks')
+	})
+})
@@ -0,0 +1,119 @@
+import type { FileEdit } from '../shared/schema.ts'
+
+export class PatchError extends Error {}
+
+type Hunk = {
+	// 1-based line number of the first line the hunk replaces
+	oldStart: number
+	oldLines: string[]
+	newLines: string[]
+}
+
+/**
+ * Applies search/replace edits in order. Each search string must match exactly once,
+ * unless the edit replaces all matches.
+ */
+export function applySearchReplace(content: string, edits: FileEdit[]): string {
+	return edits.reduce((result, edit, i) => {
+		const matches = result.split(edit.search).length - 1
+		if (matches === 0) {
+			throw new PatchError(
+				`Edit ${i + 1} does not apply: the search text was not found in the file`
+			)
+		}
+		if (matches > 1 && !edit.replaceAll) {
+			throw new PatchError(
+				`Edit ${i + 1} does not apply: the search text matches ${matches} times. Include more surrounding lines to make it unique, or set replaceAll.`
+			)
+		}
+		return edit.replaceAll
+			? result.replaceAll(edit.search, () => edit.replace)
+			: result.replace(edit.search, () => edit.replace)
+	}, content)
+}
+
+/**
+ * Parses the hunks of a unified diff for a single file. File headers are skipped.
+ */
+export function parseUnifiedDiff(diff: string): Hunk[] {
+	const hunks: Hunk[] = []
+	let current: Hunk | undefined
+	const lines = diff.replace(/\n+$/, '').split('\n')
+
+	for (const [i, line] of lines.entries()) {
+		const header = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/.exec(line)
+		if (header) {
+			current = { oldStart: Number(header[1]), oldLines: [], newLines: [] }
+			hunks.push(current)
+		} else if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+			if (hunks.length > 0) {
+				throw new PatchError('The diff changes more than one file, patch one file at a time')
+			}
+		} else if (!current || line.startsWith('+++ ') || line.startsWith('\\')) {
+			// Lines before the first hunk (diff --git, index, ---) and "\ No newline at end of file"
+			continue
+		} else if (line.startsWith('-')) {
+			current.oldLines.push(line.slice(1))
+		} else if (line.startsWith('+')) {
+			current.newLines.push(line.slice(1))
+		} else {
+			// Context lines. Empty lines are treated as empty context lines, as editors often strip
+			// the trailing space.
+			const context = line.startsWith(' ') ? line.slice(1) : line
+			current.oldLines.push(context)
+			current.newLines.push(context)
+		}
+	}
+
+	return hunks
+}
+
+function matchesAt(lines: string[], needle: string[], at: number): boolean {
+	return needle.every((line, i) => lines[at + i] === line)
+}
+
+/**
+ * Finds the lines closest to the expected position, at or after `from`
+ */
+function findLines(lines: string[], needle: string[], expected: number, from: number): number {
+	const last = lines.length - needle.length
+	for (let distance = 0; distance <= lines.length; distance++) {
+		for (const at of [expected - distance, expected + distance]) {
+			if (at >= from && at <= last && matchesAt(lines, needle, at)) {
+				return at
+			}
+		}
+	}
+	return -1
+}
+
+/**
+ * Applies a unified diff. Hunks are applied in order, and may be found at a different line than the
+ * diff says, e.g. when line numbers were miscounted, but their context and removed lines must match.
+ */
+export function applyUnifiedDiff(content: string, diff: string): string {
+	const hunks = parseUnifiedDiff(diff)
+	if (hunks.length === 0) {
+		throw new PatchError('The diff does not contain any hunks')
+	}
+
+	const lines = content.split('\n')
+	// Difference between the line numbers in the diff and in the file, from the hunks applied so far
+	let offset = 0
+	let from = 0
+	for (const [i, hunk] of hunks.entries()) {
+		// Hunks that only add lines start after oldStart
+		const start = hunk.oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1
+		const at = findLines(lines, hunk.oldLines, Math.max(0, start + offset), from)
+		if (at === -1) {
+			throw new PatchError(
+				`Hunk ${i + 1} does not apply: its context and removed lines were not found in the file`
+			)
+		}
+		lines.splice(at, hunk.oldLines.length, ...hunk.newLines)
+		offset = at - start + hunk.newLines.length - hunk.oldLines.length
+		from = at + hunk.newLines.length
+	}
+
+	return lines.join('\n')
+}
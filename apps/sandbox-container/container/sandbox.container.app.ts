@@ -1,28 +1,108 @@
 import { exec } from 'node:child_process'
+import { createReadStream } from 'node:fs'
 import * as fs from 'node:fs/promises'
 import path from 'node:path'
+import { Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
 import { serve } from '@hono/node-server'
 import { zValidator } from '@hono/zod-validator'
 import { Hono } from 'hono'
 import { streamText } from 'hono/streaming'
 import mime from 'mime'
 
-import { ExecParams, FileWrite } from '../shared/schema.ts'
+import { NETWORK_POLICY_ENV } from '../shared/consts.ts'
+import {
+	ArchiveFormat as ArchiveFormatParam,
+	ExecJobOutputParams,
+	ExecParams,
+	ExecStartParams,
+	FilePatch,
+	FileWrite,
+} from '../shared/schema.ts'
+import { ARCHIVE_CONTENT_TYPES, ArchiveError, createArchive, runCommand } from './archiveUtils.ts'
+import { EGRESS_RELAY_POLL_TIMEOUT_MS, EgressRelay } from './egressRelay.ts'
+import { ExecJobs } from './execJobs.ts'
 import {
 	DIRECTORY_CONTENT_TYPE,
 	get_file_name_from_path,
 	get_mime_type,
 	list_files_in_directory,
 } from './fileUtils.ts'
+import { EgressProxy, getProxyEnv, readNetworkPolicy } from './networkPolicy.ts'
+import { applySearchReplace, applyUnifiedDiff, PatchError } from './patchUtils.ts'
 
-import type { FileList } from '../shared/schema.ts'
+import type { Context } from 'hono'
+import type { ReadableStream as WebReadableStream } from 'node:stream/web'
+import type { ArchiveFormat, FileList } from '../shared/schema.ts'
 
 process.chdir('workdir')
 
 const app = new Hono()
+const execJobs = new ExecJobs()
+const egressRelay = new EgressRelay()
+const egressProxy = new EgressProxy(readNetworkPolicy(process.env[NETWORK_POLICY_ENV]), egressRelay)
+egressProxy.listen()
 
 app.get('/ping', (c) => c.text('pong!'))
 
+/**
+ * GET /network/policy
+ *
+ * Gets the network policy of commands run in the container, which is set when the container is started
+ */
+app.get('/network/policy', (c) => c.json(egressProxy.policy))
+
+/**
+ * GET /network/relay/connections
+ *
+ * Waits for the next connection of the egress proxy to relay, used by the Durable Object when the
+ * container has no internet access of its own
+ */
+app.get('/network/relay/connections', async (c) => {
+	const connection = await egressRelay.next(EGRESS_RELAY_POLL_TIMEOUT_MS)
+	return connection ? c.json(connection) : c.body(null, 204)
+})
+
+/**
+ * GET /network/relay/connections/{id}/outgoing
+ *
+ * Streams the data the client of a relayed connection sends to the host
+ */
+app.get('/network/relay/connections/:id/outgoing', (c) => {
+	const outgoing = egressRelay.outgoing(c.req.param('id'))
+	return outgoing ? c.newResponse(Readable.toWeb(outgoing) as ReadableStream) : c.notFound()
+})
+
+/**
+ * PUT /network/relay/connections/{id}/incoming
+ *
+ * Streams the data the host of a relayed connection sends to the client
+ */
+app.put('/network/relay/connections/:id/incoming', async (c) => {
+	const incoming = egressRelay.incoming(c.req.param('id'))
+	if (!incoming) {
+		return c.notFound()
+	}
+	const body = c.req.raw.body
+	if (body) {
+		await pipeline(Readable.fromWeb(body as WebReadableStream), incoming)
+	} else {
+		incoming.end()
+	}
+	return c.newResponse('ok', 200)
+})
+
+/**
+ * DELETE /network/relay/connections/{id}
+ *
+ * Closes a connection that could not be relayed, with the reason in the body
+ */
+app.delete('/network/relay/connections/:id', async (c) => {
+	return egressRelay.fail(c.req.param('id'), await c.req.text())
+		? c.newResponse('ok', 200)
+		: c.notFound()
+})
+
 /**
  * GET /files/ls
  *
@@ -42,7 +122,7 @@ app.get('/files/ls', async (c) => {
 		for (const dirent of dir) {
 			const relPath = path.relative(process.cwd(), `${fullPath}/${dirent.name}`)
 			if (dirent.isDirectory()) {
-				directoriesToRead.push(dirent.name)
+				directoriesToRead.push(relPath)
 				files.resources.push({
 					uri: `file:///${relPath}`,
 					name: dirent.name,
@@ -100,14 +180,78 @@ app.post('/files/contents', zValidator('json', FileWrite), async (c) => {
 	const file = c.req.valid('json')
 	const reqPath = await get_file_name_from_path(file.path)
 
+	if (file.encoding === 'base64' && !/^[A-Za-z0-9+/]*={0,2}$/.test(file.text.replace(/\s/g, ''))) {
+		return c.newResponse('Error: text is not valid base64', 400)
+	}
+
 	try {
-		await fs.writeFile(reqPath, file.text)
+		await fs.writeFile(
+			reqPath,
+			file.encoding === 'base64' ? Buffer.from(file.text, 'base64') : file.text
+		)
 		return c.newResponse(null, 200)
 	} catch (e) {
 		return c.newResponse(`Error: ${e}`, 400)
 	}
 })
 
+/**
+ * PATCH /files/contents
+ *
+ * Apply search/replace edits or a unified diff to a text file
+ */
+app.patch('/files/contents', zValidator('json', FilePatch), async (c) => {
+	const patch = c.req.valid('json')
+	if (!patch.edits === !patch.diff) {
+		return c.newResponse('Error: pass either edits or diff', 400)
+	}
+	const reqPath = path.join(process.cwd(), await get_file_name_from_path(patch.path))
+
+	try {
+		const content = await fs.readFile(reqPath, 'utf-8')
+		const patched = patch.edits
+			? applySearchReplace(content, patch.edits)
+			: applyUnifiedDiff(content, patch.diff ?? '')
+		await fs.writeFile(reqPath, patched)
+		return c.newResponse(null, 200)
+	} catch (e: any) {
+		if (e instanceof PatchError) {
+			return c.newResponse(`Error: ${e.message}`, 422)
+		}
+		if (e.code === 'ENOENT') {
+			return c.notFound()
+		}
+		return c.newResponse(`Error: ${e}`, 400)
+	}
+})
+
+/**
+ * GET /files/archive/{dirpath}?format=tar.gz|zip
+ *
+ * Get an archive of a directory
+ */
+app.get('/files/archive/*', async (c) => {
+	const format = ArchiveFormatParam.default('tar.gz').safeParse(c.req.query('format'))
+	if (!format.success) {
+		return c.newResponse('Error: format must be tar.gz or zip', 400)
+	}
+	const reqPath = c.req.path.replace('/files/archive', '')
+	const dir = path.join(process.cwd(), reqPath)
+
+	try {
+		if (!(await fs.stat(dir)).isDirectory()) {
+			return c.newResponse(`Error: ${reqPath} is not a directory`, 400)
+		}
+	} catch (e: any) {
+		if (e.code === 'ENOENT') {
+			return c.notFound()
+		}
+		throw e
+	}
+
+	return sendArchive(c, dir, format.data)
+})
+
 /**
  * DELETE /files/contents/{filepath}
  *
@@ -137,7 +281,9 @@ app.delete('/files/contents/*', async (c) => {
  */
 app.post('/exec', zValidator('json', ExecParams), (c) => {
 	const execParams = c.req.valid('json')
-	const proc = exec(execParams.args)
+	const proc = exec(execParams.args, {
+		env: { ...process.env, ...getProxyEnv(egressProxy.policy) },
+	})
 	return streamText(c, async (stream) => {
 		return new Promise((resolve, reject) => {
 			if (proc.stdout) {
@@ -179,6 +325,121 @@ app.post('/exec', zValidator('json', ExecParams), (c) => {
 	})
 })
 
+/**
+ * POST /exec/jobs
+ *
+ * Start a command in the background
+ */
+app.post('/exec/jobs', zValidator('json', ExecStartParams), (c) => {
+	return c.json(execJobs.start(c.req.valid('json'), getProxyEnv(egressProxy.policy)))
+})
+
+/**
+ * GET /exec/jobs
+ *
+ * List running and recently finished background commands
+ */
+app.get('/exec/jobs', (c) => {
+	return c.json(execJobs.list())
+})
+
+/**
+ * GET /exec/jobs/{id}
+ *
+ * Get the status of a background command
+ */
+app.get('/exec/jobs/:id', (c) => {
+	const status = execJobs.status(c.req.param('id'))
+	return status ? c.json(status) : c.notFound()
+})
+
+/**
+ * GET /exec/jobs/{id}/output
+ *
+ * Read the output of a background command from the given offsets
+ */
+app.get('/exec/jobs/:id/output', zValidator('query', ExecJobOutputParams), (c) => {
+	const output = execJobs.output(c.req.param('id'), c.req.valid('query'))
+	return output ? c.json(output) : c.notFound()
+})
+
+/**
+ * DELETE /exec/jobs/{id}
+ *
+ * Kill a background command and the processes it started
+ */
+app.delete('/exec/jobs/:id', (c) => {
+	const status = execJobs.kill(c.req.param('id'))
+	return status ? c.json(status) : c.notFound()
+})
+
+/**
+ * GET /workspace/archive
+ *
+ * Get a gzipped tarball of the working directory
+ */
+app.get('/workspace/archive', async (c) => {
+	return sendArchive(c, process.cwd(), 'tar.gz')
+})
+
+/**
+ * PUT /workspace/archive
+ *
+ * Replace the contents of the working directory with a gzipped tarball
+ */
+app.put('/workspace/archive', async (c) => {
+	const body = c.req.raw.body
+	if (!body) {
+		return c.newResponse('Error: missing archive', 400)
+	}
+
+	// Extract next to the working directory first, so it's left untouched if the archive is invalid
+	const stagingDir = path.join(process.cwd(), '..', `.workspace-restore-${Date.now()}`)
+	await fs.mkdir(stagingDir)
+	try {
+		const { code, stderr } = await runCommand('tar', ['-xzf', '-', '-C', stagingDir], {
+			cwd: process.cwd(),
+			stdin: body,
+		})
+		if (code !== 0) {
+			return c.newResponse(`Error: failed to extract the archive: ${stderr}`, 400)
+		}
+
+		for (const entry of await fs.readdir(process.cwd())) {
+			await fs.rm(path.join(process.cwd(), entry), { recursive: true, force: true })
+		}
+		for (const entry of await fs.readdir(stagingDir)) {
+			await fs.rename(path.join(stagingDir, entry), path.join(process.cwd(), entry))
+		}
+	} finally {
+		await fs.rm(stagingDir, { recursive: true, force: true })
+	}
+	return c.newResponse('ok', 200)
+})
+
+/**
+ * Sends an archive of a directory, with a known length
+ */
+async function sendArchive(c: Context, dir: string, format: ArchiveFormat) {
+	let archivePath: string
+	try {
+		archivePath = await createArchive(dir, format)
+	} catch (e) {
+		if (e instanceof ArchiveError) {
+			return c.newResponse(`Error: failed to archive the directory: ${e.message}`, 500)
+		}
+		throw e
+	}
+
+	const { size } = await fs.stat(archivePath)
+	const archive = createReadStream(archivePath)
+	archive.on('close', () => void fs.rm(archivePath, { force: true }))
+	return c.newResponse(Readable.toWeb(archive) as ReadableStream, 200, {
+		'Content-Type': ARCHIVE_CONTENT_TYPES[format],
+		'Content-Length': size.toString(),
+	})
+}
+
 serve({
 	fetch: app.fetch,
 	port: 8080,
@@ -54,4 +54,32 @@ eachModel('$modelName', ({ model }) => {
 		threshold: 1,
 		timeout: 60000,
 	})
+
+	describeEval('Runs a long running command in the background', {
+		data: async () => [
+			{
+				input: 'Start a python http server on port 8000 in the background and show me its output',
+				expected:
+					'The container_exec_start tool was called with a python http server command, then the container_exec_output tool was called',
+			},
+		],
+		task: async (input) => {
+			const client = await initializeClient()
+			const { promptOutput, toolCalls } = await runTask(client, model, input)
+
+			expect(toolCalls).toEqual(
+				expect.arrayContaining([
+					expect.objectContaining({
+						type: 'tool-call',
+						toolName: 'container_exec_start',
+					}),
+				])
+			)
+
+			return promptOutput
+		},
+		scorers: [checkFactuality],
+		threshold: 1,
+		timeout: 60000,
+	})
 })
@@ -106,4 +106,33 @@ eachModel('$modelName', ({ model }) => {
 		threshold: 1,
 		timeout: 60000,
 	})
+
+	describeEval('Runs container file patch', {
+		data: async () => [
+			{
+				input:
+					'write a file named config.py containing "DEBUG = False" and "PORT = 8080" on separate lines, then change the port to 3000',
+				expected:
+					'The container_file_write tool was called and then the container_file_patch tool was called to change the port',
+			},
+		],
+		task: async (input) => {
+			const client = await initializeClient()
+			const { promptOutput, toolCalls } = await runTask(client, model, input)
+
+			expect(toolCalls).toEqual(
+				expect.arrayContaining([
+					expect.objectContaining({
+						type: 'tool-call',
+						toolName: 'container_file_patch',
+					}),
+				])
+			)
+
+			return promptOutput
+		},
+		scorers: [checkFactuality],
+		threshold: 1,
+		timeout: 60000,
+	})
 })
@@ -0,0 +1,45 @@
+import { describeEval } from 'vitest-evals'
+
+import { runTask } from '@repo/eval-tools/src/runTask'
+import { checkFactuality } from '@repo/eval-tools/src/scorers'
+import { eachModel } from '@repo/eval-tools/src/test-models'
+
+import { initializeClient } from './utils'
+
+eachModel('$modelName', ({ model }) => {
+	describeEval('Runs container workspace save', {
+		data: async () => [
+			{
+				input: 'write a file named notes.txt containing "hello", then save my workspace',
+				expected:
+					'The container_file_write tool was called and then the container_workspace_save tool was called',
+			},
+		],
+		task: async (input) => {
+			const client = await initializeClient()
+			const { promptOutput } = await runTask(client, model, input)
+			return promptOutput
+		},
+		scorers: [checkFactuality],
+		threshold: 1,
+		timeout: 60000,
+	})
+
+	describeEval('Runs container workspace restore', {
+		data: async () => [
+			{
+				input: 'start a new container and continue where I left off in my last session',
+				expected:
+					'The container_initialize tool was called and then the container_workspace_restore tool was called',
+			},
+		],
+		task: async (input) => {
+			const client = await initializeClient()
+			const { promptOutput } = await runTask(client, model, input)
+			return promptOutput
+		},
+		scorers: [checkFactuality],
+		threshold: 1,
+		timeout: 60000,
+	})
+})
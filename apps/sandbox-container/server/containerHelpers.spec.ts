@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+	getContainerQuotas,
+	getNextEvictionTime,
+	selectContainersToEvict,
+} from './containerHelpers'
+
+const minute = 60 * 1000
+const now = 1_000 * minute
+const quotas = getContainerQuotas({})
+
+function container(id: string, startedMinutesAgo: number, idleMinutes: number) {
+	return {
+		id,
+		ownerId: `user-${id}`,
+		startedAt: now - startedMinutesAgo * minute,
+		lastActivityAt: now - idleMinutes * minute,
+	}
+}
+
+describe('getContainerQuotas', () => {
+	it('reads overrides from the environment', () => {
+		expect(
+			getContainerQuotas({ CONTAINER_MAX_CONTAINERS: '10', CONTAINER_IDLE_TIMEOUT_MINUTES: '5' })
+		).toEqual({ ...quotas, maxContainers: 10, idleTimeoutMs: 5 * minute })
+	})
+
+	it('ignores invalid values', () => {
+		expect(getContainerQuotas({ CONTAINER_MAX_CONTAINERS: 'two' })).toEqual(quotas)
+	})
+})
+
+describe('selectContainersToEvict', () => {
+	it('evicts idle containers and containers past their lifetime', () => {
+		const evictions = selectContainersToEvict(
+			[container('a', 5, 1), container('b', 30, 20), container('c', 90, 0)],
+			quotas,
+			now
+		)
+		expect(evictions.map(({ container, reason }) => [container.id, reason])).toEqual([
+			['b', 'idle'],
+			['c', 'lifetime'],
+		])
+	})
+
+	it('evicts the least recently used containers to free slots', () => {
+		const evictions = selectContainersToEvict(
+			[container('a', 10, 3), container('b', 10, 8), container('c', 10, 1), container('d', 10, 5)],
+			quotas,
+			now,
+			2
+		)
+		expect(evictions.map(({ container, reason }) => [container.id, reason])).toEqual([
+			['b', 'lru'],
+			['d', 'lru'],
+		])
+	})
+
+	it('does not evict containers that were just used', () => {
+		expect(selectContainersToEvict([container('a', 10, 1)], quotas, now, 1)).toEqual([])
+	})
+})
+
+describe('getNextEvictionTime', () => {
+	it('returns when the first container times out', () => {
+		expect(getNextEvictionTime([container('a', 50, 0), container('b', 5, 5)], quotas)).toBe(
+			now + 10 * minute
+		)
+		expect(getNextEvictionTime([], quotas)).toBeUndefined()
+	})
+})
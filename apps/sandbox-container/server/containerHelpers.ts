@@ -1,8 +1,127 @@
 export const MAX_CONTAINERS = 50
+// Containers are evicted after this long without an exec or file call
+export const CONTAINER_IDLE_TIMEOUT_MINUTES = 15
+// Containers are evicted after this long, even if they are in use
+export const CONTAINER_MAX_LIFETIME_MINUTES = 60
+// When all containers are in use, containers idle for this long are evicted, least recently used
+// first, to make room for new ones
+export const MIN_IDLE_BEFORE_EVICTION_MS = 2 * 60 * 1000
+// How often a container reports that it is in use to the container manager
+export const ACTIVITY_RECORD_INTERVAL_MS = 30 * 1000
+// Users waiting for a container lose their place in the queue if they don't ask again within this time
+export const QUEUE_ENTRY_TTL_MS = 2 * 60 * 1000
+// R2 accepts single uploads of up to 5 GiB, keep saved workspaces well below that
+export const MAX_WORKSPACE_SIZE_BYTES = 1024 * 1024 * 1024
+
+// How often to check on a background job while waiting for it to finish
+export const EXEC_JOB_POLL_INTERVAL_MS = 2000
+
+// Directory archives are returned inline as base64, so keep them small
+export const MAX_DIRECTORY_ARCHIVE_SIZE_BYTES = 10 * 1024 * 1024
+
+// Saved workspaces are stored in R2 under one key per user
+export function getWorkspaceKey(userId: string): string {
+	return `workspaces/${userId}.tar.gz`
+}
+
+export type ContainerQuotas = {
+	maxContainers: number
+	idleTimeoutMs: number
+	maxLifetimeMs: number
+}
+
+function parseQuota(value: string | undefined, fallback: number): number {
+	const quota = Number(value)
+	return value && Number.isFinite(quota) && quota > 0 ? quota : fallback
+}
+
+/**
+ * Reads the container quotas from the environment, falling back to the defaults above
+ */
+export function getContainerQuotas(
+	env: Partial<
+		Record<
+			| 'CONTAINER_MAX_CONTAINERS'
+			| 'CONTAINER_IDLE_TIMEOUT_MINUTES'
+			| 'CONTAINER_MAX_LIFETIME_MINUTES',
+			string
+		>
+	>
+): ContainerQuotas {
+	return {
+		maxContainers: parseQuota(env.CONTAINER_MAX_CONTAINERS, MAX_CONTAINERS),
+		idleTimeoutMs:
+			parseQuota(env.CONTAINER_IDLE_TIMEOUT_MINUTES, CONTAINER_IDLE_TIMEOUT_MINUTES) * 60 * 1000,
+		maxLifetimeMs:
+			parseQuota(env.CONTAINER_MAX_LIFETIME_MINUTES, CONTAINER_MAX_LIFETIME_MINUTES) * 60 * 1000,
+	}
+}
+
+export type ContainerRecord = {
+	id: string
+	ownerId: string
+	startedAt: number
+	lastActivityAt: number
+}
+
+export type EvictionReason = 'idle' | 'lifetime' | 'lru'
+
+export type Eviction = { container: ContainerRecord; reason: EvictionReason }
+
+/**
+ * Picks the containers to evict: every container past its maximum lifetime or idle timeout, and
+ * then, if `needed` more slots have to be freed, the least recently used containers that have been
+ * idle for a while
+ */
+export function selectContainersToEvict(
+	containers: ContainerRecord[],
+	quotas: ContainerQuotas,
+	now: number,
+	needed = 0
+): Eviction[] {
+	const evicted: Eviction[] = []
+	const remaining: ContainerRecord[] = []
+	for (const container of containers) {
+		if (now - container.startedAt >= quotas.maxLifetimeMs) {
+			evicted.push({ container, reason: 'lifetime' })
+		} else if (now - container.lastActivityAt >= quotas.idleTimeoutMs) {
+			evicted.push({ container, reason: 'idle' })
+		} else {
+			remaining.push(container)
+		}
+	}
+
+	const leastRecentlyUsed = remaining
+		.filter((container) => now - container.lastActivityAt >= MIN_IDLE_BEFORE_EVICTION_MS)
+		.sort((a, b) => a.lastActivityAt - b.lastActivityAt)
+		.slice(0, Math.max(0, needed - evicted.length))
+	for (const container of leastRecentlyUsed) {
+		evicted.push({ container, reason: 'lru' })
+	}
+
+	return evicted
+}
+
+/**
+ * When the containers evicted for their timeouts should next be checked
+ */
+export function getNextEvictionTime(
+	containers: ContainerRecord[],
+	quotas: ContainerQuotas
+): number | undefined {
+	const times = containers.map((container) =>
+		Math.min(
+			container.startedAt + quotas.maxLifetimeMs,
+			container.lastActivityAt + quotas.idleTimeoutMs
+		)
+	)
+	return times.length > 0 ? Math.min(...times) : undefined
+}
 export async function startAndWaitForPort(
 	environment: 'dev' | 'prod' | 'test',
 	container: Container | undefined,
 	portToAwait: number,
+	startupOptions: ContainerStartupOptions = { enableInternet: true },
 	maxTries = 10
 ): Promise<boolean> {
 	if (environment === 'dev' || environment === 'test') {
@@ -22,9 +141,7 @@ export async function startAndWaitForPort(
 		try {
 			if (!container.running) {
 				console.log('starting container')
-				container.start({
-					enableInternet: true,
-				})
+				container.start(startupOptions)
 
 				// force DO to keep track of running state
 				monitor = container.monitor()
@@ -61,6 +178,7 @@ export async function startAndWaitForPort(
 	return false
 }
 
+// The request isn't cloned, as cloning a streamed body (e.g. a workspace archive) would buffer it in memory
 export async function proxyFetch(
 	environment: 'dev' | 'prod' | 'test',
 	container: Container | undefined,
@@ -71,7 +189,7 @@ export async function proxyFetch(
 		const url = request.url
 			.replace('https://', 'http://')
 			.replace('http://host', 'http://localhost')
-		return fetch(url, request.clone() as Request)
+		return fetch(url, request)
 	}
 
 	if (!container) {
@@ -80,5 +198,5 @@ export async function proxyFetch(
 
 	return await container
 		.getTcpPort(portNumber)
-		.fetch(request.url.replace('https://', 'http://'), request.clone() as Request)
+		.fetch(request.url.replace('https://', 'http://'), request)
 }
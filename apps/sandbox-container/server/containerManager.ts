@@ -3,11 +3,33 @@ import { DurableObject } from 'cloudflare:workers'
 import { getEnv } from '@repo/mcp-common/src/env'
 import { MetricsTracker } from '@repo/mcp-observability'
 
+import {
+	getContainerQuotas,
+	getNextEvictionTime,
+	QUEUE_ENTRY_TTL_MS,
+	selectContainersToEvict,
+} from './containerHelpers'
 import { ContainerEvent } from './metrics'
 
+import type { ContainerRecord, Eviction } from './containerHelpers'
 import type { Env } from './sandbox.server.context'
 
 const env = getEnv<Env>()
+
+// Containers are stored by id, and the queue under this key
+const QUEUE_KEY = 'queue'
+
+type QueueEntry = {
+	ownerId: string
+	enqueuedAt: number
+	// Entries expire when the user stops asking for a container
+	lastPolledAt: number
+}
+
+export type ContainerSlot =
+	| { status: 'started' }
+	| { status: 'queued'; position: number; queueLength: number }
+
 export class ContainerManager extends DurableObject<Env> {
 	metrics = new MetricsTracker(env.MCP_METRICS, {
 		name: env.MCP_SERVER_NAME,
@@ -21,49 +43,167 @@ export class ContainerManager extends DurableObject<Env> {
 		super(ctx, env)
 	}
 
-	async trackContainer(id: string) {
-		await this.ctx.storage.put(id, new Date())
+	/**
+	 * Reserves a container slot for a user. Each user or account has a single container, so a user
+	 * that already has one keeps its slot when it is restarted. When all containers are in use, idle
+	 * containers are evicted to make room, and otherwise the user is queued, first come first served.
+	 */
+	async acquireContainer(id: string, ownerId: string): Promise<ContainerSlot> {
+		const quotas = getContainerQuotas(this.env)
+		const now = Date.now()
+		// A container that is restarted keeps its slot
+		let containers = (await this.listContainers()).filter((c) => c.id !== id)
+
+		const queue = (await this.getQueue()).filter(
+			(entry) => now - entry.lastPolledAt < QUEUE_ENTRY_TTL_MS
+		)
+		const queueIndex = queue.findIndex((entry) => entry.ownerId === ownerId)
+		// Users that are already waiting get containers first
+		const waitingAhead = queueIndex === -1 ? queue.length : queueIndex
+		const freeSlots = () => quotas.maxContainers - containers.length
+
+		if (freeSlots() <= waitingAhead) {
+			await this.evictContainers(
+				selectContainersToEvict(containers, quotas, now, waitingAhead + 1 - freeSlots())
+			)
+			containers = (await this.listContainers()).filter((c) => c.id !== id)
+		}
+
+		if (freeSlots() > waitingAhead) {
+			if (queueIndex !== -1) {
+				queue.splice(queueIndex, 1)
+			}
+			await this.ctx.storage.put<QueueEntry[]>(QUEUE_KEY, queue)
+			await this.ctx.storage.put<ContainerRecord>(id, {
+				id,
+				ownerId,
+				startedAt: now,
+				lastActivityAt: now,
+			})
+			await this.scheduleEviction()
+			this.metrics.logEvent(
+				new ContainerEvent({
+					event: 'started',
+					userId: ownerId,
+					active: containers.length + 1,
+					queued: queue.length,
+				})
+			)
+			return { status: 'started' }
+		}
+
+		if (queueIndex === -1) {
+			queue.push({ ownerId, enqueuedAt: now, lastPolledAt: now })
+		} else {
+			queue[queueIndex].lastPolledAt = now
+		}
+		await this.ctx.storage.put<QueueEntry[]>(QUEUE_KEY, queue)
+		this.metrics.logEvent(
+			new ContainerEvent({
+				event: 'queued',
+				userId: ownerId,
+				active: containers.length,
+				queued: queue.length,
+			})
+		)
+		return { status: 'queued', position: waitingAhead + 1, queueLength: queue.length }
+	}
+
+	/**
+	 * Records that a container was used, so it is not evicted for being idle
+	 */
+	async recordActivity(id: string) {
+		const container = await this.getContainer(id)
+		// Evicted containers are not tracked again until they are initialized
+		if (container) {
+			await this.ctx.storage.put<ContainerRecord>(id, {
+				...container,
+				lastActivityAt: Date.now(),
+			})
+		}
 	}
 
 	async killContainer(id: string) {
 		await this.ctx.storage.delete(id)
 	}
 
-	async tryKillOldContainers() {
-		const activeContainers = await this.ctx.storage.list<Date>()
-		for (const c of activeContainers) {
-			const id = c[0]
-			const now = new Date()
-			const time = c[1]
-
-			console.log(id, time, now, now.valueOf() - time.valueOf())
-
-			// 15m timeout for container lifetime
-			if (now.valueOf() - time.valueOf() > 15 * 60 * 1000) {
-				await this.killContainer(id)
-				// TODO: Figure out why we were running in to invalid durable object id the id does not match this durable object class error
-				const doId = this.env.USER_CONTAINER.idFromString(id)
-				const stub = this.env.USER_CONTAINER.get(doId)
-				await stub.destroyContainer()
-			}
+	async evictContainers(evictions: Eviction[]) {
+		for (const { container, reason } of evictions) {
+			console.log('evicting container', container.id, reason)
+			await this.killContainer(container.id)
+			// TODO: Figure out why we were running in to invalid durable object id the id does not match this durable object class error
+			const doId = this.env.USER_CONTAINER.idFromString(container.id)
+			const stub = this.env.USER_CONTAINER.get(doId)
+			await stub.destroyContainer()
+		}
+
+		for (const reason of new Set(evictions.map((e) => e.reason))) {
+			this.metrics.logEvent(
+				new ContainerEvent({
+					event: `evicted_${reason}`,
+					evicted: evictions.filter((e) => e.reason === reason).length,
+				})
+			)
 		}
 	}
 
+	async alarm() {
+		const containers = await this.listContainers()
+		await this.evictContainers(
+			selectContainersToEvict(containers, getContainerQuotas(this.env), Date.now())
+		)
+		await this.scheduleEviction()
+	}
+
 	async listActive(): Promise<string[]> {
-		const activeContainers = await this.ctx.storage.list()
-		const activeIds: string[] = []
-		for (const c of activeContainers.keys()) {
-			activeIds.push(c)
-		}
+		const activeIds = (await this.listContainers()).map((c) => c.id)
 
 		this.metrics.logEvent(
 			new ContainerEvent({
+				event: 'active',
 				active: activeIds.length,
+				queued: (await this.getQueue()).length,
 			})
 		)
 
 		return activeIds
 	}
+
+	private async scheduleEviction() {
+		const next = getNextEvictionTime(await this.listContainers(), getContainerQuotas(this.env))
+		if (next === undefined) {
+			await this.ctx.storage.deleteAlarm()
+			return
+		}
+		const scheduled = await this.ctx.storage.getAlarm()
+		if (scheduled === null || scheduled > next) {
+			await this.ctx.storage.setAlarm(next)
+		}
+	}
+
+	private async getQueue(): Promise<QueueEntry[]> {
+		return (await this.ctx.storage.get<QueueEntry[]>(QUEUE_KEY)) ?? []
+	}
+
+	private async getContainer(id: string): Promise<ContainerRecord | undefined> {
+		const value = await this.ctx.storage.get<ContainerRecord | Date>(id)
+		return value && toContainerRecord(id, value)
+	}
+
+	private async listContainers(): Promise<ContainerRecord[]> {
+		const entries = await this.ctx.storage.list<ContainerRecord | Date>()
+		return [...entries]
+			.filter(([id]) => id !== QUEUE_KEY)
+			.map(([id, value]) => toContainerRecord(id, value))
+	}
+}
+
+// Containers used to be tracked with only their start time
+function toContainerRecord(id: string, value: ContainerRecord | Date): ContainerRecord {
+	if (value instanceof Date) {
+		return { id, ownerId: '', startedAt: value.valueOf(), lastActivityAt: value.valueOf() }
+	}
+	return value
 }
 
 export function getContainerManager(env: Env): DurableObjectStub<ContainerManager> {
@@ -1,14 +1,36 @@
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
+import {
+	SubscribeRequestSchema,
+	UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js'
 import { McpAgent } from 'agents/mcp'
 
 import { CloudflareMCPServer } from '@repo/mcp-common/src/server'
 
-import { ExecParams, FilePathParam, FileWrite } from '../shared/schema'
-import { BASE_INSTRUCTIONS } from './prompts'
-import { stripProtocolFromFilePath } from './utils'
+import {
+	DirectoryArchiveParams,
+	ExecJobIdParam,
+	ExecJobOutputParams,
+	ExecParams,
+	ExecStartParams,
+	ExecWaitSecondsParam,
+	FilePatch,
+	FilePathParam,
+	FileWrite,
+	NetworkPolicy,
+} from '../shared/schema'
+import { EXEC_JOB_POLL_INTERVAL_MS, getContainerQuotas, getWorkspaceKey } from './containerHelpers'
+import { BASE_INSTRUCTIONS, describeNetworkPolicy } from './prompts'
+import { stripProtocolFromFilePath, toFileUri } from './utils'
 
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js'
+import type { ExecJobStatus } from '../shared/schema'
 import type { Props, UserContainer } from './sandbox.server.app'
 import type { Env } from './sandbox.server.context'
 
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>
+
 export class ContainerMcpAgent extends McpAgent<Env, never, Props> {
 	_server: CloudflareMCPServer | undefined
 	set server(server: CloudflareMCPServer) {
@@ -23,15 +45,36 @@ export class ContainerMcpAgent extends McpAgent<Env, never, Props> {
 		return this._server
 	}
 
+	/**
+	 * Containers belong to the user, or to the account for account scoped tokens
+	 */
+	get containerOwnerId(): string {
+		return this.props.type === 'account_token'
+			? `account:${this.props.account.id}`
+			: this.props.user.id
+	}
+
 	get userContainer(): DurableObjectStub<UserContainer> {
-		// TODO: Support account scoped tokens?
-		if (this.props.type === 'account_token') {
-			throw new Error('Container server does not currently support account scoped tokens')
-		}
-		const userContainer = this.env.USER_CONTAINER.idFromName(this.props.user.id)
+		const userContainer = this.env.USER_CONTAINER.idFromName(this.containerOwnerId)
 		return this.env.USER_CONTAINER.get(userContainer)
 	}
 
+	get workspaceKey(): string {
+		return getWorkspaceKey(this.containerOwnerId)
+	}
+
+	/**
+	 * Users and accounts are blocked by adding the id of their containers, such as `account:<id>`
+	 * for accounts, to the blocklist
+	 */
+	async isBlocked(): Promise<boolean> {
+		return (await this.env.USER_BLOCKLIST.get(this.containerOwnerId)) !== null
+	}
+
+	// URIs of the file resources the client subscribed to. They are only kept in memory, so clients
+	// have to subscribe again if the agent is evicted.
+	fileSubscriptions = new Set<string>()
+
 	constructor(
 		public ctx: DurableObjectState,
 		public env: Env
@@ -40,6 +83,51 @@ export class ContainerMcpAgent extends McpAgent<Env, never, Props> {
 		super(ctx, env)
 	}
 
+	/**
+	 * Waits up to waitSeconds for a background job to finish, sending progress notifications
+	 * to the client if it asked for them
+	 */
+	async waitForExecJob(id: string, waitSeconds: number, extra: ToolExtra): Promise<ExecJobStatus> {
+		const progressToken = extra._meta?.progressToken
+		const startedWaiting = Date.now()
+		let status = await this.userContainer.container_exec_status(id)
+
+		while (status.status === 'running' && Date.now() - startedWaiting < waitSeconds * 1000) {
+			if (progressToken !== undefined) {
+				await extra.sendNotification({
+					method: 'notifications/progress',
+					params: {
+						progressToken,
+						progress: Math.round((Date.now() - startedWaiting) / 1000),
+						total: waitSeconds,
+						message: `${status.command} is running, ${status.stdoutLength} characters of stdout and ${status.stderrLength} of stderr so far`,
+					},
+				})
+			}
+			await new Promise((resolve) => setTimeout(resolve, EXEC_JOB_POLL_INTERVAL_MS))
+			status = await this.userContainer.container_exec_status(id)
+		}
+
+		return status
+	}
+
+	/**
+	 * Tells the client that files in the working directory changed. Pass the paths that changed,
+	 * or nothing if any file may have changed, e.g. after running a command.
+	 */
+	async notifyFilesChanged(extra: ToolExtra, paths?: string[]) {
+		const changedUris = paths?.map(toFileUri)
+		for (const uri of this.fileSubscriptions) {
+			if (
+				!changedUris ||
+				changedUris.some((changed) => uri === changed || uri.startsWith(`${changed}/`))
+			) {
+				await extra.sendNotification({ method: 'notifications/resources/updated', params: { uri } })
+			}
+		}
+		await extra.sendNotification({ method: 'notifications/resources/list_changed' })
+	}
+
 	async init() {
 		// TODO: Probably we'll want to track account tokens usage through an account identifier at some point
 		const userId = this.props.type === 'user_token' ? this.props.user.id : undefined
@@ -51,35 +139,87 @@ export class ContainerMcpAgent extends McpAgent<Env, never, Props> {
 				name: this.env.MCP_SERVER_NAME,
 				version: this.env.MCP_SERVER_VERSION,
 			},
-			options: { instructions: BASE_INSTRUCTIONS },
+			options: {
+				instructions: BASE_INSTRUCTIONS(getContainerQuotas(this.env)),
+			},
 		})
 
-		this.server.tool(
-			'container_initialize',
-			`Start or restart the container.
-			Use this tool to initialize a container before running any python or node.js code that the user requests ro run.`,
-			async () => {
-				if (this.props.type === 'account_token') {
-					return {
-						// TODO: Support account scoped tokens?
-						// we'll need to add support for an account blocklist in that case
-						content: [
-							{
-								type: 'text',
-								text: 'Container server does not currently support account scoped tokens.',
-							},
-						],
+		this.server.server.registerCapabilities({ resources: { subscribe: true } })
+		this.server.server.setRequestHandler(SubscribeRequestSchema, async ({ params }) => {
+			this.fileSubscriptions.add(toFileUri(params.uri))
+			return {}
+		})
+		this.server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params }) => {
+			this.fileSubscriptions.delete(toFileUri(params.uri))
+			return {}
+		})
+
+		this.server.resource(
+			'container_files',
+			new ResourceTemplate('file://{+filepath}', {
+				list: async () => {
+					try {
+						return { resources: (await this.userContainer.container_ls()).resources }
+					} catch (e) {
+						// There are no files to list until the container is initialized
+						console.error('Failed to list container files', e)
+						return { resources: [] }
 					}
+				},
+			}),
+			{
+				description:
+					'Files in the working directory of the container. Directories list the URIs of their contents.',
+			},
+			async (uri, { filepath }) => {
+				const path = Array.isArray(filepath) ? filepath.join('/') : filepath
+				const readFile = await this.userContainer.container_file_read(path)
+				return {
+					contents: [
+						readFile.type === 'text'
+							? { uri: uri.href, mimeType: readFile.mimeType, text: readFile.textOutput }
+							: { uri: uri.href, mimeType: readFile.mimeType, blob: readFile.base64Output },
+					],
 				}
+			}
+		)
 
-				const userInBlocklist = await this.env.USER_BLOCKLIST.get(this.props.user.id)
-				if (userInBlocklist) {
+		this.server.tool(
+			'container_initialize',
+			`Start or restart the container.
+			Use this tool to initialize a container before running any python or node.js code that the user requests ro run.
+			Restrict the network access of the container when running code that is not trusted.`,
+			{
+				network: NetworkPolicy.default({}).describe(
+					'Network access of the container. Defaults to full access.'
+				),
+			},
+			async ({ network }) => {
+				if (await this.isBlocked()) {
 					return {
 						content: [{ type: 'text', text: 'Blocked from intializing container.' }],
 					}
 				}
+				const initialized = await this.userContainer.container_initialize(
+					this.containerOwnerId,
+					network
+				)
+				const savedWorkspace = await this.env.WORKSPACES.head(this.workspaceKey)
 				return {
-					content: [{ type: 'text', text: await this.userContainer.container_initialize() }],
+					content: [
+						{
+							type: 'text',
+							text: [
+								initialized,
+								describeNetworkPolicy(network),
+								savedWorkspace
+									? `A workspace saved at ${savedWorkspace.uploaded.toISOString()} can be restored with container_workspace_restore.`
+									: undefined,
+							]
+								.filter(Boolean)
+								.join(' '),
+						},
+					],
 				}
 			}
 		)
@@ -99,9 +239,68 @@ export class ContainerMcpAgent extends McpAgent<Env, never, Props> {
 			If necessary, set a timeout. To debug, stream back standard error.
 			If you're using python, ALWAYS use python3 alongside pip3`,
 			{ args: ExecParams },
-			async ({ args }) => {
+			async ({ args }, extra) => {
+				try {
+					return {
+						content: [{ type: 'text', text: await this.userContainer.container_exec(args) }],
+					}
+				} finally {
+					await this.notifyFilesChanged(extra)
+				}
+			}
+		)
+		this.server.tool(
+			'container_exec_start',
+			`Start a command in the background and return its job id, without waiting for it to finish.
+			Use this tool for dev servers, long test suites and other long running commands.
+			Read the output with container_exec_output, check on the job with container_exec_status and stop it with container_exec_kill.`,
+			{ args: ExecStartParams, waitSeconds: ExecWaitSecondsParam },
+			async ({ args, waitSeconds }, extra) => {
+				const job = await this.userContainer.container_exec_start(args)
+				const status = waitSeconds > 0 ? await this.waitForExecJob(job.id, waitSeconds, extra) : job
+				if (status.status !== 'running') {
+					await this.notifyFilesChanged(extra)
+				}
+				return {
+					content: [{ type: 'text', text: JSON.stringify(status) }],
+				}
+			}
+		)
+		this.server.tool(
+			'container_exec_status',
+			'Get the status of a background job started with container_exec_start, optionally waiting for it to finish.',
+			{ id: ExecJobIdParam, waitSeconds: ExecWaitSecondsParam },
+			async ({ id, waitSeconds }, extra) => {
+				const status = await this.waitForExecJob(id, waitSeconds, extra)
+				if (status.status !== 'running') {
+					await this.notifyFilesChanged(extra)
+				}
+				return {
+					content: [{ type: 'text', text: JSON.stringify(status) }],
+				}
+			}
+		)
+		this.server.tool(
+			'container_exec_output',
+			`Read the stdout and stderr of a background job started with container_exec_start.
+			To only get new output, pass the nextStdoutOffset and nextStderrOffset of the previous read as offsets.`,
+			{ id: ExecJobIdParam, args: ExecJobOutputParams },
+			async ({ id, args }) => {
+				const output = await this.userContainer.container_exec_output(id, args)
+				return {
+					content: [{ type: 'text', text: JSON.stringify(output) }],
+				}
+			}
+		)
+		this.server.tool(
+			'container_exec_kill',
+			'Stop a background job started with container_exec_start, along with any processes it started.',
+			{ id: ExecJobIdParam },
+			async ({ id }, extra) => {
+				const status = await this.userContainer.container_exec_kill(id)
+				await this.notifyFilesChanged(extra)
 				return {
-					content: [{ type: 'text', text: await this.userContainer.container_exec(args) }],
+					content: [{ type: 'text', text: JSON.stringify(status) }],
 				}
 			}
 		)
@@ -109,9 +308,12 @@ export class ContainerMcpAgent extends McpAgent<Env, never, Props> {
 			'container_file_delete',
 			'Delete file in the working directory',
 			{ args: FilePathParam },
-			async ({ args }) => {
+			async ({ args }, extra) => {
 				const path = await stripProtocolFromFilePath(args.path)
 				const deleted = await this.userContainer.container_file_delete(path)
+				if (deleted) {
+					await this.notifyFilesChanged(extra, [path])
+				}
 				return {
 					content: [{ type: 'text', text: `File deleted: ${deleted}.` }],
 				}
@@ -119,12 +321,54 @@ export class ContainerMcpAgent extends McpAgent<Env, never, Props> {
 		)
 		this.server.tool(
 			'container_file_write',
-			'Create a new file with the provided contents in the working direcotry, overwriting the file if it already exists',
+			`Create a new file with the provided contents in the working direcotry, overwriting the file if it already exists.
+			To upload a binary file such as an image, zip or parquet file, pass its base64 encoded content and set encoding to base64.
+			To change part of an existing text file, prefer container_file_patch.`,
 			{ args: FileWrite },
-			async ({ args }) => {
+			async ({ args }, extra) => {
 				args.path = await stripProtocolFromFilePath(args.path)
+				const written = await this.userContainer.container_file_write(args)
+				await this.notifyFilesChanged(extra, [args.path])
 				return {
-					content: [{ type: 'text', text: await this.userContainer.container_file_write(args) }],
+					content: [{ type: 'text', text: written }],
+				}
+			}
+		)
+		this.server.tool(
+			'container_file_patch',
+			`Edit a text file in the working directory without rewriting all of it.
+			Pass either search/replace edits, where each search text must match exactly once unless replaceAll is set, or a unified diff of the file.
+			The file is left unchanged if any edit or hunk doesn't apply.`,
+			{ args: FilePatch },
+			async ({ args }, extra) => {
+				args.path = await stripProtocolFromFilePath(args.path)
+				const patched = await this.userContainer.container_file_patch(args)
+				await this.notifyFilesChanged(extra, [args.path])
+				return {
+					content: [{ type: 'text', text: patched }],
+				}
+			}
+		)
+		this.server.tool(
+			'container_directory_archive',
+			'Archive a directory in the working directory as a tar.gz or zip file, and return it as a resource. Use this tool to give the user a directory, such as a generated project or a set of results.',
+			{ args: DirectoryArchiveParams },
+			async ({ args }) => {
+				const path = await stripProtocolFromFilePath(args.path)
+				const archive = await this.userContainer.container_directory_archive(path, args.format)
+				// Name the archive after the directory, or the working directory itself
+				const name = path.replace(/^\/+|\/+$/g, '') || 'workdir'
+				return {
+					content: [
+						{
+							type: 'resource',
+							resource: {
+								blob: archive.base64Output,
+								uri: `archive://${name}.${args.format}`,
+								mimeType: archive.mimeType,
+							},
+						},
+					],
 				}
 			}
 		)
@@ -170,5 +414,44 @@ export class ContainerMcpAgent extends McpAgent<Env, never, Props> {
 				}
 			}
 		)
+		this.server.tool(
+			'container_workspace_save',
+			`Save the working directory, so that it can be restored in a later session with container_workspace_restore.
+			Only the working directory is saved: packages installed in it, such as node_modules or a python virtual environment in it, are kept, but system packages and global npm or pip installs are not.
+			This replaces the previously saved workspace. Containers are stopped when they are idle for a while or reach their maximum lifetime, so save the workspace before then if the user wants to keep their files.`,
+			async () => {
+				const snapshot = await this.userContainer.container_workspace_save(this.workspaceKey)
+				return {
+					content: [
+						{
+							type: 'text',
+							text: `Saved the working directory (${snapshot.size} bytes compressed) at ${snapshot.savedAt}.`,
+						},
+					],
+				}
+			}
+		)
+		this.server.tool(
+			'container_workspace_restore',
+			`Restore the working directory saved with container_workspace_save, replacing its current contents.
+			Use this tool after container_initialize to resume the files of a previous session, including packages installed in the working directory.`,
+			async (extra) => {
+				const snapshot = await this.userContainer.container_workspace_restore(this.workspaceKey)
+				if (!snapshot) {
+					return {
+						content: [{ type: 'text', text: 'There is no saved workspace to restore.' }],
+					}
+				}
+				await this.notifyFilesChanged(extra)
+				return {
+					content: [
+						{
+							type: 'text',
+							text: `Restored the working directory saved at ${snapshot.savedAt}.`,
+						},
+					],
+				}
+			}
+		)
 	}
 }
@@ -3,7 +3,13 @@ import { MetricsEvent, MetricsEventIndexIds } from '@repo/mcp-observability'
 export class ContainerEvent extends MetricsEvent {
 	constructor(
 		private containers: {
+			// What happened, e.g. started, queued or evicted_idle
+			event?: string
+			userId?: string
 			active?: number
+			queued?: number
+			// Containers evicted by this event
+			evicted?: number
 		}
 	) {
 		super()
@@ -12,8 +18,14 @@ export class ContainerEvent extends MetricsEvent {
 	toDataPoint(): AnalyticsEngineDataPoint {
 		return {
 			indexes: [MetricsEventIndexIds.CONTAINER_MANAGER],
+			blobs: this.mapBlobs({
+				blob3: this.containers.event,
+				blob4: this.containers.userId,
+			}),
 			doubles: this.mapDoubles({
 				double1: this.containers.active,
+				double2: this.containers.queued,
+				double3: this.containers.evicted,
 			}),
 		}
 	}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+
+import { getContainerQuotas } from './containerHelpers'
+import { BASE_INSTRUCTIONS, formatMinutes } from './prompts'
+
+describe('BASE_INSTRUCTIONS', () => {
+	it('describes the container timeouts of the environment', () => {
+		expect(BASE_INSTRUCTIONS(getContainerQuotas({}))).toContain(
+			'Containers are stopped after 15 minutes without any exec or file tool calls, or after an hour at most'
+		)
+		expect(
+			BASE_INSTRUCTIONS(
+				getContainerQuotas({
+					CONTAINER_IDLE_TIMEOUT_MINUTES: '5',
+					CONTAINER_MAX_LIFETIME_MINUTES: '120',
+				})
+			)
+		).toContain(
+			'Containers are stopped after 5 minutes without any exec or file tool calls, or after 2 hours at most'
+		)
+	})
+})
+
+describe('formatMinutes', () => {
+	it('describes durations in minutes or whole hours', () => {
+		expect(formatMinutes(60_000)).toBe('a minute')
+		expect(formatMinutes(90 * 60_000)).toBe('90 minutes')
+		expect(formatMinutes(60 * 60_000)).toBe('an hour')
+	})
+})
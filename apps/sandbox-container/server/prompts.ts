@@ -1,7 +1,41 @@
-export const BASE_INSTRUCTIONS = /* markdown */ `
+import type { NetworkPolicy } from '../shared/schema'
+import type { ContainerQuotas } from './containerHelpers'
+
+export function describeNetworkPolicy(networkPolicy: NetworkPolicy): string {
+	switch (networkPolicy.mode) {
+		case 'off':
+			return 'The container has no network access.'
+		case 'allowlist':
+			return networkPolicy.allowedHosts.length > 0
+				? `The container can only connect to ${networkPolicy.allowedHosts.join(', ')} and their subdomains, through the HTTP proxy set in the HTTP_PROXY and HTTPS_PROXY environment variables. Clients that ignore these variables can't connect.`
+				: 'The container can only connect to allowed hosts, and none are allowed.'
+		case 'full':
+			return 'The container has full access to the internet.'
+	}
+}
+
+/**
+ * Describes a duration in minutes, e.g. "15 minutes" or "an hour"
+ */
+export function formatMinutes(ms: number): string {
+	const minutes = Math.round(ms / 60_000)
+	if (minutes === 60) {
+		return 'an hour'
+	}
+	if (minutes % 60 === 0) {
+		return `${minutes / 60} hours`
+	}
+	return minutes === 1 ? 'a minute' : `${minutes} minutes`
+}
+
+/**
+ * Instructions for the model, with the container timeouts of the environment. The network policy is
+ * chosen per container, so it is described in the result of container_initialize instead.
+ */
+export const BASE_INSTRUCTIONS = (quotas: ContainerQuotas) => /* markdown */ `
 # Container MCP Agent
 
-The Container MCP Agent provides access to a sandboxed container environment. This is an ephemeral container and has access to the internet.
+The Container MCP Agent provides access to a sandboxed container environment. This is an ephemeral container.
 
 The container is an Ubuntu 20.04 base image with the following packages installed:
 - curl
@@ -23,6 +57,7 @@ If you're using python, ALWAYS use \`python3\` instead of \`python\`. ALWAYS mak
 
 The primary resource in this image is the \`container_files\` resource. 
 This is a dynamic resource, which provides a list of files defined by \`file://{filepath}\`, where filepath is relative to the root working directory you are in. 
+The user may attach these resources to the conversation directly. Subscribers are notified when a tool changes a file.
 
 The \`container_files_list\` allows you to list all file resources in your working directory. Content is omitted from the response of this tool.
 
@@ -36,13 +71,30 @@ AVOID manually reading or writing files using the \`container_exec\` tool. You s
 ## Tools
 
 To manage container lifecycle, use the \`container_initialize\` tool. If you run into errors where you can't connect to the container, attempt to restart the container with the same \`container_initialize\` tool. If that doesn't work, the system is probably overloaded.
+When all container sandboxes are in use, \`container_initialize\` returns your position in the queue instead of starting a container. Tell the user, and call it again after about a minute to keep your place, until the container is started.
 
 You can execute actions in the container using the \`container_exec\` tool. By default, stdout is returned back as a string.
-To write a file, use the \`container_file_write\` tool. To delete a file, use the \`container_file_delete\` tool.
+For commands that run for a long time or don't exit, such as dev servers, long test suites or training scripts, use the \`container_exec_start\` tool instead. It starts the command in the background and returns a job id.
+Use \`container_exec_output\` to read the output of the job, passing the offsets from the previous read to only get new output, \`container_exec_status\` to check whether it is still running and \`container_exec_kill\` to stop it.
+To write a file, use the \`container_file_write\` tool. To upload a binary file, pass its base64 encoded content with the encoding set to \`base64\`. To delete a file, use the \`container_file_delete\` tool.
+To change part of an existing text file, use the \`container_file_patch\` tool with search/replace edits or a unified diff, instead of rewriting the whole file.
+To give the user a whole directory, use the \`container_directory_archive\` tool, which returns a tar.gz or zip archive of the directory as a resource.
 
 The \`container_files_list\` allows you to list file resources. Content is omitted from the response of this tool and all mimeTypes are \`text/plain\` even if the file ending suggests otherwise.
 If you want to get the file contents of a file resource, use \`container_file_read\`, which will return the file contents.
 
+## Network
+
+The network access of the container is chosen with the \`network\` argument of \`container_initialize\`: \`off\` blocks all outbound connections, \`allowlist\` only allows connections to the given hosts, such as \`pypi.org\`, \`files.pythonhosted.org\` and \`registry.npmjs.org\`, and \`full\` allows all connections. Use \`off\` or \`allowlist\` when running code that is not trusted.
+With \`allowlist\`, the container has no direct internet access, and connections go through an HTTP proxy set in the \`HTTP_PROXY\` and \`HTTPS_PROXY\` environment variables, which pip, npm, curl, wget and git use. Code that ignores them, such as node's built in \`fetch\`, can't connect to any host, including allowed ones.
+The result of \`container_initialize\` describes the policy the container was started with.
+
+## Workspaces
+
+Containers are stopped after ${formatMinutes(quotas.idleTimeoutMs)} without any exec or file tool calls, or after ${formatMinutes(quotas.maxLifetimeMs)} at most, and the files in the working directory are lost unless they are saved.
+Use the \`container_workspace_save\` tool to save the working directory, and the \`container_workspace_restore\` tool after \`container_initialize\` to resume it in a later session. Each user has a single saved workspace.
+Only the working directory is saved. Install node packages locally with \`npm install\`, and python packages in a virtual environment in the working directory (\`python3 -m venv .venv\`), so that they are saved with the workspace.
+
 If after calling a tool, you receive an error that a cloudchamber instance cannot be provided, just stop attempting to answer and request that the user attempt to try again later.
 
 If you run into issues, do not attempt to retry after 3 tries unless the user prompts you to. Instead direct the user to report an issue at: https://github.com/cloudflare/mcp-server-cloudflare
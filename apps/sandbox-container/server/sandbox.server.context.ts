@@ -15,9 +15,14 @@ export interface Env {
 	CONTAINER_MANAGER: DurableObjectNamespace<ContainerManager>
 	USER_CONTAINER: DurableObjectNamespace<UserContainer>
 	USER_BLOCKLIST: KVNamespace
+	WORKSPACES: R2Bucket
 	MCP_METRICS: AnalyticsEngineDataset
 	AI: Ai
 	DEV_DISABLE_OAUTH: string
 	DEV_CLOUDFLARE_API_TOKEN: string
 	DEV_CLOUDFLARE_EMAIL: string
+	// Optional overrides of the container quotas, see getContainerQuotas
+	CONTAINER_MAX_CONTAINERS?: string
+	CONTAINER_IDLE_TIMEOUT_MINUTES?: string
+	CONTAINER_MAX_LIFETIME_MINUTES?: string
 }
@@ -1,14 +1,40 @@
+import { connect } from 'cloudflare:sockets'
 import { DurableObject } from 'cloudflare:workers'
 
-import { OPEN_CONTAINER_PORT } from '../shared/consts'
-import { MAX_CONTAINERS, proxyFetch, startAndWaitForPort } from './containerHelpers'
+import { NETWORK_POLICY_ENV, OPEN_CONTAINER_PORT } from '../shared/consts'
+import { isHostAllowed } from '../shared/networkPolicy'
+import { EgressConnection } from '../shared/schema'
+import {
+	ACTIVITY_RECORD_INTERVAL_MS,
+	MAX_DIRECTORY_ARCHIVE_SIZE_BYTES,
+	MAX_WORKSPACE_SIZE_BYTES,
+	proxyFetch,
+	startAndWaitForPort,
+} from './containerHelpers'
 import { getContainerManager } from './containerManager'
 import { fileToBase64 } from './utils'
 
-import type { ExecParams, FileList, FileWrite } from '../shared/schema'
+import type {
+	ArchiveFormat,
+	ExecJobOutput,
+	ExecJobOutputParams,
+	ExecJobStatus,
+	ExecParams,
+	ExecStartParams,
+	FileList,
+	FilePatch,
+	FileWrite,
+	NetworkPolicy,
+	WorkspaceSnapshot,
+} from '../shared/schema'
 import type { Env } from './sandbox.server.context'
 
 export class UserContainer extends DurableObject<Env> {
+	// Only kept in memory, the worst case is an extra update after the object is evicted
+	private lastActivityRecordedAt = 0
+	// Counts container starts, so that the egress relay of a replaced container stops
+	private containerGeneration = 0
+
 	constructor(
 		public ctx: DurableObjectState,
 		public env: Env
@@ -25,29 +51,26 @@ export class UserContainer extends DurableObject<Env> {
 		console.log('Reaping container')
 		const containerManager = getContainerManager(this.env)
 		const active = await containerManager.listActive()
-		if (this.ctx.id.toString() in active) {
+		if (active.includes(this.ctx.id.toString())) {
 			console.log('killing container')
 			await this.destroyContainer()
 			await containerManager.killContainer(this.ctx.id.toString())
 		}
 	}
 
-	async container_initialize(): Promise<string> {
-		// kill container
-		await this.killContainer()
-
-		// try to cleanup cleanup old containers
+	/**
+	 * Starts the container, if a container is free. Otherwise returns the owner's position in the
+	 * queue.
+	 */
+	async container_initialize(ownerId: string, networkPolicy: NetworkPolicy): Promise<string> {
+		// The running container is only replaced once a slot is granted, so users that are queued keep it
 		const containerManager = getContainerManager(this.env)
-
-		// if more than half of our containers are being used, let's try reaping
-		if ((await containerManager.listActive()).length >= MAX_CONTAINERS / 2) {
-			await containerManager.tryKillOldContainers()
-			if ((await containerManager.listActive()).length >= MAX_CONTAINERS) {
-				throw new Error(
-					`Unable to reap enough containers. There are ${MAX_CONTAINERS} active container sandboxes, please wait`
-				)
-			}
+		const slot = await containerManager.acquireContainer(this.ctx.id.toString(), ownerId)
+		if (slot.status === 'queued') {
+			return `All container sandboxes are in use. You are number ${slot.position} of ${slot.queueLength} in the queue, call container_initialize again in a minute to keep your place.`
 		}
+		await this.destroyContainer()
+		const generation = ++this.containerGeneration
 
 		// start container
 		let startedContainer = false
@@ -55,17 +78,110 @@ export class UserContainer extends DurableObject<Env> {
 			startedContainer = await startAndWaitForPort(
 				this.env.ENVIRONMENT,
 				this.ctx.container,
-				OPEN_CONTAINER_PORT
+				OPEN_CONTAINER_PORT,
+				{
+					// With the allowlist mode, connections are relayed by this object instead, so that code
+					// that ignores the proxy of the container can't connect anywhere
+					enableInternet: networkPolicy.mode === 'full',
+					// The policy can't be changed once the container is started, so code running in the
+					// container can't change its own policy
+					env: { [NETWORK_POLICY_ENV]: JSON.stringify(networkPolicy) },
+				}
 			)
 		})
 		if (!startedContainer) {
+			await containerManager.killContainer(this.ctx.id.toString())
 			throw new Error('Failed to start container')
 		}
+		this.lastActivityRecordedAt = Date.now()
+		if (networkPolicy.mode === 'allowlist') {
+			void this.relayEgress(networkPolicy, generation)
+		}
+
+		return `Created new container.`
+	}
+
+	/**
+	 * Relays the connections of the egress proxy of the container until it is replaced or stops
+	 * answering. Hosts are checked against the policy again, as code running in the container can
+	 * reach the relay too.
+	 */
+	private async relayEgress(networkPolicy: NetworkPolicy, generation: number) {
+		while (generation === this.containerGeneration) {
+			let res: Response
+			try {
+				res = await proxyFetch(
+					this.env.ENVIRONMENT,
+					this.ctx.container,
+					new Request(`http://host:${OPEN_CONTAINER_PORT}/network/relay/connections`),
+					OPEN_CONTAINER_PORT
+				)
+			} catch (e) {
+				console.error('Stopped relaying egress connections', e)
+				return
+			}
+			if (!res.ok) {
+				console.error(`Stopped relaying egress connections: ${await res.text()}`)
+				return
+			}
+			if (res.status === 200) {
+				void this.relayEgressConnection(networkPolicy, EgressConnection.parse(await res.json()))
+			}
+		}
+	}
+
+	private async relayEgressConnection(
+		networkPolicy: NetworkPolicy,
+		{ id, hostname, port }: EgressConnection
+	) {
+		const url = `http://host:${OPEN_CONTAINER_PORT}/network/relay/connections/${encodeURIComponent(id)}`
+		try {
+			if (!isHostAllowed(networkPolicy, hostname)) {
+				throw new Error(`Connections to ${hostname} are blocked by the network policy`)
+			}
+			const socket = connect({ hostname, port })
+			await socket.opened
 
-		// track and manage lifecycle
-		await containerManager.trackContainer(this.ctx.id.toString())
+			const outgoing = await proxyFetch(
+				this.env.ENVIRONMENT,
+				this.ctx.container,
+				new Request(`${url}/outgoing`),
+				OPEN_CONTAINER_PORT
+			)
+			if (!outgoing.ok || !outgoing.body) {
+				await socket.close()
+				return
+			}
+			await Promise.all([
+				outgoing.body.pipeTo(socket.writable),
+				proxyFetch(
+					this.env.ENVIRONMENT,
+					this.ctx.container,
+					new Request(`${url}/incoming`, { method: 'PUT', body: socket.readable }),
+					OPEN_CONTAINER_PORT
+				),
+			])
+		} catch (e) {
+			await proxyFetch(
+				this.env.ENVIRONMENT,
+				this.ctx.container,
+				new Request(url, { method: 'DELETE', body: e instanceof Error ? e.message : String(e) }),
+				OPEN_CONTAINER_PORT
+			).catch(() => undefined)
+		}
+	}
 
-		return `Created new container`
+	/**
+	 * Lets the container manager know the container is in use, so it is not evicted for being idle.
+	 * At most one update is sent per ACTIVITY_RECORD_INTERVAL_MS.
+	 */
+	private async recordActivity() {
+		const now = Date.now()
+		if (now - this.lastActivityRecordedAt < ACTIVITY_RECORD_INTERVAL_MS) {
+			return
+		}
+		this.lastActivityRecordedAt = now
+		await getContainerManager(this.env).recordActivity(this.ctx.id.toString())
 	}
 
 	async container_ping(): Promise<string> {
@@ -82,6 +198,7 @@ export class UserContainer extends DurableObject<Env> {
 	}
 
 	async container_exec(params: ExecParams): Promise<string> {
+		await this.recordActivity()
 		const res = await proxyFetch(
 			this.env.ENVIRONMENT,
 			this.ctx.container,
@@ -101,7 +218,88 @@ export class UserContainer extends DurableObject<Env> {
 		return txt
 	}
 
+	async container_exec_start(params: ExecStartParams): Promise<ExecJobStatus> {
+		await this.recordActivity()
+		const res = await proxyFetch(
+			this.env.ENVIRONMENT,
+			this.ctx.container,
+			new Request(`http://host:${OPEN_CONTAINER_PORT}/exec/jobs`, {
+				method: 'POST',
+				body: JSON.stringify(params),
+				headers: {
+					'content-type': 'application/json',
+				},
+			}),
+			OPEN_CONTAINER_PORT
+		)
+		if (!res || !res.ok) {
+			throw new Error(`Request to container failed: ${await res.text()}`)
+		}
+		return (await res.json()) as ExecJobStatus
+	}
+
+	async container_exec_status(id: string): Promise<ExecJobStatus> {
+		await this.recordActivity()
+		const res = await proxyFetch(
+			this.env.ENVIRONMENT,
+			this.ctx.container,
+			new Request(`http://host:${OPEN_CONTAINER_PORT}/exec/jobs/${encodeURIComponent(id)}`),
+			OPEN_CONTAINER_PORT
+		)
+		if (res.status === 404) {
+			throw new Error(`No exec job found with id ${id}`)
+		}
+		if (!res || !res.ok) {
+			throw new Error(`Request to container failed: ${await res.text()}`)
+		}
+		return (await res.json()) as ExecJobStatus
+	}
+
+	async container_exec_output(id: string, params: ExecJobOutputParams): Promise<ExecJobOutput> {
+		await this.recordActivity()
+		const query = new URLSearchParams({
+			stdoutOffset: params.stdoutOffset.toString(),
+			stderrOffset: params.stderrOffset.toString(),
+			maxLength: params.maxLength.toString(),
+		})
+		const res = await proxyFetch(
+			this.env.ENVIRONMENT,
+			this.ctx.container,
+			new Request(
+				`http://host:${OPEN_CONTAINER_PORT}/exec/jobs/${encodeURIComponent(id)}/output?${query}`
+			),
+			OPEN_CONTAINER_PORT
+		)
+		if (res.status === 404) {
+			throw new Error(`No exec job found with id ${id}`)
+		}
+		if (!res || !res.ok) {
+			throw new Error(`Request to container failed: ${await res.text()}`)
+		}
+		return (await res.json()) as ExecJobOutput
+	}
+
+	async container_exec_kill(id: string): Promise<ExecJobStatus> {
+		await this.recordActivity()
+		const res = await proxyFetch(
+			this.env.ENVIRONMENT,
+			this.ctx.container,
+			new Request(`http://host:${OPEN_CONTAINER_PORT}/exec/jobs/${encodeURIComponent(id)}`, {
+				method: 'DELETE',
+			}),
+			OPEN_CONTAINER_PORT
+		)
+		if (res.status === 404) {
+			throw new Error(`No exec job found with id ${id}`)
+		}
+		if (!res || !res.ok) {
+			throw new Error(`Request to container failed: ${await res.text()}`)
+		}
+		return (await res.json()) as ExecJobStatus
+	}
+
 	async container_ls(): Promise<FileList> {
+		await this.recordActivity()
 		const res = await proxyFetch(
 			this.env.ENVIRONMENT,
 			this.ctx.container,
@@ -116,6 +314,7 @@ export class UserContainer extends DurableObject<Env> {
 	}
 
 	async container_file_delete(filePath: string): Promise<boolean> {
+		await this.recordActivity()
 		const res = await proxyFetch(
 			this.env.ENVIRONMENT,
 			this.ctx.container,
@@ -132,6 +331,7 @@ export class UserContainer extends DurableObject<Env> {
 		| { type: 'text'; textOutput: string; mimeType: string | undefined }
 		| { type: 'base64'; base64Output: string; mimeType: string | undefined }
 	> {
+		await this.recordActivity()
 		const res = await proxyFetch(
 			this.env.ENVIRONMENT,
 			this.ctx.container,
@@ -161,6 +361,7 @@ export class UserContainer extends DurableObject<Env> {
 	}
 
 	async container_file_write(file: FileWrite): Promise<string> {
+		await this.recordActivity()
 		const res = await proxyFetch(
 			this.env.ENVIRONMENT,
 			this.ctx.container,
@@ -178,4 +379,110 @@ export class UserContainer extends DurableObject<Env> {
 		}
 		return `Wrote file: ${file.path}`
 	}
+
+	async container_file_patch(patch: FilePatch): Promise<string> {
+		await this.recordActivity()
+		const res = await proxyFetch(
+			this.env.ENVIRONMENT,
+			this.ctx.container,
+			new Request(`http://host:${OPEN_CONTAINER_PORT}/files/contents`, {
+				method: 'PATCH',
+				body: JSON.stringify(patch),
+				headers: {
+					'content-type': 'application/json',
+				},
+			}),
+			OPEN_CONTAINER_PORT
+		)
+		if (res.status === 404) {
+			throw new Error(`File not found: ${patch.path}`)
+		}
+		if (!res || !res.ok) {
+			throw new Error(`Request to container failed: ${await res.text()}`)
+		}
+		return `Patched file: ${patch.path}`
+	}
+
+	async container_directory_archive(
+		dirPath: string,
+		format: ArchiveFormat
+	): Promise<{ base64Output: string; mimeType: string | undefined }> {
+		await this.recordActivity()
+		const res = await proxyFetch(
+			this.env.ENVIRONMENT,
+			this.ctx.container,
+			new Request(`http://host:${OPEN_CONTAINER_PORT}/files/archive/${dirPath}?format=${format}`),
+			OPEN_CONTAINER_PORT
+		)
+		if (res.status === 404) {
+			throw new Error(`Directory not found: ${dirPath}`)
+		}
+		if (!res || !res.ok || !res.body) {
+			throw new Error(`Request to container failed: ${await res.text()}`)
+		}
+
+		const size = Number(res.headers.get('Content-Length'))
+		if (size > MAX_DIRECTORY_ARCHIVE_SIZE_BYTES) {
+			await res.body.cancel()
+			throw new Error(
+				`The archive is too large to return (${size} bytes, the maximum is ${MAX_DIRECTORY_ARCHIVE_SIZE_BYTES} bytes). Archive a smaller directory.`
+			)
+		}
+
+		return {
+			base64Output: await fileToBase64(await res.blob()),
+			mimeType: res.headers.get('Content-Type') ?? undefined,
+		}
+	}
+
+	async container_workspace_save(key: string): Promise<WorkspaceSnapshot> {
+		await this.recordActivity()
+		const res = await proxyFetch(
+			this.env.ENVIRONMENT,
+			this.ctx.container,
+			new Request(`http://host:${OPEN_CONTAINER_PORT}/workspace/archive`),
+			OPEN_CONTAINER_PORT
+		)
+		if (!res || !res.ok || !res.body) {
+			throw new Error(`Request to container failed: ${await res.text()}`)
+		}
+
+		const size = Number(res.headers.get('Content-Length'))
+		if (size > MAX_WORKSPACE_SIZE_BYTES) {
+			await res.body.cancel()
+			throw new Error(
+				`The working directory is too large to save (${size} bytes, the maximum is ${MAX_WORKSPACE_SIZE_BYTES} bytes). Delete files you don't need and try again.`
+			)
+		}
+
+		const object = await this.env.WORKSPACES.put(key, res.body, {
+			httpMetadata: { contentType: 'application/gzip' },
+		})
+		return { size: object.size, savedAt: object.uploaded.toISOString() }
+	}
+
+	async container_workspace_restore(key: string): Promise<WorkspaceSnapshot | null> {
+		await this.recordActivity()
+		const object = await this.env.WORKSPACES.get(key)
+		if (!object) {
+			return null
+		}
+
+		const res = await proxyFetch(
+			this.env.ENVIRONMENT,
+			this.ctx.container,
+			new Request(`http://host:${OPEN_CONTAINER_PORT}/workspace/archive`, {
+				method: 'PUT',
+				body: object.body,
+				headers: {
+					'content-type': 'application/gzip',
+				},
+			}),
+			OPEN_CONTAINER_PORT
+		)
+		if (!res || !res.ok) {
+			throw new Error(`Request to container failed: ${await res.text()}`)
+		}
+		return { size: object.size, savedAt: object.uploaded.toISOString() }
+	}
 }
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest'
 
-import { stripProtocolFromFilePath } from './utils'
+import { stripProtocolFromFilePath, toFileUri } from './utils'
 
 describe('get_file_name_from_path', () => {
 	it('strips file:// protocol from path', async () => {
@@ -12,3 +12,15 @@ describe('get_file_name_from_path', () => {
 			expect(path).toBe('/files/contents/cats')
 		})
 })
+
+describe('toFileUri', () => {
+	it('makes paths relative to the working directory', () => {
+		expect(toFileUri('src/index.ts')).toBe('file:///src/index.ts')
+		expect(toFileUri('/src/index.ts')).toBe('file:///src/index.ts')
+	})
+
+	it('normalizes file URIs', () => {
+		expect(toFileUri('file://test.txt')).toBe('file:///test.txt')
+		expect(toFileUri('file:///test.txt')).toBe('file:///test.txt')
+	})
+})
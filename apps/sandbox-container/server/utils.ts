@@ -17,3 +17,8 @@ export async function fileToBase64(blob: Blob): Promise<string> {
 export async function stripProtocolFromFilePath(path: string): Promise<string> {
 	return path.startsWith('file://') ? path.replace('file://', '') : path
 }
+
+// File resource URIs are relative to the working directory, e.g. file:///src/index.ts
+export function toFileUri(path: string): string {
+	return `file:///${path.replace(/^file:\/\//, '').replace(/^\/+/, '')}`
+}
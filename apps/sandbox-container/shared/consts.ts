@@ -1,2 +1,5 @@
 // Set this to the open port on your container
 export const OPEN_CONTAINER_PORT = 8080
+
+// Environment variable the network policy is passed to the container app in, as JSON
+export const NETWORK_POLICY_ENV = 'NETWORK_POLICY'
@@ -0,0 +1,18 @@
+import type { NetworkPolicy } from './schema'
+
+/**
+ * Whether a host may be connected to. Allowed hosts also allow their subdomains.
+ */
+export function isHostAllowed(policy: NetworkPolicy, host: string): boolean {
+	if (policy.mode === 'full') {
+		return true
+	}
+	if (policy.mode === 'off') {
+		return false
+	}
+	const hostname = host.toLowerCase().replace(/\.$/, '')
+	return policy.allowedHosts.some((allowed) => {
+		const allowedHost = allowed.toLowerCase()
+		return hostname === allowedHost || hostname.endsWith(`.${allowedHost}`)
+	})
+}
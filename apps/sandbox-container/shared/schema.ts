@@ -7,10 +7,129 @@ export const ExecParams = z.object({
 	streamStderr: z.boolean().default(true),
 })
 
+export type ExecStartParams = z.infer<typeof ExecStartParams>
+export const ExecStartParams = z.object({
+	args: z.string(),
+	timeout: z.number().optional().describe('Timeout in milliseconds, after which the job is killed'),
+})
+
+export type ExecJobIdParam = z.infer<typeof ExecJobIdParam>
+export const ExecJobIdParam = z
+	.string()
+	.describe('The id of the job, as returned by container_exec_start')
+
+export type ExecWaitSecondsParam = z.infer<typeof ExecWaitSecondsParam>
+export const ExecWaitSecondsParam = z
+	.number()
+	.int()
+	.min(0)
+	.max(50)
+	.default(0)
+	.describe(
+		'Seconds to wait for the job to finish before returning. Progress notifications are sent while waiting.'
+	)
+
+export type ExecJobStatus = z.infer<typeof ExecJobStatus>
+export const ExecJobStatus = z.object({
+	id: z.string(),
+	command: z.string(),
+	status: z.enum(['running', 'exited', 'killed']),
+	exitCode: z.number().nullable(),
+	signal: z.string().nullable(),
+	startedAt: z.string(),
+	endedAt: z.string().nullable(),
+	stdoutLength: z.number().describe('Number of characters written to stdout so far'),
+	stderrLength: z.number().describe('Number of characters written to stderr so far'),
+})
+
+export type ExecJobOutputParams = z.infer<typeof ExecJobOutputParams>
+export const ExecJobOutputParams = z.object({
+	stdoutOffset: z.coerce
+		.number()
+		.int()
+		.min(0)
+		.default(0)
+		.describe(
+			'Offset to read stdout from. Pass nextStdoutOffset of the previous read to only get new output.'
+		),
+	stderrOffset: z.coerce
+		.number()
+		.int()
+		.min(0)
+		.default(0)
+		.describe(
+			'Offset to read stderr from. Pass nextStderrOffset of the previous read to only get new output.'
+		),
+	maxLength: z.coerce
+		.number()
+		.int()
+		.min(1)
+		.max(100_000)
+		.default(20_000)
+		.describe('Maximum number of characters to read from each stream'),
+})
+
+export type ExecJobOutput = z.infer<typeof ExecJobOutput>
+export const ExecJobOutput = z.object({
+	status: ExecJobStatus,
+	stdout: z.string(),
+	stderr: z.string(),
+	nextStdoutOffset: z.number(),
+	nextStderrOffset: z.number(),
+	droppedOutput: z
+		.boolean()
+		.describe(
+			'Whether output at the requested offsets was dropped, as only the latest output is kept'
+		),
+})
+
 export type FileWrite = z.infer<typeof FileWrite>
 export const FileWrite = z.object({
 	path: z.string(),
-	text: z.string().describe('Full text content of the file you want to write.'),
+	text: z
+		.string()
+		.describe(
+			'Full content of the file you want to write. Binary content must be base64 encoded, with encoding set to base64.'
+		),
+	encoding: z
+		.enum(['utf-8', 'base64'])
+		.default('utf-8')
+		.describe(
+			'Encoding of text. Use base64 to upload binary files such as images, zips or parquet.'
+		),
+})
+
+export type FileEdit = z.infer<typeof FileEdit>
+export const FileEdit = z.object({
+	search: z.string().min(1).describe('Exact text to replace, including whitespace and indentation'),
+	replace: z.string().describe('Text to replace it with'),
+	replaceAll: z
+		.boolean()
+		.default(false)
+		.describe('Replace every match. Otherwise the search text must match exactly once.'),
+})
+
+export type FilePatch = z.infer<typeof FilePatch>
+export const FilePatch = z.object({
+	path: z.string(),
+	edits: FileEdit.array()
+		.optional()
+		.describe('Search/replace edits, applied in order. Pass either edits or diff.'),
+	diff: z
+		.string()
+		.optional()
+		.describe(
+			'Unified diff of the file, as produced by diff -u or git diff. Pass either edits or diff.'
+		),
+})
+
+export type ArchiveFormat = z.infer<typeof ArchiveFormat>
+export const ArchiveFormat = z.enum(['tar.gz', 'zip'])
+
+export type DirectoryArchiveParams = z.infer<typeof DirectoryArchiveParams>
+export const DirectoryArchiveParams = z.object({
+	path: z.string().describe('Directory to archive, relative to the working directory'),
+	format: ArchiveFormat.default('tar.gz'),
 })
 
 export type FilePathParam = z.infer<typeof FilePathParam>
@@ -38,3 +157,34 @@ export const FilesContextSchema = z.object({
 		})
 		.array(),
 })
+
+export type WorkspaceSnapshot = z.infer<typeof WorkspaceSnapshot>
+export const WorkspaceSnapshot = z.object({
+	size: z.number().describe('Size of the compressed archive in bytes'),
+	savedAt: z.string().describe('When the workspace was saved, as an ISO 8601 timestamp'),
+})
+
+export type NetworkPolicy = z.infer<typeof NetworkPolicy>
+export const NetworkPolicy = z.object({
+	mode: z
+		.enum(['off', 'allowlist', 'full'])
+		.default('full')
+		.describe(
+			'Network access of the container: off blocks all outbound connections, allowlist only allows connections to allowedHosts, and full allows all connections'
+		),
+	allowedHosts: z
+		.string()
+		.regex(/^[a-z0-9.-]+$/i, 'Must be a hostname, such as pypi.org')
+		.array()
+		.default([])
+		.describe(
+			'Hostnames the container may connect to with the allowlist mode, such as pypi.org or registry.npmjs.org. Subdomains of allowed hosts are allowed too.'
+		),
+})
+
+export type EgressConnection = z.infer<typeof EgressConnection>
+export const EgressConnection = z.object({
+	id: z.string(),
+	hostname: z.string(),
+	port: z.number().int().min(1).max(65535),
+})
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// The container runs on Node, and the server helpers under test don't need the Workers runtime
+export default defineConfig({
+	test: {
+		include: ['container/**/*.spec.ts', 'server/**/*.spec.ts'],
+		environment: 'node',
+	},
+})
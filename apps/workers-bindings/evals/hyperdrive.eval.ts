@@ -8,13 +8,12 @@ import { HYPERDRIVE_TOOLS } from '@repo/mcp-common/src/tools/hyperdrive.tools'
 
 import { initializeClient } from './utils' // Assuming utils.ts will exist here
 
-// TODO: Add test for creating hyperdrive config with the following params once we can securely pass parameters to the tool. See: https://github.com/modelcontextprotocol/modelcontextprotocol/pull/382
-// const HYPERDRIVE_NAME = 'neon-test-hyperdrive'
-// const HYPERDRIVE_DATABASE = 'neondb'
-// const HYPERDRIVE_HOST = 'ep-late-cell-a4fm3g5p-pooler.us-east-1.aws.neon.tech'
-// const HYPERDRIVE_PORT = 5432
-// const HYPERDRIVE_USER = 'neondb_owner'
-// const HYPERDRIVE_PASSWORD = 'my-test-password'
+const HYPERDRIVE_NAME = 'neon-test-hyperdrive'
+const HYPERDRIVE_DATABASE = 'neondb'
+const HYPERDRIVE_HOST = 'ep-late-cell-a4fm3g5p-pooler.us-east-1.aws.neon.tech'
+const HYPERDRIVE_PORT = 5432
+const HYPERDRIVE_USER = 'neondb_owner'
+const HYPERDRIVE_PASSWORD = 'my-test-password'
 
 eachModel('$modelName', ({ model }) => {
 	describeEval('Hyperdrive Tool Evaluations', {
@@ -42,4 +41,65 @@ eachModel('$modelName', ({ model }) => {
 		threshold: 1,
 		timeout: 60000,
 	})
+
+	describeEval('Create Hyperdrive Config', {
+		data: async () => [
+			{
+				input: `Create a hyperdrive config named ${HYPERDRIVE_NAME} for the postgres database ${HYPERDRIVE_DATABASE} on ${HYPERDRIVE_HOST} port ${HYPERDRIVE_PORT}, with user ${HYPERDRIVE_USER} and password ${HYPERDRIVE_PASSWORD}.`,
+				expected: `The ${HYPERDRIVE_TOOLS.hyperdrive_config_create} tool should be called to create the hyperdrive config.`,
+			},
+		],
+		task: async (input: string) => {
+			const client = await initializeClient(/* Pass necessary mocks/config */)
+			const { promptOutput, toolCalls } = await runTask(client, model, input)
+
+			const toolCall = toolCalls.find(
+				(call) => call.toolName === HYPERDRIVE_TOOLS.hyperdrive_config_create
+			)
+			expect(
+				toolCall,
+				`Tool ${HYPERDRIVE_TOOLS.hyperdrive_config_create} was not called`
+			).toBeDefined()
+			expect(toolCall?.args).toEqual(
+				expect.objectContaining({
+					name: HYPERDRIVE_NAME,
+					database: HYPERDRIVE_DATABASE,
+					host: HYPERDRIVE_HOST,
+					port: HYPERDRIVE_PORT,
+					user: HYPERDRIVE_USER,
+				})
+			)
+
+			return promptOutput
+		},
+		scorers: [checkFactuality],
+		threshold: 1,
+		timeout: 60000,
+	})
+
+	describeEval('Test Hyperdrive Config', {
+		data: async () => [
+			{
+				input: `My worker can't connect to the database through hyperdrive config 'YOUR_HYPERDRIVE_ID'. Check its origin settings.`,
+				expected: `The ${HYPERDRIVE_TOOLS.hyperdrive_config_test} tool should be called to check the origin of the hyperdrive config.`,
+			},
+		],
+		task: async (input: string) => {
+			const client = await initializeClient(/* Pass necessary mocks/config */)
+			const { promptOutput, toolCalls } = await runTask(client, model, input)
+
+			const toolCall = toolCalls.find(
+				(call) => call.toolName === HYPERDRIVE_TOOLS.hyperdrive_config_test
+			)
+			expect(
+				toolCall,
+				`Tool ${HYPERDRIVE_TOOLS.hyperdrive_config_test} was not called`
+			).toBeDefined()
+
+			return promptOutput
+		},
+		scorers: [checkFactuality],
+		threshold: 1,
+		timeout: 60000,
+	})
 })
@@ -114,4 +114,84 @@ eachModel('$modelName', ({ model }) => {
 		threshold: 1,
 		timeout: 60000, // 60 seconds
 	})
+	describeEval('List Keys in Cloudflare KV Namespace', {
+		data: async () => [
+			{
+				input: 'List the keys starting with "user:" in my Cloudflare KV Namespace with ID 1234.',
+				expected: `The ${KV_NAMESPACE_TOOLS.kv_keys_list} tool should be called to list the keys in the kv namespace with the prefix "user:".`,
+			},
+		],
+		task: async (input: string) => {
+			const client = await initializeClient(/* Pass necessary mocks/config */)
+			const { promptOutput, toolCalls } = await runTask(client, model, input)
+			const toolCall = toolCalls.find((call) => call.toolName === KV_NAMESPACE_TOOLS.kv_keys_list)
+			expect(toolCall, 'Tool kv_keys_list was not called').toBeDefined()
+
+			return promptOutput
+		},
+		scorers: [checkFactuality],
+		threshold: 1,
+		timeout: 60000, // 60 seconds
+	})
+	describeEval('Read Cloudflare KV Value', {
+		data: async () => [
+			{
+				input:
+					'What value is stored under the key "config" in my Cloudflare KV Namespace with ID 1234?',
+				expected: `The ${KV_NAMESPACE_TOOLS.kv_value_get} tool should be called to read the value of the key.`,
+			},
+		],
+		task: async (input: string) => {
+			const client = await initializeClient(/* Pass necessary mocks/config */)
+			const { promptOutput, toolCalls } = await runTask(client, model, input)
+			const toolCall = toolCalls.find((call) => call.toolName === KV_NAMESPACE_TOOLS.kv_value_get)
+			expect(toolCall, 'Tool kv_value_get was not called').toBeDefined()
+
+			return promptOutput
+		},
+		scorers: [checkFactuality],
+		threshold: 1,
+		timeout: 60000, // 60 seconds
+	})
+	describeEval('Write Cloudflare KV Value', {
+		data: async () => [
+			{
+				input:
+					'Store the value "enabled" under the key "feature-flag" in my Cloudflare KV Namespace with ID 1234, expiring in one hour.',
+				expected: `The ${KV_NAMESPACE_TOOLS.kv_value_put} tool should be called to write the value with an expiration_ttl of 3600 seconds.`,
+			},
+		],
+		task: async (input: string) => {
+			const client = await initializeClient(/* Pass necessary mocks/config */)
+			const { promptOutput, toolCalls } = await runTask(client, model, input)
+			const toolCall = toolCalls.find((call) => call.toolName === KV_NAMESPACE_TOOLS.kv_value_put)
+			expect(toolCall, 'Tool kv_value_put was not called').toBeDefined()
+
+			return promptOutput
+		},
+		scorers: [checkFactuality],
+		threshold: 1,
+		timeout: 60000, // 60 seconds
+	})
+	describeEval('Delete Cloudflare KV Keys in Bulk', {
+		data: async () => [
+			{
+				input: 'Delete the keys "a", "b" and "c" from my Cloudflare KV Namespace with ID 1234.',
+				expected: `The ${KV_NAMESPACE_TOOLS.kv_values_bulk_delete} tool should be called to delete all three keys in a single request.`,
+			},
+		],
+		task: async (input: string) => {
+			const client = await initializeClient(/* Pass necessary mocks/config */)
+			const { promptOutput, toolCalls } = await runTask(client, model, input)
+			const toolCall = toolCalls.find(
+				(call) => call.toolName === KV_NAMESPACE_TOOLS.kv_values_bulk_delete
+			)
+			expect(toolCall, 'Tool kv_values_bulk_delete was not called').toBeDefined()
+
+			return promptOutput
+		},
+		scorers: [checkFactuality],
+		threshold: 1,
+		timeout: 60000, // 60 seconds
+	})
 })
@@ -6,6 +6,7 @@ import {
 	createAuthHandlers,
 	handleTokenExchangeCallback,
 } from '@repo/mcp-common/src/cloudflare-oauth-handler'
+import { isD1ReadOnlyRequest, withD1ReadOnlyHeader } from '@repo/mcp-common/src/d1-read-only'
 import { getUserDetails, UserDetails } from '@repo/mcp-common/src/durable-objects/user_details.do'
 import { getEnv } from '@repo/mcp-common/src/env'
 import { registerPrompts } from '@repo/mcp-common/src/prompts/docs-vectorize.prompts'
@@ -20,7 +21,7 @@ import { registerR2BucketTools } from '@repo/mcp-common/src/tools/r2_bucket.tool
 import { registerWorkersTools } from '@repo/mcp-common/src/tools/worker.tools'
 import { MetricsTracker } from '@repo/mcp-observability'
 
-import type { AuthProps } from '@repo/mcp-common/src/cloudflare-oauth-handler'
+import type { CloudflareMCPAgentProps } from '@repo/mcp-common/src/types/cloudflare-mcp-agent.types'
 import type { Env } from './bindings.context'
 
 export { UserDetails }
@@ -32,11 +33,11 @@ const metrics = new MetricsTracker(env.MCP_METRICS, {
 	version: env.MCP_SERVER_VERSION,
 })
 
-export type WorkersBindingsMCPState = { activeAccountId: string | null }
+export type WorkersBindingsMCPState = { activeAccountId: string | null; d1ReadOnly?: boolean }
 
 // Context from the auth process, encrypted & stored in the auth token
 // and provided to the DurableMCP as this.props
-type Props = AuthProps
+type Props = CloudflareMCPAgentProps
 
 export class WorkersBindingsMCP extends McpAgent<Env, WorkersBindingsMCPState, Props> {
 	_server: CloudflareMCPServer | undefined
@@ -127,13 +128,15 @@ export default {
 	fetch: async (req: Request, env: Env, ctx: ExecutionContext) => {
 		if (await isApiTokenRequest(req, env)) {
 			console.log('is token mode')
+			// handleApiTokenMode adds the auth props to these
+			ctx.props = { d1ReadOnly: isD1ReadOnlyRequest(req) }
 			return await handleApiTokenMode(WorkersBindingsMCP, req, env, ctx)
 		}
 
 		return new OAuthProvider({
 			apiHandlers: {
-				'/mcp': WorkersBindingsMCP.serve('/mcp'),
-				'/sse': WorkersBindingsMCP.serveSSE('/sse'),
+				'/mcp': withD1ReadOnlyHeader(WorkersBindingsMCP.serve('/mcp')),
+				'/sse': withD1ReadOnlyHeader(WorkersBindingsMCP.serveSSE('/sse')),
 			},
 			// @ts-ignore
 			defaultHandler: createAuthHandlers({ scopes: BindingsScopes, metrics }),
@@ -1,17 +1,128 @@
 import { z } from 'zod'
 
-import { getBuild, getBuildLogs, listBuilds } from '@repo/mcp-common/src/api/workers-builds.api'
+import {
+	cancelBuild,
+	createBuild,
+	deleteBuildEnvironmentVariable,
+	getBuild,
+	getBuildLogs,
+	getBuildLogsSince,
+	listBuildEnvironmentVariables,
+	listBuilds,
+	listBuildTriggers,
+	updateBuildEnvironmentVariables,
+	updateBuildTrigger,
+} from '@repo/mcp-common/src/api/workers-builds.api'
 import { fmt } from '@repo/mcp-common/src/format'
+import { McpError } from '@repo/mcp-common/src/mcp-error'
+import { pollUntilReady } from '@repo/mcp-common/src/poll'
+import { registerTool } from '@repo/mcp-common/src/tool-registry'
 
+import {
+	diagnoseBuildLogs,
+	getCommitCompareUrl,
+	getConfigChanges,
+} from '../workers-builds.diagnose'
+import {
+	getBuildProgressMessage,
+	isBuildFinished,
+	summarizeBuildWait,
+} from '../workers-builds.wait'
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import type { BuildLogPosition } from '@repo/mcp-common/src/api/workers-builds.api'
+import type { CloudflareMcpAgent } from '@repo/mcp-common/src/types/cloudflare-mcp-agent.types'
+import type { BuildTrigger } from '@repo/mcp-common/src/types/workers-builds.types'
 import type { BuildsMCP } from '../workers-builds.app'
 
+// The parts of BuildsMCP the tools use, so that tests can register them on a stub agent
+type BuildsToolsAgent = CloudflareMcpAgent &
+	Pick<
+		BuildsMCP,
+		'getActiveWorkerId' | 'setActiveWorkerId' | 'getActiveBuildUUID' | 'setActiveBuildUUID'
+	>
+
+// Builds searched for the previous successful build of a failed build
+const PREVIOUS_BUILDS_PAGE_SIZE = 50
+
+const BUILD_POLL_INTERVAL_SECONDS = 5
+const DEFAULT_BUILD_WAIT_SECONDS = 300
+const MAX_BUILD_WAIT_SECONDS = 900
+// New log lines sent per progress notification, only the latest are sent when there are more
+const MAX_PROGRESS_LOG_LINES = 20
+
+const workerIdParam = z
+	.string()
+	.optional()
+	.describe('The Worker ID. Defaults to the active Worker, see workers_builds_set_active_worker.')
+const triggerUUIDParam = z
+	.string()
+	.optional()
+	.describe(
+		'The build trigger UUID. Only needed when the Worker has more than one trigger, see workers_builds_list_triggers.'
+	)
+
+function isBuildClientError(error: unknown): error is McpError {
+	return error instanceof McpError && error.code >= 400 && error.code < 500 && error.code !== 429
+}
+
+async function resolveWorkerId(agent: BuildsToolsAgent, workerId?: string): Promise<string> {
+	const resolved = workerId ?? (await agent.getActiveWorkerId())
+	if (!resolved) {
+		throw new McpError(
+			fmt.oneLine(`
+				No workerId provided and no active workerId.
+				Either provide a workerId or call workers_builds_set_active_worker first.
+			`),
+			400
+		)
+	}
+	return resolved
+}
+
+/**
+ * Gets the build trigger to act on: the given trigger, or the only trigger of the Worker
+ */
+async function resolveBuildTrigger(
+	agent: BuildsToolsAgent,
+	{
+		accountId,
+		apiToken,
+		workerId,
+		triggerUUID,
+	}: { accountId: string; apiToken: string; workerId?: string; triggerUUID?: string }
+): Promise<BuildTrigger> {
+	workerId = await resolveWorkerId(agent, workerId)
+	const { result: triggers } = await listBuildTriggers({ accountId, apiToken, workerId })
+	if (!triggers || triggers.length === 0) {
+		throw new McpError(
+			`Worker ${workerId} has no build triggers. Connect a repository to the Worker first.`,
+			404
+		)
+	}
+	if (triggerUUID) {
+		const trigger = triggers.find((t) => t.trigger_uuid === triggerUUID)
+		if (!trigger) {
+			throw new McpError(`Trigger ${triggerUUID} not found for Worker ${workerId}`, 404)
+		}
+		return trigger
+	}
+	if (triggers.length > 1) {
+		throw new McpError(
+			`Worker ${workerId} has ${triggers.length} build triggers, provide a triggerUUID: ${triggers.map((t) => `${t.trigger_uuid} (${t.trigger_name})`).join(', ')}`,
+			400
+		)
+	}
+	return triggers[0]
+}
+
 /**
  * Registers the Workers Builds tools with the MCP server
  * @param server The MCP server instance
  * @param accountId Cloudflare account ID
  * @param apiToken Cloudflare API token
  */
-export function registerBuildsTools(agent: BuildsMCP) {
+export function registerBuildsTools(agent: BuildsToolsAgent) {
 	agent.server.tool(
 		'workers_builds_set_active_worker',
 		fmt.trim(`
@@ -275,4 +386,561 @@ export function registerBuildsTools(agent: BuildsMCP) {
 			}
 		}
 	)
+
+	registerTool(agent, {
+		name: 'workers_builds_list_triggers',
+		description: fmt.trim(`
+			List the build triggers of a Worker. A trigger connects a Worker to a branch of a repository,
+			and holds the build configuration: the build and deploy commands, root directory, and the
+			branches and paths that start builds.
+		`),
+		params: {
+			workerId: workerIdParam,
+		},
+		title: 'List build triggers',
+		annotations: {
+			readOnlyHint: true,
+			destructiveHint: false,
+		},
+		handler: async ({ accountId, apiToken, workerId }) => {
+			const { result: triggers } = await listBuildTriggers({
+				accountId,
+				apiToken,
+				workerId: await resolveWorkerId(agent, workerId),
+			})
+			if (!triggers || triggers.length === 0) {
+				return { content: [{ type: 'text', text: 'No build triggers found' }] }
+			}
+			const text = await fmt.asTSV(
+				triggers.map((trigger) => ({
+					triggerUUID: trigger.trigger_uuid,
+					triggerName: trigger.trigger_name,
+					repo: trigger.repo_connection.repo_name,
+					buildCommand: trigger.build_command,
+					deployCommand: trigger.deploy_command,
+					rootDirectory: trigger.root_directory,
+					branchIncludes: trigger.branch_includes.join(','),
+					branchExcludes: trigger.branch_excludes.join(','),
+					pathIncludes: trigger.path_includes.join(','),
+					pathExcludes: trigger.path_excludes.join(','),
+					buildCachingEnabled: trigger.build_caching_enabled,
+				}))
+			)
+			return { content: [{ type: 'text', text }] }
+		},
+	})
+
+	registerTool(agent, {
+		name: 'workers_builds_update_trigger',
+		description: fmt.trim(`
+			Update the build configuration of a build trigger. Only the given fields are changed.
+			Branch and path lists replace the existing lists, and support wildcards such as "feature/*".
+		`),
+		params: {
+			workerId: workerIdParam,
+			triggerUUID: triggerUUIDParam,
+			triggerName: z.string().optional().describe('The name of the trigger.'),
+			buildCommand: z.string().optional().describe('The command that builds the Worker.'),
+			deployCommand: z.string().optional().describe('The command that deploys the Worker.'),
+			rootDirectory: z
+				.string()
+				.optional()
+				.describe('The directory of the repository to run the commands in.'),
+			branchIncludes: z
+				.array(z.string())
+				.optional()
+				.describe('Branches that start builds when pushed to.'),
+			branchExcludes: z.array(z.string()).optional().describe('Branches that never start builds.'),
+			pathIncludes: z
+				.array(z.string())
+				.optional()
+				.describe('Only changes to these paths start builds.'),
+			pathExcludes: z
+				.array(z.string())
+				.optional()
+				.describe('Changes only to these paths do not start builds.'),
+			buildCachingEnabled: z.boolean().optional().describe('Whether to cache builds.'),
+		},
+		title: 'Update build trigger',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({
+			accountId,
+			apiToken,
+			workerId,
+			triggerUUID,
+			triggerName,
+			buildCommand,
+			deployCommand,
+			rootDirectory,
+			branchIncludes,
+			branchExcludes,
+			pathIncludes,
+			pathExcludes,
+			buildCachingEnabled,
+		}) => {
+			const params = Object.fromEntries(
+				Object.entries({
+					trigger_name: triggerName,
+					build_command: buildCommand,
+					deploy_command: deployCommand,
+					root_directory: rootDirectory,
+					branch_includes: branchIncludes,
+					branch_excludes: branchExcludes,
+					path_includes: pathIncludes,
+					path_excludes: pathExcludes,
+					build_caching_enabled: buildCachingEnabled,
+				}).filter(([, value]) => value !== undefined)
+			)
+			if (Object.keys(params).length === 0) {
+				throw new McpError('No fields provided to update', 400)
+			}
+			const trigger = await resolveBuildTrigger(agent, {
+				accountId,
+				apiToken,
+				workerId,
+				triggerUUID,
+			})
+			await updateBuildTrigger({
+				accountId,
+				apiToken,
+				triggerUUID: trigger.trigger_uuid,
+				params,
+			})
+			return { triggerUUID: trigger.trigger_uuid, updated: Object.keys(params) }
+		},
+	})
+
+	registerTool(agent, {
+		name: 'workers_builds_trigger_build',
+		description: fmt.trim(`
+			Start a build of a Worker for a branch, or for a specific commit.
+			The build deploys the Worker when it succeeds, as configured by its trigger.
+			The new build becomes the active build.
+		`),
+		params: {
+			workerId: workerIdParam,
+			triggerUUID: triggerUUIDParam,
+			branch: z.string().optional().describe('The branch to build.'),
+			commitHash: z
+				.string()
+				.optional()
+				.describe('The commit to build. Defaults to the latest commit of the branch.'),
+		},
+		title: 'Trigger build',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ accountId, apiToken, workerId, triggerUUID, branch, commitHash }) => {
+			if (!branch && !commitHash) {
+				throw new McpError('Provide a branch or a commitHash to build', 400)
+			}
+			const trigger = await resolveBuildTrigger(agent, {
+				accountId,
+				apiToken,
+				workerId,
+				triggerUUID,
+			})
+			const { result } = await createBuild({
+				accountId,
+				apiToken,
+				triggerUUID: trigger.trigger_uuid,
+				branch,
+				commitHash,
+			})
+			if (!result) {
+				throw new McpError('Build was not created', 502)
+			}
+			await agent.setActiveBuildUUID(result.build_uuid)
+			return { buildUUID: result.build_uuid, triggerUUID: trigger.trigger_uuid, branch, commitHash }
+		},
+	})
+
+	registerTool(agent, {
+		name: 'workers_builds_cancel_build',
+		description: 'Cancel a queued or running build.',
+		params: {
+			buildUUID: z.string().describe('The build UUID to cancel.'),
+		},
+		title: 'Cancel build',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ accountId, apiToken, buildUUID }) => {
+			await cancelBuild({ accountId, apiToken, buildUUID })
+			return { buildUUID, cancelled: true }
+		},
+	})
+
+	registerTool(agent, {
+		name: 'workers_builds_retry_build',
+		description: fmt.trim(`
+			Retry a finished build, such as a failed or cancelled one. Starts a new build of the
+			same trigger, branch and commit, and makes it the active build.
+		`),
+		params: {
+			buildUUID: z.string().describe('The build UUID to retry.'),
+		},
+		title: 'Retry build',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ accountId, apiToken, buildUUID }) => {
+			const { result: build } = await getBuild({ accountId, apiToken, buildUUID })
+			if (!build) {
+				throw new McpError(`Build ${buildUUID} not found`, 404)
+			}
+			if (build.status !== 'stopped') {
+				throw new McpError(
+					`Build ${buildUUID} is still ${build.status}, wait for it to finish or cancel it first`,
+					400
+				)
+			}
+			const { result } = await createBuild({
+				accountId,
+				apiToken,
+				triggerUUID: build.trigger.trigger_uuid,
+				branch: build.build_trigger_metadata.branch,
+				commitHash: build.build_trigger_metadata.commit_hash,
+			})
+			if (!result) {
+				throw new McpError('Build was not created', 502)
+			}
+			await agent.setActiveBuildUUID(result.build_uuid)
+			return {
+				buildUUID: result.build_uuid,
+				retriedBuildUUID: buildUUID,
+				retriedBuildOutcome: build.build_outcome,
+				branch: build.build_trigger_metadata.branch,
+				commitHash: build.build_trigger_metadata.commit_hash,
+			}
+		},
+	})
+
+	registerTool(agent, {
+		name: 'workers_builds_list_env_vars',
+		description: fmt.trim(`
+			List the build environment variables of a build trigger.
+			These are only available during builds, not to the deployed Worker. Secret values are hidden.
+		`),
+		params: {
+			workerId: workerIdParam,
+			triggerUUID: triggerUUIDParam,
+		},
+		title: 'List build environment variables',
+		annotations: {
+			readOnlyHint: true,
+			destructiveHint: false,
+		},
+		handler: async ({ accountId, apiToken, workerId, triggerUUID }) => {
+			const trigger = await resolveBuildTrigger(agent, {
+				accountId,
+				apiToken,
+				workerId,
+				triggerUUID,
+			})
+			const { result: variables } = await listBuildEnvironmentVariables({
+				accountId,
+				apiToken,
+				triggerUUID: trigger.trigger_uuid,
+			})
+			if (!variables || Object.keys(variables).length === 0) {
+				return { content: [{ type: 'text', text: 'No build environment variables found' }] }
+			}
+			const text = await fmt.asTSV(
+				Object.entries(variables).map(([key, variable]) => ({
+					key,
+					value: variable.is_secret ? '(secret)' : variable.value,
+					isSecret: variable.is_secret,
+					createdOn: variable.created_on.toISOString(),
+				}))
+			)
+			return { content: [{ type: 'text', text }] }
+		},
+	})
+
+	registerTool(agent, {
+		name: 'workers_builds_set_env_vars',
+		description: fmt.trim(`
+			Create or update build environment variables of a build trigger.
+			Variables that are not given are left unchanged. Mark credentials as secrets.
+		`),
+		params: {
+			workerId: workerIdParam,
+			triggerUUID: triggerUUIDParam,
+			variables: z
+				.record(
+					z.string(),
+					z.object({
+						value: z.string(),
+						isSecret: z.boolean().optional().default(false),
+					})
+				)
+				.describe('The variables to set, by name, e.g. { "NODE_VERSION": { "value": "22" } }'),
+		},
+		title: 'Set build environment variables',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ accountId, apiToken, workerId, triggerUUID, variables }) => {
+			if (Object.keys(variables).length === 0) {
+				throw new McpError('No variables provided to set', 400)
+			}
+			const trigger = await resolveBuildTrigger(agent, {
+				accountId,
+				apiToken,
+				workerId,
+				triggerUUID,
+			})
+			await updateBuildEnvironmentVariables({
+				accountId,
+				apiToken,
+				triggerUUID: trigger.trigger_uuid,
+				variables: Object.fromEntries(
+					Object.entries(variables).map(([key, { value, isSecret }]) => [
+						key,
+						{ value, is_secret: isSecret },
+					])
+				),
+			})
+			return { triggerUUID: trigger.trigger_uuid, set: Object.keys(variables) }
+		},
+	})
+
+	registerTool(agent, {
+		name: 'workers_builds_delete_env_var',
+		description: 'Delete a build environment variable of a build trigger.',
+		params: {
+			workerId: workerIdParam,
+			triggerUUID: triggerUUIDParam,
+			key: z.string().describe('The name of the variable to delete.'),
+		},
+		title: 'Delete build environment variable',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ accountId, apiToken, workerId, triggerUUID, key }) => {
+			const trigger = await resolveBuildTrigger(agent, {
+				accountId,
+				apiToken,
+				workerId,
+				triggerUUID,
+			})
+			await deleteBuildEnvironmentVariable({
+				accountId,
+				apiToken,
+				triggerUUID: trigger.trigger_uuid,
+				key,
+			})
+			return { triggerUUID: trigger.trigger_uuid, deleted: key }
+		},
+	})
+
+	registerTool(agent, {
+		name: 'workers_builds_diagnose',
+		description: fmt.trim(`
+			Diagnose why a build failed. Classifies the failure from the build logs (dependency install,
+			TypeScript error, Wrangler configuration, bundle size limit, or authentication and secrets),
+			and returns the relevant log excerpts with line numbers. Also compares the commit and build
+			configuration with the previous successful build of the Worker.
+
+			Use workers_builds_get_build_logs if you need the full logs.
+		`),
+		params: {
+			buildUUID: z
+				.string()
+				.optional()
+				.describe('The build UUID to diagnose. Defaults to the active build.'),
+		},
+		title: 'Diagnose build',
+		annotations: {
+			readOnlyHint: true,
+			destructiveHint: false,
+		},
+		handler: async ({ accountId, apiToken, buildUUID }) => {
+			buildUUID = buildUUID ?? (await agent.getActiveBuildUUID()) ?? undefined
+			if (!buildUUID) {
+				throw new McpError('No buildUUID provided and no active build', 400)
+			}
+			const { result: build } = await getBuild({ accountId, apiToken, buildUUID })
+			if (!build) {
+				throw new McpError(`Build ${buildUUID} not found`, 404)
+			}
+			const { branch, commit_hash, commit_message } = build.build_trigger_metadata
+			const summary = `Build ${buildUUID} of ${branch}@${commit_hash} (${commit_message.split('\n')[0]}): status ${build.status}, outcome ${build.build_outcome ?? 'none'}`
+			if (build.build_outcome === 'success') {
+				return { content: [{ type: 'text', text: `${summary}. Nothing to diagnose.` }] }
+			}
+
+			const logs = await getBuildLogs({ accountId, apiToken, buildUUID })
+			const diagnoses = diagnoseBuildLogs(logs)
+			const content: CallToolResult['content'] = [{ type: 'text', text: summary }]
+			if (diagnoses.length === 0) {
+				content.push({
+					type: 'text',
+					text: `No errors found in the ${logs.length} log lines.`,
+				})
+			}
+			for (const diagnosis of diagnoses) {
+				content.push({
+					type: 'text',
+					text: `${diagnosis.category}: ${diagnosis.description}, on lines ${diagnosis.lineNumbers.join(', ')}\n${diagnosis.excerpt}`,
+				})
+			}
+
+			const { result: builds } = await listBuilds({
+				accountId,
+				apiToken,
+				workerId: build.trigger.external_script_id,
+				perPage: PREVIOUS_BUILDS_PAGE_SIZE,
+			})
+			const previous = (builds ?? [])
+				.filter(
+					(b) =>
+						b.build_outcome === 'success' && b.created_on.getTime() < build.created_on.getTime()
+				)
+				.sort((a, b) => b.created_on.getTime() - a.created_on.getTime())[0]
+			if (!previous) {
+				content.push({
+					type: 'text',
+					text: `No previous successful build in the last ${PREVIOUS_BUILDS_PAGE_SIZE} builds of the Worker.`,
+				})
+				return { content }
+			}
+			const changes = getConfigChanges(previous, build)
+			const compareUrl = getCommitCompareUrl(previous, build)
+			content.push({
+				type: 'text',
+				text: [
+					`Previous successful build: ${previous.build_uuid} of ${previous.build_trigger_metadata.branch}@${previous.build_trigger_metadata.commit_hash} on ${previous.created_on.toISOString()}`,
+					...(compareUrl ? [`Commit diff: ${compareUrl}`] : []),
+					changes.length > 0
+						? `Changes since:\n${await fmt.asTSV(changes)}`
+						: 'The commit and build configuration are unchanged.',
+				].join('\n'),
+			})
+			return { content }
+		},
+	})
+
+	registerTool(agent, {
+		name: 'workers_builds_wait',
+		description: fmt.trim(`
+			Wait for a build to finish, instead of repeatedly calling workers_builds_get_build.
+			Sends progress notifications with the build stage and new log lines while waiting, and
+			returns the outcome and duration of the build. If the build is still running when the
+			timeout is reached, returns its stage and the tool can be called again.
+		`),
+		params: {
+			buildUUID: z
+				.string()
+				.optional()
+				.describe('The build UUID to wait for. Defaults to the active build.'),
+			timeoutSeconds: z
+				.number()
+				.int()
+				.min(BUILD_POLL_INTERVAL_SECONDS)
+				.max(MAX_BUILD_WAIT_SECONDS)
+				.optional()
+				.default(DEFAULT_BUILD_WAIT_SECONDS)
+				.describe('How long to wait for the build to finish, in seconds.'),
+		},
+		title: 'Wait for build',
+		annotations: {
+			readOnlyHint: true,
+			destructiveHint: false,
+		},
+		handler: async ({ accountId, apiToken, buildUUID, timeoutSeconds }, extra) => {
+			buildUUID = buildUUID ?? (await agent.getActiveBuildUUID()) ?? undefined
+			if (!buildUUID) {
+				throw new McpError('No buildUUID provided and no active build', 400)
+			}
+			const { result: initialBuild } = await getBuild({ accountId, apiToken, buildUUID })
+			if (!initialBuild) {
+				throw new McpError(`Build ${buildUUID} not found`, 404)
+			}
+
+			const progressToken = extra?._meta?.progressToken
+			const startedWaiting = Date.now()
+			const deadline = startedWaiting + timeoutSeconds * 1000
+			let build = initialBuild
+			let logPosition: BuildLogPosition = { offset: 0 }
+
+			const sendProgress = async () => {
+				if (!extra || progressToken === undefined) {
+					return
+				}
+				const logs = await getBuildLogsSince({
+					accountId,
+					apiToken,
+					buildUUID: build.build_uuid,
+					position: logPosition,
+				})
+				logPosition = logs.position
+				const newLines = logs.lines.slice(-MAX_PROGRESS_LOG_LINES)
+				await extra.sendNotification({
+					method: 'notifications/progress',
+					params: {
+						progressToken,
+						progress: Math.min(timeoutSeconds, Math.round((Date.now() - startedWaiting) / 1000)),
+						total: timeoutSeconds,
+						message: getBuildProgressMessage(build, newLines),
+					},
+				})
+			}
+
+			if (!isBuildFinished(build)) {
+				try {
+					build = await pollUntilReady({
+						taskFn: async () => {
+							const { result } = await getBuild({
+								accountId,
+								apiToken,
+								buildUUID: build.build_uuid,
+							})
+							build = result ?? build
+							if (!isBuildFinished(build)) {
+								await sendProgress()
+							}
+							return build
+						},
+						// Polling only counts the time between polls, so the time spent fetching the build
+						// and its logs is bounded by the deadline
+						checkFn: (result) => isBuildFinished(result) || Date.now() >= deadline,
+						intervalSeconds: BUILD_POLL_INTERVAL_SECONDS,
+						maxWaitSeconds: timeoutSeconds,
+						onError: (error) => {
+							// Client errors such as a revoked token or a deleted build won't go away by
+							// polling again, while server errors and rate limits are retried
+							if (isBuildClientError(error)) {
+								throw error
+							}
+							agent.server.recordError(error)
+						},
+					})
+				} catch (error) {
+					if (isBuildClientError(error)) {
+						throw error
+					}
+					// Timed out, the summary reports the stage the build is still in
+				}
+			}
+
+			return {
+				content: [
+					{
+						type: 'text',
+						text: summarizeBuildWait(build, Math.round((Date.now() - startedWaiting) / 1000)),
+					},
+				],
+			}
+		},
+	})
 }
@@ -80,6 +80,12 @@ export class BuildsMCP extends McpAgent<Env, State, Props> {
 					Once you have an active account, you can list your Workers (workers_list) and set an active Worker (workers_builds_set_active_worker).
 					You can then list the builds for your Worker (workers_builds_list_builds) and set an active build (workers_builds_set_active_build).
 					Once you have an active build, you can view the logs (workers_builds_get_build_logs).
+					To wait for a build to finish, use workers_builds_wait rather than repeatedly getting the build.
+					If a build failed, diagnose it (workers_builds_diagnose) to find the cause in its logs and what changed since the previous successful build.
+
+					You can also start a build for a branch or commit (workers_builds_trigger_build), cancel a running build (workers_builds_cancel_build) and retry a finished one (workers_builds_retry_build).
+					Builds are configured by the build triggers of a Worker (workers_builds_list_triggers, workers_builds_update_trigger), which also hold build environment variables (workers_builds_list_env_vars, workers_builds_set_env_vars, workers_builds_delete_env_var).
+					These tools change builds and their configuration, so confirm the changes with the user before calling them.
 				`),
 			},
 		})
@@ -170,6 +176,8 @@ const BuildsScopes = {
 		'See and change Cloudflare Workers data such as zones, KV storage, namespaces, scripts, and routes.',
 	'workers_builds:read':
 		'See and change Cloudflare Workers Builds data such as builds, build configuration, and logs.',
+	'workers_builds:write':
+		'Start, cancel and retry Cloudflare Workers Builds, and change build triggers and build environment variables.',
 } as const
 
 export default {
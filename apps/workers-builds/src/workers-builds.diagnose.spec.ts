@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+	diagnoseBuildLogs,
+	getCommitCompareUrl,
+	getConfigChanges,
+	getLogExcerpt,
+} from './workers-builds.diagnose'
+
+import type { BuildDetails, LogLine } from '@repo/mcp-common/src/types/workers-builds.types'
+
+const logLines = (...messages: string[]): LogLine[] =>
+	messages.map((message, i) => [new Date(Date.UTC(2025, 0, 1, 0, 0, i)), message])
+
+const build = (metadata: Partial<BuildDetails['build_trigger_metadata']>) =>
+	({
+		build_trigger_metadata: {
+			branch: 'main',
+			commit_hash: 'aaa111',
+			build_command: 'npm run build',
+			deploy_command: 'npx wrangler deploy',
+			root_directory: '/',
+			environment_variables: {},
+			repo_name: 'site',
+			provider_account_name: 'acme',
+			provider_type: 'github',
+			...metadata,
+		},
+	}) as BuildDetails
+
+describe('diagnoseBuildLogs', () => {
+	it('classifies failures in the order they appear', () => {
+		const lines = logLines(
+			'Initializing build environment...',
+			'Executing user build command: npm run build',
+			'src/index.ts(3,7): error TS2322: Type number is not assignable to type string.',
+			'Failed: error occurred while running build command',
+			'Executing user deploy command: npx wrangler deploy',
+			'✘ [ERROR] Authentication error [code: 10000]'
+		)
+
+		const diagnoses = diagnoseBuildLogs(lines)
+
+		expect(diagnoses.map(({ category, lineNumbers }) => ({ category, lineNumbers }))).toEqual([
+			{ category: 'typescript', lineNumbers: [3] },
+			{ category: 'auth', lineNumbers: [6] },
+		])
+		expect(diagnoses[0].excerpt).toBe(
+			[
+				'  1 | Initializing build environment...',
+				'  2 | Executing user build command: npm run build',
+				'> 3 | src/index.ts(3,7): error TS2322: Type number is not assignable to type string.',
+				'  4 | Failed: error occurred while running build command',
+				'  5 | Executing user deploy command: npx wrangler deploy',
+				'  6 | ✘ [ERROR] Authentication error [code: 10000]',
+			].join('\n')
+		)
+	})
+
+	it('only classifies lines about the API token as auth failures when they report an error', () => {
+		const lines = logLines(
+			'Using CLOUDFLARE_API_TOKEN from the build environment',
+			'Exporting CLOUDFLARE_API_TOKEN and CLOUDFLARE_ACCOUNT_ID',
+			"In a non-interactive environment, it's necessary to set a CLOUDFLARE_API_TOKEN environment variable for wrangler to work.",
+			'CLOUDFLARE_API_TOKEN is missing'
+		)
+
+		expect(diagnoseBuildLogs(lines)).toEqual([
+			expect.objectContaining({ category: 'auth', lineNumbers: [3, 4] }),
+		])
+	})
+
+	it('excerpts generic errors when no failure pattern matches', () => {
+		const lines = logLines('Cloning repository...', 'Build failed: something unexpected')
+
+		expect(diagnoseBuildLogs(lines)).toEqual([
+			expect.objectContaining({ category: 'unknown', lineNumbers: [2] }),
+		])
+		expect(diagnoseBuildLogs(logLines('Success: Build command completed'))).toEqual([])
+	})
+})
+
+describe('getLogExcerpt', () => {
+	it('merges overlapping context and separates distant excerpts', () => {
+		const lines = logLines(...Array.from({ length: 20 }, (_, i) => `line ${i + 1}`))
+
+		const excerpt = getLogExcerpt(lines, [3, 5, 18])
+
+		expect(excerpt.split('\n').map((line) => line.slice(0, 4))).toEqual([
+			'   1',
+			'   2',
+			'>  3',
+			'   4',
+			'>  5',
+			'   6',
+			'   7',
+			'   8',
+			'   9',
+			'...',
+			'  16',
+			'  17',
+			'> 18',
+			'  19',
+			'  20',
+		])
+	})
+})
+
+describe('getConfigChanges', () => {
+	it('lists the changed commit, commands and variables, hiding secrets', () => {
+		const created = new Date('2025-01-01T00:00:00Z')
+		const previous = build({
+			environment_variables: {
+				NODE_VERSION: { is_secret: false, value: '20', created_on: created },
+				NPM_TOKEN: { is_secret: true, value: null, created_on: created },
+			},
+		})
+		const current = build({
+			commit_hash: 'bbb222',
+			build_command: 'npm run build:prod',
+			environment_variables: {
+				NODE_VERSION: { is_secret: false, value: '22', created_on: created },
+				NPM_TOKEN: { is_secret: true, value: null, created_on: created },
+			},
+		})
+
+		expect(getConfigChanges(previous, current)).toEqual([
+			{ field: 'commit_hash', previous: 'aaa111', current: 'bbb222' },
+			{ field: 'build_command', previous: 'npm run build', current: 'npm run build:prod' },
+			{ field: 'environment_variables.NODE_VERSION', previous: '20', current: '22' },
+		])
+		expect(getCommitCompareUrl(previous, current)).toBe(
+			'https://github.com/acme/site/compare/aaa111...bbb222'
+		)
+		expect(getCommitCompareUrl(previous, previous)).toBeNull()
+	})
+})
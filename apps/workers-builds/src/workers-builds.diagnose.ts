@@ -0,0 +1,226 @@
+import type { BuildDetails, LogLine } from '@repo/mcp-common/src/types/workers-builds.types'
+
+// Lines of context shown before and after a matching log line
+const EXCERPT_CONTEXT_BEFORE = 2
+const EXCERPT_CONTEXT_AFTER = 4
+// Matching lines shown per failure category, the total number of matches is still reported
+const MAX_EXCERPT_MATCHES = 3
+
+export type FailureCategory =
+	| 'dependency-install'
+	| 'typescript'
+	| 'wrangler-config'
+	| 'bundle-size'
+	| 'auth'
+	| 'unknown'
+
+interface FailurePattern {
+	category: Exclude<FailureCategory, 'unknown'>
+	description: string
+	patterns: RegExp[]
+}
+
+export const FAILURE_PATTERNS: FailurePattern[] = [
+	{
+		category: 'dependency-install',
+		description: 'Installing dependencies failed',
+		patterns: [
+			/npm ERR!/,
+			/npm error/,
+			/ERR_PNPM_/,
+			/\bERESOLVE\b/,
+			/\bYN0\d{3}\b.*(error|failed)/i,
+			/lockfile.*(out of date|needs to be updated|would have been modified)/i,
+			/frozen[- ]lockfile/i,
+			/error: could not (resolve|install)/i,
+			/No matching version found for/,
+		],
+	},
+	{
+		category: 'typescript',
+		description: 'TypeScript compilation failed',
+		patterns: [/\berror TS\d+:/, /\.tsx?\(\d+,\d+\): error/, /\.tsx?:\d+:\d+ - error/],
+	},
+	{
+		category: 'wrangler-config',
+		description: 'The Wrangler configuration is invalid or does not match the Worker',
+		patterns: [
+			/Missing entry-point/i,
+			/wrangler\.(toml|jsonc?).*\b(error|invalid|could not|missing|unexpected|must match)/i,
+			/\b(error|invalid|could not find|missing)\b.*wrangler\.(toml|jsonc?)/i,
+			/Unexpected fields found in .* field/,
+			/name .* does not match the name of your Worker/i,
+		],
+	},
+	{
+		category: 'bundle-size',
+		description: 'The Worker exceeds a size limit',
+		patterns: [
+			/exceed(s|ed)? the size limit/i,
+			/size limit of \d/i,
+			/\[code: 10027\]/,
+			/Script startup exceeded/i,
+			/Worker (is )?too large/i,
+		],
+	},
+	{
+		category: 'auth',
+		description: 'Authentication failed, or a secret or API token is missing',
+		patterns: [
+			/Authentication error/i,
+			/\[code: (10000|9106|9109)\]/,
+			/\b(401|403)\b.*(Unauthorized|Forbidden)/i,
+			/invalid (api )?token/i,
+			// Builds mention the token when they set it up, so only match errors about it
+			/necessary to set a CLOUDFLARE_API_TOKEN/i,
+			/CLOUDFLARE_API_TOKEN\b.*\b(is )?(not set|missing|required|invalid|expired)\b/i,
+			/(secret|environment variable) .*(is )?(not set|not found|missing|undefined)/i,
+		],
+	},
+]
+
+// Generic errors, used to excerpt failed builds that don't match a category
+const GENERIC_ERROR = /\b(error|failed|exception)\b|✘/i
+
+export interface FailureDiagnosis {
+	category: FailureCategory
+	description: string
+	// Line numbers of the matching log lines, starting at 1
+	lineNumbers: number[]
+	excerpt: string
+}
+
+/**
+ * Formats log lines around the given line numbers, merging overlapping ranges.
+ * Lines are prefixed with their line number, and matching lines are marked with `>`.
+ */
+export function getLogExcerpt(lines: LogLine[], lineNumbers: number[]): string {
+	const ranges: Array<[number, number]> = []
+	for (const lineNumber of lineNumbers) {
+		const start = Math.max(1, lineNumber - EXCERPT_CONTEXT_BEFORE)
+		const end = Math.min(lines.length, lineNumber + EXCERPT_CONTEXT_AFTER)
+		const last = ranges[ranges.length - 1]
+		if (last && start <= last[1] + 1) {
+			last[1] = Math.max(last[1], end)
+		} else {
+			ranges.push([start, end])
+		}
+	}
+
+	const width = String(lines.length).length
+	return ranges
+		.map(([start, end]) =>
+			lines
+				.slice(start - 1, end)
+				.map((line, i) => {
+					const lineNumber = start + i
+					const marker = lineNumbers.includes(lineNumber) ? '>' : ' '
+					return `${marker} ${String(lineNumber).padStart(width)} | ${line[1]}`
+				})
+				.join('\n')
+		)
+		.join('\n...\n')
+}
+
+/**
+ * Classifies the failures of a build by matching its log lines against known patterns.
+ * Diagnoses are ordered by their first matching line, as the first failure is usually the cause
+ * of the others. When no pattern matches, the lines with generic errors are excerpted instead.
+ */
+export function diagnoseBuildLogs(lines: LogLine[]): FailureDiagnosis[] {
+	const diagnoses: Array<Omit<FailureDiagnosis, 'excerpt'>> = FAILURE_PATTERNS.flatMap(
+		({ category, description, patterns }) => {
+			const lineNumbers = lines.flatMap(([, message], i) =>
+				patterns.some((pattern) => pattern.test(message)) ? [i + 1] : []
+			)
+			return lineNumbers.length > 0 ? [{ category, description, lineNumbers }] : []
+		}
+	).sort((a, b) => a.lineNumbers[0] - b.lineNumbers[0])
+
+	if (diagnoses.length === 0) {
+		const lineNumbers = lines.flatMap(([, message], i) =>
+			GENERIC_ERROR.test(message) ? [i + 1] : []
+		)
+		if (lineNumbers.length > 0) {
+			diagnoses.push({
+				category: 'unknown',
+				description: 'The build failed for a reason that could not be classified',
+				lineNumbers,
+			})
+		}
+	}
+
+	return diagnoses.map((diagnosis) => ({
+		...diagnosis,
+		excerpt: getLogExcerpt(lines, diagnosis.lineNumbers.slice(0, MAX_EXCERPT_MATCHES)),
+	}))
+}
+
+export interface ConfigChange {
+	field: string
+	previous: string
+	current: string
+}
+
+/**
+ * Lists the commit and build configuration that changed between two builds. Build environment
+ * variables are compared by name and creation time, as secret values are not returned.
+ */
+export function getConfigChanges(previous: BuildDetails, current: BuildDetails): ConfigChange[] {
+	const fields = [
+		'branch',
+		'commit_hash',
+		'build_command',
+		'deploy_command',
+		'root_directory',
+	] as const
+	const changes: ConfigChange[] = fields
+		.filter(
+			(field) => previous.build_trigger_metadata[field] !== current.build_trigger_metadata[field]
+		)
+		.map((field) => ({
+			field,
+			previous: previous.build_trigger_metadata[field],
+			current: current.build_trigger_metadata[field],
+		}))
+
+	const previousVariables = previous.build_trigger_metadata.environment_variables
+	const currentVariables = current.build_trigger_metadata.environment_variables
+	const names = [...new Set([...Object.keys(previousVariables), ...Object.keys(currentVariables)])]
+	for (const name of names.sort()) {
+		const before = previousVariables[name]
+		const after = currentVariables[name]
+		if (
+			before?.created_on.getTime() === after?.created_on.getTime() &&
+			before?.value === after?.value
+		) {
+			continue
+		}
+		changes.push({
+			field: `environment_variables.${name}`,
+			previous: before ? (before.is_secret ? '(secret)' : (before.value ?? '')) : '(unset)',
+			current: after ? (after.is_secret ? '(secret)' : (after.value ?? '')) : '(unset)',
+		})
+	}
+	return changes
+}
+
+/**
+ * Gets the URL of the diff between the commits of two builds on GitHub or GitLab
+ */
+export function getCommitCompareUrl(previous: BuildDetails, current: BuildDetails): string | null {
+	const { provider_type, provider_account_name, repo_name } = current.build_trigger_metadata
+	const base = previous.build_trigger_metadata.commit_hash
+	const head = current.build_trigger_metadata.commit_hash
+	if (!base || !head || base === head) {
+		return null
+	}
+	switch (provider_type) {
+		case 'github':
+			return `https://github.com/${provider_account_name}/${repo_name}/compare/${base}...${head}`
+		case 'gitlab':
+			return `https://gitlab.com/${provider_account_name}/${repo_name}/-/compare/${base}...${head}`
+		default:
+			return null
+	}
+}
@@ -0,0 +1,346 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+	createBuild,
+	getBuild,
+	getBuildLogsSince,
+	listBuildEnvironmentVariables,
+	listBuildTriggers,
+} from '@repo/mcp-common/src/api/workers-builds.api'
+import { McpError } from '@repo/mcp-common/src/mcp-error'
+import { createMockAgent } from '@repo/mcp-common/tests/utils/mock-agent'
+
+import { registerBuildsTools } from './tools/workers-builds.tools'
+
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js'
+import type { BuildDetails, BuildTrigger } from '@repo/mcp-common/src/types/workers-builds.types'
+import type { BuildsMCP } from './workers-builds.app'
+
+vi.mock('@repo/mcp-common/src/api/workers-builds.api', () => ({
+	listBuilds: vi.fn(),
+	getBuild: vi.fn(),
+	getBuildLogs: vi.fn(),
+	getBuildLogsSince: vi.fn(),
+	createBuild: vi.fn(),
+	cancelBuild: vi.fn(),
+	listBuildTriggers: vi.fn(),
+	updateBuildTrigger: vi.fn(),
+	listBuildEnvironmentVariables: vi.fn(),
+	updateBuildEnvironmentVariables: vi.fn(),
+	deleteBuildEnvironmentVariable: vi.fn(),
+}))
+
+const trigger = (triggerUUID: string): BuildTrigger => ({
+	trigger_uuid: triggerUUID,
+	external_script_id: 'mock-worker-id',
+	trigger_name: `Deploy ${triggerUUID}`,
+	build_command: 'npm run build',
+	deploy_command: 'npx wrangler deploy',
+	root_directory: '/',
+	branch_includes: ['main'],
+	branch_excludes: [],
+	path_includes: ['*'],
+	path_excludes: [],
+	build_caching_enabled: true,
+	created_on: new Date(0),
+	modified_on: new Date(0),
+	deleted_on: null,
+	repo_connection: {
+		repo_connection_uuid: 'r1',
+		repo_id: '1',
+		repo_name: 'my-worker',
+		provider_type: 'github',
+		provider_account_id: '2',
+		provider_account_name: 'octocat',
+		created_on: new Date(0),
+		modified_on: new Date(0),
+		deleted_on: null,
+	},
+})
+
+const buildDetails = (overrides: Partial<BuildDetails>): BuildDetails => ({
+	build_uuid: 'b1',
+	status: 'queued',
+	build_outcome: null,
+	created_on: new Date('2025-01-01T00:00:00Z'),
+	modified_on: new Date('2025-01-01T00:00:00Z'),
+	initializing_on: null,
+	running_on: null,
+	stopped_on: null,
+	trigger: trigger('t1'),
+	build_trigger_metadata: {
+		build_trigger_source: 'push_event',
+		branch: 'main',
+		commit_hash: 'abc123',
+		commit_message: 'Fix the build',
+		author: 'octocat',
+		build_command: 'npm run build',
+		deploy_command: 'npx wrangler deploy',
+		root_directory: '/',
+		build_token_uuid: 'bt1',
+		environment_variables: {},
+		repo_name: 'my-worker',
+		provider_account_name: 'octocat',
+		provider_type: 'github',
+	},
+	pull_request: null,
+	...overrides,
+})
+
+type BuildsAgentMethods = Pick<
+	BuildsMCP,
+	'getActiveWorkerId' | 'setActiveWorkerId' | 'getActiveBuildUUID' | 'setActiveBuildUUID'
+>
+
+// Wraps a result in a successful response of the v4 API
+const v4 = <T>(result: T) => ({ result, success: true, errors: [], messages: [] })
+
+const textOf = (result: { content: unknown[] }) => (result.content[0] as { text: string }).text
+
+describe('Workers Builds tools', () => {
+	let mock: ReturnType<typeof createMockAgent>
+	let agent: ReturnType<typeof createMockAgent>['agent'] & BuildsAgentMethods
+
+	beforeEach(() => {
+		vi.resetAllMocks()
+		mock = createMockAgent()
+		const builds: BuildsAgentMethods = {
+			getActiveWorkerId: vi.fn(async () => 'mock-worker-id'),
+			setActiveWorkerId: vi.fn(async () => {}),
+			getActiveBuildUUID: vi.fn(async () => 'b1'),
+			setActiveBuildUUID: vi.fn(async () => {}),
+		}
+		agent = Object.assign(mock.agent, builds)
+		registerBuildsTools(agent)
+	})
+
+	it('annotates every tool that changes builds or their configuration as destructive', () => {
+		// registerTool passes the hints nested in the annotations, along with the title
+		const hints = [...mock.tools].map(([name, tool]) => ({
+			name,
+			...(tool.annotations as { annotations?: ToolAnnotations } | undefined)?.annotations,
+		}))
+		const readOnly = hints.filter((hint) => hint.readOnlyHint).map((hint) => hint.name)
+		const destructive = hints.filter((hint) => hint.destructiveHint).map((hint) => hint.name)
+
+		expect(readOnly).toEqual([
+			'workers_builds_list_triggers',
+			'workers_builds_list_env_vars',
+			'workers_builds_diagnose',
+			'workers_builds_wait',
+		])
+		expect(destructive).toEqual([
+			'workers_builds_update_trigger',
+			'workers_builds_trigger_build',
+			'workers_builds_cancel_build',
+			'workers_builds_retry_build',
+			'workers_builds_set_env_vars',
+			'workers_builds_delete_env_var',
+		])
+	})
+
+	describe('workers_builds_trigger_build', () => {
+		it('builds the only trigger of the active worker and makes the build active', async () => {
+			vi.mocked(listBuildTriggers).mockResolvedValue(v4([trigger('t1')]))
+			vi.mocked(createBuild).mockResolvedValue(v4({ build_uuid: 'b2' }))
+
+			const result = await mock.callTool('workers_builds_trigger_build', { branch: 'main' })
+
+			expect(listBuildTriggers).toHaveBeenCalledWith(
+				expect.objectContaining({ workerId: 'mock-worker-id' })
+			)
+			expect(createBuild).toHaveBeenCalledWith(
+				expect.objectContaining({ triggerUUID: 't1', branch: 'main', commitHash: undefined })
+			)
+			expect(agent.setActiveBuildUUID).toHaveBeenCalledWith('b2')
+			expect(JSON.parse(textOf(result))).toMatchObject({ buildUUID: 'b2', branch: 'main' })
+		})
+
+		it('requires a trigger when the worker has several', async () => {
+			vi.mocked(listBuildTriggers).mockResolvedValue(v4([trigger('t1'), trigger('t2')]))
+
+			await expect(
+				mock.callTool('workers_builds_trigger_build', { commitHash: 'abc123' })
+			).rejects.toThrow('provide a triggerUUID: t1 (Deploy t1), t2 (Deploy t2)')
+			expect(createBuild).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('workers_builds_retry_build', () => {
+		const build = (status: string) =>
+			buildDetails({ status, build_outcome: status === 'stopped' ? 'fail' : null })
+
+		it('rebuilds the trigger, branch and commit of a finished build', async () => {
+			vi.mocked(getBuild).mockResolvedValue(v4(build('stopped')))
+			vi.mocked(createBuild).mockResolvedValue(v4({ build_uuid: 'b2' }))
+
+			const result = await mock.callTool('workers_builds_retry_build', { buildUUID: 'b1' })
+
+			expect(createBuild).toHaveBeenCalledWith(
+				expect.objectContaining({ triggerUUID: 't1', branch: 'main', commitHash: 'abc123' })
+			)
+			expect(JSON.parse(textOf(result))).toMatchObject({
+				buildUUID: 'b2',
+				retriedBuildUUID: 'b1',
+				retriedBuildOutcome: 'fail',
+			})
+		})
+
+		it('refuses to retry a running build', async () => {
+			vi.mocked(getBuild).mockResolvedValue(v4(build('running')))
+
+			await expect(
+				mock.callTool('workers_builds_retry_build', { buildUUID: 'b1' })
+			).rejects.toThrow('Build b1 is still running')
+			expect(createBuild).not.toHaveBeenCalled()
+		})
+	})
+
+	it('hides the values of secret build environment variables', async () => {
+		vi.mocked(listBuildTriggers).mockResolvedValue(v4([trigger('t1')]))
+		vi.mocked(listBuildEnvironmentVariables).mockResolvedValue(
+			v4({
+				NODE_VERSION: { is_secret: false, value: '22', created_on: new Date(0) },
+				NPM_TOKEN: { is_secret: true, value: null, created_on: new Date(0) },
+			})
+		)
+
+		const result = await mock.callTool('workers_builds_list_env_vars')
+
+		expect(textOf(result)).toContain('NODE_VERSION\t22\tfalse')
+		expect(textOf(result)).toContain('NPM_TOKEN\t(secret)\ttrue')
+	})
+
+	describe('workers_builds_wait', () => {
+		const build = (status: string, outcome: string | null = null) =>
+			buildDetails({
+				status,
+				build_outcome: outcome,
+				initializing_on: new Date('2025-01-01T00:00:00Z'),
+				stopped_on: outcome ? new Date('2025-01-01T00:01:30Z') : null,
+			})
+
+		afterEach(() => {
+			vi.useRealTimers()
+		})
+
+		it('sends the stage and new log lines until the build stops', async () => {
+			vi.useFakeTimers()
+			vi.mocked(getBuild)
+				.mockResolvedValueOnce(v4(build('initializing')))
+				.mockResolvedValueOnce(v4(build('running')))
+				.mockResolvedValueOnce(v4(build('running')))
+				.mockResolvedValueOnce(v4(build('stopped', 'fail')))
+			vi.mocked(getBuildLogsSince)
+				.mockResolvedValueOnce({
+					lines: [[new Date(), 'Cloning repository...']],
+					position: { cursor: 'c1', offset: 1 },
+				})
+				.mockResolvedValueOnce({
+					lines: [[new Date(), 'Installing dependencies']],
+					position: { cursor: 'c1', offset: 2 },
+				})
+			const sendNotification = vi.fn()
+
+			const wait = mock.tools
+				.get('workers_builds_wait')!
+				.callback(
+					{ timeoutSeconds: 60 },
+					{ _meta: { progressToken: 'p1' }, sendNotification, signal: new AbortController().signal }
+				)
+			await vi.advanceTimersByTimeAsync(10_000)
+			const result = await wait
+
+			expect(sendNotification.mock.calls.map(([notification]) => notification.params)).toEqual([
+				expect.objectContaining({ progressToken: 'p1', total: 60 }),
+				expect.objectContaining({ progressToken: 'p1', total: 60 }),
+			])
+			expect(sendNotification.mock.calls[1][0].params.message).toMatch(
+				/^running \(\d+s\)\nInstalling dependencies$/
+			)
+			expect(vi.mocked(getBuildLogsSince).mock.calls.map(([params]) => params.position)).toEqual([
+				{ offset: 0 },
+				{ cursor: 'c1', offset: 1 },
+			])
+			expect(textOf(result)).toBe(
+				[
+					'Build b1 of main@abc123 finished with outcome fail after 90s',
+					'Use workers_builds_diagnose to find out why.',
+				].join('\n')
+			)
+		})
+
+		it('reports the stage of the build when the wait times out', async () => {
+			vi.useFakeTimers()
+			vi.setSystemTime(new Date('2025-01-01T00:00:20Z'))
+			vi.mocked(getBuild).mockResolvedValue(v4(build('running')))
+
+			const wait = mock.callTool('workers_builds_wait', { timeoutSeconds: 10 })
+			await vi.advanceTimersByTimeAsync(10_000)
+			const result = await wait
+
+			expect(getBuild).toHaveBeenCalledTimes(3)
+			expect(getBuildLogsSince).not.toHaveBeenCalled()
+			expect(textOf(result)).toMatch(/^Build b1 of main@abc123 is still running after 30s/)
+		})
+
+		it('stops waiting when the build can no longer be fetched', async () => {
+			vi.useFakeTimers()
+			vi.mocked(getBuild)
+				.mockResolvedValueOnce(v4(build('running')))
+				.mockRejectedValueOnce(
+					new McpError('Cloudflare API request failed: Authentication error', 401)
+				)
+
+			const wait = mock.callTool('workers_builds_wait', { timeoutSeconds: 60 })
+			const rejected = expect(wait).rejects.toThrow('Authentication error')
+			await vi.advanceTimersByTimeAsync(5_000)
+			await rejected
+
+			expect(getBuild).toHaveBeenCalledTimes(2)
+			expect(mock.agent.server.recordError).not.toHaveBeenCalled()
+		})
+
+		it('keeps waiting through server errors and rate limits', async () => {
+			vi.useFakeTimers()
+			vi.mocked(getBuild)
+				.mockResolvedValueOnce(v4(build('running')))
+				.mockRejectedValueOnce(new McpError('Cloudflare API request failed', 502))
+				.mockRejectedValueOnce(new McpError('Cloudflare API request failed', 429))
+				.mockResolvedValueOnce(v4(build('stopped', 'success')))
+			vi.mocked(getBuildLogsSince).mockResolvedValue({ lines: [], position: { offset: 0 } })
+
+			const wait = mock.callTool('workers_builds_wait', { timeoutSeconds: 60 })
+			await vi.advanceTimersByTimeAsync(15_000)
+			const result = await wait
+
+			expect(mock.agent.server.recordError).toHaveBeenCalledTimes(2)
+			expect(textOf(result)).toMatch(/^Build b1 of main@abc123 finished with outcome success/)
+		})
+
+		it('stops waiting after the timeout, including the time spent fetching the build', async () => {
+			vi.useFakeTimers()
+			// Every request to the API takes 8 seconds
+			vi.mocked(getBuild).mockImplementation(async () => {
+				vi.setSystemTime(Date.now() + 8000)
+				return v4(build('running'))
+			})
+			vi.mocked(getBuildLogsSince).mockResolvedValue({ lines: [], position: { offset: 0 } })
+			const sendNotification = vi.fn()
+
+			const wait = mock.tools
+				.get('workers_builds_wait')!
+				.callback(
+					{ timeoutSeconds: 30 },
+					{ _meta: { progressToken: 'p1' }, sendNotification, signal: new AbortController().signal }
+				)
+			await vi.advanceTimersByTimeAsync(30_000)
+			await wait
+
+			expect(getBuild).toHaveBeenCalledTimes(4)
+			expect(
+				sendNotification.mock.calls.map(([notification]) => notification.params.progress)
+			).toEqual([8, 21, 30])
+		})
+	})
+})
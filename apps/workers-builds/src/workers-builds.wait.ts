@@ -0,0 +1,56 @@
+import type { BuildDetails, LogLine } from '@repo/mcp-common/src/types/workers-builds.types'
+
+// Builds go through queued, initializing and running, and are stopped once they have an outcome
+const TERMINAL_BUILD_STATUS = 'stopped'
+
+export function isBuildFinished(build: BuildDetails): boolean {
+	return build.status === TERMINAL_BUILD_STATUS
+}
+
+/**
+ * Gets how long a build has been running, from its start until it stopped or until now
+ */
+export function getBuildDurationSeconds(build: BuildDetails, now = new Date()): number {
+	const start = build.initializing_on ?? build.running_on ?? build.created_on
+	const end = build.stopped_on ?? now
+	return Math.max(0, Math.round((end.getTime() - start.getTime()) / 1000))
+}
+
+/**
+ * Describes the stage of a running build, followed by the log lines since the last progress
+ */
+export function getBuildProgressMessage(
+	build: BuildDetails,
+	newLines: LogLine[],
+	now = new Date()
+): string {
+	return [
+		`${build.status} (${getBuildDurationSeconds(build, now)}s)`,
+		...newLines.map(([, message]) => message),
+	].join('\n')
+}
+
+/**
+ * Summarizes the result of waiting for a build: its outcome and duration, or its stage when the
+ * wait timed out
+ */
+export function summarizeBuildWait(
+	build: BuildDetails,
+	waitedSeconds: number,
+	now = new Date()
+): string {
+	const { branch, commit_hash } = build.build_trigger_metadata
+	const duration = getBuildDurationSeconds(build, now)
+	const lines = [
+		isBuildFinished(build)
+			? `Build ${build.build_uuid} of ${branch}@${commit_hash} finished with outcome ${build.build_outcome ?? 'none'} after ${duration}s`
+			: `Build ${build.build_uuid} of ${branch}@${commit_hash} is still ${build.status} after ${duration}s, stopped waiting after ${waitedSeconds}s`,
+	]
+	if (isBuildFinished(build) && build.build_outcome !== 'success') {
+		lines.push('Use workers_builds_diagnose to find out why.')
+	}
+	if (!isBuildFinished(build)) {
+		lines.push('Call workers_builds_wait again to keep waiting.')
+	}
+	return lines.join('\n')
+}
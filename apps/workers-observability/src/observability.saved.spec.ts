@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+
+import { compareCalculations, getRelativeTimeframe } from './observability.saved'
+
+const aggregate = (value: number, service: string) => ({
+	value,
+	count: 1,
+	interval: 60,
+	sampleInterval: 1,
+	groups: [{ key: '$metadata.service', value: service }],
+})
+
+const calculation = (aggregates: Array<ReturnType<typeof aggregate>>) => ({
+	alias: 'errors',
+	calculation: 'COUNT',
+	aggregates,
+	series: [],
+})
+
+describe('getRelativeTimeframe', () => {
+	const now = new Date('2025-01-02T12:00:00Z')
+
+	it('ends now', () => {
+		expect(getRelativeTimeframe('-1h', now)).toEqual({
+			from: '2025-01-02T11:00:00.000Z',
+			to: '2025-01-02T12:00:00.000Z',
+		})
+	})
+
+	it('ends earlier by the shift', () => {
+		expect(getRelativeTimeframe('-1h', now, '-1d')).toEqual({
+			from: '2025-01-01T11:00:00.000Z',
+			to: '2025-01-01T12:00:00.000Z',
+		})
+	})
+
+	it('rejects invalid offsets', () => {
+		expect(() => getRelativeTimeframe('1 hour', now)).toThrow('Invalid relative time format')
+	})
+})
+
+describe('compareCalculations', () => {
+	it('reports the change of each group', () => {
+		const comparison = compareCalculations(
+			[calculation([aggregate(30, 'api'), aggregate(5, 'auth'), aggregate(2, 'new')])],
+			[calculation([aggregate(20, 'api'), aggregate(10, 'auth'), aggregate(7, 'old')])]
+		)
+
+		expect(comparison).toEqual([
+			{
+				alias: 'errors',
+				rows: [
+					{ '$metadata.service': 'api', current: 30, previous: 20, delta: 10, change: '+50.0%' },
+					{ '$metadata.service': 'auth', current: 5, previous: 10, delta: -5, change: '-50.0%' },
+					{ '$metadata.service': 'new', current: 2, previous: null, delta: null, change: 'new' },
+					{ '$metadata.service': 'old', current: null, previous: 7, delta: null, change: 'gone' },
+				],
+			},
+		])
+	})
+})
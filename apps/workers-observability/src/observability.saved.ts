@@ -0,0 +1,86 @@
+import { parseRelativeTime } from '@repo/mcp-common/src/utils'
+
+import { getAggregatesTable, getCalculationAlias } from './observability.series'
+
+import type { z } from 'zod'
+import type { zQueryRunCalculationsV2 } from '@repo/mcp-common/src/types/workers-logs.types'
+
+type Calculations = z.infer<typeof zQueryRunCalculationsV2>
+
+export interface Timeframe {
+	from: string
+	to: string
+}
+
+/**
+ * Gets the timeframe of a relative offset such as `-1h` ending now, or ending `shift` earlier
+ * @param offset The length of the timeframe, as a relative time like -30m, -1h or -7d
+ * @param shift How much earlier the timeframe ends, as a relative time
+ */
+export function getRelativeTimeframe(offset: string, now = new Date(), shift?: string): Timeframe {
+	const to = now.getTime() - (shift ? Math.abs(parseRelativeTime(shift)) * 1000 : 0)
+	const from = to - Math.abs(parseRelativeTime(offset)) * 1000
+	return { from: new Date(from).toISOString(), to: new Date(to).toISOString() }
+}
+
+export interface CalculationComparison {
+	alias: string
+	// A row per group, with the group keys, the current and previous values, and the change
+	rows: Array<Record<string, string | number | boolean | null>>
+}
+
+function formatChange(current: number, previous: number | undefined): string {
+	if (previous === undefined) {
+		return 'new'
+	}
+	if (previous === 0) {
+		return current === 0 ? '0%' : 'n/a'
+	}
+	const change = ((current - previous) / Math.abs(previous)) * 100
+	return `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`
+}
+
+/**
+ * Compares the aggregates of the calculations of two windows, matching them by calculation
+ * alias and group values. Groups that only exist in the previous window are reported as gone.
+ */
+export function compareCalculations(
+	current: Calculations,
+	previous: Calculations
+): CalculationComparison[] {
+	return current.map((calculation) => {
+		const alias = getCalculationAlias(calculation)
+		const previousCalculation = previous.find((c) => getCalculationAlias(c) === alias)
+		const previousRows = previousCalculation ? getAggregatesTable(previousCalculation) : []
+		const groupOf = (row: Record<string, unknown>) =>
+			JSON.stringify(Object.entries(row).filter(([key]) => key !== alias))
+		const previousByGroup = new Map(previousRows.map((row) => [groupOf(row), row]))
+
+		const rows: CalculationComparison['rows'] = getAggregatesTable(calculation).map((row) => {
+			const { [alias]: value, ...groups } = row
+			const previousRow = previousByGroup.get(groupOf(row))
+			previousByGroup.delete(groupOf(row))
+			const currentValue = Number(value)
+			const previousValue = previousRow ? Number(previousRow[alias]) : undefined
+			return {
+				...groups,
+				current: currentValue,
+				previous: previousValue ?? null,
+				delta: previousValue === undefined ? null : currentValue - previousValue,
+				change: formatChange(currentValue, previousValue),
+			}
+		})
+		for (const previousRow of previousByGroup.values()) {
+			const { [alias]: value, ...groups } = previousRow
+			rows.push({
+				...groups,
+				current: null,
+				previous: Number(value),
+				delta: null,
+				change: 'gone',
+			})
+		}
+
+		return { alias, rows }
+	})
+}
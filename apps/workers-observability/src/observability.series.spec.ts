@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+	getAggregatesTable,
+	getSeriesSparklines,
+	getSeriesTable,
+	getSeriesVegaLiteSpec,
+	sparkline,
+} from './observability.series'
+
+const point = (value: number, service?: string) => ({
+	value,
+	count: 1,
+	interval: 60,
+	sampleInterval: 1,
+	groups: service ? [{ key: '$metadata.service', value: service }] : undefined,
+})
+
+const calculation = {
+	alias: 'p99',
+	calculation: 'P99(wallTime)',
+	aggregates: [point(120, 'api'), point(40, 'auth')],
+	series: [
+		{ time: '2025-01-01T00:00:00Z', data: [point(100, 'api'), point(30, 'auth')] },
+		{ time: '2025-01-01T00:01:00Z', data: [point(140, 'api')] },
+	],
+}
+
+describe('getAggregatesTable', () => {
+	it('adds a column per group key', () => {
+		expect(getAggregatesTable(calculation)).toEqual([
+			{ '$metadata.service': 'api', p99: 120 },
+			{ '$metadata.service': 'auth', p99: 40 },
+		])
+	})
+})
+
+describe('getSeriesTable', () => {
+	it('adds a column per group combination', () => {
+		expect(getSeriesTable(calculation)).toEqual({
+			columns: ['$metadata.service=api', '$metadata.service=auth'],
+			rows: [
+				{
+					time: '2025-01-01T00:00:00Z',
+					'$metadata.service=api': 100,
+					'$metadata.service=auth': 30,
+				},
+				{
+					time: '2025-01-01T00:01:00Z',
+					'$metadata.service=api': 140,
+					'$metadata.service=auth': null,
+				},
+			],
+		})
+	})
+
+	it('uses the alias for series without groups', () => {
+		const { columns } = getSeriesTable({
+			...calculation,
+			alias: undefined,
+			series: [{ time: '2025-01-01T00:00:00Z', data: [point(1)] }],
+		})
+		expect(columns).toEqual(['P99(wallTime)'])
+	})
+})
+
+describe('sparkline', () => {
+	it('scales values between the minimum and maximum', () => {
+		expect(sparkline([0, 7, null, 3.5, 7])).toBe('▁█ ▅█')
+		expect(sparkline([2, 2])).toBe('▁▁')
+	})
+})
+
+describe('getSeriesSparklines', () => {
+	it('draws a line per column', () => {
+		expect(getSeriesSparklines(getSeriesTable(calculation))).toBe(
+			[
+				'$metadata.service=api   ▁█  min 100  max 140  last 140',
+				'$metadata.service=auth  ▁   min 30  max 30  last 30',
+			].join('\n')
+		)
+	})
+})
+
+describe('getSeriesVegaLiteSpec', () => {
+	it('colors the lines by group', () => {
+		const spec = getSeriesVegaLiteSpec(calculation)
+		expect(spec.data).toEqual({
+			values: [
+				{ time: '2025-01-01T00:00:00Z', series: '$metadata.service=api', value: 100 },
+				{ time: '2025-01-01T00:00:00Z', series: '$metadata.service=auth', value: 30 },
+				{ time: '2025-01-01T00:01:00Z', series: '$metadata.service=api', value: 140 },
+			],
+		})
+		expect(spec.encoding).toHaveProperty('color')
+	})
+})
@@ -0,0 +1,138 @@
+import type { z } from 'zod'
+import type {
+	zAggregateResult,
+	zQueryRunCalculationsV2,
+} from '@repo/mcp-common/src/types/workers-logs.types'
+
+type Calculation = z.infer<typeof zQueryRunCalculationsV2>[number]
+type AggregateResult = z.infer<typeof zAggregateResult>
+type Row = Record<string, string | number | boolean | null>
+
+const SPARKLINE_BLOCKS = '▁▂▃▄▅▆▇█'
+
+export const VEGA_LITE_MIME_TYPE = 'application/vnd.vegalite.v5+json'
+
+export function getCalculationAlias(calculation: Calculation): string {
+	return calculation.alias || calculation.calculation
+}
+
+/**
+ * Names the group combination of an aggregate, e.g. `$metadata.service=api, $metadata.level=error`
+ */
+function getGroupLabel(groups: AggregateResult['groups']): string | undefined {
+	if (!groups || groups.length === 0) {
+		return undefined
+	}
+	return groups.map((group) => `${group.key}=${group.value}`).join(', ')
+}
+
+/**
+ * Tabulates the aggregates of a calculation, with a column per group key and the value
+ */
+export function getAggregatesTable(calculation: Calculation): Row[] {
+	const alias = getCalculationAlias(calculation)
+	return calculation.aggregates.map((aggregate) => ({
+		...Object.fromEntries((aggregate.groups ?? []).map((group) => [group.key, group.value])),
+		[alias]: aggregate.value,
+	}))
+}
+
+export interface SeriesTable {
+	// One column per group combination, or the alias of the calculation when it has no groups
+	columns: string[]
+	// One row per time, with the time and a value per column
+	rows: Row[]
+}
+
+/**
+ * Tabulates the series of a calculation, with a row per time and a column per group combination
+ */
+export function getSeriesTable(calculation: Calculation): SeriesTable {
+	const alias = getCalculationAlias(calculation)
+	const columns: string[] = []
+	const points = calculation.series.map(({ time, data }) => {
+		const values = new Map<string, number>()
+		for (const point of data) {
+			const column = getGroupLabel(point.groups) ?? alias
+			if (!columns.includes(column)) {
+				columns.push(column)
+			}
+			values.set(column, point.value)
+		}
+		return { time, values }
+	})
+
+	return {
+		columns,
+		rows: points.map(({ time, values }) => ({
+			time,
+			...Object.fromEntries(columns.map((column) => [column, values.get(column) ?? null])),
+		})),
+	}
+}
+
+function formatNumber(value: number): string {
+	return String(Number(value.toPrecision(4)))
+}
+
+/**
+ * Draws values as a sparkline of block characters. Missing values are drawn as spaces.
+ */
+export function sparkline(values: Array<number | null>): string {
+	const present = values.filter((value): value is number => value !== null)
+	const min = Math.min(...present)
+	const max = Math.max(...present)
+	return values
+		.map((value) => {
+			if (value === null) {
+				return ' '
+			}
+			const level =
+				max === min ? 0 : Math.round(((value - min) / (max - min)) * (SPARKLINE_BLOCKS.length - 1))
+			return SPARKLINE_BLOCKS[level]
+		})
+		.join('')
+}
+
+/**
+ * Draws a sparkline per column of a series table, with the minimum, maximum and last value
+ */
+export function getSeriesSparklines({ columns, rows }: SeriesTable): string {
+	const width = Math.max(...columns.map((column) => column.length))
+	return columns
+		.map((column) => {
+			const values = rows.map((row) => (typeof row[column] === 'number' ? row[column] : null))
+			const present = values.filter((value): value is number => value !== null)
+			if (present.length === 0) {
+				return `${column.padEnd(width)}  (no data)`
+			}
+			return `${column.padEnd(width)}  ${sparkline(values)}  min ${formatNumber(Math.min(...present))}  max ${formatNumber(Math.max(...present))}  last ${formatNumber(present[present.length - 1])}`
+		})
+		.join('\n')
+}
+
+/**
+ * Builds a Vega-Lite line chart of the series of a calculation, with a line per group combination
+ */
+export function getSeriesVegaLiteSpec(calculation: Calculation): Record<string, unknown> {
+	const alias = getCalculationAlias(calculation)
+	const { columns, rows } = getSeriesTable(calculation)
+	return {
+		$schema: 'https://vega.github.io/schema/vega-lite/v5.json',
+		title: alias,
+		width: 'container',
+		data: {
+			values: rows.flatMap((row) =>
+				columns
+					.filter((column) => row[column] !== null)
+					.map((column) => ({ time: row.time, series: column, value: row[column] }))
+			),
+		},
+		mark: { type: 'line', point: rows.length < 30 },
+		encoding: {
+			x: { field: 'time', type: 'temporal', title: 'Time' },
+			y: { field: 'value', type: 'quantitative', title: alias },
+			...(columns.length > 1 && { color: { field: 'series', type: 'nominal', title: 'Group' } }),
+		},
+	}
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatTraceTimeline, getTraceEntries, summarizeTrace } from './observability.trace'
+
+const start = Date.parse('2025-01-01T00:00:00Z')
+
+const events = [
+	{
+		dataset: 'cloudflare-workers',
+		timestamp: start + 40,
+		source: {
+			exception: {
+				name: 'TypeError',
+				message: 'x is undefined',
+				stack: 'TypeError: x is undefined\n    at handler (index.js:10:5)',
+			},
+		},
+		$metadata: {
+			id: '3',
+			requestId: 'r1',
+			service: 'api',
+			level: 'error',
+			error: 'x is undefined',
+		},
+	},
+	{
+		dataset: 'cloudflare-workers',
+		timestamp: start,
+		source: 'log',
+		$metadata: { id: '1', requestId: 'r1', service: 'api', type: 'cf-worker-event' },
+		$workers: {
+			event: { request: { method: 'GET', url: 'https://example.com/' }, response: { status: 500 } },
+			scriptName: 'api',
+			outcome: 'exception',
+			eventType: 'fetch' as const,
+			requestId: 'r1',
+			cpuTimeMs: 3,
+			wallTimeMs: 45,
+			diagnosticsChannelEvents: [
+				{ timestamp: start + 5, channel: 'fetch', message: 'https://db.example.com' },
+			],
+		},
+	},
+	{
+		dataset: 'cloudflare-workers',
+		timestamp: start + 20,
+		source: 'log',
+		$metadata: { id: '4', requestId: 'r2', service: 'counter', type: 'cf-worker-event' },
+		$workers: {
+			event: { rpcMethod: 'increment' },
+			scriptName: 'counter',
+			outcome: 'ok',
+			eventType: 'rpc' as const,
+			executionModel: 'durableObject' as const,
+			requestId: 'r2',
+		},
+	},
+	{
+		dataset: 'cloudflare-workers',
+		timestamp: start + 10,
+		source: 'log',
+		$metadata: { id: '2', requestId: 'r1', service: 'api', level: 'info', message: 'Loading user' },
+	},
+]
+
+describe('getTraceEntries', () => {
+	it('orders and classifies the events', () => {
+		expect(getTraceEntries(events).map(({ kind, summary }) => [kind, summary])).toEqual([
+			['invocation', 'GET https://example.com/ -> 500 (outcome exception, cpu 3ms, wall 45ms)'],
+			['fetch', 'fetch: https://db.example.com'],
+			['log', 'Loading user'],
+			['durable-object', 'increment (outcome ok)'],
+			['exception', 'TypeError: x is undefined'],
+		])
+	})
+})
+
+describe('formatTraceTimeline', () => {
+	it('renders a line per entry with stack traces below exceptions', () => {
+		expect(formatTraceTimeline(getTraceEntries(events))).toBe(
+			[
+				'+0ms   invocation      api      GET https://example.com/ -> 500 (outcome exception, cpu 3ms, wall 45ms)',
+				'+5ms   fetch           api      fetch: https://db.example.com',
+				'+10ms  log info        api      Loading user',
+				'+20ms  durable-object  counter  increment (outcome ok)',
+				'+40ms  exception       api      TypeError: x is undefined',
+				'                                at handler (index.js:10:5)',
+			].join('\n')
+		)
+	})
+})
+
+describe('summarizeTrace', () => {
+	it('counts the entries of each kind', () => {
+		expect(summarizeTrace(getTraceEntries(events))).toBe(
+			[
+				'Started at 2025-01-01T00:00:00.000Z and spans 40ms',
+				'Services: api, counter',
+				'Invocations: 1, Durable Object invocations: 1, subrequests: 1, logs: 1, exceptions: 1',
+			].join('\n')
+		)
+	})
+})
@@ -0,0 +1,178 @@
+import type { z } from 'zod'
+import type { zReturnedTelemetryEvent } from '@repo/mcp-common/src/types/workers-logs.types'
+
+type TelemetryEvent = z.infer<typeof zReturnedTelemetryEvent>
+
+export type TraceEntryKind =
+	| 'invocation'
+	| 'durable-object'
+	| 'log'
+	| 'exception'
+	| 'fetch'
+	| 'diagnostic'
+
+export interface TraceEntry {
+	timestamp: number
+	kind: TraceEntryKind
+	service?: string
+	level?: string
+	summary: string
+	// Stack trace of exceptions
+	details?: string
+}
+
+function getException(event: TelemetryEvent) {
+	return typeof event.source === 'object' ? event.source.exception : undefined
+}
+
+/**
+ * Describes the invocation of an event: its trigger, outcome and timings
+ */
+function describeInvocation(event: TelemetryEvent): string {
+	const workers = event.$workers
+	const request = workers?.event.request
+	const trigger =
+		request?.method && request?.url
+			? `${request.method} ${request.url}`
+			: (workers?.event.rpcMethod ?? event.$metadata.trigger ?? workers?.eventType ?? 'invocation')
+	const status = workers?.event.response?.status ?? event.$metadata.statusCode
+	const timings = [
+		workers?.outcome && `outcome ${workers.outcome}`,
+		workers?.cpuTimeMs !== undefined && `cpu ${workers.cpuTimeMs}ms`,
+		workers?.wallTimeMs !== undefined && `wall ${workers.wallTimeMs}ms`,
+		workers?.entrypoint && `entrypoint ${workers.entrypoint}`,
+	].filter(Boolean)
+	return `${trigger}${status ? ` -> ${status}` : ''}${timings.length > 0 ? ` (${timings.join(', ')})` : ''}`
+}
+
+/**
+ * Turns the events of a trace into timeline entries. Invocation events also add an entry per
+ * diagnostics channel event they carry, such as outbound fetches.
+ */
+export function getTraceEntries(events: TelemetryEvent[]): TraceEntry[] {
+	const entries = events.flatMap((event): TraceEntry[] => {
+		const { $metadata: metadata, $workers: workers } = event
+		const service = metadata.service ?? workers?.scriptName
+		const exception = getException(event)
+
+		if (metadata.type === 'cf-worker-event' && workers) {
+			const diagnostics =
+				'diagnosticsChannelEvents' in workers
+					? (workers.diagnosticsChannelEvents ?? []).map(
+							(diagnostic): TraceEntry => ({
+								timestamp: diagnostic.timestamp,
+								kind: diagnostic.channel.includes('fetch') ? 'fetch' : 'diagnostic',
+								service,
+								summary: `${diagnostic.channel}: ${diagnostic.message}`,
+							})
+						)
+					: []
+			return [
+				{
+					timestamp: event.timestamp,
+					kind: workers.executionModel === 'durableObject' ? 'durable-object' : 'invocation',
+					service,
+					summary: describeInvocation(event),
+				},
+				...diagnostics,
+			]
+		}
+		if (exception || metadata.error) {
+			return [
+				{
+					timestamp: exception?.timestamp ?? event.timestamp,
+					kind: 'exception',
+					service,
+					level: metadata.level,
+					summary:
+						exception?.name || exception?.message
+							? `${exception.name ?? 'Error'}: ${exception.message ?? ''}`
+							: (metadata.error ?? ''),
+					details: exception?.stack,
+				},
+			]
+		}
+		if (metadata.url || metadata.spanName?.startsWith('fetch')) {
+			return [
+				{
+					timestamp: event.timestamp,
+					kind: 'fetch',
+					service,
+					summary: [
+						metadata.spanName,
+						metadata.url,
+						metadata.statusCode,
+						metadata.duration !== undefined && `(${metadata.duration}ms)`,
+					]
+						.filter(Boolean)
+						.join(' '),
+				},
+			]
+		}
+		return [
+			{
+				timestamp: event.timestamp,
+				kind: 'log',
+				service,
+				level: metadata.level,
+				summary: metadata.message ?? '',
+			},
+		]
+	})
+
+	// Invocations come before the events they log at the same time
+	const order = (entry: TraceEntry) =>
+		entry.kind === 'invocation' || entry.kind === 'durable-object' ? 0 : 1
+	return entries.sort((a, b) => a.timestamp - b.timestamp || order(a) - order(b))
+}
+
+/**
+ * Renders timeline entries as text, with a line per entry and the time since the first entry
+ */
+export function formatTraceTimeline(entries: TraceEntry[]): string {
+	if (entries.length === 0) {
+		return ''
+	}
+	const start = entries[0].timestamp
+	const offsets = entries.map((entry) => `+${entry.timestamp - start}ms`)
+	const offsetWidth = Math.max(...offsets.map((offset) => offset.length))
+	const labels = entries.map((entry) =>
+		entry.level && entry.kind === 'log' ? `${entry.kind} ${entry.level}` : entry.kind
+	)
+	const labelWidth = Math.max(...labels.map((label) => label.length))
+	const services = entries.map((entry) => entry.service ?? '')
+	const serviceWidth = Math.max(...services.map((service) => service.length))
+
+	return entries
+		.map((entry, i) => {
+			const line =
+				`${offsets[i].padEnd(offsetWidth)}  ${labels[i].padEnd(labelWidth)}  ${services[i].padEnd(serviceWidth)}  ${entry.summary}`.trimEnd()
+			if (!entry.details) {
+				return line
+			}
+			const indent = ' '.repeat(offsetWidth + labelWidth + serviceWidth + 6)
+			const details = entry.details
+				.split('\n')
+				.map((detail) => detail.trim())
+				.filter((detail) => detail.length > 0 && detail !== entry.summary)
+			return [line, ...details.map((detail) => `${indent}${detail}`)].join('\n')
+		})
+		.join('\n')
+}
+
+/**
+ * Summarizes a trace: its services, duration and the number of entries of each kind
+ */
+export function summarizeTrace(entries: TraceEntry[]): string {
+	if (entries.length === 0) {
+		return 'No events found.'
+	}
+	const services = [...new Set(entries.flatMap((entry) => (entry.service ? [entry.service] : [])))]
+	const count = (kind: TraceEntryKind) => entries.filter((entry) => entry.kind === kind).length
+	const duration = entries[entries.length - 1].timestamp - entries[0].timestamp
+	return [
+		`Started at ${new Date(entries[0].timestamp).toISOString()} and spans ${duration}ms`,
+		`Services: ${services.join(', ') || 'unknown'}`,
+		`Invocations: ${count('invocation')}, Durable Object invocations: ${count('durable-object')}, subrequests: ${count('fetch')}, logs: ${count('log')}, exceptions: ${count('exception')}`,
+	].join('\n')
+}
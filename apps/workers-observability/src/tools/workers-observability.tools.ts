@@ -1,4 +1,5 @@
 import { writeToString } from '@fast-csv/format'
+import { z } from 'zod'
 
 import {
 	handleWorkerLogsKeys,
@@ -8,11 +9,146 @@ import {
 import {
 	zKeysRequest,
 	zQueryRunRequest,
+	zTimeframe,
 	zValuesRequest,
 } from '@repo/mcp-common/src/types/workers-logs.types'
 
+import { compareCalculations, getRelativeTimeframe } from '../observability.saved'
+import {
+	getAggregatesTable,
+	getCalculationAlias,
+	getSeriesSparklines,
+	getSeriesTable,
+	getSeriesVegaLiteSpec,
+	VEGA_LITE_MIME_TYPE,
+} from '../observability.series'
+import { formatTraceTimeline, getTraceEntries, summarizeTrace } from '../observability.trace'
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import type {
+	ReturnedQueryRunResult,
+	zReturnedTelemetryEvent,
+} from '@repo/mcp-common/src/types/workers-logs.types'
 import type { ObservabilityMCP } from '../workers-observability.app'
 
+type QueryRunRequest = z.infer<typeof zQueryRunRequest>
+type TelemetryEvent = z.infer<typeof zReturnedTelemetryEvent>
+type Chart = 'none' | 'sparkline' | 'vega-lite'
+
+/**
+ * Formats the response of a query for the model: calculations and invocations as TSV, and
+ * events as JSON
+ */
+async function formatQueryResponse(
+	query: QueryRunRequest,
+	response: ReturnedQueryRunResult | null,
+	chart: Chart
+): Promise<CallToolResult['content']> {
+	if (query.view === 'calculations') {
+		let data = ''
+		const charts: Array<{
+			type: 'resource'
+			resource: { uri: string; mimeType: string; text: string }
+		}> = []
+		for (const calculation of response?.calculations || []) {
+			const alias = getCalculationAlias(calculation)
+			const aggregatesString = await writeToString(getAggregatesTable(calculation), {
+				headers: true,
+				delimiter: '\t',
+			})
+
+			const seriesTable = getSeriesTable(calculation)
+			const seriesString = await writeToString(seriesTable.rows, {
+				headers: true,
+				delimiter: '\t',
+			})
+			data = data + '\n' + `## ${alias}`
+			data = data + '\n' + `### Aggregation`
+			data = data + '\n' + aggregatesString
+			data = data + '\n' + `### Series`
+			data = data + '\n' + seriesString
+
+			if (chart === 'sparkline' && seriesTable.rows.length > 0) {
+				data = data + '\n' + `### Chart`
+				data = data + '\n' + getSeriesSparklines(seriesTable)
+			}
+			if (chart === 'vega-lite') {
+				charts.push({
+					type: 'resource',
+					resource: {
+						uri: `chart://observability/${encodeURIComponent(alias)}.vl.json`,
+						mimeType: VEGA_LITE_MIME_TYPE,
+						text: JSON.stringify(getSeriesVegaLiteSpec(calculation)),
+					},
+				})
+			}
+		}
+
+		return [
+			{
+				type: 'text',
+				text: data,
+			},
+			...charts,
+		]
+	}
+
+	if (query.view === 'events') {
+		const events = response?.events?.events
+		return [{ type: 'text', text: JSON.stringify(events) }]
+	}
+
+	if (query.view === 'invocations') {
+		const invocations = Object.entries(response?.invocations || {}).map(([_, logs]) => {
+			const invocationLog = logs.find((log) => log.$metadata.type === 'cf-worker-event')
+			return invocationLog?.$metadata ?? logs[0]?.$metadata
+		})
+
+		const tsv = await writeToString(invocations, { headers: true, delimiter: '\t' })
+		return [{ type: 'text', text: tsv }]
+	}
+	return [{ type: 'text', text: JSON.stringify(response) }]
+}
+
+// The events view returns at most this many events per request
+const TRACE_PAGE_SIZE = 100
+const MAX_TRACE_PAGES = 5
+
+/**
+ * Fetches the events whose metadata key has the given value, in pages. At most
+ * MAX_TRACE_PAGES pages are fetched, and truncated is set when there may be more events.
+ */
+async function queryEventsByMetadata(
+	apiToken: string,
+	accountId: string,
+	key: '$metadata.requestId' | '$metadata.traceId',
+	value: string,
+	timeframe: { from: string; to: string }
+): Promise<{ events: TelemetryEvent[]; truncated: boolean }> {
+	const events: TelemetryEvent[] = []
+	let offset: string | undefined
+	let truncated = false
+	for (let page = 0; page < MAX_TRACE_PAGES; page++) {
+		const query = zQueryRunRequest.parse({
+			queryId: 'workers-logs-events',
+			view: 'events',
+			limit: TRACE_PAGE_SIZE,
+			parameters: { filters: [{ key, operation: 'eq', type: 'string', value }] },
+			timeframe,
+			...(offset && { offset, offsetDirection: 'next' }),
+		})
+		const response = await queryWorkersObservability(apiToken, accountId, query)
+		const pageEvents = response?.events?.events ?? []
+		events.push(...pageEvents)
+		if (pageEvents.length < TRACE_PAGE_SIZE) {
+			break
+		}
+		truncated = page === MAX_TRACE_PAGES - 1
+		offset = pageEvents[pageEvents.length - 1].$metadata.id
+	}
+	return { events, truncated }
+}
+
 /**
  * Registers the logs analysis tool with the MCP server
  * @param server The MCP server instance
@@ -39,6 +175,8 @@ This tool provides three primary views of your Worker data:
 
 ## Calculation Best Practices
 - Before applying calculations, use the observability_keys tools to confirm key that should be used for the calculation
+- Calculations return the aggregates, and the series as a table with a row per time and a column per group combination
+- To show a trend such as p99 latency or error rate, set chart to "sparkline" to draw it in the text, or "vega-lite" if the client renders Vega-Lite charts
 
 ## Troubleshooting
 - If no results are returned, suggest broadening the time range or relaxing filters
@@ -47,8 +185,14 @@ This tool provides three primary views of your Worker data:
 
 		{
 			query: zQueryRunRequest,
+			chart: z
+				.enum(['none', 'sparkline', 'vega-lite'])
+				.default('none')
+				.describe(
+					'Only used when the view is calculations. Adds a chart of each series, as a compact sparkline per group in the text, or as a Vega-Lite spec resource for clients that render charts.'
+				),
 		},
-		async ({ query }) => {
+		async ({ query, chart }) => {
 			const accountId = await agent.getActiveAccountId()
 			if (!accountId) {
 				return {
@@ -63,106 +207,8 @@ This tool provides three primary views of your Worker data:
 			try {
 				const response = await queryWorkersObservability(agent.props.accessToken, accountId, query)
 
-				if (query.view === 'calculations') {
-					let data = ''
-					for (const calculation of response?.calculations || []) {
-						const alias = calculation.alias || calculation.calculation
-						const aggregates = calculation.aggregates.map((agg) => {
-							const keys = agg.groups?.reduce(
-								(acc, group) => {
-									acc[`${group.key}`] = `${group.value}`
-									return acc
-								},
-								{} as Record<string, string>
-							)
-							return {
-								...keys,
-								[alias]: agg.value,
-							}
-						})
-
-						const aggregatesString = await writeToString(aggregates, {
-							headers: true,
-							delimiter: '\t',
-						})
-
-						const series = calculation.series.map(({ time, data }) => {
-							return {
-								time,
-								...data.reduce(
-									(acc, point) => {
-										const key = point.groups?.reduce((acc, group) => {
-											return `${acc} * ${group.value}`
-										}, '')
-										if (!key) {
-											return {
-												...acc,
-												[alias]: point.value,
-											}
-										}
-										return {
-											...acc,
-											key,
-											[alias]: point.value,
-										}
-									},
-									{} as Record<string, string | number | undefined>
-								),
-							}
-						})
-						const seriesString = await writeToString(series, { headers: true, delimiter: '\t' })
-						data = data + '\n' + `## ${alias}`
-						data = data + '\n' + `### Aggregation`
-						data = data + '\n' + aggregatesString
-						data = data + '\n' + `### Series`
-						data = data + '\n' + seriesString
-					}
-
-					return {
-						content: [
-							{
-								type: 'text',
-								text: data,
-							},
-						],
-					}
-				}
-
-				if (query.view === 'events') {
-					const events = response?.events?.events
-					return {
-						content: [
-							{
-								type: 'text',
-								text: JSON.stringify(events),
-							},
-						],
-					}
-				}
-
-				if (query.view === 'invocations') {
-					const invocations = Object.entries(response?.invocations || {}).map(([_, logs]) => {
-						const invocationLog = logs.find((log) => log.$metadata.type === 'cf-worker-event')
-						return invocationLog?.$metadata ?? logs[0]?.$metadata
-					})
-
-					const tsv = await writeToString(invocations, { headers: true, delimiter: '\t' })
-					return {
-						content: [
-							{
-								type: 'text',
-								text: tsv,
-							},
-						],
-					}
-				}
 				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(response),
-						},
-					],
+					content: await formatQueryResponse(query, response, chart),
 				}
 			} catch (error) {
 				return {
@@ -282,4 +328,328 @@ This tool provides three primary views of your Worker data:
 			}
 		}
 	)
+
+	agent.server.tool(
+		'observability_query_save',
+		`Save a query_worker_observability query under a name, to run it again later with observability_query_run.
+
+Saved queries don't have a timeframe, it is chosen when they are run. Saving a query with the name of a saved query replaces it.
+Use this for queries that are run again and again, such as the error rate per worker, the p99 wall time, or exceptions by $metadata.message.`,
+		{
+			name: z.string().min(1).max(100).describe('Name of the query, e.g. "error-rate-per-worker"'),
+			description: z.string().optional().describe('What the query shows'),
+			query: zQueryRunRequest.omit({ timeframe: true }),
+		},
+		async ({ name, description, query }) => {
+			try {
+				await agent
+					.getSavedQueriesStore()
+					.saveObservabilityQuery({ name, description, query, savedAt: new Date().toISOString() })
+				return {
+					content: [
+						{
+							type: 'text',
+							text: `Saved the query "${name}". Run it with observability_query_run.`,
+						},
+					],
+				}
+			} catch (error) {
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify({
+								error: `Error saving the query: ${error instanceof Error && error.message}`,
+							}),
+						},
+					],
+				}
+			}
+		}
+	)
+
+	agent.server.tool(
+		'observability_query_list',
+		'List the saved observability queries',
+		{},
+		async () => {
+			try {
+				const queries = await agent.getSavedQueriesStore().listObservabilityQueries()
+				if (queries.length === 0) {
+					return {
+						content: [
+							{
+								type: 'text',
+								text: 'There are no saved queries. Save one with observability_query_save.',
+							},
+						],
+					}
+				}
+				const tsv = await writeToString(
+					queries.map(({ name, description, query, savedAt }) => ({
+						name,
+						description: description ?? '',
+						view: query.view,
+						savedAt,
+						query: JSON.stringify(query),
+					})),
+					{ headers: true, delimiter: '\t' }
+				)
+				return {
+					content: [
+						{
+							type: 'text',
+							text: tsv,
+						},
+					],
+				}
+			} catch (error) {
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify({
+								error: `Error listing saved queries: ${error instanceof Error && error.message}`,
+							}),
+						},
+					],
+				}
+			}
+		}
+	)
+
+	agent.server.tool(
+		'observability_query_delete',
+		'Delete a saved observability query',
+		{ name: z.string().describe('Name of the saved query') },
+		async ({ name }) => {
+			try {
+				const deleted = await agent.getSavedQueriesStore().deleteObservabilityQuery(name)
+				return {
+					content: [
+						{
+							type: 'text',
+							text: deleted ? `Deleted the query "${name}".` : `There is no saved query "${name}".`,
+						},
+					],
+				}
+			} catch (error) {
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify({
+								error: `Error deleting the query: ${error instanceof Error && error.message}`,
+							}),
+						},
+					],
+				}
+			}
+		}
+	)
+
+	agent.server.tool(
+		'observability_query_run',
+		`Run a saved observability query over a relative timeframe ending now.
+
+For calculations, the current window is compared with an earlier window of the same length, and the change of each aggregate is reported.
+By default the earlier window is the one right before the current window. Set compare_offset to compare with e.g. the same time yesterday (-1d) or last week (-7d).
+
+## Examples
+- "Is the error rate worse than yesterday?": timeframe "-1h", compare_offset "-1d"
+- "How did p99 wall time change over the last day?": timeframe "-1d"`,
+		{
+			name: z.string().describe('Name of the saved query'),
+			timeframe: z
+				.string()
+				.default('-1h')
+				.describe(
+					'Length of the window ending now, as a relative time: a sign followed by time units, e.g. -30m, -1h, -1d or -2h30m'
+				),
+			compare: z
+				.boolean()
+				.default(true)
+				.describe('Compare the aggregates of calculations with the earlier window'),
+			compare_offset: z
+				.string()
+				.optional()
+				.describe(
+					'How much earlier the compared window ends, as a relative time. Defaults to the timeframe, i.e. the previous window.'
+				),
+			chart: z
+				.enum(['none', 'sparkline', 'vega-lite'])
+				.default('none')
+				.describe('Adds a chart of each series of calculations, see query_worker_observability'),
+		},
+		async ({ name, timeframe, compare, compare_offset, chart }) => {
+			const accountId = await agent.getActiveAccountId()
+			if (!accountId) {
+				return {
+					content: [
+						{
+							type: 'text',
+							text: 'No currently active accountId. Try listing your accounts (accounts_list) and then setting an active account (set_active_account)',
+						},
+					],
+				}
+			}
+			try {
+				const queries = await agent.getSavedQueriesStore().listObservabilityQueries()
+				const saved = queries.find((query) => query.name === name)
+				if (!saved) {
+					return {
+						content: [
+							{
+								type: 'text',
+								text: `There is no saved query "${name}". Saved queries: ${queries.map((query) => query.name).join(', ') || 'none'}`,
+							},
+						],
+					}
+				}
+
+				const now = new Date()
+				const currentTimeframe = getRelativeTimeframe(timeframe, now)
+				const query = { ...saved.query, timeframe: currentTimeframe }
+				const response = await queryWorkersObservability(agent.props.accessToken, accountId, query)
+				let header = `# ${saved.name}\nCurrent window: ${currentTimeframe.from} to ${currentTimeframe.to}`
+
+				if (compare && query.view === 'calculations') {
+					const previousTimeframe = getRelativeTimeframe(
+						timeframe,
+						now,
+						compare_offset ?? timeframe
+					)
+					const previous = await queryWorkersObservability(agent.props.accessToken, accountId, {
+						...query,
+						timeframe: previousTimeframe,
+					})
+					header += `\nCompared window: ${previousTimeframe.from} to ${previousTimeframe.to}\n`
+					for (const { alias, rows } of compareCalculations(
+						response?.calculations ?? [],
+						previous?.calculations ?? []
+					)) {
+						header += `\n## Change of ${alias}\n`
+						header += await writeToString(rows, { headers: true, delimiter: '\t' })
+						header += '\n'
+					}
+				}
+
+				const [first, ...rest] = await formatQueryResponse(query, response, chart)
+				return {
+					content:
+						first?.type === 'text'
+							? [{ type: 'text', text: `${header}\n${first.text}` }, ...rest]
+							: [{ type: 'text', text: header }, ...(first ? [first] : []), ...rest],
+				}
+			} catch (error) {
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify({
+								error: `Error running the saved query: ${error instanceof Error && error.message}`,
+							}),
+						},
+					],
+				}
+			}
+		}
+	)
+
+	agent.server.tool(
+		'observability_invocation_trace',
+		`Reconstruct the trace of a single request from its $metadata.requestId.
+
+Returns every event of the invocation in time order as a timeline: the invocation with its trigger, status and timings, log lines with their level, exceptions with their stack traces, outbound fetch subrequests, and the invocations of Durable Objects and other Workers in the same trace.
+Use this when debugging a single failing request. Find the request id with query_worker_observability first, e.g. with the invocations view.`,
+		{
+			requestId: z.string().describe('The $metadata.requestId of the invocation'),
+			timeframe: zTimeframe
+				.optional()
+				.describe('Timeframe the request happened in. Defaults to the last 24 hours.'),
+		},
+		async ({ requestId, timeframe }) => {
+			const accountId = await agent.getActiveAccountId()
+			if (!accountId) {
+				return {
+					content: [
+						{
+							type: 'text',
+							text: 'No currently active accountId. Try listing your accounts (accounts_list) and then setting an active account (set_active_account)',
+						},
+					],
+				}
+			}
+			try {
+				const range = timeframe ?? getRelativeTimeframe('-1d')
+				const { events, truncated } = await queryEventsByMetadata(
+					agent.props.accessToken,
+					accountId,
+					'$metadata.requestId',
+					requestId,
+					range
+				)
+				// Requests and traces with more events than can be fetched only show their first events
+				const truncatedQueries = truncated ? [`request ${requestId}`] : []
+				if (events.length === 0) {
+					return {
+						content: [
+							{
+								type: 'text',
+								text: `No events found for the request ${requestId} between ${range.from} and ${range.to}. Try a wider timeframe.`,
+							},
+						],
+					}
+				}
+
+				// Durable Objects and Workers called over service bindings log under their own request
+				// ids, but share the trace id
+				const traceIds = [...new Set(events.flatMap((event) => event.$metadata.traceId ?? []))]
+				const seen = new Set(events.map((event) => event.$metadata.id))
+				for (const traceId of traceIds) {
+					const trace = await queryEventsByMetadata(
+						agent.props.accessToken,
+						accountId,
+						'$metadata.traceId',
+						traceId,
+						range
+					)
+					if (trace.truncated) {
+						truncatedQueries.push(`trace ${traceId}`)
+					}
+					for (const event of trace.events) {
+						if (!seen.has(event.$metadata.id)) {
+							seen.add(event.$metadata.id)
+							events.push(event)
+						}
+					}
+				}
+
+				const entries = getTraceEntries(events)
+				return {
+					content: [
+						{
+							type: 'text',
+							text: `# Request ${requestId}\n${summarizeTrace(entries)}${
+								truncatedQueries.length > 0
+									? `\n\nOnly the first ${MAX_TRACE_PAGES * TRACE_PAGE_SIZE} events of the ${truncatedQueries.join(' and the ')} were fetched, so the timeline is incomplete.`
+									: ''
+							}\n\n## Timeline\n${formatTraceTimeline(entries)}`,
+						},
+					],
+				}
+			} catch (error) {
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify({
+								error: `Error tracing the request: ${error instanceof Error && error.message}`,
+							}),
+						},
+					],
+				}
+			}
+		}
+	)
 }
@@ -107,6 +107,16 @@ export class ObservabilityMCP extends McpAgent<Env, State, Props> {
 		}
 	}
 
+	/**
+	 * UserDetails of the user, or of the account for account tokens, which stores the saved queries
+	 */
+	getSavedQueriesStore() {
+		return getUserDetails(
+			env,
+			this.props.type === 'account_token' ? `account:${this.props.account.id}` : this.props.user.id
+		)
+	}
+
 	async setActiveAccountId(accountId: string) {
 		try {
 			// account tokens are scoped to one account
@@ -59,9 +59,12 @@ export async function handleApiTokenMode<
 
 	const { user, accounts } = await getUserAndAccounts(token, opts)
 
+	// Keep the props the caller already set, e.g. the D1 read-only flag
+	const callerProps = ctx.props
 	// If user is null, handle API token mode
 	if (user === null) {
 		ctx.props = {
+			...callerProps,
 			type: 'account_token',
 			accessToken: token,
 			// we always select the first account from the response,
@@ -70,6 +73,7 @@ export async function handleApiTokenMode<
 		} satisfies AuthProps
 	} else {
 		ctx.props = {
+			...callerProps,
 			type: 'user_token',
 			accessToken: token,
 			user,
@@ -0,0 +1,331 @@
+import { fetchCloudflareApi } from '../cloudflare-api'
+import { pollUntilReady } from '../poll'
+import { D1TimeTravelBookmarkResult, D1TimeTravelRestoreResult } from '../types/d1.types'
+import { V4Schema } from '../v4-api'
+
+import type { Cloudflare } from 'cloudflare'
+import type {
+	DatabaseExportParams,
+	DatabaseExportResponse,
+	DatabaseImportResponse,
+} from 'cloudflare/resources/d1/database.mjs'
+
+// Exports and imports are processed asynchronously by D1, and have to be polled until they finish
+const D1_POLL_INTERVAL_SECONDS = 2
+const D1_POLL_MAX_WAIT_SECONDS = 120
+
+// Tables created by SQLite and D1 itself, which aren't part of the user's schema
+const INTERNAL_TABLES_FILTER = `m.type = 'table' AND m.name NOT LIKE 'sqlite_%' AND m.name NOT LIKE '_cf_%'`
+
+const SCHEMA_SQL = [
+	`SELECT m.name AS "table", p.name AS "column", p.type AS "type", p."notnull" AS "not_null", p.dflt_value AS "default", p.pk AS "pk"
+	FROM sqlite_master m JOIN pragma_table_info(m.name) p
+	WHERE ${INTERNAL_TABLES_FILTER}
+	ORDER BY m.name, p.cid`,
+	`SELECT m.name AS "table", il.name AS "index", il."unique" AS "unique", il.origin AS "origin", group_concat(ii.name, ',') AS "columns"
+	FROM sqlite_master m JOIN pragma_index_list(m.name) il JOIN pragma_index_info(il.name) ii
+	WHERE ${INTERNAL_TABLES_FILTER}
+	GROUP BY m.name, il.name
+	ORDER BY m.name, il.name`,
+	`SELECT m.name AS "table", fk."from" AS "column", fk."table" AS "references_table", fk."to" AS "references_column", fk.on_update AS "on_update", fk.on_delete AS "on_delete"
+	FROM sqlite_master m JOIN pragma_foreign_key_list(m.name) fk
+	WHERE ${INTERNAL_TABLES_FILTER}
+	ORDER BY m.name, fk.id, fk.seq`,
+].join(';\n')
+
+export type D1SchemaRow = Record<string, unknown> & { table: string }
+
+/**
+ * Reads the columns, indexes and foreign keys of every user table in a D1 database
+ * @param client Cloudflare API Client
+ * @param accountId Cloudflare account ID
+ * @param databaseId ID of the D1 database
+ * @returns One row per column, index and foreign key
+ */
+export async function getD1DatabaseSchema({
+	client,
+	accountId,
+	databaseId,
+}: {
+	client: Cloudflare
+	accountId: string
+	databaseId: string
+}): Promise<{ columns: D1SchemaRow[]; indexes: D1SchemaRow[]; foreignKeys: D1SchemaRow[] }> {
+	const { result } = await client.d1.database.query(databaseId, {
+		account_id: accountId,
+		sql: SCHEMA_SQL,
+	})
+	const [columns, indexes, foreignKeys] = result.map(
+		(statement) => (statement.results ?? []) as D1SchemaRow[]
+	)
+	return { columns: columns ?? [], indexes: indexes ?? [], foreignKeys: foreignKeys ?? [] }
+}
+
+/**
+ * Lists the names of the migrations already applied to a D1 database, in the order they were applied
+ * @param migrationsTable Name of the table wrangler records applied migrations in
+ * @returns The applied migration names, or an empty list if the migrations table doesn't exist yet
+ */
+export async function listAppliedD1Migrations({
+	client,
+	accountId,
+	databaseId,
+	migrationsTable,
+}: {
+	client: Cloudflare
+	accountId: string
+	databaseId: string
+	migrationsTable: string
+}): Promise<string[]> {
+	const { result: tables } = await client.d1.database.query(databaseId, {
+		account_id: accountId,
+		sql: `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`,
+		params: [migrationsTable],
+	})
+	if (!tables[0]?.results?.length) {
+		return []
+	}
+
+	const { result } = await client.d1.database.query(databaseId, {
+		account_id: accountId,
+		sql: `SELECT name FROM ${migrationsTable} ORDER BY id`,
+	})
+	return ((result[0]?.results ?? []) as Array<{ name: string }>).map((row) => row.name)
+}
+
+/**
+ * Applies a single migration and records it in the migrations table, the same way `wrangler d1 migrations apply` does
+ * @param migrationsTable Name of the table to record applied migrations in. Created if it doesn't exist.
+ */
+export async function applyD1Migration({
+	client,
+	accountId,
+	databaseId,
+	migrationsTable,
+	name,
+	sql,
+}: {
+	client: Cloudflare
+	accountId: string
+	databaseId: string
+	migrationsTable: string
+	name: string
+	sql: string
+}) {
+	const statements = [
+		`CREATE TABLE IF NOT EXISTS ${migrationsTable}(
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			name TEXT UNIQUE,
+			applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+		)`,
+		sql.trim().replace(/;+$/, ''),
+		`INSERT INTO ${migrationsTable} (name) VALUES ('${name.replaceAll("'", "''")}')`,
+	]
+	const { result } = await client.d1.database.query(databaseId, {
+		account_id: accountId,
+		sql: statements.join(';\n'),
+	})
+	return result
+}
+
+/**
+ * Exports a D1 database to a SQL dump, waiting for the export to finish
+ * @param dumpOptions Which tables to export, and whether to skip the schema or the data
+ * @returns The dump file name and a signed URL to download it from
+ */
+export async function exportD1Database({
+	client,
+	accountId,
+	databaseId,
+	dumpOptions,
+}: {
+	client: Cloudflare
+	accountId: string
+	databaseId: string
+	dumpOptions?: DatabaseExportParams.DumpOptions
+}) {
+	let currentBookmark: string | undefined
+	const response = await pollD1Task('export', async () => {
+		const response = await client.d1.database.export(databaseId, {
+			account_id: accountId,
+			output_format: 'polling',
+			current_bookmark: currentBookmark,
+			dump_options: dumpOptions,
+		})
+		currentBookmark = response.at_bookmark ?? currentBookmark
+		return response
+	})
+
+	if (response.status === 'error' || !response.result?.signed_url) {
+		throw new Error(`D1 export failed: ${response.error ?? 'no dump was produced'}`)
+	}
+	return {
+		at_bookmark: response.at_bookmark,
+		filename: response.result.filename,
+		signed_url: response.result.signed_url,
+	}
+}
+
+/**
+ * Imports a SQL file into a D1 database, the same way `wrangler d1 execute --file --remote` does:
+ * the file is uploaded to D1, ingested, and polled until every statement has run
+ * @param sql Contents of the SQL file
+ * @returns The number of statements run, the bookmark after the import, and the query meta
+ */
+export async function importD1Database({
+	client,
+	accountId,
+	databaseId,
+	sql,
+}: {
+	client: Cloudflare
+	accountId: string
+	databaseId: string
+	sql: string
+}) {
+	const digest = await crypto.subtle.digest('MD5', new TextEncoder().encode(sql))
+	const etag = [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('')
+
+	const init = await client.d1.database.import(databaseId, {
+		account_id: accountId,
+		action: 'init',
+		etag,
+	})
+	// D1 doesn't return an upload URL when a file with the same contents was already uploaded
+	if (init.upload_url) {
+		const upload = await fetch(init.upload_url, { method: 'PUT', body: sql })
+		if (!upload.ok || upload.headers.get('ETag')?.replaceAll('"', '') !== etag) {
+			throw new Error(`D1 import failed: uploading the SQL file failed (${upload.status})`)
+		}
+	}
+	if (!init.filename) {
+		throw new Error(`D1 import failed: ${init.error ?? 'no upload file name was returned'}`)
+	}
+
+	const ingest = await client.d1.database.import(databaseId, {
+		account_id: accountId,
+		action: 'ingest',
+		etag,
+		filename: init.filename,
+	})
+	if (!ingest.at_bookmark) {
+		throw new Error(`D1 import failed: ${ingest.error ?? 'the import did not start'}`)
+	}
+	const currentBookmark = ingest.at_bookmark
+
+	const response = isD1TaskDone(ingest)
+		? ingest
+		: await pollD1Task('import', () =>
+				client.d1.database.import(databaseId, {
+					account_id: accountId,
+					action: 'poll',
+					current_bookmark: currentBookmark,
+				})
+			)
+
+	if (response.status === 'error') {
+		throw new Error(`D1 import failed: ${response.error}`)
+	}
+	return {
+		num_queries: response.result?.num_queries,
+		final_bookmark: response.result?.final_bookmark,
+		meta: response.result?.meta,
+	}
+}
+
+function isD1TaskDone(response: DatabaseExportResponse | DatabaseImportResponse) {
+	return response.status === 'complete' || response.status === 'error'
+}
+
+/**
+ * Polls a D1 export or import until it is done. Client errors such as an invalid bookmark are
+ * thrown right away, while server errors, rate limits and connection errors are retried. If the
+ * task doesn't finish in time, the last of those errors is reported.
+ */
+async function pollD1Task<T extends DatabaseExportResponse | DatabaseImportResponse>(
+	operation: 'export' | 'import',
+	taskFn: () => Promise<T>
+): Promise<T> {
+	let lastError: unknown
+	try {
+		return await pollUntilReady({
+			taskFn,
+			checkFn: isD1TaskDone,
+			intervalSeconds: D1_POLL_INTERVAL_SECONDS,
+			maxWaitSeconds: D1_POLL_MAX_WAIT_SECONDS,
+			onError: (error) => {
+				const status =
+					typeof error === 'object' && error !== null && 'status' in error
+						? error.status
+						: undefined
+				if (typeof status === 'number' && status >= 400 && status < 500 && status !== 429) {
+					throw error
+				}
+				lastError = error
+			},
+		})
+	} catch (error) {
+		if (error !== lastError && lastError !== undefined) {
+			const message = lastError instanceof Error ? lastError.message : String(lastError)
+			throw new Error(
+				`D1 ${operation} failed: it did not finish within ${D1_POLL_MAX_WAIT_SECONDS} seconds, last error: ${message}`
+			)
+		}
+		throw error
+	}
+}
+
+/**
+ * Gets the Time Travel bookmark of a D1 database at a point in time
+ * @param timestamp RFC3339 timestamp. Defaults to the current time.
+ */
+export async function getD1TimeTravelBookmark({
+	accountId,
+	apiToken,
+	databaseId,
+	timestamp,
+}: {
+	accountId: string
+	apiToken: string
+	databaseId: string
+	timestamp?: string
+}) {
+	const query = timestamp ? `?${new URLSearchParams({ timestamp })}` : ''
+	const response = await fetchCloudflareApi({
+		endpoint: `/d1/database/${databaseId}/time_travel/bookmark${query}`,
+		accountId,
+		apiToken,
+		responseSchema: V4Schema(D1TimeTravelBookmarkResult),
+	})
+	return response.result
+}
+
+/**
+ * Restores a D1 database to a Time Travel bookmark or point in time. Exactly one of bookmark or timestamp must be set.
+ * @returns The bookmark the database was restored to, and the bookmark to undo the restore with
+ */
+export async function restoreD1Database({
+	accountId,
+	apiToken,
+	databaseId,
+	bookmark,
+	timestamp,
+}: {
+	accountId: string
+	apiToken: string
+	databaseId: string
+	bookmark?: string
+	timestamp?: string
+}) {
+	const params = new URLSearchParams()
+	if (bookmark) params.set('bookmark', bookmark)
+	if (timestamp) params.set('timestamp', timestamp)
+	const response = await fetchCloudflareApi({
+		endpoint: `/d1/database/${databaseId}/time_travel/restore?${params}`,
+		accountId,
+		apiToken,
+		responseSchema: V4Schema(D1TimeTravelRestoreResult),
+		options: { method: 'POST' },
+	})
+	return response.result
+}
@@ -0,0 +1,187 @@
+import { fetchCloudflareApi, fetchCloudflareApiRaw } from '../cloudflare-api'
+import { R2ObjectListResultInfo, R2ObjectSchema } from '../types/r2_bucket.types'
+import { V4Schema } from '../v4-api'
+
+import type { z } from 'zod'
+import type { JurisdictionEnum } from '../types/r2_bucket.types'
+
+type Jurisdiction = z.infer<typeof JurisdictionEnum>
+
+// Objects larger than this are not returned inline to the model
+export const R2_OBJECT_MAX_READ_BYTES = 1024 * 1024
+
+// Uploads go through the tool call arguments, so keep them small
+export const R2_OBJECT_MAX_WRITE_BYTES = 1024 * 1024
+
+function objectEndpoint(bucketName: string, key: string) {
+	return `/r2/buckets/${bucketName}/objects/${encodeURIComponent(key)}`
+}
+
+function jurisdictionHeaders(jurisdiction?: Jurisdiction): Record<string, string> {
+	return jurisdiction && jurisdiction !== 'default' ? { 'cf-r2-jurisdiction': jurisdiction } : {}
+}
+
+/**
+ * Lists objects in an R2 bucket
+ * @param bucketName Name of the bucket
+ * @param prefix Only return keys starting with this prefix
+ * @param delimiter Character to roll up keys into delimited prefixes
+ * @param cursor Pagination cursor from a previous call
+ * @param perPage Maximum number of objects to return
+ * @returns The objects, plus the delimited prefixes and next cursor in result_info
+ */
+export async function listR2Objects({
+	accountId,
+	apiToken,
+	bucketName,
+	prefix,
+	delimiter,
+	cursor,
+	perPage,
+	jurisdiction,
+}: {
+	accountId: string
+	apiToken: string
+	bucketName: string
+	prefix?: string
+	delimiter?: string
+	cursor?: string
+	perPage?: number
+	jurisdiction?: Jurisdiction
+}) {
+	const params = new URLSearchParams()
+	if (prefix) params.set('prefix', prefix)
+	if (delimiter) params.set('delimiter', delimiter)
+	if (cursor) params.set('cursor', cursor)
+	if (perPage) params.set('per_page', perPage.toString())
+	const query = params.size > 0 ? `?${params.toString()}` : ''
+
+	return fetchCloudflareApi({
+		endpoint: `/r2/buckets/${bucketName}/objects${query}`,
+		accountId,
+		apiToken,
+		responseSchema: V4Schema(R2ObjectSchema.array(), R2ObjectListResultInfo),
+		options: {
+			headers: jurisdictionHeaders(jurisdiction),
+		},
+	})
+}
+
+/**
+ * Gets the metadata of a single object without downloading its contents
+ * @returns The object metadata, or null if the key does not exist
+ */
+export async function headR2Object({
+	accountId,
+	apiToken,
+	bucketName,
+	key,
+	jurisdiction,
+}: {
+	accountId: string
+	apiToken: string
+	bucketName: string
+	key: string
+	jurisdiction?: Jurisdiction
+}): Promise<R2ObjectSchema | null> {
+	// The REST API has no HEAD route for objects, so look the key up through a prefix listing
+	const { result } = await listR2Objects({
+		accountId,
+		apiToken,
+		bucketName,
+		prefix: key,
+		perPage: 1,
+		jurisdiction,
+	})
+	const object = result?.[0]
+	return object && object.key === key ? object : null
+}
+
+/**
+ * Downloads the contents of an object
+ * @returns The raw response, so callers can check the size before reading the body
+ */
+export async function getR2Object({
+	accountId,
+	apiToken,
+	bucketName,
+	key,
+	jurisdiction,
+}: {
+	accountId: string
+	apiToken: string
+	bucketName: string
+	key: string
+	jurisdiction?: Jurisdiction
+}): Promise<Response> {
+	return fetchCloudflareApiRaw({
+		endpoint: objectEndpoint(bucketName, key),
+		accountId,
+		apiToken,
+		options: {
+			headers: jurisdictionHeaders(jurisdiction),
+		},
+	})
+}
+
+/**
+ * Uploads an object, overwriting any existing object with the same key
+ */
+export async function putR2Object({
+	accountId,
+	apiToken,
+	bucketName,
+	key,
+	body,
+	contentType,
+	jurisdiction,
+}: {
+	accountId: string
+	apiToken: string
+	bucketName: string
+	key: string
+	body: Uint8Array | string
+	contentType: string
+	jurisdiction?: Jurisdiction
+}) {
+	await fetchCloudflareApiRaw({
+		endpoint: objectEndpoint(bucketName, key),
+		accountId,
+		apiToken,
+		options: {
+			method: 'PUT',
+			body,
+			headers: {
+				'Content-Type': contentType,
+				...jurisdictionHeaders(jurisdiction),
+			},
+		},
+	})
+}
+
+/**
+ * Deletes an object
+ */
+export async function deleteR2Object({
+	accountId,
+	apiToken,
+	bucketName,
+	key,
+	jurisdiction,
+}: {
+	accountId: string
+	apiToken: string
+	bucketName: string
+	key: string
+	jurisdiction?: Jurisdiction
+}) {
+	await fetchCloudflareApiRaw({
+		endpoint: objectEndpoint(bucketName, key),
+		accountId,
+		apiToken,
+		options: {
+			method: 'DELETE',
+			headers: jurisdictionHeaders(jurisdiction),
+		},
+	})
+}
@@ -1,13 +1,23 @@
-import { fetchCloudflareApi } from '../cloudflare-api'
+import { z } from 'zod'
+
+import { fetchCloudflareApi, fetchCloudflareApiRaw } from '../cloudflare-api'
 import {
+	BuildEnvironmentVariables,
+	BuildTrigger,
+	CreateBuildResult,
 	GetBuildLogsResult,
 	GetBuildResult,
 	ListBuildsByScriptResult,
 	ListBuildsByScriptResultInfo,
+	ListBuildTriggersResult,
 } from '../types/workers-builds.types'
 import { V4Schema } from '../v4-api'
 
-import type { LogLine } from '../types/workers-builds.types'
+import type {
+	LogLine,
+	UpdateBuildEnvironmentVariablesParams,
+	UpdateBuildTriggerParams,
+} from '../types/workers-builds.types'
 
 export async function listBuilds({
 	accountId,
@@ -56,8 +66,42 @@ export async function getBuildLogs({
 	buildUUID: string
 	apiToken: string
 }) {
-	const allLogs: LogLine[] = []
-	let cursor: string | undefined = undefined
+	const { lines } = await getBuildLogsSince({
+		accountId,
+		buildUUID,
+		apiToken,
+		position: { offset: 0 },
+	})
+	return lines
+}
+
+/**
+ * Where reading the logs of a build stopped: the cursor of the last page that was read, and the
+ * number of lines read from it
+ */
+export interface BuildLogPosition {
+	cursor?: string
+	offset: number
+}
+
+/**
+ * Gets the log lines of a build after a position, and the position to read the next lines from.
+ * Only the pages from the position onwards are fetched, so following the logs of a running build
+ * doesn't fetch the whole log every time.
+ */
+export async function getBuildLogsSince({
+	accountId,
+	buildUUID,
+	apiToken,
+	position,
+}: {
+	accountId: string
+	buildUUID: string
+	apiToken: string
+	position: BuildLogPosition
+}): Promise<{ lines: LogLine[]; position: BuildLogPosition }> {
+	const lines: LogLine[] = []
+	let { cursor, offset } = position
 	let hasMore = true
 
 	while (hasMore) {
@@ -73,16 +117,171 @@ export async function getBuildLogs({
 			responseSchema: V4Schema(GetBuildLogsResult),
 		})
 
+		hasMore = false
 		if (res.result) {
-			allLogs.push(...res.result.lines)
+			lines.push(...res.result.lines.slice(offset))
 
 			if (res.result.cursor && res.result.truncated) {
 				cursor = res.result.cursor
+				offset = 0
+				hasMore = true
 			} else {
-				hasMore = false
+				// The last page is read again next time, as more lines may be added to it
+				offset = Math.max(offset, res.result.lines.length)
 			}
 		}
 	}
 
-	return allLogs
+	return { lines, position: { cursor, offset } }
+}
+
+/**
+ * Starts a build of a trigger for a branch, or for a commit of the branch
+ */
+export async function createBuild({
+	accountId,
+	triggerUUID,
+	branch,
+	commitHash,
+	apiToken,
+}: {
+	accountId: string
+	triggerUUID: string
+	branch?: string
+	commitHash?: string
+	apiToken: string
+}) {
+	return fetchCloudflareApi({
+		endpoint: `/builds/triggers/${triggerUUID}/builds`,
+		accountId,
+		apiToken,
+		responseSchema: V4Schema(CreateBuildResult),
+		options: {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ branch, commit_hash: commitHash }),
+		},
+	})
+}
+
+export async function cancelBuild({
+	accountId,
+	buildUUID,
+	apiToken,
+}: {
+	accountId: string
+	buildUUID: string
+	apiToken: string
+}) {
+	await fetchCloudflareApiRaw({
+		endpoint: `/builds/builds/${buildUUID}/cancel`,
+		accountId,
+		apiToken,
+		options: { method: 'PUT' },
+	})
+}
+
+export async function listBuildTriggers({
+	accountId,
+	workerId,
+	apiToken,
+}: {
+	accountId: string
+	workerId: string
+	apiToken: string
+}) {
+	return fetchCloudflareApi({
+		endpoint: `/builds/workers/${workerId}/triggers`,
+		accountId,
+		apiToken,
+		responseSchema: V4Schema(ListBuildTriggersResult),
+	})
+}
+
+export async function updateBuildTrigger({
+	accountId,
+	triggerUUID,
+	params,
+	apiToken,
+}: {
+	accountId: string
+	triggerUUID: string
+	params: UpdateBuildTriggerParams
+	apiToken: string
+}) {
+	return fetchCloudflareApi({
+		endpoint: `/builds/triggers/${triggerUUID}`,
+		accountId,
+		apiToken,
+		responseSchema: V4Schema(BuildTrigger.partial().passthrough()),
+		options: {
+			method: 'PATCH',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(params),
+		},
+	})
+}
+
+export async function listBuildEnvironmentVariables({
+	accountId,
+	triggerUUID,
+	apiToken,
+}: {
+	accountId: string
+	triggerUUID: string
+	apiToken: string
+}) {
+	return fetchCloudflareApi({
+		endpoint: `/builds/triggers/${triggerUUID}/environment_variables`,
+		accountId,
+		apiToken,
+		responseSchema: V4Schema(BuildEnvironmentVariables),
+	})
+}
+
+/**
+ * Creates or updates build environment variables of a trigger. Variables that are not given
+ * are left unchanged.
+ */
+export async function updateBuildEnvironmentVariables({
+	accountId,
+	triggerUUID,
+	variables,
+	apiToken,
+}: {
+	accountId: string
+	triggerUUID: string
+	variables: UpdateBuildEnvironmentVariablesParams
+	apiToken: string
+}) {
+	return fetchCloudflareApi({
+		endpoint: `/builds/triggers/${triggerUUID}/environment_variables`,
+		accountId,
+		apiToken,
+		responseSchema: V4Schema(z.unknown()),
+		options: {
+			method: 'PATCH',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(variables),
+		},
+	})
+}
+
+export async function deleteBuildEnvironmentVariable({
+	accountId,
+	triggerUUID,
+	key,
+	apiToken,
+}: {
+	accountId: string
+	triggerUUID: string
+	key: string
+	apiToken: string
+}) {
+	await fetchCloudflareApiRaw({
+		endpoint: `/builds/triggers/${triggerUUID}/environment_variables/${encodeURIComponent(key)}`,
+		accountId,
+		apiToken,
+		options: { method: 'DELETE' },
+	})
 }
@@ -1,6 +1,9 @@
 import { Cloudflare } from 'cloudflare'
 import { env } from 'cloudflare:workers'
 
+import { McpError } from './mcp-error'
+
+import type { ContentfulStatusCode } from 'hono/utils/http-status'
 import type { z } from 'zod'
 
 export function getCloudflareClient(apiToken: string) {
@@ -38,6 +41,38 @@ export async function fetchCloudflareApi<T>({
 	responseSchema?: z.ZodType<T>
 	options?: RequestInit
 }): Promise<T> {
+	const response = await fetchCloudflareApiRaw({ endpoint, accountId, apiToken, options })
+
+	const data = await response.json()
+
+	// If a schema is provided, validate the response
+	if (responseSchema) {
+		return responseSchema.parse(data)
+	}
+
+	return data as T
+}
+
+/**
+ * Makes a request to the Cloudflare API without parsing the response body.
+ * Useful for endpoints that don't return a JSON envelope, e.g. R2 object contents.
+ * @param endpoint API endpoint path (without the base URL)
+ * @param accountId Cloudflare account ID
+ * @param apiToken Cloudflare API token
+ * @param options Additional fetch options
+ * @returns The raw fetch response
+ */
+export async function fetchCloudflareApiRaw({
+	endpoint,
+	accountId,
+	apiToken,
+	options = {},
+}: {
+	endpoint: string
+	accountId: string
+	apiToken: string
+	options?: RequestInit
+}): Promise<Response> {
 	const url = `https://api.cloudflare.com/client/v4/accounts/${accountId}${endpoint}`
 
 	// @ts-expect-error We don't have actual env in this package
@@ -60,15 +95,13 @@ export async function fetchCloudflareApi<T>({
 
 	if (!response.ok) {
 		const error = await response.text()
-		throw new Error(`Cloudflare API request failed: ${error}`)
+		const isClientError = response.status < 500
+		throw new McpError(
+			`Cloudflare API request failed: ${error}`,
+			isClientError ? (response.status as ContentfulStatusCode) : 502,
+			{ reportToSentry: !isClientError }
+		)
 	}
 
-	const data = await response.json()
-
-	// If a schema is provided, validate the response
-	if (responseSchema) {
-		return responseSchema.parse(data)
-	}
-
-	return data as T
+	return response
 }
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+
+import { assertReadOnlySql, isD1ReadOnlyRequest, splitSqlStatements } from './d1-read-only'
+import { McpError } from './mcp-error'
+
+describe('splitSqlStatements', () => {
+	it('splits statements on semicolons', () => {
+		expect(splitSqlStatements('SELECT 1; select 2;').map((s) => s.text)).toEqual([
+			'SELECT 1',
+			'select 2',
+		])
+	})
+
+	it('ignores semicolons and keywords in strings, quoted identifiers and comments', () => {
+		const statements = splitSqlStatements(`
+			-- DROP TABLE users;
+			SELECT 'a;DROP TABLE users' AS "x;y", [DELETE] /* ; DELETE */ FROM t
+		`)
+
+		expect(statements).toHaveLength(1)
+		expect(statements[0].tokens).toEqual(['SELECT', "''", 'AS', '""', ',', '""', 'FROM', 'T'])
+	})
+
+	it('handles escaped quotes', () => {
+		expect(splitSqlStatements(`SELECT 'it''s; fine'; SELECT 2`)).toHaveLength(2)
+	})
+})
+
+describe('assertReadOnlySql', () => {
+	it.each([
+		'SELECT * FROM users',
+		'select count(*) from users; select 1',
+		'EXPLAIN QUERY PLAN SELECT * FROM users',
+		'WITH recent AS (SELECT * FROM posts ORDER BY id DESC LIMIT 10) SELECT * FROM recent',
+		'PRAGMA table_info(users)',
+		'PRAGMA main.index_list("users")',
+		'PRAGMA user_version',
+		'PRAGMA main.foreign_keys',
+		'/* leading comment */ SELECT 1',
+	])('allows %s', (sql) => {
+		expect(() => assertReadOnlySql(sql)).not.toThrow()
+	})
+
+	it.each([
+		['DROP TABLE users', 'DROP statements are not allowed'],
+		['SELECT 1; DELETE FROM users', 'DELETE statements are not allowed'],
+		['WITH x AS (SELECT 1) DELETE FROM users', 'WITH ... DELETE statements are not allowed'],
+		['WITH "select" AS (SELECT 1) INSERT INTO t SELECT * FROM "select"', 'WITH ... INSERT'],
+		['PRAGMA foreign_keys = OFF', 'PRAGMA assignments are not allowed'],
+		['PRAGMA optimize', 'PRAGMA optimize is not a read-only PRAGMA'],
+		['PRAGMA user_version(5)', 'PRAGMA user_version can only be read'],
+		['PRAGMA foreign_keys(0)', 'PRAGMA foreign_keys can only be read'],
+		['PRAGMA main.schema_version(1)', 'PRAGMA schema_version can only be read'],
+		['PRAGMA application_id(1)', 'PRAGMA application_id can only be read'],
+		['ATTACH DATABASE x AS y', 'ATTACH statements are not allowed'],
+	])('rejects %s', (sql, message) => {
+		expect(() => assertReadOnlySql(sql)).toThrow(message)
+	})
+
+	it('throws an McpError with a 403 code', () => {
+		try {
+			assertReadOnlySql('UPDATE users SET admin = 1')
+			expect.unreachable()
+		} catch (error) {
+			expect(error).toBeInstanceOf(McpError)
+			expect((error as McpError).code).toBe(403)
+			expect((error as McpError).message).toContain(
+				'Rejected statement: UPDATE users SET admin = 1'
+			)
+		}
+	})
+
+	it('rejects empty queries', () => {
+		expect(() => assertReadOnlySql('-- nothing to see here')).toThrow('the query is empty')
+	})
+})
+
+describe('isD1ReadOnlyRequest', () => {
+	it('reads the read-only header', () => {
+		const request = (value?: string) =>
+			new Request('https://example.com/mcp', {
+				headers: value ? { 'X-MCP-D1-Read-Only': value } : {},
+			})
+
+		expect(isD1ReadOnlyRequest(request('true'))).toBe(true)
+		expect(isD1ReadOnlyRequest(request('1'))).toBe(true)
+		expect(isD1ReadOnlyRequest(request('false'))).toBe(false)
+		expect(isD1ReadOnlyRequest(request())).toBe(false)
+	})
+})
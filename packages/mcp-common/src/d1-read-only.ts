@@ -0,0 +1,197 @@
+import { McpError } from './mcp-error'
+
+/**
+ * Clients can set this header to `true` to only allow read-only D1 queries for the session,
+ * e.g. when handing the server to analysts
+ */
+export const D1_READ_ONLY_HEADER = 'X-MCP-D1-Read-Only'
+
+// Maximum number of rows returned per statement in read-only mode
+export const D1_READ_ONLY_MAX_ROWS = 1000
+
+// PRAGMAs that only read the database, see https://www.sqlite.org/pragma.html
+const READ_ONLY_PRAGMAS = new Set([
+	'application_id',
+	'collation_list',
+	'compile_options',
+	'data_version',
+	'database_list',
+	'encoding',
+	'foreign_key_check',
+	'foreign_key_list',
+	'foreign_keys',
+	'freelist_count',
+	'function_list',
+	'index_info',
+	'index_list',
+	'index_xinfo',
+	'integrity_check',
+	'page_count',
+	'page_size',
+	'quick_check',
+	'schema_version',
+	'table_info',
+	'table_list',
+	'table_xinfo',
+	'user_version',
+])
+
+// Read-only PRAGMAs that change the database when given a value, e.g. PRAGMA user_version = 5 or
+// PRAGMA user_version(5)
+const SETTABLE_PRAGMAS = new Set([
+	'application_id',
+	'foreign_keys',
+	'schema_version',
+	'user_version',
+])
+
+type SqlStatement = {
+	text: string
+	// Keywords and identifiers in upper case, and punctuation. Strings and quoted identifiers are
+	// replaced with placeholders, and comments are dropped.
+	tokens: string[]
+}
+
+/**
+ * Splits SQL into statements, ignoring semicolons and keywords inside of strings,
+ * quoted identifiers and comments
+ */
+export function splitSqlStatements(sql: string): SqlStatement[] {
+	const statements: SqlStatement[] = []
+	let start = 0
+	let tokens: string[] = []
+
+	const endStatement = (end: number) => {
+		const text = sql.slice(start, end).trim()
+		if (tokens.length > 0) {
+			statements.push({ text, tokens })
+		}
+		tokens = []
+		start = end + 1
+	}
+
+	let i = 0
+	while (i < sql.length) {
+		const char = sql[i]
+		const next = sql[i + 1]
+
+		if (char === '-' && next === '-') {
+			const end = sql.indexOf('\n', i)
+			i = end === -1 ? sql.length : end + 1
+		} else if (char === '/' && next === '*') {
+			const end = sql.indexOf('*/', i + 2)
+			i = end === -1 ? sql.length : end + 2
+		} else if (char === "'" || char === '"' || char === '`' || char === '[') {
+			const quote = char === '[' ? ']' : char
+			let end = i + 1
+			// Quotes are escaped by doubling them
+			while (end < sql.length && (sql[end] !== quote || sql[end + 1] === quote)) {
+				end += sql[end] === quote ? 2 : 1
+			}
+			// Keep a placeholder, so quoted identifiers can't be mistaken for keywords
+			tokens.push(char === "'" ? "''" : '""')
+			i = end + 1
+		} else if (char === ';') {
+			endStatement(i)
+			i++
+		} else if (/[A-Za-z_]/.test(char)) {
+			let end = i + 1
+			while (end < sql.length && /[A-Za-z0-9_$]/.test(sql[end])) end++
+			tokens.push(sql.slice(i, end).toUpperCase())
+			i = end
+		} else if (/\s/.test(char)) {
+			i++
+		} else {
+			tokens.push(char)
+			i++
+		}
+	}
+	endStatement(sql.length)
+
+	return statements
+}
+
+/**
+ * Returns why a statement isn't read-only, or undefined if it is
+ */
+function getReadOnlyViolation({ tokens }: SqlStatement): string | undefined {
+	const [keyword] = tokens
+
+	if (keyword === 'SELECT' || keyword === 'EXPLAIN') {
+		return
+	}
+
+	if (keyword === 'WITH') {
+		// The CTEs are parenthesized, so the first keyword outside of parentheses is the actual statement
+		let depth = 0
+		for (const token of tokens) {
+			if (token === '(') depth++
+			else if (token === ')') depth--
+			else if (depth === 0 && ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'REPLACE'].includes(token)) {
+				return token === 'SELECT' ? undefined : `WITH ... ${token} statements are not allowed`
+			}
+		}
+		return 'WITH statements must end in a SELECT'
+	}
+
+	if (keyword === 'PRAGMA') {
+		// PRAGMA [schema.]name [= value | (argument)]
+		const name = tokens[2] === '.' ? tokens[3] : tokens[1]
+		if (!name || !READ_ONLY_PRAGMAS.has(name.toLowerCase())) {
+			return `PRAGMA ${name?.toLowerCase() ?? ''} is not a read-only PRAGMA`
+		}
+		if (tokens.includes('=')) {
+			return 'PRAGMA assignments are not allowed'
+		}
+		if (SETTABLE_PRAGMAS.has(name.toLowerCase()) && tokens.includes('(')) {
+			return `PRAGMA ${name.toLowerCase()} can only be read, without an argument`
+		}
+		return
+	}
+
+	return `${keyword} statements are not allowed`
+}
+
+/**
+ * Throws if the SQL contains anything other than SELECT, EXPLAIN or read-only PRAGMA statements
+ */
+export function assertReadOnlySql(sql: string) {
+	const statements = splitSqlStatements(sql)
+	if (statements.length === 0) {
+		throw new McpError('Read-only mode: the query is empty', 400)
+	}
+
+	for (const statement of statements) {
+		const violation = getReadOnlyViolation(statement)
+		if (violation) {
+			throw new McpError(
+				`Read-only mode: ${violation}. Only SELECT, EXPLAIN and read-only PRAGMA statements can be run. Rejected statement: ${statement.text}`,
+				403
+			)
+		}
+	}
+}
+
+/**
+ * Whether the request asked for read-only D1 queries through the D1_READ_ONLY_HEADER header
+ */
+export function isD1ReadOnlyRequest(req: Request) {
+	const value = req.headers.get(D1_READ_ONLY_HEADER)?.toLowerCase()
+	return value === 'true' || value === '1'
+}
+
+/**
+ * Wraps an MCP handler to pass the D1_READ_ONLY_HEADER header to the agent as the `d1ReadOnly` prop.
+ * Props are updated on every request, so the header has to be sent with every request.
+ */
+export function withD1ReadOnlyHeader<
+	Env,
+	T extends { fetch: (req: Request, env: Env, ctx: ExecutionContext) => Promise<Response> },
+>(handler: T) {
+	return {
+		fetch: (req: Request, env: Env, ctx: ExecutionContext) => {
+			ctx.props = { ...ctx.props, d1ReadOnly: isD1ReadOnlyRequest(req) }
+			return handler.fetch(req, env, ctx)
+		},
+	}
+}
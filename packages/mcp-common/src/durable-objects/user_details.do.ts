@@ -2,8 +2,12 @@ import { DurableObject } from 'cloudflare:workers'
 import { z } from 'zod'
 
 import { DurableKVStore } from '../durable-kv-store'
+import { zSavedObservabilityQuery } from '../types/workers-logs.types'
 
 import type { DurableKVStorageKeys } from '../durable-kv-store'
+import type { SavedObservabilityQuery } from '../types/workers-logs.types'
+
+export const MAX_SAVED_OBSERVABILITY_QUERIES = 50
 
 // Durable Object for persisting UserDetails in DO storage across sessions based off the userId
 export class UserDetails extends DurableObject {
@@ -25,6 +29,35 @@ export class UserDetails extends DurableObject {
 	public async setActiveAccountId(activeAccountId: string) {
 		this.kv.put('active_account_id', activeAccountId)
 	}
+
+	public async listObservabilityQueries(): Promise<SavedObservabilityQuery[]> {
+		return Object.values(await this.kv.get('observability_queries', {}))
+	}
+
+	/**
+	 * Saves a query, replacing any saved query with the same name
+	 */
+	public async saveObservabilityQuery(query: SavedObservabilityQuery) {
+		const queries = await this.kv.get('observability_queries', {})
+		if (
+			!(query.name in queries) &&
+			Object.keys(queries).length >= MAX_SAVED_OBSERVABILITY_QUERIES
+		) {
+			throw new Error(
+				`You can save up to ${MAX_SAVED_OBSERVABILITY_QUERIES} queries. Delete a query before saving another.`
+			)
+		}
+		this.kv.put('observability_queries', { ...queries, [query.name]: query })
+	}
+
+	/**
+	 * Deletes a saved query, and returns whether it existed
+	 */
+	public async deleteObservabilityQuery(name: string): Promise<boolean> {
+		const { [name]: deleted, ...queries } = await this.kv.get('observability_queries', {})
+		this.kv.put('observability_queries', queries)
+		return deleted !== undefined
+	}
 }
 
 /**
@@ -33,6 +66,7 @@ export class UserDetails extends DurableObject {
 type UserDetailsKeys = typeof UserDetailsKeys
 const UserDetailsKeys = {
 	active_account_id: z.string(),
+	observability_queries: z.record(z.string(), zSavedObservabilityQuery),
 } as const satisfies DurableKVStorageKeys
 
 /** Get the UserDetails instance */
@@ -23,3 +23,42 @@ export class McpError extends Error {
 		this.cause = opts.cause
 	}
 }
+
+/**
+ * Checks for errors of the Cloudflare API client by their shape. The client's APIError class isn't
+ * imported, as the client's entry point pulls in Node shims that don't load in every runtime.
+ */
+function isCloudflareApiError(
+	error: unknown
+): error is Error & { status: number | undefined; errors: unknown[] } {
+	return (
+		error instanceof Error &&
+		'status' in error &&
+		(typeof error.status === 'number' || error.status === undefined) &&
+		'errors' in error &&
+		Array.isArray(error.errors)
+	)
+}
+
+/**
+ * Converts anything thrown while handling a tool call to an McpError.
+ * Cloudflare API client errors keep their status code, server errors become 502s,
+ * and anything else is an unexpected 500 that gets reported to Sentry.
+ */
+export function toMcpError(error: unknown): McpError {
+	if (error instanceof McpError) {
+		return error
+	}
+	if (isCloudflareApiError(error)) {
+		const status = error.status
+		const isClientError = status !== undefined && status >= 400 && status < 500
+		return new McpError(error.message, isClientError ? (status as ContentfulStatusCode) : 502, {
+			reportToSentry: !isClientError,
+			cause: error,
+		})
+	}
+	return new McpError(error instanceof Error ? error.message : String(error), 500, {
+		reportToSentry: true,
+		cause: error instanceof Error ? error : undefined,
+	})
+}
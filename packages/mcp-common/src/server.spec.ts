@@ -0,0 +1,104 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { McpError } from './mcp-error'
+import { CloudflareMCPServer } from './server'
+
+describe('CloudflareMCPServer', () => {
+	let wae: { writeDataPoint: ReturnType<typeof vi.fn> }
+	let server: CloudflareMCPServer
+
+	beforeEach(() => {
+		wae = { writeDataPoint: vi.fn() }
+		server = new CloudflareMCPServer({
+			userId: 'mock-user-id',
+			wae,
+			serverInfo: { name: 'mock-server', version: '1.0.0' },
+		})
+		vi.spyOn(server, 'recordError')
+	})
+
+	// Connects a client once the tools are registered, which can't be done after connecting
+	const connect = async () => {
+		const client = new Client({ name: 'mock-client', version: '1.0.0' })
+		const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+		await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+		return client
+	}
+
+	// The data point of the last tool call, whose first double is the error code
+	const lastToolCall = () =>
+		wae.writeDataPoint.mock.calls
+			.map(([dataPoint]) => dataPoint)
+			.filter((dataPoint) => dataPoint.indexes[0] === 'tool_call')
+			.at(-1)
+
+	it('returns the results of tools and records the call without an error code', async () => {
+		server.tool('mock_tool', async () => ({ content: [{ type: 'text', text: 'ok' }] }))
+
+		const client = await connect()
+		const result = await client.callTool({ name: 'mock_tool' })
+
+		expect(result).toEqual({ content: [{ type: 'text', text: 'ok' }] })
+		expect(lastToolCall()).toMatchObject({
+			blobs: ['mock-server', '1.0.0', 'mock-user-id', 'mock_tool'],
+			doubles: [undefined],
+		})
+	})
+
+	it('returns an error result when a tool throws', async () => {
+		server.tool('mock_tool', () => {
+			throw new McpError('Not found', 404)
+		})
+
+		const client = await connect()
+		const result = await client.callTool({ name: 'mock_tool' })
+
+		expect(result).toEqual({ content: [{ type: 'text', text: 'Not found' }], isError: true })
+		expect(lastToolCall()).toMatchObject({ doubles: [404] })
+	})
+
+	it('returns an error result when a tool rejects', async () => {
+		server.tool('mock_tool', async () => {
+			throw new McpError('Too many requests', 429)
+		})
+
+		const client = await connect()
+		const result = await client.callTool({ name: 'mock_tool' })
+
+		expect(result).toEqual({
+			content: [{ type: 'text', text: 'Too many requests' }],
+			isError: true,
+		})
+		expect(lastToolCall()).toMatchObject({ doubles: [429] })
+	})
+
+	it('records errors that are reported to Sentry', async () => {
+		const error = new McpError('Upstream failed', 502, { reportToSentry: true })
+		server.tool('mock_tool', async () => {
+			throw error
+		})
+
+		const client = await connect()
+		await client.callTool({ name: 'mock_tool' })
+
+		expect(server.recordError).toHaveBeenCalledWith(error)
+	})
+
+	it('does not record other errors', async () => {
+		server.tool('client_error', async () => {
+			throw new McpError('Not found', 404)
+		})
+		server.tool('unexpected_error', async () => {
+			throw new Error('Unexpected')
+		})
+
+		const client = await connect()
+		await client.callTool({ name: 'client_error' })
+		await client.callTool({ name: 'unexpected_error' })
+
+		expect(server.recordError).not.toHaveBeenCalled()
+		expect(lastToolCall()).toMatchObject({ doubles: [-1] })
+	})
+})
@@ -8,9 +8,28 @@ import { McpError } from './mcp-error'
 
 import type { ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js'
 import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
-import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js'
+import type {
+	CallToolResult,
+	ServerNotification,
+	ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js'
 import type { SentryClient } from './sentry'
 
+/**
+ * The error envelope returned to the client when a tool call throws
+ */
+function toolErrorResult(e: unknown): CallToolResult {
+	return {
+		content: [
+			{
+				type: 'text',
+				text: e instanceof Error ? e.message : String(e),
+			},
+		],
+		isError: true,
+	}
+}
+
 export class CloudflareMCPServer extends McpServer {
 	private metrics
 	private sentry?: SentryClient
@@ -56,12 +75,12 @@ export class CloudflareMCPServer extends McpServer {
 		this.tool = (name: string, ...rest: unknown[]): ReturnType<typeof this.tool> => {
 			const toolCb = rest[rest.length - 1] as ToolCallback<ZodRawShape | undefined>
 			const replacementToolCb: ToolCallback<ZodRawShape | undefined> = (arg1, arg2) => {
-				const toolCall = toolCb(
-					arg1 as { [x: string]: any } & RequestHandlerExtra<ServerRequest, ServerNotification>,
-					arg2
-				)
 				// There are 4 cases to track:
 				try {
+					const toolCall = toolCb(
+						arg1 as { [x: string]: any } & RequestHandlerExtra<ServerRequest, ServerNotification>,
+						arg2
+					)
 					if (isPromise(toolCall)) {
 						return toolCall
 							.then((r: any) => {
@@ -77,7 +96,7 @@ export class CloudflareMCPServer extends McpServer {
 							.catch((e: unknown) => {
 								// promise throws
 								this.trackToolCallError(e, name, userId)
-								throw e
+								return toolErrorResult(e)
 							})
 					} else {
 						// non-promise succeeds
@@ -92,7 +111,7 @@ export class CloudflareMCPServer extends McpServer {
 				} catch (e: unknown) {
 					// non-promise throws
 					this.trackToolCallError(e, name, userId)
-					throw e
+					return toolErrorResult(e)
 				}
 			}
 			rest[rest.length - 1] = replacementToolCb
@@ -107,6 +126,9 @@ export class CloudflareMCPServer extends McpServer {
 		let errorCode = -1
 		if (e instanceof McpError) {
 			errorCode = e.code
+			if (e.reportToSentry) {
+				this.recordError(e)
+			}
 		}
 		this.metrics.logEvent(
 			new ToolCall({
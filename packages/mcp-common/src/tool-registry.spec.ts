@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+
+import { createMockAgent } from '../tests/utils/mock-agent'
+import { MISSING_ACCOUNT_ID_MESSAGE } from './constants'
+import { McpError } from './mcp-error'
+import { registerTool } from './tool-registry'
+
+// Errors of the Cloudflare API client have a status and the errors of the response
+const apiError = (status: number, message: string) =>
+	Object.assign(new Error(message), { status, errors: [] })
+
+describe('registerTool', () => {
+	it('calls the handler with the active account and API token', async () => {
+		const { agent, callTool, tools } = createMockAgent()
+		const handler = vi.fn(async ({ name }: { name: string }) => ({ hello: name }))
+		registerTool(agent, {
+			name: 'mock_tool',
+			description: 'Mock tool',
+			params: { name: z.string() },
+			title: 'Mock tool',
+			annotations: { readOnlyHint: true },
+			handler,
+		})
+
+		const result = await callTool('mock_tool', { name: 'world' })
+
+		expect(handler).toHaveBeenCalledWith(
+			{ name: 'world', accountId: 'mock-account-id', apiToken: 'mock-api-token' },
+			expect.objectContaining({ requestId: 1 })
+		)
+		expect(result).toEqual({ content: [{ type: 'text', text: '{"hello":"world"}' }] })
+		expect(tools.get('mock_tool')?.annotations).toEqual({
+			title: 'Mock tool',
+			annotations: { readOnlyHint: true },
+		})
+	})
+
+	it('returns tool results as they are', async () => {
+		const { agent, callTool } = createMockAgent()
+		const toolResult = { content: [{ type: 'text' as const, text: 'plain text' }] }
+		registerTool(agent, {
+			name: 'mock_tool',
+			description: 'Mock tool',
+			params: {},
+			handler: async () => toolResult,
+		})
+
+		expect(await callTool('mock_tool')).toBe(toolResult)
+	})
+
+	it('fails without an active account', async () => {
+		const { agent, callTool } = createMockAgent({ accountId: null })
+		const handler = vi.fn()
+		registerTool(agent, { name: 'mock_tool', description: 'Mock tool', params: {}, handler })
+
+		await expect(callTool('mock_tool')).rejects.toMatchObject({
+			message: MISSING_ACCOUNT_ID_MESSAGE,
+			code: 400,
+		})
+		expect(handler).not.toHaveBeenCalled()
+	})
+
+	it.each([
+		['an McpError', new McpError('Not allowed', 403), 403, false],
+		['an API client error', apiError(404, 'Not found'), 404, false],
+		['an API server error', apiError(503, 'Unavailable'), 502, true],
+		['an unexpected error', new Error('Boom'), 500, true],
+	])('prefixes %s with the tool name', async (_, error, code, reportToSentry) => {
+		const { agent, callTool } = createMockAgent()
+		registerTool(agent, {
+			name: 'mock_tool',
+			description: 'Mock tool',
+			params: {},
+			handler: async () => {
+				throw error
+			},
+		})
+
+		const thrown = await callTool('mock_tool').catch((e) => e)
+
+		expect(thrown).toBeInstanceOf(McpError)
+		expect(thrown.message).toBe(`mock_tool failed: ${error.message}`)
+		expect(thrown.code).toBe(code)
+		expect(thrown.reportToSentry).toBe(reportToSentry)
+	})
+})
@@ -0,0 +1,78 @@
+import { MISSING_ACCOUNT_ID_MESSAGE } from './constants'
+import { McpError, toMcpError } from './mcp-error'
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import type { z, ZodRawShape, ZodTypeAny } from 'zod'
+import type { CloudflareMcpAgent } from './types/cloudflare-mcp-agent.types'
+import type { ToolDefinition } from './types/tools.types'
+
+function isCallToolResult(result: unknown): result is CallToolResult {
+	return (
+		typeof result === 'object' &&
+		result !== null &&
+		Array.isArray((result as CallToolResult).content)
+	)
+}
+
+/**
+ * Registers a tool that acts on the active account.
+ *
+ * The handler is called with the active account ID and the API token of the session. If there is no
+ * active account, or the handler throws, the tool call fails with an McpError. CloudflareMCPServer
+ * records its code in the tool call metrics, and returns it to the client as an `isError` result.
+ */
+export function registerTool<Shape extends ZodRawShape>(
+	agent: CloudflareMcpAgent,
+	{
+		name,
+		description,
+		params,
+		title,
+		annotations,
+		handler,
+	}: ToolDefinition<z.objectOutputType<Shape, ZodTypeAny>> & { params: Shape }
+) {
+	// The params shape is widened, as the server can't infer the callback arguments of a generic shape
+	const paramsSchema: ZodRawShape = params
+	agent.server.tool(
+		name,
+		description,
+		paramsSchema,
+		{ title, annotations },
+		async (args, extra) => {
+			const accountId = await agent.getActiveAccountId()
+			if (!accountId) {
+				throw new McpError(MISSING_ACCOUNT_ID_MESSAGE, 400)
+			}
+
+			try {
+				const result = await handler(
+					{
+						...(args as z.objectOutputType<Shape, ZodTypeAny>),
+						accountId,
+						apiToken: agent.props.accessToken,
+					},
+					extra
+				)
+				if (isCallToolResult(result)) {
+					return result
+				}
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify(result),
+						},
+					],
+				}
+			} catch (error) {
+				const mcpError = toMcpError(error)
+				throw new McpError(`${name} failed: ${mcpError.message}`, mcpError.code, {
+					reportToSentry: mcpError.reportToSentry,
+					internalMessage: mcpError.internalMessage,
+					cause: mcpError,
+				})
+			}
+		}
+	)
+}
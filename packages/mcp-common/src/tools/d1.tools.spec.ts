@@ -0,0 +1,417 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { mockCloudflareClient } from '../../tests/utils/cloudflare-mock'
+import { createMockAgent } from '../../tests/utils/mock-agent'
+import { fetchCloudflareApi, getCloudflareClient } from '../cloudflare-api'
+import { registerD1Tools } from './d1.tools'
+
+vi.mock('../cloudflare-api', () => ({
+	getCloudflareClient: vi.fn(),
+	fetchCloudflareApi: vi.fn(),
+}))
+
+const queryResult = (...statements: unknown[][]) => ({
+	result: statements.map((results) => ({ results, success: true })),
+})
+
+describe('D1 tools', () => {
+	let client: ReturnType<typeof mockCloudflareClient>
+	let mock: ReturnType<typeof createMockAgent>
+
+	beforeEach(() => {
+		client = mockCloudflareClient(getCloudflareClient)
+
+		mock = createMockAgent()
+		registerD1Tools(mock.agent)
+	})
+
+	describe('d1_database_schema', () => {
+		beforeEach(() => {
+			client.d1.database.query.mockResolvedValueOnce(
+				queryResult(
+					[
+						{ table: 'posts', column: 'id', type: 'INTEGER', not_null: 0, default: null, pk: 1 },
+						{
+							table: 'posts',
+							column: 'user_id',
+							type: 'INTEGER',
+							not_null: 1,
+							default: null,
+							pk: 0,
+						},
+						{ table: 'users', column: 'id', type: 'INTEGER', not_null: 0, default: null, pk: 1 },
+					],
+					[{ table: 'users', index: 'users_email', unique: 1, origin: 'c', columns: 'email' }],
+					[
+						{
+							table: 'posts',
+							column: 'user_id',
+							references_table: 'users',
+							references_column: 'id',
+							on_update: 'NO ACTION',
+							on_delete: 'CASCADE',
+						},
+					]
+				)
+			)
+		})
+
+		it('returns columns, indexes and foreign keys as TSV sections', async () => {
+			const result = await mock.callTool('d1_database_schema', { database_id: 'mock-db' })
+
+			expect((result.content[0] as { text: string }).text).toMatchInlineSnapshot(`
+				"## Columns
+				table	column	type	not_null	default	pk
+				posts	id	INTEGER	0		1
+				posts	user_id	INTEGER	1		0
+				users	id	INTEGER	0		1
+
+				## Indexes
+				table	index	unique	origin	columns
+				users	users_email	1	c	email
+
+				## Foreign keys
+				table	column	references_table	references_column	on_update	on_delete
+				posts	user_id	users	id	NO ACTION	CASCADE"
+			`)
+		})
+
+		it('filters the schema to a single table', async () => {
+			const result = await mock.callTool('d1_database_schema', {
+				database_id: 'mock-db',
+				table: 'users',
+			})
+
+			const text = (result.content[0] as { text: string }).text
+			expect(text).not.toContain('posts')
+			expect(text).toContain('## Foreign keys\n(none)')
+		})
+	})
+
+	describe('d1_database_migrations_apply', () => {
+		const migrations = [
+			{ name: '0001_create_users.sql', sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY);' },
+			{ name: '0002_create_posts.sql', sql: 'CREATE TABLE posts (id INTEGER PRIMARY KEY);' },
+		]
+
+		beforeEach(() => {
+			client.d1.database.query
+				// the migrations table exists
+				.mockResolvedValueOnce(queryResult([{ name: 'd1_migrations' }]))
+				// and the first migration has been applied
+				.mockResolvedValueOnce(queryResult([{ name: '0001_create_users.sql' }]))
+		})
+
+		it('reports pending migrations without applying them in dry run mode', async () => {
+			const result = await mock.callTool('d1_database_migrations_apply', {
+				database_id: 'mock-db',
+				migrations,
+				dry_run: true,
+			})
+
+			expect(JSON.parse((result.content[0] as { text: string }).text)).toEqual({
+				dry_run: true,
+				already_applied: 1,
+				pending: ['0002_create_posts.sql'],
+				applied: [],
+			})
+			expect(client.d1.database.query).toHaveBeenCalledTimes(2)
+		})
+
+		it('applies pending migrations and records them in the migrations table', async () => {
+			const result = await mock.callTool('d1_database_migrations_apply', {
+				database_id: 'mock-db',
+				migrations,
+			})
+
+			expect(JSON.parse((result.content[0] as { text: string }).text)).toMatchObject({
+				applied: ['0002_create_posts.sql'],
+			})
+			const { sql } = client.d1.database.query.mock.calls[2][1]
+			expect(sql).toContain('CREATE TABLE IF NOT EXISTS d1_migrations')
+			expect(sql).toContain('CREATE TABLE posts (id INTEGER PRIMARY KEY);\n')
+			expect(sql).toContain(`INSERT INTO d1_migrations (name) VALUES ('0002_create_posts.sql')`)
+		})
+
+		it('rejects migrations table names that are not identifiers', async () => {
+			await expect(
+				mock.callTool('d1_database_migrations_apply', {
+					database_id: 'mock-db',
+					migrations,
+					migrations_table: 'd1_migrations; DROP TABLE users',
+				})
+			).rejects.toThrow()
+		})
+	})
+
+	it('annotates export, import and restore as destructive', () => {
+		for (const name of [
+			'd1_database_export',
+			'd1_database_import',
+			'd1_database_time_travel_restore',
+		]) {
+			expect(mock.tools.get(name)?.annotations?.annotations).toEqual({
+				readOnlyHint: false,
+				destructiveHint: true,
+			})
+		}
+	})
+
+	describe('d1_database_export', () => {
+		afterEach(() => {
+			vi.useRealTimers()
+		})
+
+		it('polls the export until the dump is ready', async () => {
+			vi.useFakeTimers()
+			client.d1.database.export.mockResolvedValueOnce({ at_bookmark: 'in-progress', success: true })
+
+			const resultPromise = mock.callTool('d1_database_export', {
+				database_id: 'mock-db',
+				tables: ['users'],
+			})
+			await vi.runAllTimersAsync()
+			const result = await resultPromise
+
+			expect(JSON.parse((result.content[0] as { text: string }).text)).toEqual({
+				at_bookmark: 'mock-bookmark',
+				filename: 'mock-db.sql',
+				signed_url: 'https://example.com/mock-db.sql',
+			})
+			expect(client.d1.database.export).toHaveBeenCalledTimes(2)
+			expect(client.d1.database.export).toHaveBeenLastCalledWith('mock-db', {
+				account_id: 'mock-account-id',
+				output_format: 'polling',
+				current_bookmark: 'in-progress',
+				dump_options: { tables: ['users'], no_data: false, no_schema: false },
+			})
+		})
+
+		it('reports failed exports', async () => {
+			client.d1.database.export.mockResolvedValueOnce({
+				status: 'error',
+				error: 'database is too large',
+				success: false,
+			})
+
+			await expect(mock.callTool('d1_database_export', { database_id: 'mock-db' })).rejects.toThrow(
+				'd1_database_export failed: D1 export failed: database is too large'
+			)
+		})
+
+		it('fails right away on client errors while polling', async () => {
+			client.d1.database.export.mockRejectedValueOnce(
+				Object.assign(new Error('400 invalid bookmark'), { status: 400, errors: [] })
+			)
+
+			await expect(mock.callTool('d1_database_export', { database_id: 'mock-db' })).rejects.toThrow(
+				'd1_database_export failed: 400 invalid bookmark'
+			)
+			expect(client.d1.database.export).toHaveBeenCalledOnce()
+		})
+
+		it('reports the last server error when the export does not finish in time', async () => {
+			vi.useFakeTimers()
+			client.d1.database.export.mockRejectedValue(
+				Object.assign(new Error('503 unavailable'), { status: 503, errors: [] })
+			)
+
+			const resultPromise = mock.callTool('d1_database_export', { database_id: 'mock-db' })
+			const assertion = expect(resultPromise).rejects.toThrow(
+				'D1 export failed: it did not finish within 120 seconds, last error: 503 unavailable'
+			)
+			await vi.runAllTimersAsync()
+			await assertion
+		})
+	})
+
+	describe('d1_database_import', () => {
+		const sql = 'INSERT INTO users (id) VALUES (1);'
+
+		afterEach(() => {
+			vi.restoreAllMocks()
+		})
+
+		it('uploads the SQL file and ingests it', async () => {
+			const digest = await crypto.subtle.digest('MD5', new TextEncoder().encode(sql))
+			const expectedEtag = [...new Uint8Array(digest)]
+				.map((b) => b.toString(16).padStart(2, '0'))
+				.join('')
+			const fetchSpy = vi
+				.spyOn(globalThis, 'fetch')
+				.mockResolvedValue(new Response(null, { headers: { ETag: `"${expectedEtag}"` } }))
+			client.d1.database.import.mockResolvedValueOnce({
+				upload_url: 'https://example.com/upload',
+				filename: 'mock-upload.sql',
+				success: true,
+			})
+
+			const result = await mock.callTool('d1_database_import', { database_id: 'mock-db', sql })
+
+			expect(JSON.parse((result.content[0] as { text: string }).text)).toEqual({
+				num_queries: 1,
+				final_bookmark: 'mock-final-bookmark',
+			})
+			expect(fetchSpy).toHaveBeenCalledWith('https://example.com/upload', {
+				method: 'PUT',
+				body: sql,
+			})
+			expect(client.d1.database.import).toHaveBeenLastCalledWith('mock-db', {
+				account_id: 'mock-account-id',
+				action: 'ingest',
+				etag: expectedEtag,
+				filename: 'mock-upload.sql',
+			})
+		})
+
+		it('fails when the upload checksum does not match', async () => {
+			vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+				new Response(null, { headers: { ETag: '"not-the-md5-of-the-file"' } })
+			)
+			client.d1.database.import.mockResolvedValueOnce({
+				upload_url: 'https://example.com/upload',
+				filename: 'mock-upload.sql',
+				success: true,
+			})
+
+			await expect(
+				mock.callTool('d1_database_import', { database_id: 'mock-db', sql })
+			).rejects.toThrow('uploading the SQL file failed')
+			expect(client.d1.database.import).toHaveBeenCalledTimes(1)
+		})
+	})
+
+	describe('d1_database_time_travel_restore', () => {
+		beforeEach(() => {
+			vi.mocked(fetchCloudflareApi).mockReset()
+		})
+
+		it('requires exactly one of bookmark or timestamp', async () => {
+			await expect(
+				mock.callTool('d1_database_time_travel_restore', {
+					database_id: 'mock-db',
+					bookmark: 'mock-bookmark',
+					timestamp: '2025-01-01T00:00:00Z',
+				})
+			).rejects.toMatchObject({
+				message:
+					'd1_database_time_travel_restore failed: Pass exactly one of bookmark or timestamp',
+				code: 400,
+			})
+			expect(fetchCloudflareApi).not.toHaveBeenCalled()
+		})
+
+		it('restores the database to a bookmark', async () => {
+			vi.mocked(fetchCloudflareApi).mockResolvedValueOnce({
+				result: { bookmark: 'mock-bookmark', previous_bookmark: 'mock-previous-bookmark' },
+				success: true,
+				errors: [],
+				messages: [],
+			})
+
+			const result = await mock.callTool('d1_database_time_travel_restore', {
+				database_id: 'mock-db',
+				bookmark: 'mock-bookmark',
+			})
+
+			expect(JSON.parse((result.content[0] as { text: string }).text)).toEqual({
+				bookmark: 'mock-bookmark',
+				previous_bookmark: 'mock-previous-bookmark',
+			})
+			expect(fetchCloudflareApi).toHaveBeenCalledWith(
+				expect.objectContaining({
+					endpoint: '/d1/database/mock-db/time_travel/restore?bookmark=mock-bookmark',
+					options: { method: 'POST' },
+				})
+			)
+		})
+	})
+
+	describe('d1_database_query', () => {
+		const rows = (count: number) => Array.from({ length: count }, (_, id) => ({ id }))
+
+		it('runs any SQL outside of read-only mode', async () => {
+			await mock.callTool('d1_database_query', { database_id: 'mock-db', sql: 'DROP TABLE users' })
+
+			expect(client.d1.database.query).toHaveBeenCalledOnce()
+		})
+
+		it('rejects writes in read-only mode, enabled through the header', async () => {
+			mock = createMockAgent({ d1ReadOnly: true })
+			registerD1Tools(mock.agent)
+
+			await expect(
+				mock.callTool('d1_database_query', { database_id: 'mock-db', sql: 'DROP TABLE users' })
+			).rejects.toThrow('Read-only mode: DROP statements are not allowed')
+			expect(client.d1.database.query).not.toHaveBeenCalled()
+		})
+
+		it('stays in read-only mode once enabled for the session', async () => {
+			await mock.callTool('d1_read_only_mode_enable')
+
+			await expect(
+				mock.callTool('d1_database_query', { database_id: 'mock-db', sql: 'DELETE FROM users' })
+			).rejects.toThrow('Read-only mode')
+		})
+
+		it('caps the number of rows returned in read-only mode', async () => {
+			mock = createMockAgent({ d1ReadOnly: true })
+			registerD1Tools(mock.agent)
+			client.d1.database.query.mockResolvedValueOnce(queryResult(rows(1500), rows(10)))
+
+			const result = await mock.callTool('d1_database_query', {
+				database_id: 'mock-db',
+				sql: 'SELECT * FROM events; SELECT * FROM users',
+				max_rows: 5000,
+			})
+
+			const [statements, ...notices] = result.content as Array<{ text: string }>
+			const [events, users] = JSON.parse(statements.text)
+			expect(events.results).toHaveLength(1000)
+			expect(users.results).toHaveLength(10)
+			expect(notices.map((notice) => notice.text)).toEqual([
+				'The results of statement 1 were truncated to 1000 of 1500 rows. Add a LIMIT clause or narrow down the query to see the other rows.',
+			])
+		})
+
+		it('caps the number of rows when max_rows is set', async () => {
+			client.d1.database.query.mockResolvedValueOnce(queryResult(rows(20)))
+
+			const result = await mock.callTool('d1_database_query', {
+				database_id: 'mock-db',
+				sql: 'SELECT * FROM users',
+				max_rows: 5,
+			})
+
+			expect(JSON.parse((result.content[0] as { text: string }).text)[0].results).toEqual(rows(5))
+			expect(result.content).toHaveLength(2)
+		})
+	})
+
+	describe('read-only mode', () => {
+		beforeEach(() => {
+			vi.mocked(fetchCloudflareApi).mockClear()
+			mock = createMockAgent({ d1ReadOnly: true })
+			registerD1Tools(mock.agent)
+		})
+
+		it.each([
+			['d1_database_delete', { database_id: 'mock-db' }],
+			['d1_database_import', { database_id: 'mock-db', sql: 'DELETE FROM users' }],
+			['d1_database_time_travel_restore', { database_id: 'mock-db', bookmark: 'mock-bookmark' }],
+			[
+				'd1_database_migrations_apply',
+				{
+					database_id: 'mock-db',
+					migrations: [{ name: '0001_init.sql', sql: 'DROP TABLE users' }],
+				},
+			],
+		])('rejects %s', async (name, args) => {
+			await expect(mock.callTool(name, args)).rejects.toThrow(
+				`Read-only mode: ${name} changes D1 databases`
+			)
+			expect(client.d1.database.query).not.toHaveBeenCalled()
+			expect(fetchCloudflareApi).not.toHaveBeenCalled()
+		})
+	})
+})
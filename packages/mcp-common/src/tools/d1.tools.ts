@@ -1,246 +1,475 @@
 import { z } from 'zod'
 
+import {
+	applyD1Migration,
+	exportD1Database,
+	getD1DatabaseSchema,
+	getD1TimeTravelBookmark,
+	importD1Database,
+	listAppliedD1Migrations,
+	restoreD1Database,
+} from '../api/d1.api'
 import { getCloudflareClient } from '../cloudflare-api'
-import { MISSING_ACCOUNT_ID_RESPONSE } from '../constants'
+import { assertReadOnlySql, D1_READ_ONLY_MAX_ROWS } from '../d1-read-only'
+import { fmt } from '../format'
+import { McpError, toMcpError } from '../mcp-error'
+import { registerTool } from '../tool-registry'
 import { type CloudflareMcpAgent } from '../types/cloudflare-mcp-agent.types'
 import {
 	D1DatabaseNameParam,
 	D1DatabasePrimaryLocationHintParam,
+	D1DatabaseQueryMaxRowsParam,
 	D1DatabaseQueryParamsParam,
 	D1DatabaseQuerySqlParam,
+	D1DatabaseSchemaTableParam,
+	D1ExportNoDataParam,
+	D1ExportNoSchemaParam,
+	D1ExportTablesParam,
+	D1ImportSqlParam,
+	D1MigrationsDryRunParam,
+	D1MigrationsParam,
+	D1MigrationsTableParam,
+	D1TimeTravelBookmarkParam,
+	D1TimeTravelTimestampParam,
+	D1TimeTravelTimestampsParam,
 } from '../types/d1.types'
 import { PaginationPageParam, PaginationPerPageParam } from '../types/shared.types'
 
+/**
+ * Read-only mode is enabled either by the client through a header, or for the rest of the session
+ * through d1_read_only_mode_enable
+ */
+function isD1ReadOnly(agent: CloudflareMcpAgent) {
+	return agent.props.d1ReadOnly === true || agent.state?.d1ReadOnly === true
+}
+
+/**
+ * Throws if read-only mode is enabled, for tools that write to or destroy databases
+ */
+function assertD1Writable(agent: CloudflareMcpAgent, toolName: string) {
+	if (isD1ReadOnly(agent)) {
+		throw new McpError(
+			`Read-only mode: ${toolName} changes D1 databases and is not allowed. Use d1_database_query with SELECT statements instead.`,
+			403
+		)
+	}
+}
+
 export function registerD1Tools(agent: CloudflareMcpAgent) {
-	agent.server.tool(
-		'd1_databases_list',
-		'List all of the D1 databases in your Cloudflare account',
-		{
+	registerTool(agent, {
+		name: 'd1_databases_list',
+		description: 'List all of the D1 databases in your Cloudflare account',
+		params: {
 			name: D1DatabaseNameParam.nullable().optional(),
 			page: PaginationPageParam,
 			per_page: PaginationPerPageParam,
 		},
-		{
-			title: 'List D1 databases',
-			annotations: {
-				readOnlyHint: true,
-			},
+		title: 'List D1 databases',
+		annotations: {
+			readOnlyHint: true,
 		},
-		async ({ name, page, per_page }) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
-			}
-			try {
-				const client = getCloudflareClient(agent.props.accessToken)
-				const listResponse = await client.d1.database.list({
-					account_id,
-					name: name ?? undefined,
-					page: page ?? undefined,
-					per_page: per_page ?? undefined,
-				})
+		handler: async ({ name, page, per_page, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const listResponse = await client.d1.database.list({
+				account_id: accountId,
+				name: name ?? undefined,
+				page: page ?? undefined,
+				per_page: per_page ?? undefined,
+			})
 
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify({
-								result: listResponse.result,
-								result_info: listResponse.result_info,
-							}),
-						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error listing D1 databases: ${error instanceof Error && error.message}`,
-						},
-					],
-				}
+			return {
+				result: listResponse.result,
+				result_info: listResponse.result_info,
 			}
-		}
-	)
+		},
+	})
 
-	agent.server.tool(
-		'd1_database_create',
-		'Create a new D1 database in your Cloudflare account',
-		{
+	registerTool(agent, {
+		name: 'd1_database_create',
+		description: 'Create a new D1 database in your Cloudflare account',
+		params: {
 			name: D1DatabaseNameParam,
 			primary_location_hint: D1DatabasePrimaryLocationHintParam.nullable().optional(),
 		},
-		{
-			title: 'Create D1 database',
-			annotations: {
-				readOnlyHint: false,
-				destructiveHint: false,
-			},
+		title: 'Create D1 database',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: false,
+		},
+		handler: async ({ name, primary_location_hint, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const d1Database = await client.d1.database.create({
+				account_id: accountId,
+				name,
+				primary_location_hint: primary_location_hint ?? undefined,
+			})
+
+			return d1Database
 		},
-		async ({ name, primary_location_hint }) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
+	})
+
+	registerTool(agent, {
+		name: 'd1_database_delete',
+		description: 'Delete a d1 database in your Cloudflare account',
+		params: { database_id: z.string() },
+		title: 'Delete D1 database',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ database_id, accountId, apiToken }) => {
+			assertD1Writable(agent, 'd1_database_delete')
+			const client = getCloudflareClient(apiToken)
+			const deleteResponse = await client.d1.database.delete(database_id, {
+				account_id: accountId,
+			})
+			return deleteResponse
+		},
+	})
+
+	registerTool(agent, {
+		name: 'd1_database_get',
+		description: 'Get a D1 database in your Cloudflare account',
+		params: { database_id: z.string() },
+		title: 'Get D1 database',
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: async ({ database_id, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const d1Database = await client.d1.database.get(database_id, {
+				account_id: accountId,
+			})
+
+			return d1Database
+		},
+	})
+
+	registerTool(agent, {
+		name: 'd1_database_query',
+		description: fmt.trim(`
+			Query a D1 database in your Cloudflare account.
+			In read-only mode only SELECT, EXPLAIN and read-only PRAGMA statements are allowed, and at most ${D1_READ_ONLY_MAX_ROWS} rows are returned per statement.
+		`),
+		params: {
+			database_id: z.string(),
+			sql: D1DatabaseQuerySqlParam,
+			params: D1DatabaseQueryParamsParam.nullable(),
+			max_rows: D1DatabaseQueryMaxRowsParam,
+		},
+		title: 'Query D1 database',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: false,
+		},
+		handler: async ({ database_id, sql, params, max_rows, accountId, apiToken }) => {
+			const readOnly = isD1ReadOnly(agent)
+			if (readOnly) {
+				assertReadOnlySql(sql)
 			}
-			try {
-				const client = getCloudflareClient(agent.props.accessToken)
-				const d1Database = await client.d1.database.create({
-					account_id,
-					name,
-					primary_location_hint: primary_location_hint ?? undefined,
-				})
+			const maxRows = readOnly
+				? Math.min(max_rows ?? D1_READ_ONLY_MAX_ROWS, D1_READ_ONLY_MAX_ROWS)
+				: max_rows
 
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(d1Database),
-						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error creating D1 database: ${error instanceof Error && error.message}`,
-						},
-					],
+			const client = getCloudflareClient(apiToken)
+			const queryResult = await client.d1.database.query(database_id, {
+				account_id: accountId,
+				sql,
+				params: params ?? undefined,
+			})
+
+			const truncationNotices: string[] = []
+			const result = queryResult.result.map((statement, index) => {
+				const rows = statement.results ?? []
+				if (maxRows === undefined || rows.length <= maxRows) {
+					return statement
 				}
+				truncationNotices.push(
+					`The results of statement ${index + 1} were truncated to ${maxRows} of ${rows.length} rows. Add a LIMIT clause or narrow down the query to see the other rows.`
+				)
+				return { ...statement, results: rows.slice(0, maxRows) }
+			})
+
+			return {
+				content: [
+					{
+						type: 'text',
+						text: JSON.stringify(result),
+					},
+					...truncationNotices.map((text) => ({ type: 'text' as const, text })),
+				],
 			}
-		}
-	)
+		},
+	})
 
 	agent.server.tool(
-		'd1_database_delete',
-		'Delete a d1 database in your Cloudflare account',
-		{ database_id: z.string() },
+		'd1_read_only_mode_enable',
+		fmt.trim(`
+			Switch d1_database_query to read-only mode for the rest of this session.
+			Only SELECT, EXPLAIN and read-only PRAGMA statements are allowed in read-only mode, and the number of rows returned is capped.
+			Read-only mode can't be turned off again in the same session.
+		`),
 		{
-			title: 'Delete D1 database',
+			title: 'Enable D1 read-only mode',
 			annotations: {
 				readOnlyHint: false,
-				destructiveHint: true,
+				destructiveHint: false,
 			},
 		},
-		async ({ database_id }) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
-			}
-			try {
-				const client = getCloudflareClient(agent.props.accessToken)
-				const deleteResponse = await client.d1.database.delete(database_id, {
-					account_id,
-				})
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(deleteResponse),
-						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error deleting D1 database: ${error instanceof Error && error.message}`,
-						},
-					],
-				}
+		async () => {
+			agent.setState({ ...agent.state, d1ReadOnly: true })
+			return {
+				content: [
+					{
+						type: 'text',
+						text: 'D1 read-only mode is enabled for the rest of this session',
+					},
+				],
 			}
 		}
 	)
 
-	agent.server.tool(
-		'd1_database_get',
-		'Get a D1 database in your Cloudflare account',
-		{ database_id: z.string() },
-		{
-			title: 'Get D1 database',
-			annotations: {
-				readOnlyHint: true,
-			},
+	registerTool(agent, {
+		name: 'd1_database_schema',
+		description: fmt.trim(`
+			Get the schema of a D1 database: the columns, indexes and foreign keys of every table.
+			Use this tool before writing queries against a database you haven't seen yet, instead of querying sqlite_master.
+			Each section is returned as tab-separated values.
+		`),
+		params: {
+			database_id: z.string(),
+			table: D1DatabaseSchemaTableParam,
 		},
-		async ({ database_id }) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
-			}
-			try {
-				const client = getCloudflareClient(agent.props.accessToken)
-				const d1Database = await client.d1.database.get(database_id, {
-					account_id,
+		title: 'Get D1 database schema',
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: async ({ database_id, table, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const schema = await getD1DatabaseSchema({
+				client,
+				accountId,
+				databaseId: database_id,
+			})
+
+			const sections = [
+				['Columns', schema.columns],
+				['Indexes', schema.indexes],
+				['Foreign keys', schema.foreignKeys],
+			] as const
+			const text = await Promise.all(
+				sections.map(async ([title, rows]) => {
+					const filteredRows = table ? rows.filter((row) => row.table === table) : rows
+					const tsv = filteredRows.length > 0 ? await fmt.asTSV(filteredRows) : '(none)'
+					return `## ${title}\n${tsv}`
 				})
+			)
 
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(d1Database),
-						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error getting D1 database: ${error instanceof Error && error.message}`,
-						},
-					],
-				}
+			return {
+				content: [
+					{
+						type: 'text',
+						text: text.join('\n\n'),
+					},
+				],
 			}
-		}
-	)
+		},
+	})
 
-	agent.server.tool(
-		'd1_database_query',
-		'Query a D1 database in your Cloudflare account',
-		{
+	registerTool(agent, {
+		name: 'd1_database_migrations_apply',
+		description: fmt.trim(`
+			Apply migrations to a D1 database, in order, the same way "wrangler d1 migrations apply" does.
+			Migrations already recorded in the migrations table are skipped, so the full list of migrations can be passed every time.
+			Each applied migration is recorded in the migrations table. Applying stops at the first migration that fails.
+			Use dry_run to list the pending migrations without applying them. In read-only mode only dry runs are allowed.
+		`),
+		params: {
 			database_id: z.string(),
-			sql: D1DatabaseQuerySqlParam,
-			params: D1DatabaseQueryParamsParam.nullable(),
+			migrations: D1MigrationsParam,
+			migrations_table: D1MigrationsTableParam,
+			dry_run: D1MigrationsDryRunParam,
 		},
-		{
-			title: 'Query D1 database',
-			annotations: {
-				readOnlyHint: false,
-				destructiveHint: false,
-			},
+		title: 'Apply D1 migrations',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
 		},
-		async ({ database_id, sql, params }) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
+		handler: async ({
+			database_id,
+			migrations,
+			migrations_table,
+			dry_run,
+			accountId,
+			apiToken,
+		}) => {
+			if (!dry_run) {
+				assertD1Writable(agent, 'd1_database_migrations_apply')
 			}
-			try {
-				const client = getCloudflareClient(agent.props.accessToken)
-				const queryResult = await client.d1.database.query(database_id, {
-					account_id,
-					sql,
-					params: params ?? undefined,
+			const client = getCloudflareClient(apiToken)
+			const alreadyApplied = new Set(
+				await listAppliedD1Migrations({
+					client,
+					accountId,
+					databaseId: database_id,
+					migrationsTable: migrations_table,
 				})
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(queryResult.result),
-						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error querying D1 database: ${error instanceof Error && error.message}`,
-						},
-					],
+			)
+			const pending = migrations.filter((migration) => !alreadyApplied.has(migration.name))
+
+			const applied: string[] = []
+			if (!dry_run) {
+				for (const migration of pending) {
+					try {
+						await applyD1Migration({
+							client,
+							accountId,
+							databaseId: database_id,
+							migrationsTable: migrations_table,
+							name: migration.name,
+							sql: migration.sql,
+						})
+					} catch (error) {
+						const mcpError = toMcpError(error)
+						throw new McpError(
+							`${mcpError.message}. Applied before the error: ${JSON.stringify(applied)}`,
+							mcpError.code,
+							{ reportToSentry: mcpError.reportToSentry, cause: mcpError }
+						)
+					}
+					applied.push(migration.name)
 				}
 			}
-		}
-	)
+
+			return {
+				dry_run,
+				already_applied: migrations.length - pending.length,
+				pending: dry_run ? pending.map((migration) => migration.name) : [],
+				applied,
+			}
+		},
+	})
+
+	registerTool(agent, {
+		name: 'd1_database_export',
+		description: fmt.trim(`
+			Export a D1 database to a SQL dump, and wait for the export to finish.
+			Use this tool to snapshot a database before running destructive SQL against it.
+			Returns a signed URL the dump can be downloaded from. The database can't serve other requests while it's being exported.
+		`),
+		params: {
+			database_id: z.string(),
+			tables: D1ExportTablesParam,
+			no_data: D1ExportNoDataParam,
+			no_schema: D1ExportNoSchemaParam,
+		},
+		title: 'Export D1 database',
+		// The database is unavailable while it's exported, so clients should confirm it first
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ database_id, tables, no_data, no_schema, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const dump = await exportD1Database({
+				client,
+				accountId,
+				databaseId: database_id,
+				dumpOptions: { tables, no_data, no_schema },
+			})
+			return dump
+		},
+	})
+
+	registerTool(agent, {
+		name: 'd1_database_import',
+		description: fmt.trim(`
+			Import a SQL file into a D1 database, e.g. a dump produced by d1_database_export, and wait for it to finish.
+			The statements run against the existing data, so they can overwrite or delete it.
+			The database can't serve other requests while the import is running.
+		`),
+		params: {
+			database_id: z.string(),
+			sql: D1ImportSqlParam,
+		},
+		title: 'Import SQL into D1 database',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ database_id, sql, accountId, apiToken }) => {
+			assertD1Writable(agent, 'd1_database_import')
+			const client = getCloudflareClient(apiToken)
+			const result = await importD1Database({
+				client,
+				accountId,
+				databaseId: database_id,
+				sql,
+			})
+			return result
+		},
+	})
+
+	registerTool(agent, {
+		name: 'd1_database_time_travel_bookmarks_list',
+		description: fmt.trim(`
+			List the Time Travel bookmarks of a D1 database at the given points in time, within the last 30 days.
+			A bookmark identifies the state of the database at that time, and can be passed to d1_database_time_travel_restore.
+			Get the current bookmark before running destructive SQL so the database can be restored to it afterwards.
+		`),
+		params: {
+			database_id: z.string(),
+			timestamps: D1TimeTravelTimestampsParam,
+		},
+		title: 'List D1 Time Travel bookmarks',
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: async ({ database_id, timestamps, accountId, apiToken }) => {
+			const bookmarks = await Promise.all(
+				(timestamps?.length ? timestamps : [new Date().toISOString()]).map(async (timestamp) => {
+					const result = await getD1TimeTravelBookmark({
+						accountId,
+						apiToken,
+						databaseId: database_id,
+						timestamp,
+					})
+					return { timestamp, bookmark: result?.bookmark }
+				})
+			)
+			return bookmarks
+		},
+	})
+
+	registerTool(agent, {
+		name: 'd1_database_time_travel_restore',
+		description: fmt.trim(`
+			Restore a D1 database to a Time Travel bookmark or point in time, within the last 30 days.
+			Every change made after that point is undone. Pass exactly one of bookmark or timestamp.
+			The response includes the previous bookmark, which can be restored to undo the restore.
+		`),
+		params: {
+			database_id: z.string(),
+			bookmark: D1TimeTravelBookmarkParam,
+			timestamp: D1TimeTravelTimestampParam,
+		},
+		title: 'Restore D1 database',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ database_id, bookmark, timestamp, accountId, apiToken }) => {
+			assertD1Writable(agent, 'd1_database_time_travel_restore')
+			if (!bookmark === !timestamp) {
+				throw new McpError('Pass exactly one of bookmark or timestamp', 400)
+			}
+			return restoreD1Database({
+				accountId,
+				apiToken,
+				databaseId: database_id,
+				bookmark,
+				timestamp,
+			})
+		},
+	})
 }
@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { mockCloudflareClient } from '../../tests/utils/cloudflare-mock'
+import { createMockAgent } from '../../tests/utils/mock-agent'
+import { getCloudflareClient } from '../cloudflare-api'
+import { registerHyperdriveTools } from './hyperdrive.tools'
+
+vi.mock('../cloudflare-api', () => ({
+	getCloudflareClient: vi.fn(),
+}))
+
+describe('Hyperdrive tools', () => {
+	let client: ReturnType<typeof mockCloudflareClient>
+	let mock: ReturnType<typeof createMockAgent>
+
+	beforeEach(() => {
+		client = mockCloudflareClient(getCloudflareClient)
+
+		mock = createMockAgent()
+		registerHyperdriveTools(mock.agent)
+	})
+
+	afterEach(() => {
+		vi.restoreAllMocks()
+	})
+
+	describe('hyperdrive_config_create', () => {
+		const params = {
+			name: 'prod-db',
+			database: 'postgres',
+			host: 'db.example.com',
+			port: 5432,
+			scheme: 'postgresql',
+			user: 'admin',
+			password: 'hunter2-secret',
+		}
+
+		it('creates the config without echoing the password', async () => {
+			const result = await mock.callTool('hyperdrive_config_create', {
+				...params,
+				caching_max_age: 120,
+			})
+
+			const text = (result.content[0] as { text: string }).text
+			expect(text).not.toContain('hunter2-secret')
+			expect(JSON.parse(text).origin).toEqual({
+				database: 'postgres',
+				host: 'db.example.com',
+				port: 5432,
+				scheme: 'postgresql',
+				user: 'admin',
+			})
+			expect(client.hyperdrive.configs.create).toHaveBeenCalledWith({
+				account_id: 'mock-account-id',
+				name: 'prod-db',
+				origin: {
+					database: 'postgres',
+					host: 'db.example.com',
+					port: 5432,
+					scheme: 'postgresql',
+					user: 'admin',
+					password: 'hunter2-secret',
+				},
+				caching: { max_age: 120 },
+			})
+		})
+
+		it('redacts the password from errors', async () => {
+			client.hyperdrive.configs.create.mockRejectedValueOnce(
+				new Error('could not authenticate admin:hunter2-secret@db.example.com')
+			)
+
+			const error = await mock.callTool('hyperdrive_config_create', params).catch((e) => e)
+
+			expect(error.message).toBe(
+				'hyperdrive_config_create failed: could not authenticate admin:[REDACTED]@db.example.com'
+			)
+			expect(error.cause.message).not.toContain('hunter2-secret')
+		})
+
+		it.each([
+			['postgresql://db.example.com', 'must not include a scheme'],
+			['db.example.com:5432', 'must not include a port'],
+			['localhost', 'cannot connect to localhost'],
+			['db.example.com/postgres', 'without a user, path or whitespace'],
+		])('rejects the origin host %s', async (host, message) => {
+			await expect(mock.callTool('hyperdrive_config_create', { ...params, host })).rejects.toThrow(
+				message
+			)
+			expect(client.hyperdrive.configs.create).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('hyperdrive_config_test', () => {
+		it('checks the origin and reports the default caching settings', async () => {
+			const fetchSpy = vi
+				.spyOn(globalThis, 'fetch')
+				.mockResolvedValue(Response.json({ Status: 0, Answer: [{ data: '192.0.2.1' }] }))
+
+			const result = await mock.callTool('hyperdrive_config_test', {
+				hyperdrive_id: 'mock-hyperdrive-id',
+			})
+
+			expect(JSON.parse((result.content[0] as { text: string }).text)).toEqual({
+				hyperdrive_id: 'mock-hyperdrive-id',
+				name: 'mock-hyperdrive',
+				ok: true,
+				checks: [
+					{ field: 'host', ok: true, message: 'Valid' },
+					{ field: 'port', ok: true, message: 'Valid' },
+					{ field: 'database', ok: true, message: 'Valid' },
+					{ field: 'user', ok: true, message: 'Valid' },
+					{ field: 'dns', ok: true, message: 'db.example.com resolves to 192.0.2.1' },
+				],
+				caching: { disabled: false, max_age: 60, stale_while_revalidate: 15 },
+			})
+			expect(fetchSpy.mock.calls[0][0]).toBe(
+				'https://cloudflare-dns.com/dns-query?name=db.example.com&type=A'
+			)
+		})
+
+		it('reports invalid origin fields and disabled caching', async () => {
+			client.hyperdrive.configs.get.mockResolvedValueOnce({
+				id: 'mock-hyperdrive-id',
+				name: 'mock-hyperdrive',
+				origin: {
+					database: '',
+					host: 'localhost',
+					port: 5432,
+					scheme: 'postgresql',
+					user: 'admin',
+				},
+				caching: { disabled: true },
+			})
+			const fetchSpy = vi.spyOn(globalThis, 'fetch')
+
+			const result = await mock.callTool('hyperdrive_config_test', {
+				hyperdrive_id: 'mock-hyperdrive-id',
+			})
+
+			const report = JSON.parse((result.content[0] as { text: string }).text)
+			expect(report.ok).toBe(false)
+			expect(report.checks.filter((check: { ok: boolean }) => !check.ok)).toEqual([
+				{
+					field: 'host',
+					ok: false,
+					message:
+						'The host must be reachable from the public internet, Hyperdrive cannot connect to localhost',
+				},
+				{ field: 'database', ok: false, message: 'String must contain at least 1 character(s)' },
+			])
+			expect(report.caching).toEqual({ disabled: true })
+			expect(fetchSpy).not.toHaveBeenCalled()
+		})
+	})
+})
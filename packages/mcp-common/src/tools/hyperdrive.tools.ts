@@ -1,5 +1,7 @@
 import { getCloudflareClient } from '../cloudflare-api'
-import { MISSING_ACCOUNT_ID_RESPONSE } from '../constants'
+import { fmt } from '../format'
+import { McpError, toMcpError } from '../mcp-error'
+import { registerTool } from '../tool-registry'
 import { type CloudflareMcpAgent } from '../types/cloudflare-mcp-agent.types'
 import {
 	HyperdriveCachingDisabledSchema,
@@ -13,17 +15,70 @@ import {
 	HyperdriveListParamPerPageSchema,
 	HyperdriveOriginDatabaseSchema,
 	HyperdriveOriginHostSchema,
+	HyperdriveOriginPasswordSchema,
 	HyperdriveOriginPortSchema,
 	HyperdriveOriginSchemeSchema,
 	HyperdriveOriginUserSchema,
 } from '../types/hyperdrive.types'
 
+import type { z } from 'zod'
+
 export const HYPERDRIVE_TOOLS = {
 	hyperdrive_configs_list: 'hyperdrive_configs_list',
 	hyperdrive_config_create: 'hyperdrive_config_create',
 	hyperdrive_config_delete: 'hyperdrive_config_delete',
 	hyperdrive_config_get: 'hyperdrive_config_get',
 	hyperdrive_config_edit: 'hyperdrive_config_edit',
+	hyperdrive_config_test: 'hyperdrive_config_test',
+}
+
+// Caching defaults applied by Hyperdrive when a config doesn't set them, in seconds
+const HYPERDRIVE_DEFAULT_MAX_AGE = 60
+const HYPERDRIVE_DEFAULT_STALE_WHILE_REVALIDATE = 15
+
+type OriginCheck = { field: string; ok: boolean; message: string }
+
+/**
+ * Removes the origin password from a Hyperdrive config, in case the API ever returns it
+ */
+function redactHyperdriveConfig<T extends { origin?: object }>(config: T): T {
+	if (!config.origin || !('password' in config.origin)) {
+		return config
+	}
+	const { password: _password, ...origin } = config.origin
+	return { ...config, origin }
+}
+
+function checkField(field: string, schema: z.ZodTypeAny, value: unknown): OriginCheck {
+	const result = schema.safeParse(value)
+	return result.success
+		? { field, ok: true, message: 'Valid' }
+		: { field, ok: false, message: result.error.issues.map((issue) => issue.message).join('. ') }
+}
+
+/**
+ * Checks that the origin host resolves in public DNS, which Hyperdrive needs to connect to it
+ */
+async function checkHostResolves(host: string): Promise<OriginCheck> {
+	// IP addresses don't need to be resolved
+	if (/^[\d.]+$/.test(host) || host.includes(':')) {
+		return { field: 'dns', ok: true, message: 'The host is an IP address' }
+	}
+	const response = await fetch(
+		`https://cloudflare-dns.com/dns-query?${new URLSearchParams({ name: host, type: 'A' })}`,
+		{ headers: { Accept: 'application/dns-json' } }
+	)
+	if (!response.ok) {
+		return { field: 'dns', ok: false, message: `Could not resolve ${host} (${response.status})` }
+	}
+	const { Answer = [] } = (await response.json()) as { Answer?: Array<{ data: string }> }
+	return Answer.length > 0
+		? {
+				field: 'dns',
+				ok: true,
+				message: `${host} resolves to ${Answer.map((a) => a.data).join(', ')}`,
+			}
+		: { field: 'dns', ok: false, message: `${host} does not resolve in public DNS` }
 }
 
 /**
@@ -34,231 +89,212 @@ export function registerHyperdriveTools(agent: CloudflareMcpAgent) {
 	/**
 	 * Tool to list Hyperdrive configurations.
 	 */
-	agent.server.tool(
-		HYPERDRIVE_TOOLS.hyperdrive_configs_list,
-		'List Hyperdrive configurations in your Cloudflare account',
-		{
+	registerTool(agent, {
+		name: HYPERDRIVE_TOOLS.hyperdrive_configs_list,
+		description: 'List Hyperdrive configurations in your Cloudflare account',
+		params: {
 			page: HyperdriveListParamPageSchema.nullable(),
 			per_page: HyperdriveListParamPerPageSchema.nullable(),
 			order: HyperdriveListParamOrderSchema.nullable(),
 			direction: HyperdriveListParamDirectionSchema.nullable(),
 		},
-		{
-			title: 'List Hyperdrive configs',
-			annotations: {
-				readOnlyHint: true,
-			},
+		title: 'List Hyperdrive configs',
+		annotations: {
+			readOnlyHint: true,
 		},
-		async ({ page, per_page, order, direction }) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
-			}
-			try {
-				const client = getCloudflareClient(agent.props.accessToken)
-				const response = await client.hyperdrive.configs.list({
-					account_id,
-					...(page && { page }),
-					...(per_page && { per_page }),
-					...(order && { order }),
-					...(direction && { direction }),
-				})
+		handler: async ({ page, per_page, order, direction, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const response = await client.hyperdrive.configs.list({
+				account_id: accountId,
+				...(page && { page }),
+				...(per_page && { per_page }),
+				...(order && { order }),
+				...(direction && { direction }),
+			})
 
-				const configs = response.result ?? []
+			const configs = (response.result ?? []).map(redactHyperdriveConfig)
 
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify({
-								configs,
-								count: configs.length,
-							}),
-						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error listing Hyperdrive configs: ${error instanceof Error ? error.message : String(error)}`,
-						},
-					],
-				}
+			return {
+				configs,
+				count: configs.length,
 			}
-		}
-	)
+		},
+	})
 
-	// TODO: Once elicitation is available in MCP as a way to securely pass parameters, re-enable this tool. See: https://github.com/modelcontextprotocol/modelcontextprotocol/pull/382
 	/**
 	 * Tool to create a Hyperdrive configuration.
 	 */
-	// agent.server.tool(
-	// 	HYPERDRIVE_TOOLS.hyperdrive_config_create,
-	// 	'Create a new Hyperdrive configuration in your Cloudflare account',
-	// 	{
-	// 		name: HyperdriveConfigNameSchema,
-	// 		database: HyperdriveOriginDatabaseSchema,
-	// 		host: HyperdriveOriginHostSchema,
-	// 		port: HyperdriveOriginPortSchema,
-	// 		scheme: HyperdriveOriginSchemeSchema,
-	// 		user: HyperdriveOriginUserSchema,
-	// 		password: HyperdriveOriginPasswordSchema,
-	// 		caching_disabled: HyperdriveCachingDisabledSchema.nullable(),
-	// 		caching_max_age: HyperdriveCachingMaxAgeSchema.nullable(),
-	// 		caching_stale_while_revalidate: HyperdriveCachingStaleWhileRevalidateSchema.nullable(),
-	// 	},
-	// 	async ({
-	// 		name,
-	// 		database,
-	// 		host,
-	// 		port,
-	// 		scheme,
-	// 		user,
-	// 		password,
-	// 		caching_disabled = undefined,
-	// 		caching_max_age = undefined,
-	// 		caching_stale_while_revalidate = undefined,
-	// 	}) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const origin = { database, host, port, scheme, user, password }
-	// 			const caching: Record<string, any> = {}
-	// 			if (caching_disabled !== undefined) caching.disabled = caching_disabled
-	// 			if (caching_max_age !== undefined) caching.max_age = caching_max_age
-	// 			if (caching_stale_while_revalidate !== undefined)
-	// 				caching.stale_while_revalidate = caching_stale_while_revalidate
+	registerTool(agent, {
+		name: HYPERDRIVE_TOOLS.hyperdrive_config_create,
+		description: fmt.trim(`
+			Create a new Hyperdrive configuration in your Cloudflare account.
+			The origin must be a database reachable from the public internet. The password is stored by Hyperdrive and never included in tool responses.
+		`),
+		params: {
+			name: HyperdriveConfigNameSchema,
+			database: HyperdriveOriginDatabaseSchema,
+			host: HyperdriveOriginHostSchema,
+			port: HyperdriveOriginPortSchema,
+			scheme: HyperdriveOriginSchemeSchema,
+			user: HyperdriveOriginUserSchema,
+			password: HyperdriveOriginPasswordSchema,
+			caching_disabled: HyperdriveCachingDisabledSchema.nullable(),
+			caching_max_age: HyperdriveCachingMaxAgeSchema.nullable(),
+			caching_stale_while_revalidate: HyperdriveCachingStaleWhileRevalidateSchema.nullable(),
+		},
+		title: 'Create Hyperdrive config',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: false,
+		},
+		handler: async ({
+			name,
+			database,
+			host,
+			port,
+			scheme,
+			user,
+			password,
+			caching_disabled,
+			caching_max_age,
+			caching_stale_while_revalidate,
+			accountId,
+			apiToken,
+		}) => {
+			const origin = { database, host, port, scheme, user, password }
+			const caching: Record<string, any> = {}
+			if (caching_disabled != null) caching.disabled = caching_disabled
+			if (caching_max_age != null) caching.max_age = caching_max_age
+			if (caching_stale_while_revalidate != null)
+				caching.stale_while_revalidate = caching_stale_while_revalidate
 
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const hyperdriveConfig = await client.hyperdrive.configs.create({
-	// 				account_id,
-	// 				name,
-	// 				origin,
-	// 				...(Object.keys(caching).length > 0 && { caching }),
-	// 			})
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(hyperdriveConfig),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error creating Hyperdrive config: ${error instanceof Error ? error.message : String(error)}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
+			try {
+				const client = getCloudflareClient(apiToken)
+				const hyperdriveConfig = await client.hyperdrive.configs.create({
+					account_id: accountId,
+					name,
+					origin,
+					...(Object.keys(caching).length > 0 && { caching }),
+				})
+				return redactHyperdriveConfig(hyperdriveConfig)
+			} catch (error) {
+				// The original error isn't passed on as the cause, as its message may contain the password
+				const mcpError = toMcpError(error)
+				throw new McpError(mcpError.message.replaceAll(password, '[REDACTED]'), mcpError.code, {
+					reportToSentry: mcpError.reportToSentry,
+				})
+			}
+		},
+	})
 
 	/**
-	 * Tool to delete a Hyperdrive configuration.
+	 * Tool to check the origin of a Hyperdrive configuration.
 	 */
-	agent.server.tool(
-		HYPERDRIVE_TOOLS.hyperdrive_config_delete,
-		'Delete a Hyperdrive configuration in your Cloudflare account',
-		{
+	registerTool(agent, {
+		name: HYPERDRIVE_TOOLS.hyperdrive_config_test,
+		description: fmt.trim(`
+			Check the origin of a Hyperdrive configuration, and report its caching settings.
+			Validates the origin host, port and database fields, and checks that the host resolves in public DNS.
+			Use this tool when queries through Hyperdrive fail to connect.
+		`),
+		params: {
 			hyperdrive_id: HyperdriveConfigIdSchema,
 		},
-		{
-			title: 'Delete Hyperdrive config',
-			annotations: {
-				readOnlyHint: false,
-				destructiveHint: true,
-			},
+		title: 'Test Hyperdrive config',
+		annotations: {
+			readOnlyHint: true,
 		},
-		async ({ hyperdrive_id }) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
+		handler: async ({ hyperdrive_id, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const hyperdriveConfig = await client.hyperdrive.configs.get(hyperdrive_id, {
+				account_id: accountId,
+			})
+			const { origin } = hyperdriveConfig
+			const caching: Record<string, any> = hyperdriveConfig.caching ?? {}
+
+			const checks = [
+				checkField('host', HyperdriveOriginHostSchema, origin.host),
+				'access_client_id' in origin
+					? {
+							field: 'port',
+							ok: true,
+							message: 'The origin is reached through Cloudflare Access, no port is needed',
+						}
+					: checkField('port', HyperdriveOriginPortSchema, origin.port),
+				checkField('database', HyperdriveOriginDatabaseSchema, origin.database),
+				checkField('user', HyperdriveOriginUserSchema, origin.user),
+			]
+			if (checks[0].ok) {
+				checks.push(await checkHostResolves(origin.host))
 			}
-			try {
-				const client = getCloudflareClient(agent.props.accessToken)
-				await client.hyperdrive.configs.delete(hyperdrive_id, { account_id })
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify({ success: true, hyperdrive_id: hyperdrive_id }),
-						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error deleting Hyperdrive config ${hyperdrive_id}: ${error instanceof Error ? error.message : String(error)}`,
+
+			return {
+				hyperdrive_id,
+				name: hyperdriveConfig.name,
+				ok: checks.every((check) => check.ok),
+				checks,
+				caching: caching.disabled
+					? { disabled: true }
+					: {
+							disabled: false,
+							max_age: caching.max_age ?? HYPERDRIVE_DEFAULT_MAX_AGE,
+							stale_while_revalidate:
+								caching.stale_while_revalidate ?? HYPERDRIVE_DEFAULT_STALE_WHILE_REVALIDATE,
 						},
-					],
-				}
 			}
-		}
-	)
+		},
+	})
+
+	/**
+	 * Tool to delete a Hyperdrive configuration.
+	 */
+	registerTool(agent, {
+		name: HYPERDRIVE_TOOLS.hyperdrive_config_delete,
+		description: 'Delete a Hyperdrive configuration in your Cloudflare account',
+		params: {
+			hyperdrive_id: HyperdriveConfigIdSchema,
+		},
+		title: 'Delete Hyperdrive config',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ hyperdrive_id, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			await client.hyperdrive.configs.delete(hyperdrive_id, { account_id: accountId })
+			return { success: true, hyperdrive_id: hyperdrive_id }
+		},
+	})
 
 	/**
 	 * Tool to get a specific Hyperdrive configuration.
 	 */
-	agent.server.tool(
-		HYPERDRIVE_TOOLS.hyperdrive_config_get,
-		'Get details of a specific Hyperdrive configuration in your Cloudflare account',
-		{
+	registerTool(agent, {
+		name: HYPERDRIVE_TOOLS.hyperdrive_config_get,
+		description: 'Get details of a specific Hyperdrive configuration in your Cloudflare account',
+		params: {
 			hyperdrive_id: HyperdriveConfigIdSchema,
 		},
-		{
-			title: 'Get Hyperdrive config',
-			annotations: {
-				readOnlyHint: true,
-			},
+		title: 'Get Hyperdrive config',
+		annotations: {
+			readOnlyHint: true,
 		},
-		async ({ hyperdrive_id }) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
-			}
-			try {
-				const client = getCloudflareClient(agent.props.accessToken)
-				const hyperdriveConfig = await client.hyperdrive.configs.get(hyperdrive_id, {
-					account_id,
-				})
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(hyperdriveConfig),
-						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error getting Hyperdrive config ${hyperdrive_id}: ${error instanceof Error ? error.message : String(error)}`,
-						},
-					],
-				}
-			}
-		}
-	)
+		handler: async ({ hyperdrive_id, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const hyperdriveConfig = await client.hyperdrive.configs.get(hyperdrive_id, {
+				account_id: accountId,
+			})
+			return redactHyperdriveConfig(hyperdriveConfig)
+		},
+	})
 
 	/**
 	 * Tool to edit (PATCH) a Hyperdrive configuration.
 	 */
-	agent.server.tool(
-		HYPERDRIVE_TOOLS.hyperdrive_config_edit,
-		'Edit (patch) a Hyperdrive configuration in your Cloudflare account',
-		{
+	registerTool(agent, {
+		name: HYPERDRIVE_TOOLS.hyperdrive_config_edit,
+		description: 'Edit (patch) a Hyperdrive configuration in your Cloudflare account',
+		params: {
 			hyperdrive_id: HyperdriveConfigIdSchema,
 			name: HyperdriveConfigNameSchema.optional().nullable(),
 			database: HyperdriveOriginDatabaseSchema.optional().nullable(),
@@ -271,14 +307,12 @@ export function registerHyperdriveTools(agent: CloudflareMcpAgent) {
 			caching_stale_while_revalidate:
 				HyperdriveCachingStaleWhileRevalidateSchema.optional().nullable(),
 		},
-		{
-			title: 'Edit Hyperdrive config',
-			annotations: {
-				readOnlyHint: false,
-				destructiveHint: false,
-			},
+		title: 'Edit Hyperdrive config',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: false,
 		},
-		async ({
+		handler: async ({
 			hyperdrive_id,
 			name,
 			database,
@@ -289,64 +323,37 @@ export function registerHyperdriveTools(agent: CloudflareMcpAgent) {
 			caching_disabled,
 			caching_max_age,
 			caching_stale_while_revalidate,
+			accountId,
+			apiToken,
 		}) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
-			}
-			try {
-				const originPatch: Record<string, any> = {}
-				if (database) originPatch.database = database
-				if (host) originPatch.host = host
-				if (port) originPatch.port = port
-				if (scheme) originPatch.scheme = scheme
-				if (user) originPatch.user = user
-
-				const cachingPatch: Record<string, any> = {}
-				if (caching_disabled) cachingPatch.disabled = caching_disabled
-				if (caching_max_age) cachingPatch.max_age = caching_max_age
-				if (caching_stale_while_revalidate)
-					cachingPatch.stale_while_revalidate = caching_stale_while_revalidate
+			const originPatch: Record<string, any> = {}
+			if (database) originPatch.database = database
+			if (host) originPatch.host = host
+			if (port) originPatch.port = port
+			if (scheme) originPatch.scheme = scheme
+			if (user) originPatch.user = user
 
-				const editData: Record<string, any> = {}
-				if (name) editData.name = name
-				if (Object.keys(originPatch).length > 0) editData.origin = originPatch
-				if (Object.keys(cachingPatch).length > 0) editData.caching = cachingPatch
+			const cachingPatch: Record<string, any> = {}
+			if (caching_disabled) cachingPatch.disabled = caching_disabled
+			if (caching_max_age) cachingPatch.max_age = caching_max_age
+			if (caching_stale_while_revalidate)
+				cachingPatch.stale_while_revalidate = caching_stale_while_revalidate
 
-				if (Object.keys(editData).length === 0) {
-					return {
-						content: [
-							{
-								type: 'text',
-								text: 'Error: No fields provided to edit.',
-							},
-						],
-					}
-				}
+			const editData: Record<string, any> = {}
+			if (name) editData.name = name
+			if (Object.keys(originPatch).length > 0) editData.origin = originPatch
+			if (Object.keys(cachingPatch).length > 0) editData.caching = cachingPatch
 
-				const client = getCloudflareClient(agent.props.accessToken)
-				const updatedConfig = await client.hyperdrive.configs.edit(hyperdrive_id, {
-					account_id,
-					...editData,
-				})
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(updatedConfig),
-						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error editing Hyperdrive config ${hyperdrive_id}: ${error instanceof Error ? error.message : String(error)}`,
-						},
-					],
-				}
+			if (Object.keys(editData).length === 0) {
+				throw new McpError('No fields provided to edit', 400)
 			}
-		}
-	)
+
+			const client = getCloudflareClient(apiToken)
+			const updatedConfig = await client.hyperdrive.configs.edit(hyperdrive_id, {
+				account_id: accountId,
+				...editData,
+			})
+			return redactHyperdriveConfig(updatedConfig)
+		},
+	})
 }
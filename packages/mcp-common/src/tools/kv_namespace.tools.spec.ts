@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { mockCloudflareClient } from '../../tests/utils/cloudflare-mock'
+import { createMockAgent } from '../../tests/utils/mock-agent'
+import { getCloudflareClient } from '../cloudflare-api'
+import { KV_NAMESPACE_TOOLS, registerKVTools } from './kv_namespace.tools'
+
+vi.mock('../cloudflare-api', () => ({
+	getCloudflareClient: vi.fn(),
+}))
+
+describe('KV key/value tools', () => {
+	let client: ReturnType<typeof mockCloudflareClient>
+	let mock: ReturnType<typeof createMockAgent>
+
+	beforeEach(() => {
+		client = mockCloudflareClient(getCloudflareClient)
+
+		mock = createMockAgent()
+		registerKVTools(mock.agent)
+	})
+
+	it('registers every tool in KV_NAMESPACE_TOOLS', () => {
+		expect([...mock.tools.keys()].sort()).toEqual(Object.values(KV_NAMESPACE_TOOLS).sort())
+	})
+
+	it('lists keys and drops the empty cursor on the last page', async () => {
+		const result = await mock.callTool('kv_keys_list', {
+			namespace_id: 'mock-namespace-id',
+			params: { prefix: 'conf', limit: 10 },
+		})
+
+		expect(client.kv.namespaces.keys.list).toHaveBeenCalledWith('mock-namespace-id', {
+			account_id: 'mock-account-id',
+			prefix: 'conf',
+			limit: 10,
+		})
+		expect(JSON.parse((result.content[0] as { text: string }).text)).toEqual({
+			keys: [{ name: 'config', metadata: { owner: 'mock-user' } }],
+			count: 1,
+		})
+	})
+
+	it('returns text values as text and pretty-prints JSON', async () => {
+		const text = await mock.callTool('kv_value_get', {
+			namespace_id: 'mock-namespace-id',
+			key: 'flags/beta',
+		})
+		expect(client.kv.namespaces.values.get).toHaveBeenCalledWith(
+			'mock-namespace-id',
+			'flags%2Fbeta',
+			{ account_id: 'mock-account-id' }
+		)
+		expect(text.content[0]).toEqual({ type: 'text', text: '{"enabled":true}' })
+
+		const json = await mock.callTool('kv_value_get', {
+			namespace_id: 'mock-namespace-id',
+			key: 'flags/beta',
+			format: 'json',
+		})
+		expect(json.content[0]).toEqual({ type: 'text', text: '{\n  "enabled": true\n}' })
+	})
+
+	it('returns binary values as a base64 resource', async () => {
+		client.kv.namespaces.values.get.mockResolvedValueOnce(
+			new Response(new Uint8Array([0xff, 0xfe, 0x00]))
+		)
+
+		const result = await mock.callTool('kv_value_get', {
+			namespace_id: 'mock-namespace-id',
+			key: 'image',
+		})
+		expect(result.content[0]).toEqual({
+			type: 'resource',
+			resource: {
+				uri: 'kv://mock-namespace-id/image',
+				mimeType: 'application/octet-stream',
+				blob: '//4A',
+			},
+		})
+	})
+
+	it('writes a single value with expiration and metadata', async () => {
+		await mock.callTool('kv_value_put', {
+			namespace_id: 'mock-namespace-id',
+			key: 'session:123',
+			value: 'active',
+			expiration_ttl: 3600,
+			metadata: { user: 'mock-user' },
+		})
+
+		expect(client.kv.namespaces.bulkUpdate).toHaveBeenCalledWith('mock-namespace-id', {
+			account_id: 'mock-account-id',
+			body: [
+				{
+					key: 'session:123',
+					value: 'active',
+					base64: undefined,
+					expiration_ttl: 3600,
+					metadata: { user: 'mock-user' },
+				},
+			],
+		})
+	})
+
+	it('rejects expiration TTLs shorter than 60 seconds', async () => {
+		await expect(
+			mock.callTool('kv_value_put', {
+				namespace_id: 'mock-namespace-id',
+				key: 'session:123',
+				value: 'active',
+				expiration_ttl: 30,
+			})
+		).rejects.toThrow()
+	})
+
+	it('deletes keys in bulk', async () => {
+		await mock.callTool('kv_values_bulk_delete', {
+			namespace_id: 'mock-namespace-id',
+			keys: ['a', 'b'],
+		})
+
+		expect(client.kv.namespaces.bulkDelete).toHaveBeenCalledWith('mock-namespace-id', {
+			account_id: 'mock-account-id',
+			body: ['a', 'b'],
+		})
+	})
+})
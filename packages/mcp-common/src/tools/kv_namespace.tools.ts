@@ -1,11 +1,19 @@
+import { z } from 'zod'
+
 import { getCloudflareClient } from '../cloudflare-api'
-import { MISSING_ACCOUNT_ID_RESPONSE } from '../constants'
+import { McpError } from '../mcp-error'
+import { registerTool } from '../tool-registry'
 import { type CloudflareMcpAgent } from '../types/cloudflare-mcp-agent.types'
 import {
+	KvEntrySchema,
+	KvKeyNameSchema,
+	KvKeysListParamsSchema,
 	KvNamespaceIdSchema,
 	KvNamespacesListParamsSchema,
 	KvNamespaceTitleSchema,
+	KvValueFormatSchema,
 } from '../types/kv_namespace.types'
+import { toBase64 } from '../utils'
 
 export const KV_NAMESPACE_TOOLS = {
 	kv_namespaces_list: 'kv_namespaces_list',
@@ -13,166 +21,106 @@ export const KV_NAMESPACE_TOOLS = {
 	kv_namespace_delete: 'kv_namespace_delete',
 	kv_namespace_get: 'kv_namespace_get',
 	kv_namespace_update: 'kv_namespace_update',
+	kv_keys_list: 'kv_keys_list',
+	kv_value_get: 'kv_value_get',
+	kv_value_put: 'kv_value_put',
+	kv_value_delete: 'kv_value_delete',
+	kv_values_bulk_put: 'kv_values_bulk_put',
+	kv_values_bulk_delete: 'kv_values_bulk_delete',
 }
 
+// Values larger than this are not returned inline to the model
+const KV_VALUE_MAX_READ_BYTES = 1024 * 1024
+
+// The bulk endpoints accept at most this many keys per request
+const KV_BULK_MAX_KEYS = 10000
+
 export function registerKVTools(agent: CloudflareMcpAgent) {
 	/**
 	 * Tool to list KV namespaces.
 	 */
-	agent.server.tool(
-		KV_NAMESPACE_TOOLS.kv_namespaces_list,
-		`
+	registerTool(agent, {
+		name: KV_NAMESPACE_TOOLS.kv_namespaces_list,
+		description: `
 			List all of the kv namespaces in your Cloudflare account.
 			Use this tool when you need to list all of the kv namespaces in your Cloudflare account.
 			Returns a list of kv namespaces with the following properties:
 			- id: The id of the kv namespace.
 			- title: The title of the kv namespace.
 			`,
-		{ params: KvNamespacesListParamsSchema.optional() },
-		{
-			title: 'List KV namespaces',
-			annotations: {
-				readOnlyHint: true,
-			},
-		},
-		async ({ params }) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
-			}
-			try {
-				const client = getCloudflareClient(agent.props.accessToken)
-				const response = await client.kv.namespaces.list({
-					account_id,
-					...params,
-				})
+		params: { params: KvNamespacesListParamsSchema.optional() },
+		title: 'List KV namespaces',
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: async ({ params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const response = await client.kv.namespaces.list({
+				account_id: accountId,
+				...params,
+			})
 
-				let namespaces = response.result ?? []
-				namespaces = namespaces.map((namespace) => ({
-					id: namespace.id,
-					title: namespace.title,
-				}))
+			let namespaces = response.result ?? []
+			namespaces = namespaces.map((namespace) => ({
+				id: namespace.id,
+				title: namespace.title,
+			}))
 
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify({
-								namespaces,
-								count: namespaces.length,
-							}),
-						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error listing KV namespaces: ${error instanceof Error ? error.message : String(error)}`,
-						},
-					],
-				}
+			return {
+				namespaces,
+				count: namespaces.length,
 			}
-		}
-	)
+		},
+	})
 
 	/**
 	 * Tool to create a KV namespace.
 	 */
-	agent.server.tool(
-		KV_NAMESPACE_TOOLS.kv_namespace_create,
-		'Create a new kv namespace in your Cloudflare account',
-		{
+	registerTool(agent, {
+		name: KV_NAMESPACE_TOOLS.kv_namespace_create,
+		description: 'Create a new kv namespace in your Cloudflare account',
+		params: {
 			title: KvNamespaceTitleSchema,
 		},
-		{
-			title: 'Create KV namespace',
-			annotations: {
-				readOnlyHint: false,
-				destructiveHint: false,
-			},
-		},
-		async ({ title }) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
-			}
-			try {
-				const client = getCloudflareClient(agent.props.accessToken)
-				const namespace = await client.kv.namespaces.create({ account_id, title })
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(namespace),
-						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error creating KV namespace: ${error instanceof Error ? error.message : String(error)}`,
-						},
-					],
-				}
-			}
-		}
-	)
+		title: 'Create KV namespace',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: false,
+		},
+		handler: async ({ title, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const namespace = await client.kv.namespaces.create({ account_id: accountId, title })
+			return namespace
+		},
+	})
 
 	/**
 	 * Tool to delete a KV namespace.
 	 */
-	agent.server.tool(
-		KV_NAMESPACE_TOOLS.kv_namespace_delete,
-		'Delete a kv namespace in your Cloudflare account',
-		{
+	registerTool(agent, {
+		name: KV_NAMESPACE_TOOLS.kv_namespace_delete,
+		description: 'Delete a kv namespace in your Cloudflare account',
+		params: {
 			namespace_id: KvNamespaceIdSchema,
 		},
-		{
-			title: 'Delete KV namespace',
-			annotations: {
-				readOnlyHint: false,
-				destructiveHint: true,
-			},
-		},
-		async ({ namespace_id }) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
-			}
-			try {
-				const client = getCloudflareClient(agent.props.accessToken)
-				const result = await client.kv.namespaces.delete(namespace_id, { account_id })
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(result ?? { success: true }),
-						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error deleting KV namespace: ${error instanceof Error ? error.message : String(error)}`,
-						},
-					],
-				}
-			}
-		}
-	)
+		title: 'Delete KV namespace',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ namespace_id, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.kv.namespaces.delete(namespace_id, { account_id: accountId })
+			return result ?? { success: true }
+		},
+	})
 
 	/**
 	 * Tool to get details of a specific KV namespace.
 	 */
-	agent.server.tool(
-		KV_NAMESPACE_TOOLS.kv_namespace_get,
-		`Get details of a kv namespace in your Cloudflare account.
+	registerTool(agent, {
+		name: KV_NAMESPACE_TOOLS.kv_namespace_get,
+		description: `Get details of a kv namespace in your Cloudflare account.
 		Use this tool when you need to get details of a specific kv namespace in your Cloudflare account.
 		Returns a kv namespace with the following properties:
 			- id: The id of the kv namespace.
@@ -180,90 +128,264 @@ export function registerKVTools(agent: CloudflareMcpAgent) {
 			- supports_url_encoding: Whether the kv namespace supports url encoding.
 			- beta: Whether the kv namespace is in beta.
 		`,
-		{
+		params: {
 			namespace_id: KvNamespaceIdSchema,
 		},
-		{
-			title: 'Get KV namespace',
-			annotations: {
-				readOnlyHint: true,
-			},
+		title: 'Get KV namespace',
+		annotations: {
+			readOnlyHint: true,
 		},
-		async ({ namespace_id }) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
-			}
-			try {
-				const client = getCloudflareClient(agent.props.accessToken)
-				const namespace = await client.kv.namespaces.get(namespace_id, { account_id })
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(namespace),
-						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error getting KV namespace: ${error instanceof Error ? error.message : String(error)}`,
-						},
-					],
-				}
-			}
-		}
-	)
+		handler: async ({ namespace_id, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const namespace = await client.kv.namespaces.get(namespace_id, { account_id: accountId })
+			return namespace
+		},
+	})
 
 	/**
 	 * Tool to update the title of a KV namespace.
 	 */
-	agent.server.tool(
-		KV_NAMESPACE_TOOLS.kv_namespace_update,
-		'Update the title of a kv namespace in your Cloudflare account',
-		{
+	registerTool(agent, {
+		name: KV_NAMESPACE_TOOLS.kv_namespace_update,
+		description: 'Update the title of a kv namespace in your Cloudflare account',
+		params: {
 			namespace_id: KvNamespaceIdSchema,
 			title: KvNamespaceTitleSchema,
 		},
-		{
-			title: 'Update KV namespace',
-			annotations: {
-				readOnlyHint: false,
-				destructiveHint: false,
-			},
-		},
-		async ({ namespace_id, title }) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
+		title: 'Update KV namespace',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: false,
+		},
+		handler: async ({ namespace_id, title, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.kv.namespaces.update(namespace_id, {
+				account_id: accountId,
+				title,
+			})
+			return result ?? { success: true }
+		},
+	})
+
+	/**
+	 * Tool to list the keys in a KV namespace.
+	 */
+	registerTool(agent, {
+		name: KV_NAMESPACE_TOOLS.kv_keys_list,
+		description: `
+			List the keys stored in a kv namespace, optionally filtered by prefix.
+			Returns the keys with their expiration (seconds since the UNIX epoch) and metadata.
+			If a cursor is returned, pass it to the next call to fetch the next page of keys.
+			`,
+		params: {
+			namespace_id: KvNamespaceIdSchema,
+			params: KvKeysListParamsSchema.optional(),
+		},
+		title: 'List KV keys',
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: async ({ namespace_id, params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const response = await client.kv.namespaces.keys.list(namespace_id, {
+				account_id: accountId,
+				...params,
+			})
+
+			const keys = response.result ?? []
+			return {
+				keys,
+				count: keys.length,
+				// the API returns an empty cursor on the last page
+				cursor: response.result_info?.cursor || undefined,
 			}
-			try {
-				const client = getCloudflareClient(agent.props.accessToken)
-				const result = await client.kv.namespaces.update(namespace_id, {
-					account_id,
-					title,
-				})
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(result ?? { success: true }),
-						},
-					],
+		},
+	})
+
+	/**
+	 * Tool to read the value of a key in a KV namespace.
+	 */
+	registerTool(agent, {
+		name: KV_NAMESPACE_TOOLS.kv_value_get,
+		description: `Read the value stored under a key in a kv namespace.
+		Text values are returned as text, JSON values can be pretty-printed with format "json", and binary values are returned as a base64 encoded resource.
+		Values larger than ${KV_VALUE_MAX_READ_BYTES} bytes can't be read with this tool.`,
+		params: {
+			namespace_id: KvNamespaceIdSchema,
+			key: KvKeyNameSchema,
+			format: KvValueFormatSchema,
+		},
+		title: 'Get KV value',
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: async ({ namespace_id, key, format, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const response = await client.kv.namespaces.values.get(
+				namespace_id,
+				encodeURIComponent(key),
+				{ account_id: accountId }
+			)
+
+			const buffer = await response.arrayBuffer()
+			if (buffer.byteLength > KV_VALUE_MAX_READ_BYTES) {
+				throw new McpError(
+					`Value of "${key}" is ${buffer.byteLength} bytes, which is larger than the ${KV_VALUE_MAX_READ_BYTES} byte limit for reading values`,
+					413
+				)
+			}
+
+			let text: string | null = null
+			if (format !== 'binary') {
+				try {
+					text = new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(buffer)
+				} catch {
+					if (format !== 'auto') {
+						throw new McpError(`Value of "${key}" is not valid UTF-8 text`, 422)
+					}
 				}
-			} catch (error) {
+			}
+
+			if (text === null) {
 				return {
 					content: [
 						{
-							type: 'text',
-							text: `Error updating KV namespace: ${error instanceof Error ? error.message : String(error)}`,
+							type: 'resource',
+							resource: {
+								uri: `kv://${namespace_id}/${key}`,
+								mimeType: 'application/octet-stream',
+								blob: toBase64(buffer),
+							},
 						},
 					],
 				}
 			}
-		}
-	)
+
+			if (format === 'json') {
+				text = JSON.stringify(JSON.parse(text), null, 2)
+			}
+			return {
+				content: [
+					{
+						type: 'text',
+						text,
+					},
+				],
+			}
+		},
+	})
+
+	/**
+	 * Tool to write a value to a key in a KV namespace.
+	 */
+	registerTool(agent, {
+		name: KV_NAMESPACE_TOOLS.kv_value_put,
+		description: `Write a value to a key in a kv namespace, overwriting any existing value, expiration and metadata.
+		Set base64 to true to write binary data.`,
+		params: {
+			namespace_id: KvNamespaceIdSchema,
+			...KvEntrySchema.shape,
+		},
+		title: 'Put KV value',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({
+			namespace_id,
+			key,
+			value,
+			base64,
+			expiration_ttl,
+			metadata,
+			accountId,
+			apiToken,
+		}) => {
+			const client = getCloudflareClient(apiToken)
+			// The single value endpoint needs a multipart body to set metadata, so write through the bulk endpoint instead
+			const result = await client.kv.namespaces.bulkUpdate(namespace_id, {
+				account_id: accountId,
+				body: [{ key, value, base64, expiration_ttl, metadata }],
+			})
+			return result ?? { success: true }
+		},
+	})
+
+	/**
+	 * Tool to delete a key from a KV namespace.
+	 */
+	registerTool(agent, {
+		name: KV_NAMESPACE_TOOLS.kv_value_delete,
+		description: 'Delete a key and its value from a kv namespace',
+		params: {
+			namespace_id: KvNamespaceIdSchema,
+			key: KvKeyNameSchema,
+		},
+		title: 'Delete KV value',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ namespace_id, key, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.kv.namespaces.values.delete(
+				namespace_id,
+				encodeURIComponent(key),
+				{ account_id: accountId }
+			)
+			return result ?? { success: true }
+		},
+	})
+
+	/**
+	 * Tool to write many values to a KV namespace at once.
+	 */
+	registerTool(agent, {
+		name: KV_NAMESPACE_TOOLS.kv_values_bulk_put,
+		description: `Write multiple key-value pairs to a kv namespace in a single request, overwriting existing values.
+		Returns the number of keys written and the keys that failed and should be retried.`,
+		params: {
+			namespace_id: KvNamespaceIdSchema,
+			entries: z.array(KvEntrySchema).min(1).max(KV_BULK_MAX_KEYS),
+		},
+		title: 'Bulk put KV values',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ namespace_id, entries, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.kv.namespaces.bulkUpdate(namespace_id, {
+				account_id: accountId,
+				body: entries,
+			})
+			return result ?? { success: true }
+		},
+	})
+
+	/**
+	 * Tool to delete many keys from a KV namespace at once.
+	 */
+	registerTool(agent, {
+		name: KV_NAMESPACE_TOOLS.kv_values_bulk_delete,
+		description: `Delete multiple keys from a kv namespace in a single request.
+		Returns the number of keys deleted and the keys that failed and should be retried.`,
+		params: {
+			namespace_id: KvNamespaceIdSchema,
+			keys: z.array(KvKeyNameSchema).min(1).max(KV_BULK_MAX_KEYS),
+		},
+		title: 'Bulk delete KV values',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ namespace_id, keys, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.kv.namespaces.bulkDelete(namespace_id, {
+				account_id: accountId,
+				body: keys,
+			})
+			return result ?? { success: true }
+		},
+	})
 }
@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { mockCloudflareClient } from '../../tests/utils/cloudflare-mock'
+import { createMockAgent } from '../../tests/utils/mock-agent'
+import { getCloudflareClient } from '../cloudflare-api'
+import { MISSING_ACCOUNT_ID_MESSAGE } from '../constants'
+import { registerR2BucketTools } from './r2_bucket.tools'
+
+vi.mock('../cloudflare-api', () => ({
+	getCloudflareClient: vi.fn(),
+	fetchCloudflareApi: vi.fn(),
+	fetchCloudflareApiRaw: vi.fn(),
+}))
+
+describe('R2 bucket configuration tools', () => {
+	let client: ReturnType<typeof mockCloudflareClient>
+	let mock: ReturnType<typeof createMockAgent>
+
+	beforeEach(() => {
+		client = mockCloudflareClient(getCloudflareClient)
+
+		mock = createMockAgent()
+		registerR2BucketTools(mock.agent)
+	})
+
+	it('annotates read and write tools', () => {
+		const annotationsByName = Object.fromEntries(
+			[...mock.tools].map(([name, tool]) => [name, tool.annotations?.annotations])
+		)
+
+		expect(annotationsByName.r2_bucket_cors_get).toEqual({ readOnlyHint: true })
+		expect(annotationsByName.r2_metrics_list).toEqual({ readOnlyHint: true })
+		expect(annotationsByName.r2_bucket_domains_create).toEqual({
+			readOnlyHint: false,
+			destructiveHint: false,
+		})
+		for (const name of [
+			'r2_bucket_cors_update',
+			'r2_bucket_cors_delete',
+			'r2_bucket_domains_delete',
+			'r2_bucket_event_notifications_update',
+			'r2_bucket_locks_update',
+			'r2_sippy_delete',
+		]) {
+			expect(annotationsByName[name]).toEqual({ readOnlyHint: false, destructiveHint: true })
+		}
+	})
+
+	it('fails without an active account', async () => {
+		const { agent, callTool } = createMockAgent({ accountId: null })
+		registerR2BucketTools(agent)
+
+		await expect(callTool('r2_bucket_cors_get', { name: 'mock-bucket' })).rejects.toMatchObject({
+			message: MISSING_ACCOUNT_ID_MESSAGE,
+			code: 400,
+		})
+		expect(client.r2.buckets.cors.get).not.toHaveBeenCalled()
+	})
+
+	it('gets the CORS configuration of a bucket', async () => {
+		const result = await mock.callTool('r2_bucket_cors_get', {
+			name: 'mock-bucket',
+			params: { jurisdiction: 'eu' },
+		})
+
+		expect(client.r2.buckets.cors.get).toHaveBeenCalledWith('mock-bucket', {
+			account_id: 'mock-account-id',
+			jurisdiction: 'eu',
+		})
+		expect(JSON.parse((result.content[0] as { text: string }).text)).toEqual({
+			rules: [{ allowed: { methods: ['GET'], origins: ['https://example.com'] } }],
+		})
+	})
+
+	it('updates the CORS rules of a bucket', async () => {
+		const rules = [{ allowed: { methods: ['GET', 'PUT'], origins: ['*'] }, maxAgeSeconds: 3600 }]
+		await mock.callTool('r2_bucket_cors_update', { name: 'mock-bucket', cors_config: { rules } })
+
+		expect(client.r2.buckets.cors.update).toHaveBeenCalledWith('mock-bucket', {
+			account_id: 'mock-account-id',
+			rules,
+		})
+	})
+
+	it('creates a custom domain for a bucket', async () => {
+		await mock.callTool('r2_bucket_domains_create', {
+			name: 'mock-bucket',
+			params: { domain: 'assets.example.com', enabled: true, zoneId: 'mock-zone-id' },
+		})
+
+		expect(client.r2.buckets.domains.custom.create).toHaveBeenCalledWith('mock-bucket', {
+			account_id: 'mock-account-id',
+			domain: 'assets.example.com',
+			enabled: true,
+			zoneId: 'mock-zone-id',
+		})
+	})
+
+	it('deletes a custom domain of a bucket', async () => {
+		await mock.callTool('r2_bucket_domains_delete', {
+			name: 'mock-bucket',
+			domain: 'assets.example.com',
+		})
+
+		expect(client.r2.buckets.domains.custom.delete).toHaveBeenCalledWith(
+			'mock-bucket',
+			'assets.example.com',
+			{ account_id: 'mock-account-id' }
+		)
+	})
+
+	it('updates the event notifications of a bucket for a queue', async () => {
+		const rules = [{ actions: ['PutObject', 'DeleteObject'], prefix: 'uploads/' }]
+		await mock.callTool('r2_bucket_event_notifications_update', {
+			name: 'mock-bucket',
+			queueId: 'mock-queue-id',
+			params: { rules },
+		})
+
+		expect(client.r2.buckets.eventNotifications.update).toHaveBeenCalledWith(
+			'mock-bucket',
+			'mock-queue-id',
+			{ account_id: 'mock-account-id', rules }
+		)
+	})
+
+	it('updates the lock rules of a bucket', async () => {
+		const rules = [
+			{ id: 'retain-logs', enabled: true, prefix: 'logs/', condition: { type: 'Indefinite' } },
+		]
+		await mock.callTool('r2_bucket_locks_update', { name: 'mock-bucket', params: { rules } })
+
+		expect(client.r2.buckets.locks.update).toHaveBeenCalledWith('mock-bucket', {
+			account_id: 'mock-account-id',
+			rules,
+		})
+	})
+
+	it('creates temporary credentials', async () => {
+		const params = {
+			bucket: 'mock-bucket',
+			ttlSeconds: 900,
+			permission: 'object-read-only',
+			parentAccessKeyId: 'mock-parent-key',
+		}
+		const result = await mock.callTool('r2_bucket_temporary_credentials_create', { params })
+
+		expect(client.r2.temporaryCredentials.create).toHaveBeenCalledWith({
+			account_id: 'mock-account-id',
+			...params,
+		})
+		expect((result.content[0] as { text: string }).text).toContain('mock-session-token')
+	})
+
+	it('lists R2 metrics', async () => {
+		await mock.callTool('r2_metrics_list')
+
+		expect(client.r2.buckets.metrics.list).toHaveBeenCalledWith({ account_id: 'mock-account-id' })
+	})
+
+	it('passes the jurisdiction through when deleting sippy', async () => {
+		await mock.callTool('r2_sippy_delete', {
+			bucketName: 'mock-bucket',
+			params: { jurisdiction: 'eu' },
+		})
+
+		expect(client.r2.buckets.sippy.delete).toHaveBeenCalledWith('mock-bucket', {
+			account_id: 'mock-account-id',
+			jurisdiction: 'eu',
+		})
+	})
+
+	it('prefixes errors with the tool name', async () => {
+		client.r2.buckets.sippy.get.mockRejectedValueOnce(new Error('bucket not found'))
+
+		await expect(mock.callTool('r2_sippy_get', { bucketName: 'mock-bucket' })).rejects.toThrow(
+			'r2_sippy_get failed: bucket not found'
+		)
+	})
+})
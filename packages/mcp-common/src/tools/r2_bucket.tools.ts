@@ -1,5 +1,15 @@
+import {
+	deleteR2Object,
+	getR2Object,
+	headR2Object,
+	listR2Objects,
+	putR2Object,
+	R2_OBJECT_MAX_READ_BYTES,
+	R2_OBJECT_MAX_WRITE_BYTES,
+} from '../api/r2.api'
 import { getCloudflareClient } from '../cloudflare-api'
-import { MISSING_ACCOUNT_ID_RESPONSE } from '../constants'
+import { McpError } from '../mcp-error'
+import { registerTool } from '../tool-registry'
 import { type CloudflareMcpAgent } from '../types/cloudflare-mcp-agent.types'
 import {
 	BucketListCursorParam,
@@ -7,838 +17,718 @@ import {
 	BucketListNameContainsParam,
 	BucketListStartAfterParam,
 	BucketNameSchema,
+	CorsDeleteParamsSchema,
+	CorsGetParamsSchema,
+	CorsRulesSchema,
+	CustomDomainCreateParamsSchema,
+	CustomDomainDeleteParamsSchema,
+	CustomDomainGetParamsSchema,
+	CustomDomainListParamsSchema,
+	CustomDomainNameSchema,
+	CustomDomainUpdateParamsSchema,
+	EventNotificationDeleteParamsSchema,
+	EventNotificationGetParamsSchema,
+	EventNotificationUpdateParamsSchema,
+	JurisdictionEnum,
+	LockGetParamsSchema,
+	LockUpdateParamsSchema,
+	ObjectContentEncodingSchema,
+	ObjectContentSchema,
+	ObjectContentTypeSchema,
+	ObjectKeySchema,
+	ObjectListCursorParam,
+	ObjectListDelimiterParam,
+	ObjectListPerPageParam,
+	ObjectListPrefixParam,
+	QueueIdSchema,
+	SippyDeleteParamsSchema,
+	SippyGetParamsSchema,
+	SippyUpdateParamsSchema,
+	TemporaryCredentialsCreateParamsSchema,
 } from '../types/r2_bucket.types'
 import { PaginationPerPageParam } from '../types/shared.types'
+import { fromBase64, guessMimeType, isTextMimeType, toBase64 } from '../utils'
 
 export function registerR2BucketTools(agent: CloudflareMcpAgent) {
-	agent.server.tool(
-		'r2_buckets_list',
-		'List r2 buckets in your Cloudflare account',
-		{
+	registerTool(agent, {
+		name: 'r2_buckets_list',
+		description: 'List r2 buckets in your Cloudflare account',
+		params: {
 			cursor: BucketListCursorParam,
 			direction: BucketListDirectionParam,
 			name_contains: BucketListNameContainsParam,
 			per_page: PaginationPerPageParam,
 			start_after: BucketListStartAfterParam,
 		},
-		{
-			title: 'List R2 buckets',
-			annotations: {
-				readOnlyHint: true,
-			},
+		title: 'List R2 buckets',
+		annotations: {
+			readOnlyHint: true,
 		},
-		async ({ cursor, direction, name_contains, per_page, start_after }) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
+		handler: async ({
+			cursor,
+			direction,
+			name_contains,
+			per_page,
+			start_after,
+			accountId,
+			apiToken,
+		}) => {
+			const client = getCloudflareClient(apiToken)
+			const listResponse = await client.r2.buckets.list({
+				account_id: accountId,
+				cursor: cursor ?? undefined,
+				direction: direction ?? undefined,
+				name_contains: name_contains ?? undefined,
+				per_page: per_page ?? undefined,
+				start_after: start_after ?? undefined,
+			})
+
+			return {
+				buckets: listResponse.buckets,
+				count: listResponse.buckets?.length ?? 0,
 			}
-			try {
-				const client = getCloudflareClient(agent.props.accessToken)
-				const listResponse = await client.r2.buckets.list({
-					account_id,
-					cursor: cursor ?? undefined,
-					direction: direction ?? undefined,
-					name_contains: name_contains ?? undefined,
-					per_page: per_page ?? undefined,
-					start_after: start_after ?? undefined,
-				})
+		},
+	})
 
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify({
-								buckets: listResponse.buckets,
-								count: listResponse.buckets?.length ?? 0,
-							}),
-						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error listing R2 buckets: ${error instanceof Error && error.message}`,
-						},
-					],
-				}
+	registerTool(agent, {
+		name: 'r2_bucket_create',
+		description: 'Create a new r2 bucket in your Cloudflare account',
+		params: { name: BucketNameSchema },
+		title: 'Create R2 bucket',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: false,
+		},
+		handler: async ({ name, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const bucket = await client.r2.buckets.create({
+				account_id: accountId,
+				name,
+			})
+			return bucket
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_bucket_get',
+		description: 'Get details about a specific R2 bucket',
+		params: { name: BucketNameSchema },
+		title: 'Get R2 bucket',
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: async ({ name, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const bucket = await client.r2.buckets.get(name, { account_id: accountId })
+			return bucket
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_bucket_delete',
+		description: 'Delete an R2 bucket',
+		params: { name: BucketNameSchema },
+		title: 'Delete R2 bucket',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ name, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.r2.buckets.delete(name, { account_id: accountId })
+			return result
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_objects_list',
+		description: `List objects in an R2 bucket.
+		Use prefix and delimiter to browse the bucket like a directory tree: with delimiter "/", keys below the next "/" are rolled up into the "delimited" prefixes.
+		If "truncated" is true, pass the returned cursor to fetch the next page.`,
+		params: {
+			bucket: BucketNameSchema,
+			prefix: ObjectListPrefixParam,
+			delimiter: ObjectListDelimiterParam,
+			cursor: ObjectListCursorParam,
+			per_page: ObjectListPerPageParam,
+			jurisdiction: JurisdictionEnum.optional(),
+		},
+		title: 'List R2 objects',
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: async ({
+			bucket,
+			prefix,
+			delimiter,
+			cursor,
+			per_page,
+			jurisdiction,
+			accountId,
+			apiToken,
+		}) => {
+			const listResponse = await listR2Objects({
+				accountId,
+				apiToken,
+				bucketName: bucket,
+				prefix,
+				delimiter,
+				cursor,
+				perPage: per_page,
+				jurisdiction,
+			})
+
+			const objects = (listResponse.result ?? []).map((object) => ({
+				key: object.key,
+				size: object.size,
+				last_modified: object.last_modified,
+				content_type: object.http_metadata?.contentType,
+			}))
+
+			return {
+				objects,
+				count: objects.length,
+				delimited: listResponse.result_info?.delimited ?? [],
+				truncated: listResponse.result_info?.is_truncated ?? false,
+				cursor: listResponse.result_info?.cursor,
 			}
-		}
-	)
-
-	agent.server.tool(
-		'r2_bucket_create',
-		'Create a new r2 bucket in your Cloudflare account',
-		{ name: BucketNameSchema },
-		{
-			title: 'Create R2 bucket',
-			annotations: {
-				readOnlyHint: false,
-				destructiveHint: false,
-			},
-		},
-		async ({ name }) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_object_head',
+		description:
+			'Get the metadata (size, etag, content type, custom metadata) of an object in an R2 bucket without downloading it',
+		params: {
+			bucket: BucketNameSchema,
+			key: ObjectKeySchema,
+			jurisdiction: JurisdictionEnum.optional(),
+		},
+		title: 'Get R2 object metadata',
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: async ({ bucket, key, jurisdiction, accountId, apiToken }) => {
+			const object = await headR2Object({
+				accountId,
+				apiToken,
+				bucketName: bucket,
+				key,
+				jurisdiction,
+			})
+			if (!object) {
+				throw new McpError(`Object "${key}" not found in R2 bucket "${bucket}"`, 404)
 			}
-			try {
-				const client = getCloudflareClient(agent.props.accessToken)
-				const bucket = await client.r2.buckets.create({
-					account_id,
-					name,
-				})
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(bucket),
-						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error creating KV namespace: ${error instanceof Error && error.message}`,
-						},
-					],
-				}
+			return object
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_object_get',
+		description: `Read an object from an R2 bucket.
+		Text objects (text/*, JSON, XML, YAML...) are returned as text. Any other object is returned as a base64 encoded resource.
+		Objects larger than ${R2_OBJECT_MAX_READ_BYTES} bytes can't be read with this tool; use r2_object_head to check the size first.`,
+		params: {
+			bucket: BucketNameSchema,
+			key: ObjectKeySchema,
+			jurisdiction: JurisdictionEnum.optional(),
+		},
+		title: 'Get R2 object',
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: async ({ bucket, key, jurisdiction, accountId, apiToken }) => {
+			const response = await getR2Object({
+				accountId,
+				apiToken,
+				bucketName: bucket,
+				key,
+				jurisdiction,
+			})
+
+			const tooLargeError = (size: number) =>
+				new McpError(
+					`Object "${key}" is ${size} bytes, which is larger than the ${R2_OBJECT_MAX_READ_BYTES} byte limit for reading objects`,
+					413
+				)
+
+			const contentLength = Number(response.headers.get('Content-Length'))
+			if (contentLength > R2_OBJECT_MAX_READ_BYTES) {
+				await response.body?.cancel()
+				throw tooLargeError(contentLength)
 			}
-		}
-	)
-
-	agent.server.tool(
-		'r2_bucket_get',
-		'Get details about a specific R2 bucket',
-		{ name: BucketNameSchema },
-		{
-			title: 'Get R2 bucket',
-			annotations: {
-				readOnlyHint: true,
-			},
-		},
-		async ({ name }) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
+
+			const buffer = await response.arrayBuffer()
+			if (buffer.byteLength > R2_OBJECT_MAX_READ_BYTES) {
+				throw tooLargeError(buffer.byteLength)
 			}
-			try {
-				const client = getCloudflareClient(agent.props.accessToken)
-				const bucket = await client.r2.buckets.get(name, { account_id })
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(bucket),
-						},
-					],
-				}
-			} catch (error) {
+
+			const headerContentType = response.headers.get('Content-Type')
+			const mimeType =
+				headerContentType && headerContentType !== 'application/octet-stream'
+					? headerContentType
+					: guessMimeType(key)
+			const uri = `r2://${bucket}/${key}`
+
+			if (isTextMimeType(mimeType)) {
 				return {
 					content: [
 						{
-							type: 'text',
-							text: `Error getting R2 bucket: ${error instanceof Error && error.message}`,
+							type: 'resource',
+							resource: {
+								uri,
+								mimeType,
+								text: new TextDecoder().decode(buffer),
+							},
 						},
 					],
 				}
 			}
-		}
-	)
-
-	agent.server.tool(
-		'r2_bucket_delete',
-		'Delete an R2 bucket',
-		{ name: BucketNameSchema },
-		{
-			title: 'Delete R2 bucket',
-			annotations: {
-				readOnlyHint: false,
-				destructiveHint: true,
-			},
-		},
-		async ({ name }) => {
-			const account_id = await agent.getActiveAccountId()
-			if (!account_id) {
-				return MISSING_ACCOUNT_ID_RESPONSE
-			}
-			try {
-				const client = getCloudflareClient(agent.props.accessToken)
-				const result = await client.r2.buckets.delete(name, { account_id })
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(result),
+			return {
+				content: [
+					{
+						type: 'resource',
+						resource: {
+							uri,
+							mimeType,
+							blob: toBase64(buffer),
 						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error deleting R2 bucket: ${error instanceof Error && error.message}`,
-						},
-					],
-				}
+					},
+				],
+			}
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_object_put',
+		description: `Upload a small object to an R2 bucket, overwriting any existing object with the same key.
+		Use encoding "base64" to upload binary data. Uploads are limited to ${R2_OBJECT_MAX_WRITE_BYTES} bytes.`,
+		params: {
+			bucket: BucketNameSchema,
+			key: ObjectKeySchema,
+			content: ObjectContentSchema,
+			encoding: ObjectContentEncodingSchema,
+			content_type: ObjectContentTypeSchema,
+			jurisdiction: JurisdictionEnum.optional(),
+		},
+		title: 'Put R2 object',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({
+			bucket,
+			key,
+			content,
+			encoding,
+			content_type,
+			jurisdiction,
+			accountId,
+			apiToken,
+		}) => {
+			const body = encoding === 'base64' ? fromBase64(content) : new TextEncoder().encode(content)
+			if (body.byteLength > R2_OBJECT_MAX_WRITE_BYTES) {
+				throw new McpError(
+					`Object is ${body.byteLength} bytes, which is larger than the ${R2_OBJECT_MAX_WRITE_BYTES} byte limit for uploading objects`,
+					413
+				)
 			}
-		}
-	)
-
-	// Commenting out non-CRUD tools for now to keep the bindings MCP surface small
-	// agent.server.tool(
-	// 	'r2_bucket_cors_get',
-	// 	'Get CORS configuration for an R2 bucket',
-	// 	{
-	// 		name: BucketNameSchema,
-	// 		params: CorsGetParamsSchema.optional(),
-	// 	},
-	// 	async ({ name, params }) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const cors = await client.r2.buckets.cors.get(name, {
-	// 				account_id,
-	// 				...params,
-	// 			})
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(cors),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error getting R2 bucket CORS configuration: ${error instanceof Error && error.message}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
-
-	// agent.server.tool(
-	// 	'r2_bucket_cors_update',
-	// 	'Update CORS configuration for an R2 bucket',
-	// 	{
-	// 		name: BucketNameSchema,
-	// 		cors_config: CorsRulesSchema,
-	// 	},
-	// 	async ({ name, cors_config }) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const result = await client.r2.buckets.cors.update(name, {
-	// 				account_id,
-	// 				...cors_config,
-	// 			})
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(result),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error updating R2 bucket CORS configuration: ${error instanceof Error && error.message}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
-
-	// agent.server.tool(
-	// 	'r2_bucket_cors_delete',
-	// 	'Delete CORS configuration for an R2 bucket',
-	// 	{
-	// 		name: BucketNameSchema,
-	// 		params: CorsDeleteParamsSchema.optional(),
-	// 	},
-	// 	async ({ name, params }) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const result = await client.r2.buckets.cors.delete(name, {
-	// 				account_id,
-	// 				...params,
-	// 			})
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(result),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error deleting R2 bucket CORS configuration: ${error instanceof Error && error.message}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
-
-	// agent.server.tool(
-	// 	'r2_bucket_domains_list',
-	// 	'List all of the domains for an R2 bucket',
-	// 	{ name: BucketNameSchema, params: CustomDomainListParamsSchema.optional() },
-	// 	async ({ name, params }) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const domains = await client.r2.buckets.domains.custom.list(name, { account_id, ...params })
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(domains),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error listing R2 bucket domains: ${error instanceof Error && error.message}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
-
-	// agent.server.tool(
-	// 	'r2_bucket_domains_get',
-	// 	'Get details about a specific domain for an R2 bucket',
-	// 	{
-	// 		name: BucketNameSchema,
-	// 		domain: CustomDomainNameSchema,
-	// 		params: CustomDomainGetParamsSchema.optional(),
-	// 	},
-	// 	async ({ name, domain, params }) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const result = await client.r2.buckets.domains.custom.get(name, domain, {
-	// 				account_id,
-	// 				...params,
-	// 			})
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(result),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error getting R2 bucket domain: ${error instanceof Error && error.message}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
-
-	// agent.server.tool(
-	// 	'r2_bucket_domains_create',
-	// 	'Create a new domain for an R2 bucket',
-	// 	{ name: BucketNameSchema, params: CustomDomainCreateParamsSchema },
-	// 	async ({ name, params }) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const result = await client.r2.buckets.domains.custom.create(name, {
-	// 				account_id,
-	// 				...params,
-	// 			})
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(result),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error creating R2 bucket domain: ${error instanceof Error && error.message}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
-
-	// agent.server.tool(
-	// 	'r2_bucket_domains_delete',
-	// 	'Delete a domain for an R2 bucket',
-	// 	{
-	// 		name: BucketNameSchema,
-	// 		domain: CustomDomainNameSchema,
-	// 		params: CustomDomainDeleteParamsSchema.optional(),
-	// 	},
-	// 	async ({ name, domain, params }) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const result = await client.r2.buckets.domains.custom.delete(name, domain, {
-	// 				account_id,
-	// 				...params,
-	// 			})
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(result),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error deleting R2 bucket domain: ${error instanceof Error && error.message}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
-
-	// agent.server.tool(
-	// 	'r2_bucket_domains_update',
-	// 	'Update a domain for an R2 bucket',
-	// 	{
-	// 		name: BucketNameSchema,
-	// 		domain: CustomDomainNameSchema,
-	// 		params: CustomDomainUpdateParamsSchema,
-	// 	},
-	// 	async ({ name, domain, params }) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const result = await client.r2.buckets.domains.custom.update(name, domain, {
-	// 				account_id,
-	// 				...params,
-	// 			})
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(result),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error updating R2 bucket domain: ${error instanceof Error && error.message}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
-
-	// agent.server.tool(
-	// 	'r2_bucket_event_notifications_get',
-	// 	'Get event notifications for an R2 bucket',
-	// 	{ name: BucketNameSchema, params: EventNotificationGetParamsSchema.optional() },
-	// 	async ({ name, params }) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const result = await client.r2.buckets.eventNotifications.get(name, {
-	// 				account_id,
-	// 				...params,
-	// 			})
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(result),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error getting R2 bucket event notifications: ${error instanceof Error && error.message}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
-
-	// agent.server.tool(
-	// 	'r2_bucket_event_notifications_update',
-	// 	'Update event notifications for an R2 bucket',
-	// 	{
-	// 		name: BucketNameSchema,
-	// 		queueId: QueueIdSchema,
-	// 		params: EventNotificationUpdateParamsSchema.optional(),
-	// 	},
-	// 	async ({ name, queueId, params }) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const result = await client.r2.buckets.eventNotifications.update(name, queueId, {
-	// 				account_id,
-	// 				...params,
-	// 			})
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(result),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error updating R2 bucket event notifications: ${error instanceof Error && error.message}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
-
-	// agent.server.tool(
-	// 	'r2_bucket_event_notifications_delete',
-	// 	'Delete event notifications for an R2 bucket',
-	// 	{
-	// 		name: BucketNameSchema,
-	// 		queueId: QueueIdSchema,
-	// 		params: EventNotificationDeleteParamsSchema.optional(),
-	// 	},
-	// 	async ({ name, queueId, params }) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const result = await client.r2.buckets.eventNotifications.delete(name, queueId, {
-	// 				account_id,
-	// 				...params,
-	// 			})
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(result),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error deleting R2 bucket event notifications: ${error instanceof Error && error.message}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
-
-	// agent.server.tool(
-	// 	'r2_bucket_locks_get',
-	// 	'Get locks for an R2 bucket',
-	// 	{ name: BucketNameSchema, params: LockGetParamsSchema.optional() },
-	// 	async ({ name, params }) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const result = await client.r2.buckets.locks.get(name, { account_id, ...params })
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(result),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error getting R2 bucket locks: ${error instanceof Error && error.message}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
-
-	// agent.server.tool(
-	// 	'r2_bucket_locks_update',
-	// 	'Update locks for an R2 bucket',
-	// 	{ name: BucketNameSchema, params: LockUpdateParamsSchema },
-	// 	async ({ name, params }) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const result = await client.r2.buckets.locks.update(name, { account_id, ...params })
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(result),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error updating R2 bucket locks: ${error instanceof Error && error.message}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
-
-	// agent.server.tool(
-	// 	'r2_bucket_temporary_credentials_create',
-	// 	'Create temporary credentials for an R2 bucket',
-	// 	{ params: TemporaryCredentialsCreateParamsSchema },
-	// 	async ({ params }) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const result = await client.r2.temporaryCredentials.create({
-	// 				account_id,
-	// 				...params,
-	// 			})
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(result),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error creating temporary credentials for R2 bucket: ${error instanceof Error && error.message}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
-
-	// agent.server.tool('r2_metrics_list', 'List metrics for an R2 bucket', async () => {
-	// 	const account_id = await agent.getActiveAccountId()
-	// 	if (!account_id) {
-	// 		return MISSING_ACCOUNT_ID_RESPONSE
-	// 	}
-	// 	try {
-	// 		const client = getCloudflareClient(agent.props.accessToken)
-	// 		const result = await client.r2.buckets.metrics.list({ account_id })
-	// 		return {
-	// 			content: [
-	// 				{
-	// 					type: 'text',
-	// 					text: JSON.stringify(result),
-	// 				},
-	// 			],
-	// 		}
-	// 	} catch (error) {
-	// 		return {
-	// 			content: [
-	// 				{
-	// 					type: 'text',
-	// 					text: `Error listing R2 bucket metrics: ${error instanceof Error && error.message}`,
-	// 				},
-	// 			],
-	// 		}
-	// 	}
-	// })
-
-	// agent.server.tool(
-	// 	'r2_sippy_get',
-	// 	'Get configuration for sippy for an R2 bucket',
-	// 	{ bucketName: BucketNameSchema, params: SippyGetParamsSchema.optional() },
-	// 	async ({ bucketName, params }) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const result = await client.r2.buckets.sippy.get(bucketName, { account_id, ...params })
-	// 			console.log('sippy get result', result)
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(result ?? null),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error getting R2 bucket sippy: ${error instanceof Error && error.message}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
-
-	// agent.server.tool(
-	// 	'r2_sippy_update',
-	// 	'Update configuration for sippy for an R2 bucket',
-	// 	{ bucketName: BucketNameSchema, params: SippyUpdateParamsSchema },
-	// 	async ({ bucketName, params }) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const result = await client.r2.buckets.sippy.update(bucketName, { account_id, ...params })
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(result),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error updating R2 bucket sippy: ${error instanceof Error && error.message}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
-
-	// agent.server.tool(
-	// 	'r2_sippy_delete',
-	// 	'Delete sippy for an R2 bucket',
-	// 	{ bucketName: BucketNameSchema },
-	// 	async ({ bucketName }) => {
-	// 		const account_id = await agent.getActiveAccountId()
-	// 		if (!account_id) {
-	// 			return MISSING_ACCOUNT_ID_RESPONSE
-	// 		}
-	// 		try {
-	// 			const client = getCloudflareClient(agent.props.accessToken)
-	// 			const result = await client.r2.buckets.sippy.delete(bucketName, { account_id })
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: JSON.stringify(result),
-	// 					},
-	// 				],
-	// 			}
-	// 		} catch (error) {
-	// 			return {
-	// 				content: [
-	// 					{
-	// 						type: 'text',
-	// 						text: `Error deleting R2 bucket sippy: ${error instanceof Error && error.message}`,
-	// 					},
-	// 				],
-	// 			}
-	// 		}
-	// 	}
-	// )
+
+			const contentType = content_type ?? guessMimeType(key)
+			await putR2Object({
+				accountId,
+				apiToken,
+				bucketName: bucket,
+				key,
+				body,
+				contentType,
+				jurisdiction,
+			})
+			return { key, size: body.byteLength, content_type: contentType }
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_object_delete',
+		description: 'Delete an object from an R2 bucket',
+		params: {
+			bucket: BucketNameSchema,
+			key: ObjectKeySchema,
+			jurisdiction: JurisdictionEnum.optional(),
+		},
+		title: 'Delete R2 object',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ bucket, key, jurisdiction, accountId, apiToken }) => {
+			await deleteR2Object({
+				accountId,
+				apiToken,
+				bucketName: bucket,
+				key,
+				jurisdiction,
+			})
+			return { success: true, key }
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_bucket_cors_get',
+		description: 'Get CORS configuration for an R2 bucket',
+		params: {
+			name: BucketNameSchema,
+			params: CorsGetParamsSchema.optional(),
+		},
+		title: 'Get R2 bucket CORS configuration',
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: async ({ name, params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const cors = await client.r2.buckets.cors.get(name, {
+				account_id: accountId,
+				...params,
+			})
+			return cors
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_bucket_cors_update',
+		description: 'Update CORS configuration for an R2 bucket',
+		params: {
+			name: BucketNameSchema,
+			cors_config: CorsRulesSchema,
+		},
+		title: 'Update R2 bucket CORS configuration',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ name, cors_config, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.r2.buckets.cors.update(name, {
+				account_id: accountId,
+				...cors_config,
+			})
+			return result
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_bucket_cors_delete',
+		description: 'Delete CORS configuration for an R2 bucket',
+		params: {
+			name: BucketNameSchema,
+			params: CorsDeleteParamsSchema.optional(),
+		},
+		title: 'Delete R2 bucket CORS configuration',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ name, params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.r2.buckets.cors.delete(name, {
+				account_id: accountId,
+				...params,
+			})
+			return result
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_bucket_domains_list',
+		description: 'List all of the domains for an R2 bucket',
+		params: { name: BucketNameSchema, params: CustomDomainListParamsSchema.optional() },
+		title: 'List R2 bucket custom domains',
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: async ({ name, params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const domains = await client.r2.buckets.domains.custom.list(name, {
+				account_id: accountId,
+				...params,
+			})
+			return domains
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_bucket_domains_get',
+		description: 'Get details about a specific domain for an R2 bucket',
+		params: {
+			name: BucketNameSchema,
+			domain: CustomDomainNameSchema,
+			params: CustomDomainGetParamsSchema.optional(),
+		},
+		title: 'Get R2 bucket custom domain',
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: async ({ name, domain, params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.r2.buckets.domains.custom.get(name, domain, {
+				account_id: accountId,
+				...params,
+			})
+			return result
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_bucket_domains_create',
+		description: 'Create a new domain for an R2 bucket',
+		params: { name: BucketNameSchema, params: CustomDomainCreateParamsSchema },
+		title: 'Create R2 bucket custom domain',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: false,
+		},
+		handler: async ({ name, params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.r2.buckets.domains.custom.create(name, {
+				account_id: accountId,
+				...params,
+			})
+			return result
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_bucket_domains_delete',
+		description: 'Delete a domain for an R2 bucket',
+		params: {
+			name: BucketNameSchema,
+			domain: CustomDomainNameSchema,
+			params: CustomDomainDeleteParamsSchema.optional(),
+		},
+		title: 'Delete R2 bucket custom domain',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ name, domain, params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.r2.buckets.domains.custom.delete(name, domain, {
+				account_id: accountId,
+				...params,
+			})
+			return result
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_bucket_domains_update',
+		description: 'Update a domain for an R2 bucket',
+		params: {
+			name: BucketNameSchema,
+			domain: CustomDomainNameSchema,
+			params: CustomDomainUpdateParamsSchema,
+		},
+		title: 'Update R2 bucket custom domain',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ name, domain, params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.r2.buckets.domains.custom.update(name, domain, {
+				account_id: accountId,
+				...params,
+			})
+			return result
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_bucket_event_notifications_get',
+		description: 'Get event notifications for an R2 bucket',
+		params: { name: BucketNameSchema, params: EventNotificationGetParamsSchema.optional() },
+		title: 'Get R2 bucket event notifications',
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: async ({ name, params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.r2.buckets.eventNotifications.get(name, {
+				account_id: accountId,
+				...params,
+			})
+			return result
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_bucket_event_notifications_update',
+		description: 'Update event notifications for an R2 bucket',
+		params: {
+			name: BucketNameSchema,
+			queueId: QueueIdSchema,
+			params: EventNotificationUpdateParamsSchema.optional(),
+		},
+		title: 'Update R2 bucket event notifications',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ name, queueId, params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.r2.buckets.eventNotifications.update(name, queueId, {
+				account_id: accountId,
+				...params,
+			})
+			return result
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_bucket_event_notifications_delete',
+		description: 'Delete event notifications for an R2 bucket',
+		params: {
+			name: BucketNameSchema,
+			queueId: QueueIdSchema,
+			params: EventNotificationDeleteParamsSchema.optional(),
+		},
+		title: 'Delete R2 bucket event notifications',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ name, queueId, params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.r2.buckets.eventNotifications.delete(name, queueId, {
+				account_id: accountId,
+				...params,
+			})
+			return result
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_bucket_locks_get',
+		description: 'Get locks for an R2 bucket',
+		params: { name: BucketNameSchema, params: LockGetParamsSchema.optional() },
+		title: 'Get R2 bucket locks',
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: async ({ name, params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.r2.buckets.locks.get(name, { account_id: accountId, ...params })
+			return result
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_bucket_locks_update',
+		description: 'Update locks for an R2 bucket',
+		params: { name: BucketNameSchema, params: LockUpdateParamsSchema },
+		title: 'Update R2 bucket locks',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ name, params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.r2.buckets.locks.update(name, {
+				account_id: accountId,
+				...params,
+			})
+			return result
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_bucket_temporary_credentials_create',
+		description: 'Create temporary credentials for an R2 bucket',
+		params: { params: TemporaryCredentialsCreateParamsSchema },
+		title: 'Create R2 temporary credentials',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: false,
+		},
+		handler: async ({ params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.r2.temporaryCredentials.create({
+				account_id: accountId,
+				...params,
+			})
+			return result
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_metrics_list',
+		description:
+			'List storage and object count metrics for the R2 buckets in your Cloudflare account',
+		params: {},
+		title: 'List R2 metrics',
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: async ({ accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.r2.buckets.metrics.list({ account_id: accountId })
+			return result
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_sippy_get',
+		description: 'Get configuration for sippy for an R2 bucket',
+		params: { bucketName: BucketNameSchema, params: SippyGetParamsSchema.optional() },
+		title: 'Get R2 Sippy configuration',
+		annotations: {
+			readOnlyHint: true,
+		},
+		handler: async ({ bucketName, params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.r2.buckets.sippy.get(bucketName, {
+				account_id: accountId,
+				...params,
+			})
+			return result ?? null
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_sippy_update',
+		description: 'Update configuration for sippy for an R2 bucket',
+		params: { bucketName: BucketNameSchema, params: SippyUpdateParamsSchema },
+		title: 'Update R2 Sippy configuration',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ bucketName, params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.r2.buckets.sippy.update(bucketName, {
+				account_id: accountId,
+				...params,
+			})
+			return result
+		},
+	})
+
+	registerTool(agent, {
+		name: 'r2_sippy_delete',
+		description: 'Delete sippy for an R2 bucket',
+		params: { bucketName: BucketNameSchema, params: SippyDeleteParamsSchema.optional() },
+		title: 'Delete R2 Sippy configuration',
+		annotations: {
+			readOnlyHint: false,
+			destructiveHint: true,
+		},
+		handler: async ({ bucketName, params, accountId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
+			const result = await client.r2.buckets.sippy.delete(bucketName, {
+				account_id: accountId,
+				...params,
+			})
+			return result
+		},
+	})
 }
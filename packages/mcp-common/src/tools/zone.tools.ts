@@ -2,14 +2,15 @@ import { z } from 'zod'
 
 import { handleZonesList } from '../api/zone.api'
 import { getCloudflareClient } from '../cloudflare-api'
+import { registerTool } from '../tool-registry'
 import { type CloudflareMcpAgent } from '../types/cloudflare-mcp-agent.types'
 
 export function registerZoneTools(agent: CloudflareMcpAgent) {
 	// Tool to list all zones under an account
-	agent.server.tool(
-		'zones_list',
-		'List all zones under a Cloudflare account',
-		{
+	registerTool(agent, {
+		name: 'zones_list',
+		description: 'List all zones under a Cloudflare account',
+		params: {
 			name: z.string().optional().describe('Filter zones by name'),
 			status: z
 				.string()
@@ -28,116 +29,51 @@ export function registerZoneTools(agent: CloudflareMcpAgent) {
 				.default('desc')
 				.describe('Direction to order results (asc, desc)'),
 		},
-		{
-			title: 'List zones',
-			annotations: {
-				readOnlyHint: true,
-				destructiveHint: false,
-			},
+		title: 'List zones',
+		annotations: {
+			readOnlyHint: true,
+			destructiveHint: false,
 		},
-		async (params) => {
-			const accountId = await agent.getActiveAccountId()
-			if (!accountId) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: 'No currently active accountId. Try listing your accounts (accounts_list) and then setting an active account (set_active_account)',
-						},
-					],
-				}
-			}
-
-			try {
-				const { page = 1, perPage = 50 } = params
+		handler: async ({ accountId, apiToken, ...params }) => {
+			const { page = 1, perPage = 50 } = params
 
-				const zones = await handleZonesList({
-					client: getCloudflareClient(agent.props.accessToken),
-					accountId,
-					...params,
-				})
+			const zones = await handleZonesList({
+				client: getCloudflareClient(apiToken),
+				accountId,
+				...params,
+			})
 
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify({
-								zones,
-								count: zones.length,
-								page,
-								perPage,
-								accountId,
-							}),
-						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error listing zones: ${error instanceof Error ? error.message : String(error)}`,
-						},
-					],
-				}
+			return {
+				zones,
+				count: zones.length,
+				page,
+				perPage,
+				accountId,
 			}
-		}
-	)
+		},
+	})
 
 	// Tool to get zone details by ID
-	agent.server.tool(
-		'zone_details',
-		'Get details for a specific Cloudflare zone',
-		{
+	registerTool(agent, {
+		name: 'zone_details',
+		description: 'Get details for a specific Cloudflare zone',
+		params: {
 			zoneId: z.string().describe('The ID of the zone to get details for'),
 		},
-		{
-			title: 'Get zone details',
-			annotations: {
-				readOnlyHint: true,
-				destructiveHint: false,
-			},
+		title: 'Get zone details',
+		annotations: {
+			readOnlyHint: true,
+			destructiveHint: false,
 		},
-		async (params) => {
-			const accountId = await agent.getActiveAccountId()
-			if (!accountId) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: 'No currently active accountId. Try listing your accounts (accounts_list) and then setting an active account (set_active_account)',
-						},
-					],
-				}
-			}
-
-			try {
-				const { zoneId } = params
-				const client = getCloudflareClient(agent.props.accessToken)
+		handler: async ({ zoneId, apiToken }) => {
+			const client = getCloudflareClient(apiToken)
 
-				// Use the zones.get method to fetch a specific zone
-				const response = await client.zones.get({ zone_id: zoneId })
+			// Use the zones.get method to fetch a specific zone
+			const response = await client.zones.get({ zone_id: zoneId })
 
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify({
-								zone: response,
-							}),
-						},
-					],
-				}
-			} catch (error) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Error fetching zone details: ${error instanceof Error ? error.message : String(error)}`,
-						},
-					],
-				}
+			return {
+				zone: response,
 			}
-		}
-	)
+		},
+	})
 }
@@ -3,9 +3,16 @@ import { type McpAgent } from 'agents/mcp'
 import type { AuthProps } from '../cloudflare-oauth-handler'
 import type { CloudflareMCPServer } from '../server'
 
-export type CloudflareMCPAgentState = { activeAccountId: string | null }
+export type CloudflareMCPAgentState = {
+	activeAccountId: string | null
+	// Set once the session switched D1 queries to read-only mode, see d1_read_only_mode_enable
+	d1ReadOnly?: boolean
+}
 
-export type CloudflareMCPAgentProps = AuthProps
+export type CloudflareMCPAgentProps = AuthProps & {
+	// Set from the X-MCP-D1-Read-Only header, see withD1ReadOnlyHeader
+	d1ReadOnly?: boolean
+}
 
 // We omit server in this type, so that we can later use our own CloudflareMCPServer type ( which extends McpServer )
 type McpAgentWithoutServer<EnvType = unknown> = Omit<
@@ -12,3 +12,81 @@ export const D1DatabasePrimaryLocationHintParam: z.ZodType<
 
 export const D1DatabaseQuerySqlParam = z.string()
 export const D1DatabaseQueryParamsParam = z.array(z.string()).optional()
+export const D1DatabaseQueryMaxRowsParam = z
+	.number()
+	.int()
+	.positive()
+	.optional()
+	.describe('Maximum number of rows to return per statement. Extra rows are dropped.')
+
+export const D1DatabaseSchemaTableParam = z
+	.string()
+	.optional()
+	.describe('Only return the schema of this table')
+
+export const D1MigrationParam = z.object({
+	name: z
+		.string()
+		.describe('Name of the migration, usually its file name (e.g. "0001_create_users.sql")'),
+	sql: z.string().describe('The SQL statements of the migration'),
+})
+export const D1MigrationsParam = z
+	.array(D1MigrationParam)
+	.min(1)
+	.describe('The migrations to apply, in the order they should be applied')
+export const D1MigrationsTableParam = z
+	.string()
+	.regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Must be a valid SQL identifier')
+	.default('d1_migrations')
+	.describe(
+		'Name of the table applied migrations are recorded in. Defaults to the wrangler default.'
+	)
+export const D1MigrationsDryRunParam = z
+	.boolean()
+	.default(false)
+	.describe('Only report which migrations are pending, without applying them')
+
+export const D1ExportTablesParam = z
+	.array(z.string())
+	.optional()
+	.describe('Only export these tables. Defaults to every table.')
+export const D1ExportNoDataParam = z
+	.boolean()
+	.default(false)
+	.describe('Only export the schema (CREATE statements), without any rows')
+export const D1ExportNoSchemaParam = z
+	.boolean()
+	.default(false)
+	.describe('Only export the rows (INSERT statements), without the schema')
+
+export const D1ImportSqlParam = z
+	.string()
+	.min(1)
+	.describe('Contents of the SQL file to import, e.g. a dump produced by d1_database_export')
+
+export const D1TimeTravelTimestampsParam = z
+	.array(z.string().datetime({ offset: true }))
+	.optional()
+	.describe(
+		'RFC3339 timestamps to get bookmarks for, within the last 30 days. Defaults to the current time.'
+	)
+export const D1TimeTravelBookmarkParam = z
+	.string()
+	.optional()
+	.describe(
+		'Bookmark to restore the database to, as returned by d1_database_time_travel_bookmarks_list'
+	)
+export const D1TimeTravelTimestampParam = z
+	.string()
+	.datetime({ offset: true })
+	.optional()
+	.describe('RFC3339 timestamp to restore the database to, within the last 30 days')
+
+export const D1TimeTravelBookmarkResult = z.object({
+	bookmark: z.string(),
+})
+export const D1TimeTravelRestoreResult = z.object({
+	bookmark: z.string(),
+	previous_bookmark: z.string().optional(),
+	message: z.string().optional(),
+})
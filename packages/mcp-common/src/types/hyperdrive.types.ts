@@ -22,11 +22,28 @@ export const HyperdriveConfigNameSchema: z.ZodType<ConfigCreateParams['name']> =
 /** Zod schema for the origin database name. */
 export const HyperdriveOriginDatabaseSchema: z.ZodType<
 	ConfigCreateParams.PublicDatabase['database']
-> = z.string().describe('The database name')
+> = z.string().min(1).describe('The database name')
 /** Zod schema for the origin database host. */
 export const HyperdriveOriginHostSchema: z.ZodType<ConfigCreateParams.PublicDatabase['host']> = z
 	.string()
-	.describe('The database host address')
+	.min(1)
+	.refine(
+		(host) => !host.includes('://'),
+		'The host must not include a scheme, use the scheme field'
+	)
+	.refine(
+		(host) => !/[/@\s]/.test(host),
+		'The host must be a hostname or IP address, without a user, path or whitespace'
+	)
+	.refine(
+		(host) => !/^[^:]+:\d+$/.test(host),
+		'The host must not include a port, use the port field'
+	)
+	.refine(
+		(host) => !/^(localhost|127\.\d+\.\d+\.\d+|::1|0\.0\.0\.0)$/i.test(host),
+		'The host must be reachable from the public internet, Hyperdrive cannot connect to localhost'
+	)
+	.describe('The database host address, e.g. "db.example.com"')
 /** Zod schema for the origin database port. */
 export const HyperdriveOriginPortSchema: z.ZodType<ConfigCreateParams.PublicDatabase['port']> = z
 	.number()
@@ -40,11 +57,12 @@ export const HyperdriveOriginSchemeSchema: z.ZodType<ConfigCreateParams.PublicDa
 /** Zod schema for the origin database user. */
 export const HyperdriveOriginUserSchema: z.ZodType<ConfigCreateParams.PublicDatabase['user']> = z
 	.string()
+	.min(1)
 	.describe('The database user')
 /** Zod schema for the origin database password. */
 export const HyperdriveOriginPasswordSchema: z.ZodType<
 	ConfigCreateParams.PublicDatabase['password']
-> = z.string().describe('The database password')
+> = z.string().min(1).describe('The database password. It is never included in tool responses.')
 
 // --- Caching Field Schemas (Referencing ConfigCreateParams.HyperdriveHyperdriveCachingEnabled) ---
 
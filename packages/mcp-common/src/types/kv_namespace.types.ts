@@ -8,6 +8,8 @@ import type {
 	NamespaceListParams,
 	NamespaceUpdateParams,
 } from 'cloudflare/resources/kv.mjs'
+import type { KeyListParams } from 'cloudflare/resources/kv/namespaces/keys.mjs'
+import type { NamespaceBulkUpdateParams } from 'cloudflare/resources/kv/namespaces/namespaces.mjs'
 
 /**
  * Zod schema for a KV namespace ID.
@@ -80,3 +82,76 @@ export const KvNamespaceUpdateParamsSchema: z.ZodType<Omit<NamespaceUpdateParams
 		title: KvNamespaceTitleSchema,
 	})
 	.describe('Parameters for updating a KV namespace')
+
+/**
+ * Zod schema for a key in a KV namespace.
+ */
+export const KvKeyNameSchema: z.ZodType<NonNullable<NamespaceBulkUpdateParams.Body['key']>> = z
+	.string()
+	.min(1)
+	.max(512)
+	.describe('The name of the key. May be at most 512 bytes.')
+
+/**
+ * Zod schema for the optional parameters when listing keys in a KV namespace.
+ */
+export const KvKeysListParamsSchema: z.ZodType<Omit<KeyListParams, 'account_id'>> = z
+	.object({
+		prefix: z.string().optional().describe('Only return keys that begin with this prefix'),
+		cursor: z
+			.string()
+			.optional()
+			.describe('Opaque cursor returned by the previous list call, used to fetch the next page'),
+		limit: z
+			.number()
+			.int()
+			.min(10)
+			.max(1000)
+			.optional()
+			.describe('Number of keys to return (10-1000, defaults to 1000)'),
+	})
+	.describe('Optional parameters for listing keys in a KV namespace')
+
+/**
+ * Zod schema for how a KV value should be decoded when it is read.
+ */
+export const KvValueFormatSchema = z
+	.enum(['auto', 'text', 'json', 'binary'])
+	.default('auto')
+	.describe(
+		'How to return the value. "auto" returns valid UTF-8 as text and anything else as a base64 resource. "json" parses and pretty-prints the value. "binary" always returns a base64 resource.'
+	)
+
+/**
+ * Zod schema for the expiration TTL of a KV value.
+ */
+export const KvExpirationTtlSchema: z.ZodType<NamespaceBulkUpdateParams.Body['expiration_ttl']> = z
+	.number()
+	.int()
+	.min(60)
+	.optional()
+	.describe('Number of seconds for which the key should be visible before it expires (at least 60)')
+
+/**
+ * Zod schema for the metadata stored alongside a KV value.
+ */
+export const KvMetadataSchema: z.ZodType<NamespaceBulkUpdateParams.Body['metadata']> = z
+	.record(z.unknown())
+	.optional()
+	.describe('Arbitrary JSON metadata to associate with the key (at most 1024 bytes serialized)')
+
+/**
+ * Zod schema for a single KV entry to write.
+ */
+export const KvEntrySchema = z
+	.object({
+		key: KvKeyNameSchema,
+		value: z.string().describe('The value to store, as UTF-8 text or base64 encoded bytes'),
+		base64: z
+			.boolean()
+			.optional()
+			.describe('Whether the value is base64 encoded and should be decoded before it is stored'),
+		expiration_ttl: KvExpirationTtlSchema,
+		metadata: KvMetadataSchema,
+	})
+	.describe('A key-value pair to write to a KV namespace')
@@ -416,3 +416,63 @@ export const SippyDeleteParamsSchema: z.ZodType<Omit<SippyDeleteParams, 'account
 		jurisdiction: JurisdictionEnum.optional(),
 	})
 	.describe('Parameters to delete Sippy for an R2 bucket')
+
+// OBJECT ZOD SCHEMAS
+export const ObjectKeySchema = z.string().describe('The key (path) of the object in the r2 bucket')
+
+export const ObjectListPrefixParam = z
+	.string()
+	.optional()
+	.describe('Only return objects whose keys start with this prefix')
+export const ObjectListDelimiterParam = z
+	.string()
+	.optional()
+	.describe(
+		'Character used to group keys, usually "/". Keys sharing a prefix up to the delimiter are rolled up into "delimited" prefixes, like directories.'
+	)
+export const ObjectListCursorParam = z
+	.string()
+	.optional()
+	.describe('Pagination cursor received during the last list objects call')
+export const ObjectListPerPageParam = z
+	.number()
+	.int()
+	.min(1)
+	.max(1000)
+	.optional()
+	.describe('Maximum number of objects to return (1-1000)')
+
+export const ObjectContentSchema = z
+	.string()
+	.describe('The object contents, either as plain text or base64 encoded bytes')
+export const ObjectContentEncodingSchema = z
+	.enum(['text', 'base64'])
+	.default('text')
+	.describe('How the provided content is encoded. Use base64 for binary data.')
+export const ObjectContentTypeSchema = z
+	.string()
+	.optional()
+	.describe('The MIME type of the object. If omitted, it is inferred from the key extension.')
+
+export type R2ObjectSchema = z.infer<typeof R2ObjectSchema>
+export const R2ObjectSchema = z.object({
+	key: z.string(),
+	size: z.number().optional(),
+	etag: z.string().optional(),
+	last_modified: z.string().optional(),
+	storage_class: z.string().optional(),
+	http_metadata: z
+		.object({
+			contentType: z.string().optional(),
+		})
+		.passthrough()
+		.optional(),
+	custom_metadata: z.record(z.string()).optional(),
+})
+
+export type R2ObjectListResultInfo = z.infer<typeof R2ObjectListResultInfo>
+export const R2ObjectListResultInfo = z.object({
+	cursor: z.string().optional(),
+	is_truncated: z.boolean().optional(),
+	delimited: z.array(z.string()).optional(),
+})
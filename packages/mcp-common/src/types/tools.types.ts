@@ -1,12 +1,26 @@
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
+import type {
+	ServerNotification,
+	ServerRequest,
+	ToolAnnotations,
+} from '@modelcontextprotocol/sdk/types.js'
 import type { z } from 'zod'
 
+export type ToolHandlerExtra = RequestHandlerExtra<ServerRequest, ServerNotification>
+
+/**
+ * Handles a tool call. The result is returned to the client as JSON, unless it already is a CallToolResult.
+ */
 export type ToolHandler<T extends Record<string, any>> = (
-	params: T & { accountId: string | null; apiToken: string }
+	params: T & { accountId: string; apiToken: string },
+	extra?: ToolHandlerExtra
 ) => Promise<any>
 
 export interface ToolDefinition<T extends Record<string, any>> {
 	name: string
 	description: string
 	params: Record<string, z.ZodType>
+	title?: string
+	annotations?: ToolAnnotations
 	handler: ToolHandler<T>
 }
@@ -1,5 +1,45 @@
 import { z } from 'zod'
 
+export type BuildTrigger = z.infer<typeof BuildTrigger>
+export const BuildTrigger = z.object({
+	trigger_uuid: z.string(),
+	external_script_id: z.string(),
+	trigger_name: z.string(),
+	build_command: z.string(),
+	deploy_command: z.string(),
+	root_directory: z.string(),
+	branch_includes: z.array(z.string()),
+	branch_excludes: z.array(z.string()),
+	path_includes: z.array(z.string()),
+	path_excludes: z.array(z.string()),
+	build_caching_enabled: z.boolean(),
+	created_on: z.coerce.date(),
+	modified_on: z.coerce.date(),
+	deleted_on: z.coerce.date().nullable(),
+	repo_connection: z.object({
+		repo_connection_uuid: z.string(),
+		repo_id: z.string(),
+		repo_name: z.string(),
+		provider_type: z.string(),
+		provider_account_id: z.string(),
+		provider_account_name: z.string(),
+		created_on: z.coerce.date(),
+		modified_on: z.coerce.date(),
+		deleted_on: z.coerce.date().nullable(),
+	}),
+})
+
+export type BuildEnvironmentVariables = z.infer<typeof BuildEnvironmentVariables>
+export const BuildEnvironmentVariables = z.record(
+	z.string(),
+	z.object({
+		is_secret: z.boolean(),
+		created_on: z.coerce.date(),
+		// Secret values are not returned
+		value: z.string().nullable(),
+	})
+)
+
 export type BuildDetails = z.infer<typeof BuildDetails>
 export const BuildDetails = z.object({
 	// TODO: Maybe remove fields we don't need to reduce surface area of things we need to update
@@ -11,33 +51,7 @@ export const BuildDetails = z.object({
 	initializing_on: z.coerce.date().nullable(),
 	running_on: z.coerce.date().nullable(),
 	stopped_on: z.coerce.date().nullable(),
-	trigger: z.object({
-		trigger_uuid: z.string(),
-		external_script_id: z.string(),
-		trigger_name: z.string(),
-		build_command: z.string(),
-		deploy_command: z.string(),
-		root_directory: z.string(),
-		branch_includes: z.array(z.string()),
-		branch_excludes: z.array(z.string()),
-		path_includes: z.array(z.string()),
-		path_excludes: z.array(z.string()),
-		build_caching_enabled: z.boolean(),
-		created_on: z.coerce.date(),
-		modified_on: z.coerce.date(),
-		deleted_on: z.coerce.date().nullable(),
-		repo_connection: z.object({
-			repo_connection_uuid: z.string(),
-			repo_id: z.string(),
-			repo_name: z.string(),
-			provider_type: z.string(),
-			provider_account_id: z.string(),
-			provider_account_name: z.string(),
-			created_on: z.coerce.date(),
-			modified_on: z.coerce.date(),
-			deleted_on: z.coerce.date().nullable(),
-		}),
-	}),
+	trigger: BuildTrigger,
 	build_trigger_metadata: z.object({
 		build_trigger_source: z.string(),
 		branch: z.string(),
@@ -48,14 +62,7 @@ export const BuildDetails = z.object({
 		deploy_command: z.string(),
 		root_directory: z.string(),
 		build_token_uuid: z.string(),
-		environment_variables: z.record(
-			z.string(),
-			z.object({
-				is_secret: z.boolean(),
-				created_on: z.coerce.date(),
-				value: z.string().nullable(),
-			})
-		),
+		environment_variables: BuildEnvironmentVariables,
 		repo_name: z.string(),
 		provider_account_name: z.string(),
 		provider_type: z.string(),
@@ -94,3 +101,47 @@ export const GetBuildLogsResult = z.object({
 	truncated: z.boolean(),
 	lines: z.array(LogLine),
 })
+
+/**
+ * GET /builds/workers/:external_script_id/triggers
+ */
+export type ListBuildTriggersResult = z.infer<typeof ListBuildTriggersResult>
+export const ListBuildTriggersResult = z.array(BuildTrigger)
+
+/**
+ * PATCH /builds/triggers/:trigger_uuid
+ */
+export type UpdateBuildTriggerParams = z.infer<typeof UpdateBuildTriggerParams>
+export const UpdateBuildTriggerParams = BuildTrigger.pick({
+	trigger_name: true,
+	build_command: true,
+	deploy_command: true,
+	root_directory: true,
+	branch_includes: true,
+	branch_excludes: true,
+	path_includes: true,
+	path_excludes: true,
+	build_caching_enabled: true,
+}).partial()
+
+/**
+ * POST /builds/triggers/:trigger_uuid/builds
+ */
+export type CreateBuildResult = z.infer<typeof CreateBuildResult>
+export const CreateBuildResult = z.object({
+	build_uuid: z.string(),
+})
+
+/**
+ * PATCH /builds/triggers/:trigger_uuid/environment_variables
+ */
+export type UpdateBuildEnvironmentVariablesParams = z.infer<
+	typeof UpdateBuildEnvironmentVariablesParams
+>
+export const UpdateBuildEnvironmentVariablesParams = z.record(
+	z.string(),
+	z.object({
+		value: z.string(),
+		is_secret: z.boolean(),
+	})
+)
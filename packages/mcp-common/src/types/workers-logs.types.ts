@@ -442,6 +442,17 @@ export const zReturnedQueryRunResult = z.object({
 	statistics: zStatistics,
 })
 
+/**
+ * A named query saved by a user. The timeframe is chosen when the query is run.
+ */
+export type SavedObservabilityQuery = z.infer<typeof zSavedObservabilityQuery>
+export const zSavedObservabilityQuery = z.object({
+	name: z.string(),
+	description: z.string().optional(),
+	query: zQueryRunRequest.omit({ timeframe: true }),
+	savedAt: z.string(),
+})
+
 /**
  * Keys Request
  */
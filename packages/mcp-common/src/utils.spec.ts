@@ -1,6 +1,13 @@
 import { describe, expect, it } from 'vitest'
 
-import { nowISO, parseRelativeTime } from './utils'
+import {
+	fromBase64,
+	guessMimeType,
+	isTextMimeType,
+	nowISO,
+	parseRelativeTime,
+	toBase64,
+} from './utils'
 
 describe('parseRelativeTime', () => {
 	it('parses positive relative time correctly', () => {
@@ -33,3 +40,43 @@ describe('nowISO', () => {
 		expect(nowISO()).toMatch(isoRegex)
 	})
 })
+
+describe('guessMimeType', () => {
+	it('guesses the MIME type from the file extension', () => {
+		expect(guessMimeType('index.html')).toBe('text/html')
+		expect(guessMimeType('data/report.JSON')).toBe('application/json')
+		expect(guessMimeType('images/cat.png')).toBe('image/png')
+	})
+
+	it('falls back to application/octet-stream', () => {
+		expect(guessMimeType('README')).toBe('application/octet-stream')
+		expect(guessMimeType('dir.with.dots/file')).toBe('application/octet-stream')
+		expect(guessMimeType('.gitignore')).toBe('application/octet-stream')
+		expect(guessMimeType('archive.unknown')).toBe('application/octet-stream')
+	})
+})
+
+describe('isTextMimeType', () => {
+	it('treats text and structured text types as text', () => {
+		expect(isTextMimeType('text/plain')).toBe(true)
+		expect(isTextMimeType('text/html; charset=utf-8')).toBe(true)
+		expect(isTextMimeType('application/json')).toBe(true)
+		expect(isTextMimeType('application/ld+json')).toBe(true)
+		expect(isTextMimeType('image/svg+xml')).toBe(true)
+	})
+
+	it('treats everything else as binary', () => {
+		expect(isTextMimeType('image/png')).toBe(false)
+		expect(isTextMimeType('application/octet-stream')).toBe(false)
+		expect(isTextMimeType('application/zip')).toBe(false)
+	})
+})
+
+describe('toBase64 / fromBase64', () => {
+	it('round trips binary data', () => {
+		const bytes = new Uint8Array([0, 1, 2, 253, 254, 255])
+		const encoded = toBase64(bytes.buffer)
+		expect(encoded).toBe('AAEC/f7/')
+		expect(fromBase64(encoded)).toEqual(bytes)
+	})
+})
@@ -38,3 +38,94 @@ export function parseRelativeTime(input: string): number {
 export function nowISO(): string {
 	return new Date().toISOString().split('.')[0] + 'Z'
 }
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+	txt: 'text/plain',
+	md: 'text/markdown',
+	csv: 'text/csv',
+	tsv: 'text/tab-separated-values',
+	html: 'text/html',
+	htm: 'text/html',
+	css: 'text/css',
+	js: 'text/javascript',
+	mjs: 'text/javascript',
+	ts: 'text/typescript',
+	json: 'application/json',
+	xml: 'application/xml',
+	yaml: 'application/yaml',
+	yml: 'application/yaml',
+	toml: 'application/toml',
+	sql: 'application/sql',
+	svg: 'image/svg+xml',
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	gif: 'image/gif',
+	webp: 'image/webp',
+	ico: 'image/x-icon',
+	pdf: 'application/pdf',
+	zip: 'application/zip',
+	gz: 'application/gzip',
+	tar: 'application/x-tar',
+	wasm: 'application/wasm',
+	mp3: 'audio/mpeg',
+	mp4: 'video/mp4',
+	parquet: 'application/vnd.apache.parquet',
+}
+
+/**
+ * Guess the MIME type of a file from the extension in its name or key
+ */
+export function guessMimeType(name: string): string {
+	const fileName = name.split('/').pop() ?? ''
+	const dotIndex = fileName.lastIndexOf('.')
+	if (dotIndex <= 0) {
+		return 'application/octet-stream'
+	}
+	const extension = fileName.slice(dotIndex + 1).toLowerCase()
+	return MIME_TYPES_BY_EXTENSION[extension] ?? 'application/octet-stream'
+}
+
+/**
+ * Whether content with the given MIME type can safely be returned to the model as text
+ */
+export function isTextMimeType(mimeType: string): boolean {
+	const essence = mimeType.split(';')[0].trim().toLowerCase()
+	return (
+		essence.startsWith('text/') ||
+		essence.endsWith('+json') ||
+		essence.endsWith('+xml') ||
+		[
+			'application/json',
+			'application/xml',
+			'application/yaml',
+			'application/toml',
+			'application/sql',
+			'application/javascript',
+		].includes(essence)
+	)
+}
+
+/**
+ * Encode binary data as a base64 string
+ */
+export function toBase64(buffer: ArrayBuffer): string {
+	const bytes = new Uint8Array(buffer)
+	let binary = ''
+	for (let i = 0; i < bytes.length; i++) {
+		binary += String.fromCharCode(bytes[i])
+	}
+	return btoa(binary)
+}
+
+/**
+ * Decode a base64 string into binary data
+ */
+export function fromBase64(base64: string): Uint8Array {
+	const binary = atob(base64)
+	const bytes = new Uint8Array(binary.length)
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i)
+	}
+	return bytes
+}
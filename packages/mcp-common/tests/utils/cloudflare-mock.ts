@@ -1,6 +1,12 @@
 import { vi } from 'vitest'
 
 import type { Account } from 'cloudflare/resources/accounts/accounts.mjs'
+import type {
+	DatabaseExportResponse,
+	DatabaseImportResponse,
+} from 'cloudflare/resources/d1/database.mjs'
+import type { Hyperdrive } from 'cloudflare/resources/hyperdrive/hyperdrive.mjs'
+import type { getCloudflareClient } from '../../src/cloudflare-api'
 
 /**
  * Creates a mocked implementation of the Cloudflare client
@@ -20,5 +26,131 @@ export const cloudflareClientMockImplementation = () => {
 				}
 			}),
 		},
+		d1: {
+			database: {
+				query: vi.fn(async (_databaseId: string, _params: { sql: string; params?: string[] }) => ({
+					result: [{ results: [] as unknown[], success: true }],
+				})),
+				export: vi.fn(
+					async (): Promise<DatabaseExportResponse> => ({
+						at_bookmark: 'mock-bookmark',
+						status: 'complete',
+						success: true,
+						result: { filename: 'mock-db.sql', signed_url: 'https://example.com/mock-db.sql' },
+					})
+				),
+				import: vi.fn(
+					async (): Promise<DatabaseImportResponse> => ({
+						at_bookmark: 'mock-bookmark',
+						filename: 'mock-upload.sql',
+						status: 'complete',
+						success: true,
+						result: { num_queries: 1, final_bookmark: 'mock-final-bookmark' },
+					})
+				),
+			},
+		},
+		hyperdrive: {
+			configs: {
+				create: vi.fn(async (params: { name: string; origin: object }) => ({
+					id: 'mock-hyperdrive-id',
+					...params,
+				})),
+				get: vi.fn(
+					async (): Promise<Hyperdrive> => ({
+						id: 'mock-hyperdrive-id',
+						name: 'mock-hyperdrive',
+						origin: {
+							database: 'postgres',
+							host: 'db.example.com',
+							port: 5432,
+							scheme: 'postgresql',
+							user: 'admin',
+						},
+					})
+				),
+			},
+		},
+		kv: {
+			namespaces: {
+				bulkUpdate: vi.fn(async () => ({ successful_key_count: 1, unsuccessful_keys: [] })),
+				bulkDelete: vi.fn(async () => ({ successful_key_count: 1, unsuccessful_keys: [] })),
+				keys: {
+					list: vi.fn(async () => ({
+						result: [{ name: 'config', metadata: { owner: 'mock-user' } }],
+						result_info: { count: 1, cursor: '' },
+					})),
+				},
+				values: {
+					get: vi.fn(async () => new Response('{"enabled":true}')),
+					delete: vi.fn(async () => null),
+				},
+			},
+		},
+		r2: {
+			buckets: {
+				cors: {
+					get: vi.fn(async () => ({
+						rules: [{ allowed: { methods: ['GET'], origins: ['https://example.com'] } }],
+					})),
+					update: vi.fn(async () => ({})),
+					delete: vi.fn(async () => ({})),
+				},
+				domains: {
+					custom: {
+						list: vi.fn(async () => ({
+							domains: [{ domain: 'assets.example.com', enabled: true, zoneId: 'mock-zone-id' }],
+						})),
+						get: vi.fn(async () => ({
+							domain: 'assets.example.com',
+							enabled: true,
+							zoneId: 'mock-zone-id',
+						})),
+						create: vi.fn(async () => ({ domain: 'assets.example.com', enabled: true })),
+						update: vi.fn(async () => ({ domain: 'assets.example.com', enabled: false })),
+						delete: vi.fn(async () => ({ domain: 'assets.example.com' })),
+					},
+				},
+				eventNotifications: {
+					get: vi.fn(async () => ({
+						bucketName: 'mock-bucket',
+						queues: [{ queueId: 'mock-queue-id', rules: [{ actions: ['PutObject'] }] }],
+					})),
+					update: vi.fn(async () => ({})),
+					delete: vi.fn(async () => ({})),
+				},
+				locks: {
+					get: vi.fn(async () => ({ rules: [] })),
+					update: vi.fn(async () => ({})),
+				},
+				metrics: {
+					list: vi.fn(async () => ({
+						standard: { published: { objects: 1, payloadSize: 10, metadataSize: 1 } },
+					})),
+				},
+				sippy: {
+					get: vi.fn(async () => ({ enabled: false })),
+					update: vi.fn(async () => ({ enabled: true })),
+					delete: vi.fn(async () => ({ enabled: false })),
+				},
+			},
+			temporaryCredentials: {
+				create: vi.fn(async () => ({
+					accessKeyId: 'mock-access-key-id',
+					secretAccessKey: 'mock-secret-access-key',
+					sessionToken: 'mock-session-token',
+				})),
+			},
+		},
 	}
 }
+
+/**
+ * Makes the mocked getCloudflareClient of a spec return a mocked client. The mock only implements
+ * the methods the tools call, so it's only cast to the client's type here.
+ */
+export function mockCloudflareClient(getClient: typeof getCloudflareClient) {
+	const client = cloudflareClientMockImplementation()
+	vi.mocked(getClient).mockReturnValue(client as unknown as ReturnType<typeof getCloudflareClient>)
+	return client
+}
@@ -0,0 +1,102 @@
+import { vi } from 'vitest'
+import { z } from 'zod'
+
+import type { CallToolResult, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js'
+import type { ZodRawShape } from 'zod'
+import type {
+	CloudflareMcpAgent,
+	CloudflareMCPAgentState,
+} from '../../src/types/cloudflare-mcp-agent.types'
+
+type MockToolCallback = (args: Record<string, unknown>, extra: unknown) => Promise<CallToolResult>
+
+export type MockRegisteredTool = {
+	description?: string
+	paramsSchema?: ZodRawShape
+	annotations?: ToolAnnotations
+	callback: MockToolCallback
+}
+
+function isZodRawShape(value: unknown): value is ZodRawShape {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		Object.values(value).every((field) => field instanceof z.ZodType)
+	)
+}
+
+/**
+ * Creates a minimal agent that records the tools registered on its server, so they can be called
+ * directly in tests without going through an MCP transport
+ */
+export function createMockAgent({
+	accountId = 'mock-account-id',
+	accessToken = 'mock-api-token',
+	d1ReadOnly,
+}: {
+	accountId?: string | null
+	accessToken?: string
+	d1ReadOnly?: boolean
+} = {}) {
+	const tools = new Map<string, MockRegisteredTool>()
+
+	const server = {
+		tool: vi.fn((name: string, ...rest: unknown[]) => {
+			const description = typeof rest[0] === 'string' ? (rest.shift() as string) : undefined
+			const callback = rest.pop() as MockToolCallback
+			let paramsSchema: ZodRawShape | undefined
+			let annotations: ToolAnnotations | undefined
+			if (rest.length === 2) {
+				paramsSchema = rest[0] as ZodRawShape
+				annotations = rest[1] as ToolAnnotations
+			} else if (rest.length === 1) {
+				if (isZodRawShape(rest[0])) {
+					paramsSchema = rest[0]
+				} else {
+					annotations = rest[0] as ToolAnnotations
+				}
+			}
+			tools.set(name, { description, paramsSchema, annotations, callback })
+		}),
+		recordError: vi.fn(),
+	}
+
+	let state: CloudflareMCPAgentState = { activeAccountId: accountId }
+	const agent = {
+		server,
+		props: {
+			type: 'user_token',
+			accessToken,
+			user: { id: 'mock-user-id', email: 'user@example.com' },
+			accounts: [{ id: 'mock-account-id', name: 'mock-account-name' }],
+			d1ReadOnly,
+		},
+		get state() {
+			return state
+		},
+		setState: vi.fn((newState: CloudflareMCPAgentState) => {
+			state = newState
+		}),
+		getActiveAccountId: vi.fn(async () => accountId),
+		setActiveAccountId: vi.fn(async () => {}),
+	} as unknown as CloudflareMcpAgent
+
+	/**
+	 * Validates the arguments against the tool's params schema and calls it
+	 */
+	async function callTool(name: string, args: Record<string, unknown> = {}) {
+		const tool = tools.get(name)
+		if (!tool) {
+			throw new Error(`Tool ${name} is not registered`)
+		}
+		const parsedArgs = z.object(tool.paramsSchema ?? {}).parse(args)
+		return tool.callback(parsedArgs, {
+			signal: new AbortController().signal,
+			sendNotification: vi.fn(),
+			sendRequest: vi.fn(),
+			requestId: 1,
+		})
+	}
+
+	return { agent, tools, callTool }
+}
@@ -7,6 +7,20 @@ export interface TestEnv {
 
 export default defineWorkersProject({
 	test: {
+		deps: {
+			optimizer: {
+				ssr: {
+					// The MCP SDK imports ajv, which requires JSON files that the Workers runtime can't load
+					// unless they're bundled
+					enabled: true,
+					include: [
+						'@modelcontextprotocol/sdk/client/index.js',
+						'@modelcontextprotocol/sdk/inMemory.js',
+						'@modelcontextprotocol/sdk/server/mcp.js',
+					],
+				},
+			},
+		},
 		poolOptions: {
 			workers: {
 				singleWorker: true,